@@ -16,6 +16,10 @@ import Settings from "@/pages/Settings";
 import FrontDesk from "@/pages/FrontDesk";
 import RoomStatus from "@/pages/RoomStatus";
 import DailyReset from "@/pages/DailyReset";
+import WorkOrders from "@/pages/WorkOrders";
+import PreventiveMaintenance from "@/pages/PreventiveMaintenance";
+import LostFound from "@/pages/LostFound";
+import Schedule from "@/pages/Schedule";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -72,6 +76,26 @@ function Router() {
           <DailyReset />
         </Layout>
       )} />
+      <Route path="/work-orders" component={() => (
+        <Layout>
+          <WorkOrders />
+        </Layout>
+      )} />
+      <Route path="/pm" component={() => (
+        <Layout>
+          <PreventiveMaintenance />
+        </Layout>
+      )} />
+      <Route path="/lost-found" component={() => (
+        <Layout>
+          <LostFound />
+        </Layout>
+      )} />
+      <Route path="/schedule" component={() => (
+        <Layout>
+          <Schedule />
+        </Layout>
+      )} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { History, Download, ChevronDown, ChevronRight } from "lucide-react";
+import type { AuditChanges, AuditLog, User } from "@shared/schema";
+
+const ENTITY_TYPES = [
+  { value: "user", label: "Users" },
+  { value: "room", label: "Rooms" },
+  { value: "task", label: "Tasks" },
+  { value: "inspection", label: "Inspections" },
+  { value: "inspection_template", label: "Inspection Templates" },
+  { value: "work_order", label: "Work Orders" },
+  { value: "pm_template", label: "PM Templates" },
+  { value: "pm_instance", label: "PM Instances" },
+  { value: "lost_found_item", label: "Lost & Found" },
+  { value: "room_comment", label: "Room Comments" },
+  { value: "room_assignment", label: "Room Assignments" },
+  { value: "shift", label: "Shifts" },
+  { value: "reservation", label: "Reservations" },
+  { value: "pms_sync", label: "PMS Sync" },
+  { value: "panic_event", label: "Panic Events" },
+  { value: "daily_reset", label: "Daily Reset" },
+  { value: "setting", label: "Settings" },
+];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+function ChangesTable({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          <th className="py-1 pr-4 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => (
+          <tr key={field} className="align-top">
+            <td className="py-1 pr-4 font-mono">{field}</td>
+            <td className="py-1 pr-4 break-all text-red-700">{formatValue(changes[field].from)}</td>
+            <td className="py-1 break-all text-green-700">{formatValue(changes[field].to)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AuditLogSettings() {
+  const [entityType, setEntityType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [action, setAction] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (actorId !== "all") params.set("actorId", actorId);
+  if (action.trim()) params.set("action", action.trim());
+  if (dateFrom) params.set("dateFrom", new Date(`${dateFrom}T00:00:00`).toISOString());
+  if (dateTo) params.set("dateTo", new Date(`${dateTo}T23:59:59`).toISOString());
+
+  const { data: entries = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: [`/api/admin/audit?${params.toString()}`],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const exportEntries = () => {
+    const headers = "Timestamp,User,Entity Type,Entity ID,Action,Method,Path,Changes";
+    const rows = entries.map(entry => [
+      entry.createdAt ? new Date(entry.createdAt).toISOString() : "",
+      entry.actorName || "System",
+      entry.entityType,
+      entry.entityId || "",
+      entry.action,
+      entry.method,
+      entry.path,
+      entry.changes ? JSON.stringify(entry.changes) : "",
+    ].map(csvField).join(","));
+
+    const csv = [headers, ...rows].join("\n");
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Audit Log
+          </CardTitle>
+          <Button variant="outline" onClick={exportEntries} disabled={entries.length === 0} data-testid="export-audit-log">
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label>Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger data-testid="audit-filter-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {ENTITY_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>User</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger data-testid="audit-filter-user">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Input
+              placeholder="e.g. update, delete"
+              value={action}
+              onChange={(e) => setAction(e.target.value)}
+              data-testid="audit-filter-action"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-8 bg-muted rounded"></div>
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No audit entries match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-2"></th>
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">User</th>
+                  <th className="py-2 pr-4 font-medium">Entity</th>
+                  <th className="py-2 pr-4 font-medium">Action</th>
+                  <th className="py-2 font-medium">Request</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const changes = entry.changes as AuditChanges | null;
+                  return [
+                    <tr
+                      key={entry.id}
+                      className="border-b cursor-pointer hover:bg-muted/50"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      data-testid={`audit-entry-${entry.id}`}
+                    >
+                      <td className="py-2 pr-2">
+                        {changes && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {entry.createdAt ? format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss") : ""}
+                      </td>
+                      <td className="py-2 pr-4">{entry.actorName || "System"}</td>
+                      <td className="py-2 pr-4">
+                        <div>{entry.entityType.replace(/_/g, " ")}</div>
+                        {entry.entityId && (
+                          <div className="text-xs text-muted-foreground font-mono">{entry.entityId}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                          {entry.action.replace(/_/g, " ")}
+                        </Badge>
+                      </td>
+                      <td className="py-2 text-xs font-mono text-muted-foreground">
+                        {entry.method} {entry.path}
+                      </td>
+                    </tr>,
+                    isExpanded && changes && (
+                      <tr key={`${entry.id}-changes`} className="border-b bg-muted/30">
+                        <td></td>
+                        <td colSpan={5} className="py-3">
+                          <ChangesTable changes={changes} />
+                        </td>
+                      </tr>
+                    ),
+                  ];
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
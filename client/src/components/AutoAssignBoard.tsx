@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Wand2, RefreshCw, Save, X } from "lucide-react";
+import type { BoardAssignment, BoardPlan, BoardRoom, CleanType, CleanTypeMinutes, OnDutyStaff, RoomType, User } from "@shared/schema";
+
+const CLEAN_TYPES: Array<{ key: CleanType; label: string }> = [
+  { key: "stayover", label: "Stayover" },
+  { key: "checkout", label: "Checkout" },
+  { key: "deep_clean", label: "Deep Clean" },
+];
+
+// Recomputes an attendant's totals after the supervisor moves or changes rooms
+function summarize(assignment: BoardAssignment, rooms: BoardRoom[]): BoardAssignment {
+  const floors = rooms.map(room => room.floor).filter((floor): floor is number => floor !== null);
+  return {
+    ...assignment,
+    rooms,
+    totalMinutes: rooms.reduce((sum, room) => sum + room.expectedMinutes, 0),
+    totalCredits: rooms.reduce((sum, room) => sum + room.credits, 0),
+    floors: floors.filter((floor, index) => floors.indexOf(floor) === index).sort((a, b) => a - b),
+  };
+}
+
+export default function AutoAssignBoard() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  // null until the supervisor changes the selection; defaults to the room attendants on duty
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [balanceBy, setBalanceBy] = useState<BoardPlan["balanceBy"]>("minutes");
+  const [plan, setPlan] = useState<BoardPlan | null>(null);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+    enabled: open,
+  });
+
+  const { data: onDuty = [] } = useQuery<OnDutyStaff[]>({
+    queryKey: ["/api/shifts/on-duty"],
+    enabled: open,
+  });
+
+  const isOnDuty = (userId: string) => onDuty.some(staff => staff.userId === userId);
+  const attendants = users.filter(u => u.role !== "site_admin");
+  const attendantIds = selectedIds ?? attendants.filter(u => u.role === "room_attendant" && isOnDuty(u.id)).map(u => u.id);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/board/auto-assign/preview", { attendantIds, balanceBy });
+      return response.json() as Promise<BoardPlan>;
+    },
+    onSuccess: (data) => setPlan(data),
+    onError: (error: any) => {
+      toast({ title: "Failed to build the board", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: (board: BoardPlan) =>
+      apiRequest("POST", "/api/board/auto-assign", {
+        assignments: board.assignments.map(assignment => ({
+          userId: assignment.userId,
+          rooms: assignment.rooms.map(({ roomId, cleanType }) => ({ roomId, cleanType })),
+        })),
+      }),
+    onSuccess: () => {
+      toast({ title: "Board assigned", description: "Cleaning tasks were created for every room on the board." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/room-assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      setPlan(null);
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to assign the board", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleAttendant = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...attendantIds, id] : attendantIds.filter(attendantId => attendantId !== id));
+  };
+
+  const moveRoom = (roomId: string, toUserId: string) => {
+    if (!plan) return;
+    const room = plan.assignments.flatMap(assignment => assignment.rooms).find(r => r.roomId === roomId)!;
+    setPlan({
+      ...plan,
+      assignments: plan.assignments.map(assignment => {
+        const rooms = assignment.rooms.filter(r => r.roomId !== roomId);
+        return summarize(assignment, assignment.userId === toUserId ? [...rooms, room] : rooms);
+      }),
+    });
+  };
+
+  const changeCleanType = (roomId: string, cleanType: CleanType) => {
+    if (!plan) return;
+    setPlan({
+      ...plan,
+      assignments: plan.assignments.map(assignment => summarize(assignment, assignment.rooms.map(room => {
+        if (room.roomId !== roomId) return room;
+        const roomType = roomTypes.find(type => type.name === room.roomType);
+        const expectedMinutes = roomType ? (roomType.standardMinutes as CleanTypeMinutes)[cleanType] : room.expectedMinutes;
+        return { ...room, cleanType, expectedMinutes };
+      }))),
+    });
+  };
+
+  const close = () => {
+    setOpen(false);
+    setPlan(null);
+  };
+
+  return (
+    <>
+      <Button onClick={() => setOpen(true)} data-testid="auto-assign-button">
+        <Wand2 className="h-4 w-4 mr-2" />
+        Auto Assign
+      </Button>
+
+      <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? setOpen(true) : close())}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Auto Assign Board</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Attendants</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+                {attendants.map(attendant => (
+                  <label key={attendant.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={attendantIds.includes(attendant.id)}
+                      onCheckedChange={(checked) => toggleAttendant(attendant.id, !!checked)}
+                      data-testid={`auto-assign-attendant-${attendant.id}`}
+                    />
+                    {attendant.name}
+                    {isOnDuty(attendant.id) && <Badge variant="secondary" className="text-xs">On duty</Badge>}
+                  </label>
+                ))}
+              </div>
+              {onDuty.length === 0 && (
+                <p className="text-sm text-muted-foreground mt-2">Nobody is clocked in; select the attendants to assign.</p>
+              )}
+            </div>
+
+            <div className="flex items-end gap-4">
+              <div className="w-48">
+                <Label>Balance by</Label>
+                <Select value={balanceBy} onValueChange={(value) => setBalanceBy(value as BoardPlan["balanceBy"])}>
+                  <SelectTrigger data-testid="auto-assign-balance-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minutes">Expected minutes</SelectItem>
+                    <SelectItem value="credits">Credits</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={attendantIds.length === 0 || previewMutation.isPending}
+                data-testid="auto-assign-preview-button"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {previewMutation.isPending ? "Building..." : plan ? "Rebuild Preview" : "Preview"}
+              </Button>
+            </div>
+
+            {plan && (
+              plan.assignments.every(assignment => assignment.rooms.length === 0) ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No dirty, stayover or checkout rooms are waiting for a cleaning task.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {plan.assignments.map(assignment => (
+                    <div key={assignment.userId} className="p-4 border rounded-lg" data-testid={`auto-assign-plan-${assignment.userId}`}>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-semibold">{assignment.name}</span>
+                        <div className="flex gap-2">
+                          <Badge variant="secondary">{assignment.rooms.length} rooms</Badge>
+                          <Badge variant="secondary">{assignment.totalMinutes}m</Badge>
+                          <Badge variant="secondary">{assignment.totalCredits} credits</Badge>
+                          <Badge variant="outline">
+                            {assignment.floors.length > 0 ? `Floor ${assignment.floors.join(", ")}` : "No floor"}
+                          </Badge>
+                        </div>
+                      </div>
+                      {assignment.rooms.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No rooms</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {assignment.rooms.map(room => (
+                            <div key={room.roomId} className="flex items-center gap-3 text-sm">
+                              <span className="w-16 font-medium">{room.number}</span>
+                              <span className="w-32 text-muted-foreground truncate">{room.roomType}</span>
+                              <Select value={room.cleanType} onValueChange={(value) => changeCleanType(room.roomId, value as CleanType)}>
+                                <SelectTrigger className="w-36 h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CLEAN_TYPES.map(({ key, label }) => (
+                                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <span className="w-16 text-muted-foreground">{room.expectedMinutes}m</span>
+                              <Select value={assignment.userId} onValueChange={(userId) => moveRoom(room.roomId, userId)}>
+                                <SelectTrigger className="w-44 h-8" data-testid={`auto-assign-move-${room.roomId}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {plan.assignments.map(target => (
+                                    <SelectItem key={target.userId} value={target.userId}>{target.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                onClick={() => plan && commitMutation.mutate(plan)}
+                disabled={!plan || plan.assignments.every(assignment => assignment.rooms.length === 0) || commitMutation.isPending}
+                data-testid="auto-assign-commit-button"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {commitMutation.isPending ? "Assigning..." : "Assign Board"}
+              </Button>
+              <Button variant="outline" onClick={close}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Save, Trash2, Upload } from "lucide-react";
+import type { PropertyBranding } from "@shared/schema";
+
+// Logos are stored inline with the branding, so keep them small
+const MAX_LOGO_BYTES = 500 * 1024;
+
+export default function BrandingSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PropertyBranding | null>(null);
+
+  const { data: branding, isLoading } = useQuery<PropertyBranding>({
+    queryKey: ["/api/branding"],
+  });
+
+  useEffect(() => {
+    if (branding) setForm(branding);
+  }, [branding]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: PropertyBranding) => apiRequest("PUT", "/api/branding", data),
+    onSuccess: () => {
+      toast({ title: "Branding updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/branding"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update branding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !form) return;
+
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      toast({ title: "Logo must be a PNG or JPEG image", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({ title: "Logo must be smaller than 500 KB", variant: "destructive" });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setForm({ ...form, logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          PDF Branding
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !form ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-8 bg-muted rounded"></div>
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Printed in the header of exported inspections, daily reset reports and operations reports.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="branding-name">Property name</Label>
+                <Input
+                  id="branding-name"
+                  value={form.name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  data-testid="branding-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="branding-address">Address</Label>
+                <Input
+                  id="branding-address"
+                  value={form.address}
+                  maxLength={200}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  data-testid="branding-address"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="branding-accent">Accent color</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="branding-accent"
+                    type="color"
+                    className="w-16 p-1"
+                    value={form.accentColor}
+                    onChange={(e) => setForm({ ...form, accentColor: e.target.value })}
+                    data-testid="branding-accent-color"
+                  />
+                  <span className="text-sm font-mono text-muted-foreground">{form.accentColor}</span>
+                </div>
+              </div>
+              <div>
+                <Label>Logo</Label>
+                <div className="flex items-center gap-3">
+                  {form.logo ? (
+                    <img src={form.logo} alt="Property logo" className="h-12 max-w-[120px] object-contain border rounded p-1" />
+                  ) : (
+                    <span className="text-sm text-muted-foreground">No logo</span>
+                  )}
+                  <Button variant="outline" size="sm" asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="h-4 w-4 mr-1" />
+                      Upload
+                      <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoChange} data-testid="branding-logo" />
+                    </label>
+                  </Button>
+                  {form.logo && (
+                    <Button variant="ghost" size="sm" onClick={() => setForm({ ...form, logo: null })} data-testid="remove-branding-logo">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={saveMutation.isPending || !form.name.trim()}
+                data-testid="save-branding"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Branding
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+} from "recharts";
+import { format } from "date-fns";
+import { History, ChevronLeft, ChevronRight } from "lucide-react";
+import type {
+  DailyResetComparison, DailyResetHistoryEntry, DailyResetHistoryPage, DailyResetMetrics
+} from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+type MetricSection = keyof DailyResetMetrics;
+
+// The figures shown when comparing two days, in display order
+const METRICS: Array<{ section: MetricSection; key: string; label: string }> = [
+  { section: "roomMetrics", key: "totalRooms", label: "Total rooms" },
+  { section: "roomMetrics", key: "readyRooms", label: "Ready" },
+  { section: "roomMetrics", key: "cleanInspectedRooms", label: "Clean & Inspected" },
+  { section: "roomMetrics", key: "dirtyRooms", label: "Dirty" },
+  { section: "roomMetrics", key: "rollRooms", label: "Roll" },
+  { section: "roomMetrics", key: "outRooms", label: "Out" },
+  { section: "roomMetrics", key: "maintenanceRooms", label: "Maintenance" },
+  { section: "roomMetrics", key: "outOfOrderRooms", label: "Out of order" },
+  { section: "tasksSummary", key: "totalTasks", label: "Tasks" },
+  { section: "tasksSummary", key: "completedTasks", label: "Tasks completed" },
+  { section: "tasksSummary", key: "pendingTasks", label: "Tasks pending" },
+  { section: "workOrdersSummary", key: "totalWorkOrders", label: "Work orders" },
+  { section: "workOrdersSummary", key: "completedWorkOrders", label: "Work orders completed" },
+  { section: "workOrdersSummary", key: "pendingWorkOrders", label: "Work orders pending" },
+];
+
+const metricValue = (metrics: DailyResetMetrics, section: MetricSection, key: string): number =>
+  (metrics[section] as Record<string, number>)[key] ?? 0;
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+
+interface DailyResetHistoryProps {
+  // Opens a day's full report in the page above
+  onSelectDate: (date: string) => void;
+}
+
+export default function DailyResetHistory({ onSelectDate }: DailyResetHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [left, setLeft] = useState("");
+  const [right, setRight] = useState("");
+  const [days, setDays] = useState("30");
+
+  const { data: history, isLoading } = useQuery<DailyResetHistoryPage>({
+    queryKey: [`/api/daily-reset/reports?page=${page}&pageSize=${PAGE_SIZE}`],
+  });
+
+  const { data: comparison, error: comparisonError } = useQuery<DailyResetComparison>({
+    queryKey: [`/api/daily-reset/compare?left=${left}&right=${right}`],
+    enabled: !!left && !!right,
+    retry: false,
+  });
+
+  const { data: trends = [] } = useQuery<DailyResetHistoryEntry[]>({
+    queryKey: [`/api/daily-reset/trends?days=${days}`],
+  });
+
+  const pageCount = history ? Math.max(1, Math.ceil(history.total / history.pageSize)) : 1;
+
+  const trendData = trends.map(entry => ({
+    date: format(new Date(`${entry.date}T00:00:00`), "MMM d"),
+    ready: entry.roomMetrics.readyRooms + entry.roomMetrics.cleanInspectedRooms,
+    dirty: entry.roomMetrics.dirtyRooms,
+    tasksCompleted: entry.tasksSummary.completedTasks,
+    workOrdersCompleted: entry.workOrdersSummary.completedWorkOrders,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Report History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="history" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="history">Past Reports</TabsTrigger>
+            <TabsTrigger value="compare">Compare Days</TabsTrigger>
+            <TabsTrigger value="trends">Trends</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history" className="space-y-4">
+            {isLoading ? (
+              <div className="animate-pulse space-y-3">
+                <div className="h-8 bg-muted rounded"></div>
+                <div className="h-8 bg-muted rounded w-3/4"></div>
+              </div>
+            ) : !history || history.reports.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No daily reset reports yet.</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Ready + Clean</th>
+                        <th className="py-2 pr-4 font-medium">Dirty</th>
+                        <th className="py-2 pr-4 font-medium">Tasks completed</th>
+                        <th className="py-2 pr-4 font-medium">Work orders completed</th>
+                        <th className="py-2 font-medium"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.reports.map(entry => (
+                        <tr key={entry.id} className="border-b" data-testid={`reset-report-${entry.date}`}>
+                          <td className="py-2 pr-4 whitespace-nowrap">{formatDate(entry.date)}</td>
+                          <td className="py-2 pr-4">
+                            {entry.roomMetrics.readyRooms + entry.roomMetrics.cleanInspectedRooms} / {entry.roomMetrics.totalRooms}
+                          </td>
+                          <td className="py-2 pr-4">{entry.roomMetrics.dirtyRooms}</td>
+                          <td className="py-2 pr-4">
+                            {entry.tasksSummary.completedTasks} / {entry.tasksSummary.totalTasks}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {entry.workOrdersSummary.completedWorkOrders} / {entry.workOrdersSummary.totalWorkOrders}
+                          </td>
+                          <td className="py-2 text-right">
+                            <Button size="sm" variant="ghost" onClick={() => onSelectDate(entry.date)}>
+                              View
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Page {history.page} of {pageCount} · {history.total} reports
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page <= 1}
+                      data-testid="reset-history-previous"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= pageCount}
+                      data-testid="reset-history-next"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compare" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="compare-left">First day</Label>
+                <Input id="compare-left" type="date" value={left} onChange={(e) => setLeft(e.target.value)} data-testid="compare-left" />
+              </div>
+              <div>
+                <Label htmlFor="compare-right">Second day</Label>
+                <Input id="compare-right" type="date" value={right} onChange={(e) => setRight(e.target.value)} data-testid="compare-right" />
+              </div>
+            </div>
+
+            {!left || !right ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Pick two days to compare their reports.</p>
+            ) : comparisonError ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Both days need a daily reset report to compare.</p>
+            ) : comparison && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium"></th>
+                      <th className="py-2 pr-4 font-medium">{formatDate(comparison.left.date)}</th>
+                      <th className="py-2 pr-4 font-medium">{formatDate(comparison.right.date)}</th>
+                      <th className="py-2 font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {METRICS.map(({ section, key, label }) => {
+                      const change = metricValue(comparison.difference, section, key);
+                      return (
+                        <tr key={`${section}-${key}`} className="border-b">
+                          <td className="py-2 pr-4">{label}</td>
+                          <td className="py-2 pr-4">{metricValue(comparison.left, section, key)}</td>
+                          <td className="py-2 pr-4">{metricValue(comparison.right, section, key)}</td>
+                          <td className={`py-2 ${change > 0 ? "text-green-700" : change < 0 ? "text-red-700" : "text-muted-foreground"}`}>
+                            {change > 0 ? `+${change}` : change}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="trends" className="space-y-4">
+            <div className="w-40 space-y-1">
+              <Label>Period</Label>
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger data-testid="reset-trend-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">Last 30 days</SelectItem>
+                  <SelectItem value="90">Last 90 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {trendData.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="ready" stroke="#3b82f6" name="Ready + Clean" strokeWidth={2} />
+                  <Line type="monotone" dataKey="dirty" stroke="#ef4444" name="Dirty" strokeWidth={2} />
+                  <Line type="monotone" dataKey="tasksCompleted" stroke="#10b981" name="Tasks Completed" strokeWidth={2} />
+                  <Line type="monotone" dataKey="workOrdersCompleted" stroke="#8b5cf6" name="Work Orders Completed" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                No reports in this period
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ROOM_STATUSES } from "@/components/RoomStatusSelector";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Save, Eye, ArrowRight, SlidersHorizontal } from "lucide-react";
+import type { DailyResetConfig, DailyResetPreview, RoomStatus } from "@shared/schema";
+
+function StatusBadge({ status }: { status: string }) {
+  const statusObj = ROOM_STATUSES.find(s => s.value === status);
+  return <Badge className={statusObj?.color}>{statusObj?.label || status}</Badge>;
+}
+
+export default function DailyResetSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DailyResetConfig | null>(null);
+
+  const { data: config, isLoading } = useQuery<DailyResetConfig>({
+    queryKey: ["/api/daily-reset/config"],
+  });
+
+  const { data: preview, isLoading: loadingPreview, refetch: refetchPreview } = useQuery<DailyResetPreview>({
+    queryKey: ["/api/daily-reset/preview"],
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (config) setForm(config);
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: DailyResetConfig) => apiRequest("PUT", "/api/daily-reset/config", data),
+    onSuccess: () => {
+      toast({ title: "Daily reset settings updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/daily-reset/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/daily-reset/preview"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update daily reset settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setRule = (from: RoomStatus, to: RoomStatus) => {
+    if (!form) return;
+    setForm({ ...form, statusRules: { ...form.statusRules, [from]: to } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Reset Settings
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !form ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-8 bg-muted rounded"></div>
+              <div className="h-8 bg-muted rounded w-3/4"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="reset-time">Reset time</Label>
+                  <Input
+                    id="reset-time"
+                    type="time"
+                    value={form.resetTime}
+                    onChange={(e) => setForm({ ...form, resetTime: e.target.value })}
+                    data-testid="reset-time"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reset-timezone">Timezone</Label>
+                  <Input
+                    id="reset-timezone"
+                    placeholder="Server time, or e.g. America/New_York"
+                    value={form.timezone ?? ""}
+                    onChange={(e) => setForm({ ...form, timezone: e.target.value.trim() || null })}
+                    data-testid="reset-timezone"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reset-retention">Keep completed tasks (days)</Label>
+                  <Input
+                    id="reset-retention"
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={form.completedTaskRetentionDays}
+                    onChange={(e) => setForm({ ...form, completedTaskRetentionDays: parseInt(e.target.value || "0") })}
+                    data-testid="reset-retention-days"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="reset-clear-assignments"
+                    checked={form.clearAssignments}
+                    onCheckedChange={(checked) => setForm({ ...form, clearAssignments: checked })}
+                    data-testid="reset-clear-assignments"
+                  />
+                  <Label htmlFor="reset-clear-assignments">Clear room assignments</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="reset-clear-comments"
+                    checked={form.clearComments}
+                    onCheckedChange={(checked) => setForm({ ...form, clearComments: checked })}
+                    data-testid="reset-clear-comments"
+                  />
+                  <Label htmlFor="reset-clear-comments">Clear room comments (unresolved high priority ones are kept)</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-medium">Status after reset</h4>
+                <p className="text-sm text-muted-foreground">
+                  Used when no occupancy feed has been imported. With one, rooms follow their guests instead:
+                  departures become dirty and stayovers roll.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {ROOM_STATUSES.map(status => (
+                    <div key={status.value} className="flex items-center gap-3 p-2 border rounded-lg">
+                      <div className="w-40"><StatusBadge status={status.value} /></div>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      <Select
+                        value={form.statusRules[status.value as RoomStatus]}
+                        onValueChange={(value) => setRule(status.value as RoomStatus, value as RoomStatus)}
+                      >
+                        <SelectTrigger className="flex-1" data-testid={`reset-rule-${status.value}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROOM_STATUSES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => saveMutation.mutate(form)}
+                  disabled={saveMutation.isPending}
+                  data-testid="save-reset-settings"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Settings
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Reset Preview
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={() => refetchPreview()} data-testid="refresh-reset-preview">
+              Preview Now
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loadingPreview || !preview ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-8 bg-muted rounded"></div>
+              <div className="h-8 bg-muted rounded w-3/4"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                What a reset would change if it ran now. The next scheduled reset is{" "}
+                {format(new Date(preview.nextResetAt), "MMM d, yyyy 'at' h:mm a")}.
+                {preview.usesOccupancy && " Checkouts and stayovers follow the occupancy feed."}
+              </p>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center p-4 border rounded-lg">
+                  <div className="text-2xl font-bold">{preview.roomChanges.length}</div>
+                  <div className="text-sm text-muted-foreground">Room statuses changed</div>
+                </div>
+                <div className="text-center p-4 border rounded-lg">
+                  <div className="text-2xl font-bold">{preview.assignmentsCleared}</div>
+                  <div className="text-sm text-muted-foreground">Assignments cleared</div>
+                </div>
+                <div className="text-center p-4 border rounded-lg">
+                  <div className="text-2xl font-bold">{preview.commentsCleared}</div>
+                  <div className="text-sm text-muted-foreground">Comments cleared</div>
+                </div>
+                <div className="text-center p-4 border rounded-lg">
+                  <div className="text-2xl font-bold">{preview.tasksArchived}</div>
+                  <div className="text-sm text-muted-foreground">Tasks archived</div>
+                </div>
+              </div>
+
+              {preview.roomChanges.length > 0 && (
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {preview.roomChanges.map(change => (
+                    <div key={change.roomId} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`reset-change-${change.roomId}`}>
+                      <div className="flex items-center gap-3">
+                        <span className="font-medium">Room {change.roomNumber}</span>
+                        <StatusBadge status={change.fromStatus} />
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                        <StatusBadge status={change.toStatus} />
+                      </div>
+                      <span className="text-sm text-muted-foreground">{change.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ListChecks, Plus, Edit, Trash2, Save, X } from "lucide-react";
+import type { InspectionTemplate, InspectionTemplateSection, RoomType } from "@shared/schema";
+
+const ANY_ROOM_TYPE = "any";
+
+interface InspectionTemplateForm {
+  id?: string;
+  name: string;
+  kind: "room" | "process";
+  roomType: string | null;
+  passThreshold: number;
+  sections: InspectionTemplateSection[];
+}
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const newItem = () => ({ id: newId(), title: "", description: "", weight: 1, critical: false, maintenance: false });
+
+const newSection = (): InspectionTemplateSection => ({ id: newId(), title: "", items: [newItem()] });
+
+const emptyForm = (): InspectionTemplateForm => ({
+  name: "",
+  kind: "room",
+  roomType: null,
+  passThreshold: 80,
+  sections: [newSection()],
+});
+
+function toForm(template: InspectionTemplate): InspectionTemplateForm {
+  return {
+    id: template.id,
+    name: template.name,
+    kind: template.kind,
+    roomType: template.roomType,
+    passThreshold: template.passThreshold,
+    sections: template.sections as InspectionTemplateSection[],
+  };
+}
+
+const itemCount = (template: InspectionTemplate) =>
+  (template.sections as InspectionTemplateSection[]).reduce((sum, section) => sum + section.items.length, 0);
+
+const criticalCount = (template: InspectionTemplate) =>
+  (template.sections as InspectionTemplateSection[])
+    .reduce((sum, section) => sum + section.items.filter(item => item.critical).length, 0);
+
+export default function InspectionTemplateSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<InspectionTemplateForm | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<InspectionTemplate[]>({
+    queryKey: ["/api/inspection-templates"],
+  });
+
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: InspectionTemplateForm) => {
+      const body = {
+        name: data.name,
+        kind: data.kind,
+        roomType: data.kind === "room" ? data.roomType : null,
+        passThreshold: data.passThreshold,
+        sections: data.sections.map(section => ({
+          ...section,
+          items: section.items.map(item => ({ ...item, description: item.description || undefined })),
+        })),
+      };
+      return data.id
+        ? apiRequest("PATCH", `/api/inspection-templates/${data.id}`, body)
+        : apiRequest("POST", "/api/inspection-templates", body);
+    },
+    onSuccess: () => {
+      toast({ title: form?.id ? "Inspection template updated" : "Inspection template created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/inspection-templates"] });
+      setForm(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save inspection template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/inspection-templates/${id}`),
+    onSuccess: () => {
+      toast({ title: "Inspection template deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/inspection-templates"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete inspection template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateSection = (sectionId: string, updates: Partial<InspectionTemplateSection>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      sections: form.sections.map(section => section.id === sectionId ? { ...section, ...updates } : section),
+    });
+  };
+
+  const updateItem = (sectionId: string, itemId: string, updates: Partial<ReturnType<typeof newItem>>) => {
+    const section = form?.sections.find(s => s.id === sectionId);
+    if (!section) return;
+    updateSection(sectionId, {
+      items: section.items.map(item => item.id === itemId ? { ...item, ...updates } : item),
+    });
+  };
+
+  const canSave = !!form && !!form.name.trim() &&
+    form.sections.every(section => section.title.trim() && section.items.length > 0 && section.items.every(item => item.title.trim()));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Inspection Templates
+          </span>
+          <Button onClick={() => setForm(emptyForm())} data-testid="create-inspection-template-button">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Template
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No inspection templates yet. Add one so inspectors can start inspections.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{template.name}</span>
+                    <Badge variant="secondary">{template.kind === "room" ? "Room" : "Process"}</Badge>
+                    {template.roomType && <Badge variant="outline">{template.roomType}</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {(template.sections as InspectionTemplateSection[]).length} sections • {itemCount(template)} items
+                    {" "}• {criticalCount(template)} critical • Pass at {template.passThreshold}%
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm(toForm(template))}
+                    data-testid={`edit-inspection-template-${template.id}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(`Are you sure you want to delete template ${template.name}?`)) {
+                        deleteMutation.mutate(template.id);
+                      }
+                    }}
+                    data-testid={`delete-inspection-template-${template.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground mt-3">
+          Scores weigh each item by its weight. A failed critical item fails the inspection whatever the score.
+          Failed items raise a re-clean task for the attendant, or a work order when tagged as maintenance.
+        </p>
+      </CardContent>
+
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Inspection Template" : "Add Inspection Template"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="inspection-template-name">Name</Label>
+                  <Input
+                    id="inspection-template-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Suite Checkout Inspection"
+                    data-testid="inspection-template-name-input"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="inspection-template-threshold">Pass threshold (%)</Label>
+                  <Input
+                    id="inspection-template-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={form.passThreshold}
+                    onChange={(e) => setForm({ ...form, passThreshold: parseInt(e.target.value || "0") })}
+                    data-testid="inspection-template-threshold-input"
+                  />
+                </div>
+                <div>
+                  <Label>Inspection type</Label>
+                  <Select
+                    value={form.kind}
+                    onValueChange={(value) => setForm({ ...form, kind: value as "room" | "process" })}
+                  >
+                    <SelectTrigger data-testid="inspection-template-kind-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="room">Room Inspection</SelectItem>
+                      <SelectItem value="process">Process Inspection</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {form.kind === "room" && (
+                  <div>
+                    <Label>Room type</Label>
+                    <Select
+                      value={form.roomType ?? ANY_ROOM_TYPE}
+                      onValueChange={(value) => setForm({ ...form, roomType: value === ANY_ROOM_TYPE ? null : value })}
+                    >
+                      <SelectTrigger data-testid="inspection-template-room-type-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_ROOM_TYPE}>Any room type</SelectItem>
+                        {roomTypes.map(roomType => (
+                          <SelectItem key={roomType.id} value={roomType.name}>{roomType.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {form.sections.map((section, sectionIndex) => (
+                <div key={section.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={section.title}
+                      onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                      placeholder={`Section ${sectionIndex + 1} title, e.g. Bathroom`}
+                      data-testid={`inspection-section-title-${sectionIndex}`}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({ ...form, sections: form.sections.filter(s => s.id !== section.id) })}
+                      disabled={form.sections.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {section.items.map((item, itemIndex) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                      <Input
+                        className="col-span-3"
+                        value={item.title}
+                        onChange={(e) => updateItem(section.id, item.id, { title: e.target.value })}
+                        placeholder="Item"
+                        data-testid={`inspection-item-title-${sectionIndex}-${itemIndex}`}
+                      />
+                      <Input
+                        className="col-span-3"
+                        value={item.description || ""}
+                        onChange={(e) => updateItem(section.id, item.id, { description: e.target.value })}
+                        placeholder="What to check"
+                      />
+                      <Input
+                        className="col-span-1"
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        value={item.weight}
+                        onChange={(e) => updateItem(section.id, item.id, { weight: parseFloat(e.target.value || "0") })}
+                        title="Weight"
+                        data-testid={`inspection-item-weight-${sectionIndex}-${itemIndex}`}
+                      />
+                      <div className="col-span-2 flex items-center gap-2">
+                        <Switch
+                          checked={item.critical}
+                          onCheckedChange={(checked) => updateItem(section.id, item.id, { critical: checked })}
+                          data-testid={`inspection-item-critical-${sectionIndex}-${itemIndex}`}
+                        />
+                        <span className="text-sm">Critical</span>
+                      </div>
+                      <div className="col-span-2 flex items-center gap-2">
+                        <Switch
+                          checked={item.maintenance}
+                          onCheckedChange={(checked) => updateItem(section.id, item.id, { maintenance: checked })}
+                          data-testid={`inspection-item-maintenance-${sectionIndex}-${itemIndex}`}
+                        />
+                        <span className="text-sm">Maintenance</span>
+                      </div>
+                      <Button
+                        className="col-span-1"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateSection(section.id, { items: section.items.filter(i => i.id !== item.id) })}
+                        disabled={section.items.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSection(section.id, { items: [...section.items, newItem()] })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Item
+                  </Button>
+                </div>
+              ))}
+
+              <Button variant="outline" onClick={() => setForm({ ...form, sections: [...form.sections, newSection()] })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Section
+              </Button>
+
+              <div className="flex gap-2 pt-4">
+                <Button
+                  onClick={() => saveMutation.mutate(form)}
+                  disabled={!canSave || saveMutation.isPending}
+                  data-testid="save-inspection-template-button"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save Template"}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
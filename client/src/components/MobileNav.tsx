@@ -4,7 +4,8 @@ import { cn } from "@/lib/utils";
 import { 
   CheckSquare, 
   ClipboardCheck, 
-  BarChart3 
+  BarChart3,
+  CalendarClock
 } from "lucide-react";
 
 const mobileNavItems = [
@@ -29,6 +30,13 @@ const mobileNavItems = [
     icon: BarChart3,
     roles: ["site_admin", "head_housekeeper", "front_desk_manager"],
   },
+  {
+    href: "/pm",
+    label: "Preventive Maintenance",
+    shortLabel: "PM",
+    icon: CalendarClock,
+    roles: ["site_admin", "head_housekeeper", "maintenance"],
+  },
 ];
 
 export default function MobileNav() {
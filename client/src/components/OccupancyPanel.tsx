@@ -0,0 +1,178 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, BellOff } from "lucide-react";
+import { format } from "date-fns";
+import type { OccupancyImportResult, OccupancyState, RoomOccupancy } from "@shared/schema";
+
+const OCCUPANCY_STATES: Array<{ key: OccupancyState; label: string; className: string }> = [
+  { key: "departure", label: "Departure", className: "bg-red-100 text-red-800" },
+  { key: "turnover", label: "Turnover", className: "bg-orange-100 text-orange-800" },
+  { key: "arrival", label: "Arrival", className: "bg-green-100 text-green-800" },
+  { key: "stayover", label: "Stayover", className: "bg-blue-100 text-blue-800" },
+  { key: "vacant", label: "Vacant", className: "bg-gray-100 text-gray-800" },
+];
+
+const stateOf = (key: OccupancyState) => OCCUPANCY_STATES.find(state => state.key === key)!;
+
+export default function OccupancyPanel() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [importResult, setImportResult] = useState<OccupancyImportResult | null>(null);
+
+  const { data: occupancy = [], isLoading } = useQuery<RoomOccupancy[]>({
+    queryKey: [`/api/occupancy?date=${date}`],
+  });
+
+  const invalidateOccupancy = () =>
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/occupancy"),
+    });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      const response = await apiRequest("POST", "/api/reservations/import", { format, content: await file.text() });
+      return response.json() as Promise<OccupancyImportResult>;
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      toast({
+        title: "Occupancy imported",
+        description: `${result.created} reservations added, ${result.updated} updated.`,
+      });
+      invalidateOccupancy();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to import occupancy", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const doNotDisturbMutation = useMutation({
+    mutationFn: ({ reservationId, doNotDisturb }: { reservationId: string; doNotDisturb: boolean }) =>
+      apiRequest("PATCH", `/api/reservations/${reservationId}`, { doNotDisturb }),
+    onSuccess: () => invalidateOccupancy(),
+    onError: (error: any) => {
+      toast({ title: "Failed to update do not disturb", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Occupancy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV or JSON export from the PMS with room, arrival and departure columns. Guest name,
+            confirmation number, status and DND columns are optional. Reservations already on file are updated.
+          </p>
+          <input ref={fileInput} type="file" accept=".csv,.json" className="hidden" onChange={handleFile} />
+          <Button
+            onClick={() => fileInput.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="occupancy-import-button"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : "Upload File"}
+          </Button>
+          {importResult && importResult.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                <p className="font-medium mb-1">{importResult.errors.length} rows were skipped:</p>
+                <ul className="text-sm space-y-1">
+                  {importResult.errors.map(({ row, error }) => (
+                    <li key={row}>Row {row}: {error}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Occupancy</CardTitle>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="occupancy-date">Date</Label>
+              <Input
+                id="occupancy-date"
+                type="date"
+                value={date}
+                onChange={(e) => e.target.value && setDate(e.target.value)}
+                className="w-40"
+                data-testid="occupancy-date"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {OCCUPANCY_STATES.map(({ key, label, className }) => (
+              <Badge key={key} className={className}>
+                {occupancy.filter(room => room.state === key).length} {label}
+              </Badge>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted rounded"></div>
+              ))}
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {occupancy.map(room => (
+                <div
+                  key={room.roomId}
+                  className="flex items-center justify-between p-3 rounded-lg border"
+                  data-testid={`occupancy-room-${room.roomNumber}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <span className="font-semibold w-24">Room {room.roomNumber}</span>
+                    <Badge className={stateOf(room.state).className}>{stateOf(room.state).label}</Badge>
+                    {room.guestName && <span className="text-sm text-muted-foreground">{room.guestName}</span>}
+                  </div>
+                  {room.reservationId && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <BellOff className="h-4 w-4" />
+                      Do not disturb
+                      <Switch
+                        checked={room.doNotDisturb}
+                        onCheckedChange={(checked) =>
+                          doNotDisturbMutation.mutate({ reservationId: room.reservationId!, doNotDisturb: checked })
+                        }
+                        disabled={doNotDisturbMutation.isPending}
+                        data-testid={`occupancy-dnd-${room.roomNumber}`}
+                      />
+                    </label>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { RefreshCw, Plug, ArrowUpRight, ArrowDownLeft } from "lucide-react";
+import type { PmsStatus, PmsSyncLog, Room } from "@shared/schema";
+
+const ACTION_LABELS: Record<string, string> = {
+  room_status: "Room status",
+  check_in: "Check-in",
+  check_out: "Check-out",
+};
+
+const invalidateSyncLog = () =>
+  queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/pms"),
+  });
+
+// What the entry carried, in a line: the status pushed or the guest event received
+function describePayload(entry: PmsSyncLog): string {
+  const payload = entry.payload as Record<string, any>;
+  if (entry.direction === "outbound") {
+    return String(payload.status || "").replace(/_/g, " ").toUpperCase();
+  }
+  return [payload.guestName, payload.externalId].filter(Boolean).join(" · ");
+}
+
+export default function PmsSyncSettings() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("all");
+
+  const { data: pmsStatus } = useQuery<PmsStatus>({
+    queryKey: ["/api/pms/status"],
+  });
+
+  const { data: entries = [], isLoading } = useQuery<PmsSyncLog[]>({
+    queryKey: [status === "all" ? "/api/pms/sync-log" : `/api/pms/sync-log?status=${status}`],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const roomNumber = (roomId: string | null) => rooms.find(room => room.id === roomId)?.number;
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/pms/sync-log/${id}/retry`);
+      return response.json() as Promise<PmsSyncLog>;
+    },
+    onSuccess: (entry) => {
+      toast(entry.status === "succeeded"
+        ? { title: "Sync succeeded" }
+        : { title: "Sync failed again", description: entry.lastError || undefined, variant: "destructive" });
+      invalidateSyncLog();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to retry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const retryFailedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pms/sync-log/retry-failed");
+      return response.json() as Promise<PmsSyncLog[]>;
+    },
+    onSuccess: (retried) => {
+      const stillFailing = retried.filter(entry => entry.status === "failed").length;
+      toast({
+        title: "Retried failed syncs",
+        description: `${retried.length - stillFailing} succeeded, ${stillFailing} still failing.`,
+      });
+      invalidateSyncLog();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to retry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plug className="h-5 w-5" />
+            PMS Integration
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="w-40 text-muted-foreground">Adapter</span>
+            {pmsStatus?.adapter
+              ? <Badge variant="secondary">{pmsStatus.adapter}</Badge>
+              : <Badge variant="outline">Off</Badge>}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-40 text-muted-foreground">Guest event webhook</span>
+            {pmsStatus?.webhookConfigured
+              ? <Badge variant="secondary">Enabled</Badge>
+              : <Badge variant="outline">Off</Badge>}
+          </div>
+          <p className="text-muted-foreground pt-2">
+            The adapter is chosen with PMS_ADAPTER (rest or mock) and the webhook is enabled by PMS_WEBHOOK_SECRET.
+            Room status changes are pushed to the PMS; check-outs it reports mark rooms dirty and create cleaning tasks.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Sync Log</CardTitle>
+            <div className="flex items-end gap-3">
+              <div className="w-40 space-y-1">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger data-testid="pms-sync-filter-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="succeeded">Succeeded</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => retryFailedMutation.mutate()}
+                disabled={!pmsStatus?.failedSyncs || retryFailedMutation.isPending}
+                data-testid="pms-retry-failed"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Retry Failed ({pmsStatus?.failedSyncs ?? 0})
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-8 bg-muted rounded"></div>
+              <div className="h-8 bg-muted rounded w-3/4"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No PMS syncs yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">When</th>
+                    <th className="py-2 pr-4 font-medium">Direction</th>
+                    <th className="py-2 pr-4 font-medium">Room</th>
+                    <th className="py-2 pr-4 font-medium">Details</th>
+                    <th className="py-2 pr-4 font-medium">Result</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="border-b align-top" data-testid={`pms-sync-${entry.id}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {entry.createdAt ? format(new Date(entry.createdAt), "MMM d, HH:mm:ss") : "—"}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className="flex items-center gap-1">
+                          {entry.direction === "outbound"
+                            ? <ArrowUpRight className="h-3 w-3" />
+                            : <ArrowDownLeft className="h-3 w-3" />}
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {roomNumber(entry.roomId) ?? (entry.payload as Record<string, any>).roomNumber ?? "—"}
+                      </td>
+                      <td className="py-2 pr-4">{describePayload(entry)}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={entry.status === "failed" ? "destructive" : "secondary"}>
+                            {entry.status === "failed" ? "Failed" : "Succeeded"}
+                          </Badge>
+                          {(entry.attempts ?? 1) > 1 && (
+                            <span className="text-xs text-muted-foreground">{entry.attempts} attempts</span>
+                          )}
+                        </div>
+                        {entry.lastError && <p className="text-xs text-red-700 mt-1 break-all">{entry.lastError}</p>}
+                      </td>
+                      <td className="py-2 text-right">
+                        {entry.status === "failed" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => retryMutation.mutate(entry.id)}
+                            disabled={retryMutation.isPending}
+                            data-testid={`pms-retry-${entry.id}`}
+                          >
+                            Retry
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ROOM_STATUSES } from "@/components/RoomStatusSelector";
+import { History, ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+import type { RoomStatusEvent, User } from "@shared/schema";
+
+interface RoomStatusHistoryProps {
+  roomId: string;
+  roomNumber: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  daily_reset: "Daily Reset",
+  inspection: "Inspection",
+  task_completion: "Task Completed",
+  pms: "PMS",
+};
+
+function StatusBadge({ status }: { status: string | null }) {
+  const statusObj = ROOM_STATUSES.find(s => s.value === status);
+  if (!statusObj) {
+    return <Badge variant="outline">—</Badge>;
+  }
+  return <Badge className={statusObj.color}>{statusObj.label}</Badge>;
+}
+
+export default function RoomStatusHistory({ roomId, roomNumber }: RoomStatusHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<RoomStatusEvent[]>({
+    queryKey: ["/api/rooms", roomId, "history"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const userMap = users.reduce((acc: Record<string, string>, user) => {
+    acc[user.id] = user.name;
+    return acc;
+  }, {});
+
+  return (
+    <Card className="w-full" data-testid={`room-status-history-${roomNumber}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          <span>Room {roomNumber} Status History</span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No status changes have been recorded for this room yet.
+          </p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4" data-testid={`room-status-event-${event.id}`}>
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary"></div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <StatusBadge status={event.fromStatus} />
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <StatusBadge status={event.toStatus} />
+                  <Badge variant="outline" className="text-xs">
+                    {SOURCE_LABELS[event.source] || event.source}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {event.createdAt && format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+                  {" · "}
+                  {event.userId ? userMap[event.userId] || "Unknown user" : "System"}
+                </p>
+                {event.notes && <p className="text-sm mt-1">{event.notes}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ROOM_STATUSES } from "@/components/RoomStatusSelector";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GitBranch, ArrowRight, Plus, Trash2, Save } from "lucide-react";
+import type { RoomStatus, RoomStatusRule, User } from "@shared/schema";
+
+const ROLES: Array<{ value: User["role"]; label: string }> = [
+  { value: "site_admin", label: "Admin" },
+  { value: "head_housekeeper", label: "Head HK" },
+  { value: "room_attendant", label: "Attendant" },
+  { value: "front_desk_manager", label: "Front Desk" },
+];
+
+const statusOrder = (status: string) => ROOM_STATUSES.findIndex(s => s.value === status);
+
+function StatusBadge({ status }: { status: string }) {
+  const statusObj = ROOM_STATUSES.find(s => s.value === status);
+  return <Badge className={statusObj?.color}>{statusObj?.label || status}</Badge>;
+}
+
+export default function RoomStatusRulesSettings() {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<RoomStatusRule[] | null>(null);
+  const [newRule, setNewRule] = useState<{ from: string; to: string }>({ from: "", to: "" });
+
+  const { data: savedRules, isLoading } = useQuery<RoomStatusRule[]>({
+    queryKey: ["/api/room-status/rules"],
+  });
+
+  useEffect(() => {
+    if (savedRules) setRules(savedRules);
+  }, [savedRules]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RoomStatusRule[]) => apiRequest("PUT", "/api/room-status/rules", data),
+    onSuccess: () => {
+      toast({ title: "Room status rules updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/room-status/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update room status rules", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRule = (index: number, updates: Partial<RoomStatusRule>) => {
+    if (!rules) return;
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const toggleRole = (index: number, role: User["role"], checked: boolean) => {
+    const rule = rules![index];
+    updateRule(index, {
+      roles: checked ? [...rule.roles, role] : rule.roles.filter(r => r !== role),
+    });
+  };
+
+  const addRule = () => {
+    if (!rules || !newRule.from || !newRule.to) return;
+    if (newRule.from === newRule.to) {
+      toast({ title: "Pick two different statuses", variant: "destructive" });
+      return;
+    }
+    if (rules.some(rule => rule.from === newRule.from && rule.to === newRule.to)) {
+      toast({ title: "That transition already has a rule", variant: "destructive" });
+      return;
+    }
+    setRules([
+      ...rules,
+      {
+        from: newRule.from as RoomStatus,
+        to: newRule.to as RoomStatus,
+        roles: ["site_admin"],
+        requiresWorkOrder: false,
+      },
+    ]);
+    setNewRule({ from: "", to: "" });
+  };
+
+  // Keep rules grouped by starting status so the table reads like a state diagram
+  const sortedRules = (rules || [])
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) =>
+      statusOrder(a.rule.from) - statusOrder(b.rule.from) || statusOrder(a.rule.to) - statusOrder(b.rule.to)
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Room Status Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !rules ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-8 bg-muted rounded"></div>
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Each rule allows the checked roles to move a room from one status to another.
+              Status changes without a matching rule are rejected. The daily reset and
+              completed cleaning tasks are not limited by these rules.
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Transition</th>
+                    {ROLES.map(role => (
+                      <th key={role.value} className="py-2 px-2 font-medium text-center">{role.label}</th>
+                    ))}
+                    <th className="py-2 px-2 font-medium text-center">Needs Work Order</th>
+                    <th className="py-2 pl-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRules.map(({ rule, index }) => (
+                    <tr key={`${rule.from}-${rule.to}`} className="border-b" data-testid={`room-status-rule-${rule.from}-${rule.to}`}>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2">
+                          <StatusBadge status={rule.from} />
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <StatusBadge status={rule.to} />
+                        </div>
+                      </td>
+                      {ROLES.map(role => (
+                        <td key={role.value} className="py-2 px-2 text-center">
+                          <Checkbox
+                            checked={rule.roles.includes(role.value)}
+                            onCheckedChange={(checked) => toggleRole(index, role.value, !!checked)}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-2 px-2 text-center">
+                        <Checkbox
+                          checked={rule.requiresWorkOrder}
+                          onCheckedChange={(checked) => updateRule(index, { requiresWorkOrder: !!checked })}
+                        />
+                      </td>
+                      <td className="py-2 pl-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={newRule.from} onValueChange={(from) => setNewRule({ ...newRule, from })}>
+                <SelectTrigger className="w-48" data-testid="new-rule-from">
+                  <SelectValue placeholder="From status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROOM_STATUSES.map(status => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Select value={newRule.to} onValueChange={(to) => setNewRule({ ...newRule, to })}>
+                <SelectTrigger className="w-48" data-testid="new-rule-to">
+                  <SelectValue placeholder="To status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROOM_STATUSES.map(status => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={addRule} disabled={!newRule.from || !newRule.to}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(rules)}
+                disabled={saveMutation.isPending || rules.some(rule => rule.roles.length === 0)}
+                data-testid="save-room-status-rules"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Rules
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
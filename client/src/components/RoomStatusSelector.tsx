@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
@@ -18,6 +18,12 @@ import {
   DoorOpen,
   Sparkles
 } from "lucide-react";
+import type { WorkOrder } from "@shared/schema";
+
+interface AllowedTransition {
+  status: string;
+  requiresWorkOrder: boolean;
+}
 
 interface RoomStatusSelectorProps {
   room: any;
@@ -25,7 +31,7 @@ interface RoomStatusSelectorProps {
   compact?: boolean;
 }
 
-const ROOM_STATUSES = [
+export const ROOM_STATUSES = [
   { value: "dirty", label: "Dirty", color: "bg-red-100 text-red-800", icon: AlertTriangle },
   { value: "ready", label: "READY", color: "bg-blue-100 text-blue-800", icon: CheckCircle },
   { value: "roll", label: "ROLL", color: "bg-yellow-100 text-yellow-800", icon: Clock },
@@ -41,21 +47,52 @@ export default function RoomStatusSelector({ room, showButton = true, compact =
   const [showStatusDialog, setShowStatusDialog] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState(room.status);
   const [statusNotes, setStatusNotes] = useState("");
+  const [workOrderId, setWorkOrderId] = useState("");
 
   const currentStatus = ROOM_STATUSES.find(s => s.value === room.status) || ROOM_STATUSES[0];
   const selectedStatusObj = ROOM_STATUSES.find(s => s.value === selectedStatus) || currentStatus;
 
+  // Only the next states the server allows for this user's role are offered
+  const { data: allowedTransitions = [], isLoading: transitionsLoading } = useQuery<AllowedTransition[]>({
+    queryKey: ["/api/rooms", room.id, "transitions"],
+    enabled: showStatusDialog,
+  });
+
+  const selectedTransition = allowedTransitions.find(t => t.status === selectedStatus);
+  const requiresWorkOrder = !!selectedTransition?.requiresWorkOrder;
+
+  const { data: workOrders = [] } = useQuery<WorkOrder[]>({
+    queryKey: ["/api/workorders"],
+    enabled: showStatusDialog && requiresWorkOrder,
+  });
+
+  const roomWorkOrders = workOrders.filter(wo =>
+    wo.roomId === room.id && wo.status !== "completed" && wo.status !== "cancelled"
+  );
+
+  const statusOptions = ROOM_STATUSES.filter(status =>
+    status.value === room.status || allowedTransitions.some(t => t.status === status.value)
+  );
+
+  const resetDialog = () => {
+    setShowStatusDialog(false);
+    setSelectedStatus(room.status);
+    setStatusNotes("");
+    setWorkOrderId("");
+  };
+
   const updateStatusMutation = useMutation({
-    mutationFn: ({ status, notes }: { status: string; notes?: string }) =>
-      apiRequest("PATCH", `/api/rooms/${room.id}/status`, { status, notes }),
+    mutationFn: ({ status, notes, workOrderId }: { status: string; notes?: string; workOrderId?: string }) =>
+      apiRequest("PATCH", `/api/rooms/${room.id}/status`, { status, notes, workOrderId }),
     onSuccess: () => {
       toast({ title: "Room status updated successfully" });
       queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
       setShowStatusDialog(false);
       setStatusNotes("");
+      setWorkOrderId("");
     },
-    onError: () => {
-      toast({ title: "Failed to update room status", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Failed to update room status", description: error.message, variant: "destructive" });
     },
   });
 
@@ -119,7 +156,7 @@ export default function RoomStatusSelector({ room, showButton = true, compact =
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {ROOM_STATUSES.map((status) => {
+                  {statusOptions.map((status) => {
                     const Icon = status.icon;
                     return (
                       <SelectItem key={status.value} value={status.value}>
@@ -132,8 +169,35 @@ export default function RoomStatusSelector({ room, showButton = true, compact =
                   })}
                 </SelectContent>
               </Select>
+              {!transitionsLoading && allowedTransitions.length === 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Your role cannot change this room from {currentStatus.label}.
+                </p>
+              )}
             </div>
 
+            {requiresWorkOrder && (
+              <div>
+                <label className="text-sm font-medium">Linked Work Order</label>
+                {roomWorkOrders.length > 0 ? (
+                  <Select value={workOrderId} onValueChange={setWorkOrderId}>
+                    <SelectTrigger className="mt-2" data-testid="status-work-order-select">
+                      <SelectValue placeholder="Select a work order" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roomWorkOrders.map((wo) => (
+                        <SelectItem key={wo.id} value={wo.id}>{wo.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Log a work order for room {room.number} before moving it to {selectedStatusObj.label}.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium">Notes (Optional)</label>
               <Textarea
@@ -159,20 +223,21 @@ export default function RoomStatusSelector({ room, showButton = true, compact =
             <div className="flex justify-end gap-3">
               <Button
                 variant="outline"
-                onClick={() => {
-                  setShowStatusDialog(false);
-                  setSelectedStatus(room.status);
-                  setStatusNotes("");
-                }}
+                onClick={resetDialog}
               >
                 Cancel
               </Button>
               <Button
                 onClick={() => updateStatusMutation.mutate({
                   status: selectedStatus,
-                  notes: statusNotes.trim() || undefined
+                  notes: statusNotes.trim() || undefined,
+                  workOrderId: requiresWorkOrder ? workOrderId : undefined
                 })}
-                disabled={selectedStatus === room.status || updateStatusMutation.isPending}
+                disabled={
+                  selectedStatus === room.status ||
+                  (requiresWorkOrder && !workOrderId) ||
+                  updateStatusMutation.isPending
+                }
                 data-testid="confirm-status-update"
               >
                 {updateStatusMutation.isPending ? "Updating..." : "Update Status"}
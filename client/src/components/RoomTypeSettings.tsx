@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BedDouble, Plus, Edit, Trash2, Save, X } from "lucide-react";
+import type { CleanType, CleanTypeMinutes, PMChecklistItem, RoomType, RoomTypeChecklists } from "@shared/schema";
+
+const CLEAN_TYPES: Array<{ key: CleanType; label: string }> = [
+  { key: "stayover", label: "Stayover" },
+  { key: "checkout", label: "Checkout" },
+  { key: "deep_clean", label: "Deep Clean" },
+];
+
+interface RoomTypeForm {
+  id?: string;
+  name: string;
+  description: string;
+  standardMinutes: CleanTypeMinutes;
+  credits: number;
+  // One checklist item per line, per clean type
+  checklists: Record<CleanType, string>;
+}
+
+const emptyForm: RoomTypeForm = {
+  name: "",
+  description: "",
+  standardMinutes: { stayover: 15, checkout: 30, deep_clean: 60 },
+  credits: 1,
+  checklists: { stayover: "", checkout: "", deep_clean: "" },
+};
+
+function toForm(roomType: RoomType): RoomTypeForm {
+  const checklists = roomType.checklists as RoomTypeChecklists;
+  return {
+    id: roomType.id,
+    name: roomType.name,
+    description: roomType.description || "",
+    standardMinutes: roomType.standardMinutes as CleanTypeMinutes,
+    credits: roomType.credits,
+    checklists: {
+      stayover: (checklists.stayover || []).map(item => item.title).join("\n"),
+      checkout: (checklists.checkout || []).map(item => item.title).join("\n"),
+      deep_clean: (checklists.deep_clean || []).map(item => item.title).join("\n"),
+    },
+  };
+}
+
+// Keeps the ids of items whose title is unchanged, so existing references stay valid
+function toChecklist(text: string, existing: PMChecklistItem[] = []): PMChecklistItem[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((title, index) => existing.find(item => item.title === title) || { id: `${Date.now()}-${index}`, title });
+}
+
+export default function RoomTypeSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RoomTypeForm | null>(null);
+
+  const { data: roomTypes = [], isLoading } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RoomTypeForm) => {
+      const existing = roomTypes.find(roomType => roomType.id === data.id);
+      const existingChecklists = (existing?.checklists || {}) as RoomTypeChecklists;
+      const body = {
+        name: data.name,
+        description: data.description || null,
+        standardMinutes: data.standardMinutes,
+        credits: data.credits,
+        checklists: {
+          stayover: toChecklist(data.checklists.stayover, existingChecklists.stayover),
+          checkout: toChecklist(data.checklists.checkout, existingChecklists.checkout),
+          deep_clean: toChecklist(data.checklists.deep_clean, existingChecklists.deep_clean),
+        },
+      };
+      return data.id
+        ? apiRequest("PATCH", `/api/room-types/${data.id}`, body)
+        : apiRequest("POST", "/api/room-types", body);
+    },
+    onSuccess: () => {
+      toast({ title: form?.id ? "Room type updated" : "Room type created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/room-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      setForm(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save room type", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/room-types/${id}`),
+    onSuccess: () => {
+      toast({ title: "Room type deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/room-types"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete room type", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <BedDouble className="h-5 w-5" />
+            Room Type Catalog
+          </span>
+          <Button onClick={() => setForm(emptyForm)} data-testid="create-room-type-button">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Room Type
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : roomTypes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No room types yet. Add one to set standard clean times and credits.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {roomTypes.map((roomType) => {
+              const minutes = roomType.standardMinutes as CleanTypeMinutes;
+              return (
+                <div key={roomType.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{roomType.name}</span>
+                      <Badge variant="secondary">{roomType.credits} credits</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {CLEAN_TYPES.map(({ key, label }) => `${label} ${minutes[key]}m`).join(" • ")}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm(toForm(roomType))}
+                      data-testid={`edit-room-type-${roomType.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Are you sure you want to delete room type ${roomType.name}?`)) {
+                          deleteMutation.mutate(roomType.id);
+                        }
+                      }}
+                      data-testid={`delete-room-type-${roomType.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground mt-3">
+          Standard minutes are the expected time per clean type and drive workload estimates and productivity reports.
+        </p>
+      </CardContent>
+
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Room Type" : "Add Room Type"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="room-type-name">Name</Label>
+                  <Input
+                    id="room-type-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. KING"
+                    data-testid="room-type-name-input"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="room-type-credits">Credits</Label>
+                  <Input
+                    id="room-type-credits"
+                    type="number"
+                    min={0.25}
+                    step={0.25}
+                    value={form.credits}
+                    onChange={(e) => setForm({ ...form, credits: parseFloat(e.target.value || "0") })}
+                    data-testid="room-type-credits-input"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="room-type-description">Description</Label>
+                <Input
+                  id="room-type-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {CLEAN_TYPES.map(({ key, label }) => (
+                  <div key={key}>
+                    <Label htmlFor={`room-type-minutes-${key}`}>{label} (minutes)</Label>
+                    <Input
+                      id={`room-type-minutes-${key}`}
+                      type="number"
+                      min={1}
+                      value={form.standardMinutes[key]}
+                      onChange={(e) => setForm({
+                        ...form,
+                        standardMinutes: { ...form.standardMinutes, [key]: parseInt(e.target.value || "0") },
+                      })}
+                      data-testid={`room-type-minutes-${key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {CLEAN_TYPES.map(({ key, label }) => (
+                  <div key={key}>
+                    <Label htmlFor={`room-type-checklist-${key}`}>{label} checklist</Label>
+                    <Textarea
+                      id={`room-type-checklist-${key}`}
+                      rows={6}
+                      value={form.checklists[key]}
+                      onChange={(e) => setForm({ ...form, checklists: { ...form.checklists, [key]: e.target.value } })}
+                      placeholder="One item per line"
+                      data-testid={`room-type-checklist-${key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button
+                  onClick={() => saveMutation.mutate(form)}
+                  disabled={!form.name.trim() || saveMutation.isPending}
+                  data-testid="save-room-type-button"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save Room Type"}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
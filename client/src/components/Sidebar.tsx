@@ -14,7 +14,11 @@ import {
   Settings,
   Hotel,
   LogOut,
-  Clock
+  Clock,
+  Wrench,
+  CalendarClock,
+  CalendarDays,
+  PackageSearch
 } from "lucide-react";
 
 const navigationItems = [
@@ -42,12 +46,36 @@ const navigationItems = [
     icon: ClipboardCheck,
     roles: ["site_admin", "head_housekeeper", "front_desk_manager"],
   },
+  {
+    href: "/work-orders",
+    label: "Work Orders",
+    icon: Wrench,
+    roles: ["site_admin", "head_housekeeper", "front_desk_manager", "maintenance"],
+  },
+  {
+    href: "/pm",
+    label: "Preventive Maint.",
+    icon: CalendarClock,
+    roles: ["site_admin", "head_housekeeper", "maintenance"],
+  },
+  {
+    href: "/lost-found",
+    label: "Lost & Found",
+    icon: PackageSearch,
+    roles: ["site_admin", "head_housekeeper", "room_attendant", "front_desk_manager"],
+  },
   {
     href: "/ra-monitor",
     label: "RA Monitor",
     icon: Users,
     roles: ["site_admin", "head_housekeeper", "front_desk_manager"],
   },
+  {
+    href: "/schedule",
+    label: "Schedule",
+    icon: CalendarDays,
+    roles: ["site_admin", "head_housekeeper", "room_attendant", "front_desk_manager"],
+  },
   {
     href: "/front-desk",
     label: "Front Desk",
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  // Called with a PNG data URL after each stroke, or null once cleared
+  onChange: (signature: string | null) => void;
+  height?: number;
+}
+
+export default function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the canvas resolution to its size on screen so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext("2d")!;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, [height]);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = pointFor(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    context.beginPath();
+    context.moveTo(x, y);
+    // A dot for a tap without movement
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setIsEmpty(false);
+    onChange(event.currentTarget.toDataURL("image/png"));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative border rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          className="w-full touch-none cursor-crosshair"
+          style={{ height }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          data-testid="signature-pad"
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground pointer-events-none">
+            Sign here
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={handleClear} disabled={isEmpty} data-testid="clear-signature">
+          <Eraser className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
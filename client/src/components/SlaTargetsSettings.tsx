@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Timer, Save } from "lucide-react";
+import type { SlaTargets } from "@shared/schema";
+
+const PRIORITIES: Array<{ key: keyof Omit<SlaTargets, "atRiskPercent">; label: string }> = [
+  { key: "urgent", label: "Urgent" },
+  { key: "high", label: "High" },
+  { key: "medium", label: "Medium" },
+  { key: "low", label: "Low" },
+];
+
+export default function SlaTargetsSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SlaTargets | null>(null);
+
+  const { data: targets, isLoading } = useQuery<SlaTargets>({
+    queryKey: ["/api/sla/targets"],
+  });
+
+  useEffect(() => {
+    if (targets) setForm(targets);
+  }, [targets]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SlaTargets) => apiRequest("PUT", "/api/sla/targets", data),
+    onSuccess: () => {
+      toast({ title: "SLA targets updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/sla/targets"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update SLA targets", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Work Order SLA Targets
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !form ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-8 bg-muted rounded"></div>
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Time allowed from when a work order is logged until it must be completed.
+              Open work orders past their target are escalated to head housekeepers and site administrators.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {PRIORITIES.map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={`sla-${key}`}>{label} (hours)</Label>
+                  <Input
+                    id={`sla-${key}`}
+                    type="number"
+                    min={0.25}
+                    step={0.25}
+                    value={form[key] / 60}
+                    onChange={(e) => setForm({ ...form, [key]: Math.round(parseFloat(e.target.value || "0") * 60) })}
+                    data-testid={`sla-target-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="max-w-xs">
+              <Label htmlFor="sla-at-risk">At risk after (% of target elapsed)</Label>
+              <Input
+                id="sla-at-risk"
+                type="number"
+                min={1}
+                max={99}
+                value={form.atRiskPercent}
+                onChange={(e) => setForm({ ...form, atRiskPercent: parseInt(e.target.value || "0") })}
+                data-testid="sla-at-risk-percent"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={saveMutation.isPending}
+                data-testid="save-sla-targets"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Targets
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { User, DoorOpen, Clock, Calendar, Play, Pause, Check, MessageCircle, Cam
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, invalidateQueries } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 
 interface TaskCardProps {
   task: {
@@ -20,7 +21,10 @@ interface TaskCardProps {
     assigneeId?: string;
     roomId?: string;
     startedAt?: string;
+    pausedAt?: string;
+    pausedSeconds?: number;
     finishedAt?: string;
+    verifiedById?: string;
     dueAt?: string;
     createdAt: string;
   };
@@ -28,14 +32,17 @@ interface TaskCardProps {
   roomNumber?: string;
 }
 
+type TaskAction = "start" | "pause" | "resume" | "complete" | "fail" | "verify";
+
 export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [showActions, setShowActions] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
 
   const deleteTaskMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("PATCH", `/api/tasks/${task.id}`, { isDeleted: true });
+      const response = await apiRequest("DELETE", `/api/tasks/${task.id}`);
       return response.json();
     },
     onSuccess: () => {
@@ -54,9 +61,10 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
     },
   });
 
+  // Status and timing are recorded by the server for each action
   const updateTaskMutation = useMutation({
-    mutationFn: async (updates: any) => {
-      const response = await apiRequest("PATCH", `/api/tasks/${task.id}`, updates);
+    mutationFn: async (action: TaskAction) => {
+      const response = await apiRequest("POST", `/api/tasks/${task.id}/${action}`);
       return response.json();
     },
     onSuccess: () => {
@@ -75,26 +83,25 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
     },
   });
 
-  const handleStatusUpdate = (newStatus: string, additionalData?: any) => {
-    const updates: any = { status: newStatus };
-    
-    if (newStatus === "in_progress") {
-      updates.startedAt = new Date().toISOString();
-    } else if (newStatus === "completed") {
-      updates.finishedAt = new Date().toISOString();
-    } else if (newStatus === "paused") {
-      updates.pausedAt = new Date().toISOString();
-    }
-    
-    updateTaskMutation.mutate({ ...updates, ...additionalData });
+  const handleAction = (action: TaskAction) => {
+    updateTaskMutation.mutate(action);
   };
 
+  const canVerify = user?.role === "site_admin" || user?.role === "head_housekeeper";
+  // The assignee records their own time; supervisors may act for them
+  const canWork = task.assigneeId === user?.id || canVerify;
+
+  // Working time, excluding pauses
   const getDuration = () => {
     if (!task.startedAt) return null;
     
     const start = new Date(task.startedAt).getTime();
     const end = task.finishedAt ? new Date(task.finishedAt).getTime() : Date.now();
-    const diff = end - start;
+    let paused = (task.pausedSeconds || 0) * 1000;
+    if (task.status === "paused" && task.pausedAt) {
+      paused += end - new Date(task.pausedAt).getTime();
+    }
+    const diff = Math.max(0, end - start - paused);
     
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
@@ -174,24 +181,24 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
             >
               <Trash2 className="h-4 w-4 text-destructive" />
             </Button>
-            {task.status === "in_progress" && (
+            {canWork && task.status === "in_progress" && (
               <Button
                 variant="ghost"
                 size="icon"
                 className="touch-target w-8 h-8"
-                onClick={() => handleStatusUpdate("paused")}
+                onClick={() => handleAction("pause")}
                 disabled={updateTaskMutation.isPending}
                 data-testid="pause-task"
               >
                 <Pause className="h-4 w-4" />
               </Button>
             )}
-            {task.status === "paused" && (
+            {canWork && task.status === "paused" && (
               <Button
                 variant="ghost"
                 size="icon"
                 className="touch-target w-8 h-8"
-                onClick={() => handleStatusUpdate("in_progress")}
+                onClick={() => handleAction("resume")}
                 disabled={updateTaskMutation.isPending}
                 data-testid="resume-task"
               >
@@ -233,10 +240,10 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
         
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            {task.status === "pending" && (
+            {canWork && task.status === "pending" && (
               <Button
                 size="sm"
-                onClick={() => handleStatusUpdate("in_progress")}
+                onClick={() => handleAction("start")}
                 disabled={updateTaskMutation.isPending}
                 data-testid="start-task"
               >
@@ -245,12 +252,12 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
               </Button>
             )}
             
-            {(task.status === "in_progress" || task.status === "paused") && (
+            {canWork && (task.status === "in_progress" || task.status === "paused") && (
               <Button
                 size="sm"
                 variant="default"
                 className="bg-success text-white hover:bg-success/90"
-                onClick={() => handleStatusUpdate("completed")}
+                onClick={() => handleAction("complete")}
                 disabled={updateTaskMutation.isPending}
                 data-testid="complete-task"
               >
@@ -326,6 +333,8 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
                 <p><span className="text-muted-foreground">Created:</span> {new Date(task.createdAt).toLocaleString()}</p>
                 {task.startedAt && <p><span className="text-muted-foreground">Started:</span> {new Date(task.startedAt).toLocaleString()}</p>}
                 {task.finishedAt && <p><span className="text-muted-foreground">Finished:</span> {new Date(task.finishedAt).toLocaleString()}</p>}
+                {!!task.pausedSeconds && <p><span className="text-muted-foreground">Paused:</span> {Math.round(task.pausedSeconds / 60)}m</p>}
+                {task.verifiedById && <p><span className="text-muted-foreground">Verified:</span> Yes</p>}
                 {task.dueAt && <p><span className="text-muted-foreground">Due:</span> {new Date(task.dueAt).toLocaleString()}</p>}
                 {duration && <p><span className="text-muted-foreground">Duration:</span> {duration}</p>}
               </div>
@@ -333,6 +342,27 @@ export default function TaskCard({ task, assigneeName, roomNumber }: TaskCardPro
           </div>
           
           <div className="flex justify-end space-x-2">
+            {canWork && ["pending", "in_progress", "paused"].includes(task.status) && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => handleAction("fail")}
+                disabled={updateTaskMutation.isPending}
+                data-testid="fail-task"
+              >
+                Mark Failed
+              </Button>
+            )}
+            {task.status === "completed" && !task.verifiedById && canVerify && (
+              <Button
+                onClick={() => handleAction("verify")}
+                disabled={updateTaskMutation.isPending}
+                data-testid="verify-task"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Verify
+              </Button>
+            )}
             <Button variant="outline" onClick={() => setShowDetails(false)}>
               Close
             </Button>
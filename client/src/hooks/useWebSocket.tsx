@@ -3,14 +3,18 @@ import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
 
 export interface WebSocketMessage {
-  type: 'room_status_changed' | 'task_assigned' | 'task_completed' | 'inspection_completed' | 'panic_alert' | 'user_notification';
+  type: 'room_status_changed' | 'task_assigned' | 'task_completed' | 'inspection_completed' | 'panic_alert' | 'user_notification' | 'work_order_assigned' | 'work_order_sla_changed' | 'shift_clocked_in' | 'shift_clocked_out';
   data: any;
   timestamp: string;
   userId?: string;
 }
 
+// Close codes the server uses when the stored token is rejected or has expired;
+// reconnecting with the same token would fail again, so the user signs in again
+const AUTH_FAILURE_CLOSE_CODES = [4003, 4004];
+
 export function useWebSocket() {
-  const { user } = useAuth();
+  const { user, logout } = useAuth();
   const { toast } = useToast();
   const [isConnected, setIsConnected] = useState(false);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
@@ -32,11 +36,10 @@ export function useWebSocket() {
         console.log('WebSocket connected');
         setIsConnected(true);
         
-        // Send authentication message
+        // Authenticate with the same token the REST API uses
         ws.send(JSON.stringify({
           type: 'auth',
-          userId: user.id,
-          role: user.role
+          token: localStorage.getItem("token")
         }));
 
         // Clear any existing reconnect timeout
@@ -68,11 +71,22 @@ export function useWebSocket() {
         }
       };
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
         wsRef.current = null;
 
+        if (AUTH_FAILURE_CLOSE_CODES.includes(event.code)) {
+          console.log(`WebSocket authentication failed: ${event.reason}`);
+          toast({
+            title: "Session Expired",
+            description: "Please sign in again to keep receiving live updates.",
+            variant: 'destructive',
+          });
+          logout();
+          return;
+        }
+
         // Attempt to reconnect after 5 seconds
         if (!reconnectTimeoutRef.current) {
           reconnectTimeoutRef.current = setTimeout(() => {
@@ -90,7 +104,7 @@ export function useWebSocket() {
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
     }
-  }, [user]);
+  }, [user, logout]);
 
   const handleNotification = (message: WebSocketMessage) => {
     switch (message.type) {
@@ -161,6 +175,27 @@ export function useWebSocket() {
         }
         break;
 
+      case 'work_order_assigned':
+        // Only show notification if work order is assigned to current user
+        if (message.userId === user?.id) {
+          toast({
+            title: "Work Order Assigned",
+            description: `You have been assigned: ${message.data.workOrder?.title}`,
+          });
+        }
+        break;
+
+      case 'work_order_sla_changed':
+        if (message.data.workOrder) {
+          const breached = message.data.slaState === 'breached';
+          toast({
+            title: breached ? "Work Order SLA Breached" : "Work Order SLA At Risk",
+            description: `${message.data.workOrder.title}${message.data.room ? ` (Room ${message.data.room.number})` : ''}`,
+            variant: breached ? 'destructive' : 'default',
+          });
+        }
+        break;
+
       default:
         break;
     }
@@ -6,8 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadFile } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import DailyResetSettings from "@/components/DailyResetSettings";
+import DailyResetHistory from "@/components/DailyResetHistory";
 import { 
   Clock, 
   RefreshCw, 
@@ -19,18 +22,28 @@ import {
   Users,
   ClipboardList,
   TrendingUp,
-  Settings
+  Settings,
+  Download
 } from "lucide-react";
 import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import type { DailyResetConfig, DailyResetReport } from "@shared/schema";
 
 export default function DailyReset() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [showConfirmReset, setShowConfirmReset] = useState(false);
+  // The day whose report is shown; empty shows the last reset
+  const [selectedDate, setSelectedDate] = useState("");
 
-  const { data: lastReport, isLoading: loadingReport, refetch } = useQuery({
-    queryKey: ["/api/daily-reset/last-report"],
+  const { data: report, isLoading: loadingReport, refetch } = useQuery<DailyResetReport | null>({
+    queryKey: [selectedDate ? `/api/daily-reset/reports/${selectedDate}` : "/api/daily-reset/last-report"],
     refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  const { data: config } = useQuery<DailyResetConfig>({
+    queryKey: ["/api/daily-reset/config"],
   });
 
   const manualResetMutation = useMutation({
@@ -38,6 +51,10 @@ export default function DailyReset() {
     onSuccess: () => {
       toast({ title: "Daily reset completed successfully!" });
       queryClient.invalidateQueries({ queryKey: ["/api/daily-reset/last-report"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/daily-reset/preview"] });
+      queryClient.invalidateQueries({
+        predicate: query => /^\/api\/daily-reset\/(reports|trends)/.test(String(query.queryKey[0])),
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       refetch();
@@ -48,6 +65,14 @@ export default function DailyReset() {
     },
   });
 
+  const handleDownloadPdf = async (date: string) => {
+    try {
+      await downloadFile(`/api/daily-reset/reports/${date}/pdf`, `daily-reset-${date}.pdf`);
+    } catch (error: any) {
+      toast({ title: "Failed to download PDF", description: error.message, variant: "destructive" });
+    }
+  };
+
   // Only allow site_admin to access this page
   if (user?.role !== "site_admin") {
     return (
@@ -77,6 +102,18 @@ export default function DailyReset() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            className="w-40"
+            value={selectedDate}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            data-testid="report-date"
+          />
+          {selectedDate && (
+            <Button variant="ghost" onClick={() => setSelectedDate("")}>
+              Latest
+            </Button>
+          )}
           <Button
             variant="outline"
             onClick={() => refetch()}
@@ -85,6 +122,16 @@ export default function DailyReset() {
             <RefreshCw className={`h-4 w-4 mr-2 ${loadingReport ? "animate-spin" : ""}`} />
             Refresh
           </Button>
+          {report && (
+            <Button
+              variant="outline"
+              onClick={() => handleDownloadPdf(report.date)}
+              data-testid="download-report-pdf"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+          )}
           <Button 
             onClick={() => setShowConfirmReset(true)}
             disabled={manualResetMutation.isPending}
@@ -102,10 +149,10 @@ export default function DailyReset() {
         <AlertDescription>
           <div className="flex items-center justify-between">
             <span>
-              Daily reset runs automatically at midnight each night. 
-              {lastReport && (
+              Daily reset runs automatically at {config?.resetTime ?? "00:00"} ({config?.timezone || "server time"}) each night.
+              {report && !selectedDate && (
                 <span className="ml-2">
-                  Last reset: {format(new Date(lastReport.resetTime), "MMM d, yyyy 'at' h:mm a")}
+                  Last reset: {format(new Date(report.resetTime), "MMM d, yyyy 'at' h:mm a")}
                 </span>
               )}
             </span>
@@ -125,8 +172,8 @@ export default function DailyReset() {
               <ul className="list-disc list-inside space-y-1 text-sm">
                 <li>Save the current daily report</li>
                 <li>Reset room statuses for a new day</li>
-                <li>Archive completed tasks</li>
-                <li>Clear daily operational data</li>
+                <li>Archive completed tasks past their retention</li>
+                <li>Clear assignments and comments, if the reset settings say so</li>
               </ul>
               <div className="flex gap-2">
                 <Button
@@ -166,13 +213,19 @@ export default function DailyReset() {
             </div>
           </CardContent>
         </Card>
-      ) : !lastReport ? (
+      ) : !report ? (
         <Card>
           <CardContent className="pt-6">
             <div className="text-center py-8 text-muted-foreground">
               <Clock className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No daily reset reports available yet.</p>
-              <p className="text-sm">The first report will be generated after the next reset.</p>
+              {selectedDate ? (
+                <p>No daily reset report for {format(new Date(`${selectedDate}T00:00:00`), "MMMM d, yyyy")}.</p>
+              ) : (
+                <>
+                  <p>No daily reset reports available yet.</p>
+                  <p className="text-sm">The first report will be generated after the next reset.</p>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -189,7 +242,7 @@ export default function DailyReset() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <BarChart3 className="h-5 w-5" />
-                  Daily Report - {format(new Date(lastReport.date), "MMMM d, yyyy")}
+                  Daily Report - {format(new Date(`${report.date}T00:00:00`), "MMMM d, yyyy")}
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -199,7 +252,7 @@ export default function DailyReset() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Total Rooms</p>
-                          <p className="text-2xl font-bold">{lastReport.roomMetrics.totalRooms}</p>
+                          <p className="text-2xl font-bold">{report.roomMetrics.totalRooms}</p>
                         </div>
                         <Home className="h-8 w-8 text-blue-500" />
                       </div>
@@ -211,7 +264,7 @@ export default function DailyReset() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Clean & Inspected</p>
-                          <p className="text-2xl font-bold">{lastReport.roomMetrics.cleanInspectedRooms}</p>
+                          <p className="text-2xl font-bold">{report.roomMetrics.cleanInspectedRooms}</p>
                         </div>
                         <CheckCircle className="h-8 w-8 text-green-500" />
                       </div>
@@ -223,7 +276,7 @@ export default function DailyReset() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Ready Rooms</p>
-                          <p className="text-2xl font-bold">{lastReport.roomMetrics.readyRooms}</p>
+                          <p className="text-2xl font-bold">{report.roomMetrics.readyRooms}</p>
                         </div>
                         <CheckCircle className="h-8 w-8 text-blue-500" />
                       </div>
@@ -235,7 +288,7 @@ export default function DailyReset() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Tasks Completed</p>
-                          <p className="text-2xl font-bold">{lastReport.tasksSummary.completedTasks}</p>
+                          <p className="text-2xl font-bold">{report.tasksSummary.completedTasks}</p>
                         </div>
                         <ClipboardList className="h-8 w-8 text-green-500" />
                       </div>
@@ -252,18 +305,18 @@ export default function DailyReset() {
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span>Total Tasks:</span>
-                          <Badge variant="outline">{lastReport.tasksSummary.totalTasks}</Badge>
+                          <Badge variant="outline">{report.tasksSummary.totalTasks}</Badge>
                         </div>
                         <div className="flex justify-between">
                           <span>Completed:</span>
                           <Badge variant="outline" className="bg-green-100 text-green-800">
-                            {lastReport.tasksSummary.completedTasks}
+                            {report.tasksSummary.completedTasks}
                           </Badge>
                         </div>
                         <div className="flex justify-between">
                           <span>Pending:</span>
                           <Badge variant="outline" className="bg-amber-100 text-amber-800">
-                            {lastReport.tasksSummary.pendingTasks}
+                            {report.tasksSummary.pendingTasks}
                           </Badge>
                         </div>
                       </div>
@@ -278,18 +331,18 @@ export default function DailyReset() {
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span>Total Work Orders:</span>
-                          <Badge variant="outline">{lastReport.workOrdersSummary.totalWorkOrders}</Badge>
+                          <Badge variant="outline">{report.workOrdersSummary.totalWorkOrders}</Badge>
                         </div>
                         <div className="flex justify-between">
                           <span>Completed:</span>
                           <Badge variant="outline" className="bg-green-100 text-green-800">
-                            {lastReport.workOrdersSummary.completedWorkOrders}
+                            {report.workOrdersSummary.completedWorkOrders}
                           </Badge>
                         </div>
                         <div className="flex justify-between">
                           <span>Pending:</span>
                           <Badge variant="outline" className="bg-amber-100 text-amber-800">
-                            {lastReport.workOrdersSummary.pendingWorkOrders}
+                            {report.workOrdersSummary.pendingWorkOrders}
                           </Badge>
                         </div>
                       </div>
@@ -308,25 +361,25 @@ export default function DailyReset() {
               <CardContent>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
                   <div className="text-center p-4 border rounded-lg">
-                    <div className="text-2xl font-bold text-blue-500">{lastReport.roomMetrics.readyRooms}</div>
+                    <div className="text-2xl font-bold text-blue-500">{report.roomMetrics.readyRooms}</div>
                     <div className="text-sm text-muted-foreground">READY</div>
                   </div>
                   <div className="text-center p-4 border rounded-lg">
-                    <div className="text-2xl font-bold text-yellow-500">{lastReport.roomMetrics.rollRooms}</div>
+                    <div className="text-2xl font-bold text-yellow-500">{report.roomMetrics.rollRooms}</div>
                     <div className="text-sm text-muted-foreground">ROLL</div>
                   </div>
                   <div className="text-center p-4 border rounded-lg">
-                    <div className="text-2xl font-bold text-gray-500">{lastReport.roomMetrics.outRooms}</div>
+                    <div className="text-2xl font-bold text-gray-500">{report.roomMetrics.outRooms}</div>
                     <div className="text-sm text-muted-foreground">OUT</div>
                   </div>
                   <div className="text-center p-4 border rounded-lg">
-                    <div className="text-2xl font-bold text-green-500">{lastReport.roomMetrics.cleanInspectedRooms}</div>
+                    <div className="text-2xl font-bold text-green-500">{report.roomMetrics.cleanInspectedRooms}</div>
                     <div className="text-sm text-muted-foreground">Clean & Inspected</div>
                   </div>
                 </div>
 
                 <div className="space-y-2 max-h-60 overflow-y-auto">
-                  {lastReport.roomStatuses.map((roomStatus: any) => (
+                  {report.roomStatuses.map((roomStatus: any) => (
                     <div key={roomStatus.roomId} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex items-center gap-3">
                         <span className="font-medium">Room {roomStatus.roomNumber}</span>
@@ -369,8 +422,8 @@ export default function DailyReset() {
                       <div className="flex justify-between text-sm">
                         <span>Completion Rate:</span>
                         <span className="font-medium">
-                          {lastReport.tasksSummary.totalTasks > 0 
-                            ? Math.round((lastReport.tasksSummary.completedTasks / lastReport.tasksSummary.totalTasks) * 100)
+                          {report.tasksSummary.totalTasks > 0 
+                            ? Math.round((report.tasksSummary.completedTasks / report.tasksSummary.totalTasks) * 100)
                             : 0}%
                         </span>
                       </div>
@@ -378,8 +431,8 @@ export default function DailyReset() {
                         <div 
                           className="bg-green-600 h-2 rounded-full" 
                           style={{ 
-                            width: `${lastReport.tasksSummary.totalTasks > 0 
-                              ? (lastReport.tasksSummary.completedTasks / lastReport.tasksSummary.totalTasks) * 100
+                            width: `${report.tasksSummary.totalTasks > 0 
+                              ? (report.tasksSummary.completedTasks / report.tasksSummary.totalTasks) * 100
                               : 0}%` 
                           }}
                         />
@@ -393,14 +446,14 @@ export default function DailyReset() {
                       <div className="flex justify-between text-sm">
                         <span>Ready + Clean:</span>
                         <span className="font-medium">
-                          {lastReport.roomMetrics.readyRooms + lastReport.roomMetrics.cleanInspectedRooms} / {lastReport.roomMetrics.totalRooms}
+                          {report.roomMetrics.readyRooms + report.roomMetrics.cleanInspectedRooms} / {report.roomMetrics.totalRooms}
                         </span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div 
                           className="bg-blue-600 h-2 rounded-full" 
                           style={{ 
-                            width: `${((lastReport.roomMetrics.readyRooms + lastReport.roomMetrics.cleanInspectedRooms) / lastReport.roomMetrics.totalRooms) * 100}%` 
+                            width: `${((report.roomMetrics.readyRooms + report.roomMetrics.cleanInspectedRooms) / report.roomMetrics.totalRooms) * 100}%` 
                           }}
                         />
                       </div>
@@ -413,8 +466,8 @@ export default function DailyReset() {
                       <div className="flex justify-between text-sm">
                         <span>Completion Rate:</span>
                         <span className="font-medium">
-                          {lastReport.workOrdersSummary.totalWorkOrders > 0 
-                            ? Math.round((lastReport.workOrdersSummary.completedWorkOrders / lastReport.workOrdersSummary.totalWorkOrders) * 100)
+                          {report.workOrdersSummary.totalWorkOrders > 0 
+                            ? Math.round((report.workOrdersSummary.completedWorkOrders / report.workOrdersSummary.totalWorkOrders) * 100)
                             : 0}%
                         </span>
                       </div>
@@ -422,8 +475,8 @@ export default function DailyReset() {
                         <div 
                           className="bg-purple-600 h-2 rounded-full" 
                           style={{ 
-                            width: `${lastReport.workOrdersSummary.totalWorkOrders > 0 
-                              ? (lastReport.workOrdersSummary.completedWorkOrders / lastReport.workOrdersSummary.totalWorkOrders) * 100
+                            width: `${report.workOrdersSummary.totalWorkOrders > 0 
+                              ? (report.workOrdersSummary.completedWorkOrders / report.workOrdersSummary.totalWorkOrders) * 100
                               : 0}%` 
                           }}
                         />
@@ -436,6 +489,10 @@ export default function DailyReset() {
           </TabsContent>
         </Tabs>
       )}
+
+      <DailyResetHistory onSelectDate={setSelectedDate} />
+
+      <DailyResetSettings />
     </div>
   );
 }
\ No newline at end of file
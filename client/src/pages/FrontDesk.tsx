@@ -14,6 +14,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import RoomComments from "@/components/RoomComments";
 import RoomStatusSelector from "@/components/RoomStatusSelector";
+import OccupancyPanel from "@/components/OccupancyPanel";
 import { 
   Hotel, 
   Users, 
@@ -318,11 +319,12 @@ export default function FrontDesk() {
 
       {/* Room Management Tabs */}
       <Tabs defaultValue="all-rooms" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="all-rooms">All Rooms</TabsTrigger>
           <TabsTrigger value="assignments">Assignments</TabsTrigger>
           <TabsTrigger value="dirty-rooms">Dirty Rooms</TabsTrigger>
           <TabsTrigger value="comments">Room Notes</TabsTrigger>
+          <TabsTrigger value="occupancy">Occupancy</TabsTrigger>
         </TabsList>
 
         <TabsContent value="all-rooms" className="space-y-4">
@@ -562,6 +564,10 @@ export default function FrontDesk() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="occupancy" className="space-y-4">
+          <OccupancyPanel />
+        </TabsContent>
       </Tabs>
 
       {/* Room Assignment Modal */}
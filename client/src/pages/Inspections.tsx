@@ -11,26 +11,26 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import StatusChip from "@/components/StatusChip";
-import { apiRequest, invalidateQueries, uploadFile } from "@/services/api";
+import SignaturePad from "@/components/SignaturePad";
+import { apiRequest, downloadFile, invalidateQueries, uploadFile } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { DoorOpen, ClipboardList, Plus, Check, X, Camera, MessageSquare, PenTool, Eye, Trash2, Archive, MoreHorizontal } from "lucide-react";
-
-interface ChecklistItem {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  passed?: boolean;
-  notes?: string;
-  photos?: string[];
-}
+import { DoorOpen, ClipboardList, Plus, Check, X, Camera, MessageSquare, PenTool, Eye, Trash2, Archive, MoreHorizontal, Lock, Unlock, Download, ShieldCheck, ShieldAlert } from "lucide-react";
+import type { InspectionChecklistItem as ChecklistItem, InspectionRemediation, InspectionTemplate, InspectionWithSignatureCheck } from "@shared/schema";
+
+// Inspections created before templates had their own threshold pass at 80%
+const DEFAULT_PASS_THRESHOLD = 80;
+
+// A failed room inspection stays open until a re-inspection of the room passes
+const awaitsReinspection = (inspection: any) =>
+  inspection.kind === "room" && !!inspection.signedAt && inspection.passFail === false && !inspection.remediatedAt;
 
 export default function Inspections() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [selectedInspectionType, setSelectedInspectionType] = useState<"room" | "process" | null>(null);
   const [selectedRoomId, setSelectedRoomId] = useState<string>("");
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
   const [activeInspection, setActiveInspection] = useState<any>(null);
   const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
   const [notes, setNotes] = useState("");
@@ -41,6 +41,10 @@ export default function Inspections() {
   const [showInspectionDetails, setShowInspectionDetails] = useState(false);
   const [showRoomStatusDialog, setShowRoomStatusDialog] = useState(false);
   const [completedInspection, setCompletedInspection] = useState<any>(null);
+  const [showSignDialog, setShowSignDialog] = useState(false);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [showUnlockDialog, setShowUnlockDialog] = useState(false);
+  const [unlockReason, setUnlockReason] = useState("");
 
   const { data: inspections = [], isLoading } = useQuery({
     queryKey: ["/api/inspections"],
@@ -50,6 +54,23 @@ export default function Inspections() {
     queryKey: ["/api/rooms"],
   });
 
+  // The signature check is made for the inspection being viewed only
+  const { data: signatureCheck } = useQuery<InspectionWithSignatureCheck>({
+    queryKey: ["/api/inspections", selectedInspection?.id],
+    enabled: showInspectionDetails && !!selectedInspection?.signedAt,
+  });
+
+  const { data: remediation } = useQuery<InspectionRemediation>({
+    queryKey: [`/api/inspections/${selectedInspection?.id}/remediation`],
+    enabled: showInspectionDetails && selectedInspection?.kind === "room" && selectedInspection?.passFail === false,
+  });
+
+  // Only the templates that fit the chosen inspection type and room
+  const { data: templates = [] } = useQuery<InspectionTemplate[]>({
+    queryKey: [`/api/inspection-templates?kind=${selectedInspectionType}${selectedInspectionType === "room" && selectedRoomId ? `&roomId=${selectedRoomId}` : ""}`],
+    enabled: !!selectedInspectionType,
+  });
+
   // Delete inspection mutation
   const deleteInspectionMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -84,10 +105,11 @@ export default function Inspections() {
 
   // Update room status mutation
   const updateRoomStatusMutation = useMutation({
-    mutationFn: async ({ roomId, status }: { roomId: string; status: string }) => {
-      await apiRequest("PATCH", `/api/rooms/${roomId}/status`, { status });
+    mutationFn: async ({ roomId, status, inspectionId }: { roomId: string; status: string; inspectionId: string }) => {
+      await apiRequest("PATCH", `/api/rooms/${roomId}/status`, { status, inspectionId });
     },
     onSuccess: () => {
+      invalidateQueries(["/api/rooms"]);
       toast({ title: "Room status updated to Clean & Inspected" });
       setShowRoomStatusDialog(false);
       setCompletedInspection(null);
@@ -97,6 +119,24 @@ export default function Inspections() {
     },
   });
 
+  // Site admins reopen a signed inspection; the server audits the unlock
+  const unlockInspectionMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/inspections/${id}/unlock`, { reason });
+      return response.json();
+    },
+    onSuccess: (inspection) => {
+      invalidateQueries(["/api/inspections"]);
+      setSelectedInspection(inspection);
+      setShowUnlockDialog(false);
+      setUnlockReason("");
+      toast({ title: "Inspection unlocked", description: "It can be changed until it is signed again." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to unlock inspection", description: error.message, variant: "destructive" });
+    },
+  });
+
   const createInspectionMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/inspections", data);
@@ -105,7 +145,7 @@ export default function Inspections() {
     onSuccess: (inspection) => {
       invalidateQueries(["/api/inspections"]);
       setActiveInspection(inspection);
-      initializeChecklist(inspection.kind);
+      setChecklist(inspection.checklist);
       setShowCreateModal(false);
       toast({
         title: "Inspection Started",
@@ -121,81 +161,11 @@ export default function Inspections() {
     },
   });
 
-  const initializeChecklist = (kind: "room" | "process") => {
-    if (kind === "room") {
-      setChecklist([
-        {
-          id: "1",
-          title: "Bed linens clean and properly arranged",
-          description: "Check for stains, wrinkles, and proper hospital corners",
-          completed: false,
-        },
-        {
-          id: "2", 
-          title: "Bathroom cleanliness",
-          description: "Toilet, shower, sink, mirror, and floor must be spotless",
-          completed: false,
-        },
-        {
-          id: "3",
-          title: "Amenities properly stocked",
-          description: "Towels, toiletries, coffee, water bottles, etc.",
-          completed: false,
-        },
-        {
-          id: "4",
-          title: "Room temperature and HVAC",
-          description: "Proper temperature control and air circulation",
-          completed: false,
-        },
-        {
-          id: "5",
-          title: "Electronics and lighting",
-          description: "TV, lights, alarm clock, phone all functional",
-          completed: false,
-        },
-        {
-          id: "6",
-          title: "Safety and security",
-          description: "Door locks, safe, fire safety equipment",
-          completed: false,
-        },
-      ]);
-    } else {
-      setChecklist([
-        {
-          id: "1",
-          title: "Staff adherence to cleaning procedures",
-          description: "Proper sequence and technique followed",
-          completed: false,
-        },
-        {
-          id: "2",
-          title: "Equipment and supplies availability",
-          description: "All necessary tools and cleaning supplies present",
-          completed: false,
-        },
-        {
-          id: "3",
-          title: "Time management and efficiency",
-          description: "Tasks completed within expected timeframe",
-          completed: false,
-        },
-        {
-          id: "4",
-          title: "Safety protocol compliance",
-          description: "PPE usage and safety procedures followed",
-          completed: false,
-        },
-      ]);
-    }
-  };
-
   const handleStartInspection = () => {
-    if (!selectedInspectionType || (selectedInspectionType === "room" && !selectedRoomId)) {
+    if (!selectedInspectionType || (selectedInspectionType === "room" && !selectedRoomId) || !selectedTemplateId) {
       toast({
         title: "Incomplete Selection",
-        description: "Please select inspection type and room (if applicable).",
+        description: "Please select inspection type, room (if applicable) and template.",
         variant: "destructive",
       });
       return;
@@ -204,7 +174,7 @@ export default function Inspections() {
     createInspectionMutation.mutate({
       kind: selectedInspectionType,
       roomId: selectedInspectionType === "room" ? selectedRoomId : null,
-      checklist: {},
+      templateId: selectedTemplateId,
     });
   };
 
@@ -214,28 +184,39 @@ export default function Inspections() {
     ));
   };
 
+  // Preview only: the server works out the score that is saved the same way
   const calculateScore = () => {
-    if (checklist.length === 0) return 0;
-    const completed = checklist.filter(item => item.completed).length;
-    const passed = checklist.filter(item => item.passed === true).length;
-    return Math.round((passed / checklist.length) * 100);
+    const totalWeight = checklist.reduce((sum, item) => sum + (item.weight ?? 1), 0);
+    if (totalWeight === 0) return 0;
+    const passedWeight = checklist
+      .filter(item => item.passed === true)
+      .reduce((sum, item) => sum + (item.weight ?? 1), 0);
+    return Math.round((passedWeight / totalWeight) * 100);
   };
 
+  const failedCritical = checklist.some(item => item.critical && item.passed !== true);
+  const isPassing = !failedCritical &&
+    calculateScore() >= (activeInspection?.passThreshold ?? DEFAULT_PASS_THRESHOLD);
+
   const handleSignOff = async () => {
-    if (!activeInspection) return;
-    
-    const score = calculateScore();
-    const passFail = score >= 80; // 80% pass threshold
+    if (!activeInspection || !signature) return;
     
     try {
-      await apiRequest("PATCH", `/api/inspections/${activeInspection.id}`, {
-        checklist: checklist,
-        score,
-        passFail,
-        signedAt: new Date().toISOString(),
+      // The server records the sign-off time and seals the results with the signature
+      const response = await apiRequest("PATCH", `/api/inspections/${activeInspection.id}`, {
+        checklist: checklist.map(({ id, completed, passed, notes, photos }) => ({ id, completed, passed, notes, photos })),
+        signature,
       });
+      const { score, passFail } = await response.json();
+      setShowSignDialog(false);
+      setSignature(null);
       
       invalidateQueries(["/api/inspections"]);
+      if (activeInspection.roomId && !passFail) {
+        invalidateQueries(["/api/rooms"]);
+        invalidateQueries(["/api/tasks"]);
+        invalidateQueries(["/api/workorders"]);
+      }
       
       // Store completed inspection for room status dialog
       if (activeInspection.roomId && passFail) {
@@ -248,7 +229,9 @@ export default function Inspections() {
       
       toast({
         title: "Inspection Completed",
-        description: `Inspection ${passFail ? "passed" : "failed"} with ${score}% score.`,
+        description: passFail || !activeInspection.roomId
+          ? `Inspection ${passFail ? "passed" : "failed"} with ${score}% score.`
+          : `Inspection failed with ${score}% score. Failed items were sent for re-cleaning or repair and the room needs a re-inspection.`,
         variant: passFail ? "default" : "destructive",
       });
     } catch (error: any) {
@@ -283,7 +266,20 @@ export default function Inspections() {
     }
   };
 
-  const canCreateInspection = user?.role && ["site_admin", "head_housekeeper"].includes(user.role);
+  const handleDownloadPdf = async (inspection: any) => {
+    try {
+      await downloadFile(`/api/inspections/${inspection.id}/pdf`, `inspection-${inspection.id}.pdf`);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Creating, changing and removing inspections is kept to the inspectors
+  const canInspect = user?.role && ["site_admin", "head_housekeeper"].includes(user.role);
 
   if (isLoading) {
     return (
@@ -301,7 +297,7 @@ export default function Inspections() {
     <div className="p-4 space-y-6" data-testid="inspections-page">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Inspections</h1>
-        {canCreateInspection && (
+        {canInspect && (
           <Button onClick={() => setShowCreateModal(true)} data-testid="create-inspection-button">
             <Plus className="h-4 w-4 mr-2" />
             New Inspection
@@ -338,80 +334,88 @@ export default function Inspections() {
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            {checklist.map((item) => (
-              <Card key={item.id} className={`border ${item.passed === false ? "border-red-200 bg-red-50" : ""}`}>
-                <CardContent className="p-4">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <Checkbox
-                          checked={item.completed}
-                          onCheckedChange={(checked) => 
-                            updateChecklistItem(item.id, { completed: !!checked })
-                          }
-                          data-testid={`checklist-item-${item.id}`}
-                        />
-                        <h3 className="font-medium">{item.title}</h3>
+            {checklist.map((item, index) => (
+              <div key={item.id} className="space-y-2">
+                {item.section && item.section !== checklist[index - 1]?.section && (
+                  <h3 className="font-semibold pt-2">{item.section}</h3>
+                )}
+                <Card className={`border ${item.passed === false ? "border-red-200 bg-red-50" : ""}`}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <Checkbox
+                            checked={item.completed}
+                            onCheckedChange={(checked) => 
+                              updateChecklistItem(item.id, { completed: !!checked })
+                            }
+                            data-testid={`checklist-item-${item.id}`}
+                          />
+                          <h3 className="font-medium">{item.title}</h3>
+                          {item.critical && <Badge variant="destructive">Critical</Badge>}
+                          {item.maintenance && <Badge variant="outline">Maintenance</Badge>}
+                          {(item.weight ?? 1) !== 1 && <Badge variant="outline">×{item.weight}</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground ml-8">{item.description}</p>
+                      </div>
+                      
+                      <div className="flex items-center space-x-2 ml-4">
+                        <Button
+                          size="sm"
+                          variant={item.passed === true ? "default" : "outline"}
+                          className={item.passed === true ? "bg-success hover:bg-success/90" : ""}
+                          onClick={() => updateChecklistItem(item.id, { passed: true, completed: true })}
+                          data-testid={`pass-${item.id}`}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={item.passed === false ? "destructive" : "outline"}
+                          onClick={() => updateChecklistItem(item.id, { passed: false, completed: true })}
+                          data-testid={`fail-${item.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <p className="text-sm text-muted-foreground ml-8">{item.description}</p>
                     </div>
                     
-                    <div className="flex items-center space-x-2 ml-4">
+                    {item.notes && (
+                      <div className="bg-background p-3 rounded border border-border mb-3">
+                        <p className="text-sm"><strong>Note:</strong> {item.notes}</p>
+                      </div>
+                    )}
+                    
+                    <div className="flex items-center space-x-2">
                       <Button
+                        variant="outline"
                         size="sm"
-                        variant={item.passed === true ? "default" : "outline"}
-                        className={item.passed === true ? "bg-success hover:bg-success/90" : ""}
-                        onClick={() => updateChecklistItem(item.id, { passed: true, completed: true })}
-                        data-testid={`pass-${item.id}`}
+                        onClick={() => {
+                          const newNotes = prompt("Add notes:", item.notes || "");
+                          if (newNotes !== null) {
+                            updateChecklistItem(item.id, { notes: newNotes });
+                          }
+                        }}
+                        data-testid={`add-note-${item.id}`}
                       >
-                        <Check className="h-4 w-4" />
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        {item.notes ? "Edit Note" : "Add Note"}
                       </Button>
-                      <Button
-                        size="sm"
-                        variant={item.passed === false ? "destructive" : "outline"}
-                        onClick={() => updateChecklistItem(item.id, { passed: false, completed: true })}
-                        data-testid={`fail-${item.id}`}
+                      
+                      <ObjectUploader
+                        maxNumberOfFiles={5}
+                        maxFileSize={10485760}
+                        onGetUploadParameters={handleGetUploadParameters}
+                        onComplete={(result) => handlePhotoUpload(result, item.id)}
+                        buttonClassName="h-9 px-3"
                       >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                  
-                  {item.notes && (
-                    <div className="bg-background p-3 rounded border border-border mb-3">
-                      <p className="text-sm"><strong>Note:</strong> {item.notes}</p>
+                        <Camera className="h-4 w-4 mr-1" />
+                        {item.photos?.length ? `View Photos (${item.photos.length})` : "Add Photo"}
+                      </ObjectUploader>
                     </div>
-                  )}
-                  
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        const newNotes = prompt("Add notes:", item.notes || "");
-                        if (newNotes !== null) {
-                          updateChecklistItem(item.id, { notes: newNotes });
-                        }
-                      }}
-                      data-testid={`add-note-${item.id}`}
-                    >
-                      <MessageSquare className="h-4 w-4 mr-1" />
-                      {item.notes ? "Edit Note" : "Add Note"}
-                    </Button>
-                    
-                    <ObjectUploader
-                      maxNumberOfFiles={5}
-                      maxFileSize={10485760}
-                      onGetUploadParameters={handleGetUploadParameters}
-                      onComplete={(result) => handlePhotoUpload(result, item.id)}
-                      buttonClassName="h-9 px-3"
-                    >
-                      <Camera className="h-4 w-4 mr-1" />
-                      {item.photos?.length ? `View Photos (${item.photos.length})` : "Add Photo"}
-                    </ObjectUploader>
-                  </div>
-                </CardContent>
-              </Card>
+                  </CardContent>
+                </Card>
+              </div>
             ))}
             
             {/* Inspection Actions */}
@@ -424,8 +428,8 @@ export default function Inspections() {
                   </div>
                   <div className="text-sm">
                     <span className="text-muted-foreground">Status:</span>
-                    <Badge className="ml-2" variant={calculateScore() >= 80 ? "default" : "destructive"}>
-                      {calculateScore() >= 80 ? "Passing" : "Failing"}
+                    <Badge className="ml-2" variant={isPassing ? "default" : "destructive"}>
+                      {isPassing ? "Passing" : failedCritical ? "Failing (critical item)" : "Failing"}
                     </Badge>
                   </div>
                 </div>
@@ -434,7 +438,7 @@ export default function Inspections() {
                   <Button variant="outline">
                     Save Draft
                   </Button>
-                  <Button onClick={handleSignOff} data-testid="sign-off-inspection">
+                  <Button onClick={() => setShowSignDialog(true)} data-testid="sign-off-inspection">
                     <PenTool className="h-4 w-4 mr-2" />
                     Sign Off
                   </Button>
@@ -489,6 +493,9 @@ export default function Inspections() {
                       {inspection.passFail !== null && (
                         <StatusChip status={inspection.passFail ? "completed" : "failed"} />
                       )}
+                      {awaitsReinspection(inspection) && (
+                        <Badge variant="outline" className="text-orange-700 border-orange-300">Re-inspection due</Badge>
+                      )}
                       
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -507,27 +514,32 @@ export default function Inspections() {
                             <Eye className="h-4 w-4 mr-2" />
                             View Details
                           </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => {
-                              setSelectedInspection(inspection);
-                              setShowArchiveDialog(true);
-                            }}
-                            data-testid={`archive-inspection-${inspection.id}`}
-                          >
-                            <Archive className="h-4 w-4 mr-2" />
-                            Archive
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => {
-                              setSelectedInspection(inspection);
-                              setShowDeleteDialog(true);
-                            }}
-                            className="text-red-600"
-                            data-testid={`delete-inspection-${inspection.id}`}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canInspect && (
+                            <DropdownMenuItem 
+                              onClick={() => {
+                                setSelectedInspection(inspection);
+                                setShowArchiveDialog(true);
+                              }}
+                              data-testid={`archive-inspection-${inspection.id}`}
+                            >
+                              <Archive className="h-4 w-4 mr-2" />
+                              Archive
+                            </DropdownMenuItem>
+                          )}
+                          {/* A signed inspection has to be unlocked before it can be deleted */}
+                          {canInspect && (!inspection.signedAt || inspection.unlockedAt) && (
+                            <DropdownMenuItem 
+                              onClick={() => {
+                                setSelectedInspection(inspection);
+                                setShowDeleteDialog(true);
+                              }}
+                              className="text-red-600"
+                              data-testid={`delete-inspection-${inspection.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -550,7 +562,10 @@ export default function Inspections() {
               <Button
                 variant="outline"
                 className="p-6 h-auto border-2 hover:border-primary transition-colors"
-                onClick={() => setSelectedInspectionType("room")}
+                onClick={() => {
+                  setSelectedInspectionType("room");
+                  setSelectedTemplateId("");
+                }}
                 data-testid="select-room-inspection"
               >
                 <div className="flex items-center space-x-4">
@@ -567,7 +582,10 @@ export default function Inspections() {
               <Button
                 variant="outline" 
                 className="p-6 h-auto border-2 hover:border-primary transition-colors"
-                onClick={() => setSelectedInspectionType("process")}
+                onClick={() => {
+                  setSelectedInspectionType("process");
+                  setSelectedTemplateId("");
+                }}
                 data-testid="select-process-inspection"
               >
                 <div className="flex items-center space-x-4">
@@ -585,7 +603,13 @@ export default function Inspections() {
             {selectedInspectionType === "room" && (
               <div className="space-y-2">
                 <label className="text-sm font-medium">Select Room</label>
-                <Select value={selectedRoomId} onValueChange={setSelectedRoomId}>
+                <Select
+                  value={selectedRoomId}
+                  onValueChange={(value) => {
+                    setSelectedRoomId(value);
+                    setSelectedTemplateId("");
+                  }}
+                >
                   <SelectTrigger data-testid="room-select">
                     <SelectValue placeholder="Choose a room" />
                   </SelectTrigger>
@@ -599,6 +623,24 @@ export default function Inspections() {
                 </Select>
               </div>
             )}
+
+            {selectedInspectionType && (selectedInspectionType === "process" || selectedRoomId) && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Select Template</label>
+                <Select value={selectedTemplateId} onValueChange={setSelectedTemplateId}>
+                  <SelectTrigger data-testid="template-select">
+                    <SelectValue placeholder={templates.length ? "Choose a template" : "No templates fit this inspection"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}{template.roomType ? ` (${template.roomType})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setShowCreateModal(false)}>
@@ -640,7 +682,8 @@ export default function Inspections() {
                 if (completedInspection?.roomId) {
                   updateRoomStatusMutation.mutate({
                     roomId: completedInspection.roomId,
-                    status: "clean_inspected"
+                    status: "clean_inspected",
+                    inspectionId: completedInspection.id
                   });
                   setActiveInspection(null);
                   setChecklist([]);
@@ -653,6 +696,65 @@ export default function Inspections() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Signature Dialog */}
+      <Dialog
+        open={showSignDialog}
+        onOpenChange={(open) => {
+          setShowSignDialog(open);
+          if (!open) setSignature(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Off Inspection</DialogTitle>
+            <DialogDescription>
+              Sign below to submit the results. Once signed, the inspection is locked and only a site admin can reopen it.
+            </DialogDescription>
+          </DialogHeader>
+          <SignaturePad onChange={setSignature} />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowSignDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSignOff} disabled={!signature} data-testid="submit-signature">
+              <PenTool className="h-4 w-4 mr-2" />
+              Sign & Submit
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Unlock Dialog */}
+      <Dialog open={showUnlockDialog} onOpenChange={setShowUnlockDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unlock Inspection</DialogTitle>
+            <DialogDescription>
+              Unlocking allows the signed results to be changed until the inspection is signed again. The unlock and its reason are recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason for unlocking"
+            value={unlockReason}
+            onChange={(e) => setUnlockReason(e.target.value)}
+            data-testid="unlock-reason"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowUnlockDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedInspection && unlockInspectionMutation.mutate({ id: selectedInspection.id, reason: unlockReason })}
+              disabled={!unlockReason.trim() || unlockInspectionMutation.isPending}
+              data-testid="confirm-unlock-inspection"
+            >
+              <Unlock className="h-4 w-4 mr-2" />
+              Unlock
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Inspection Details Dialog */}
       <Dialog open={showInspectionDetails} onOpenChange={setShowInspectionDetails}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -684,7 +786,89 @@ export default function Inspections() {
                     </Badge>
                   </div>
                 </div>
+                <Button size="sm" variant="outline" onClick={() => handleDownloadPdf(selectedInspection)} data-testid="download-inspection-pdf">
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
               </div>
+              {selectedInspection.signedAt && (
+                <div className="flex items-center justify-between p-3 border rounded-lg" data-testid="inspection-signature">
+                  <div className="text-sm space-y-1">
+                    {selectedInspection.unlockedAt ? (
+                      <p className="flex items-center text-orange-700">
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Unlocked on {new Date(selectedInspection.unlockedAt).toLocaleString()}: {selectedInspection.unlockReason}
+                      </p>
+                    ) : (
+                      <p className="flex items-center">
+                        <Lock className="h-4 w-4 mr-2" />
+                        Signed on {new Date(selectedInspection.signedAt).toLocaleString()}
+                      </p>
+                    )}
+                    {selectedInspection.signatureHash && (
+                      <p className="text-muted-foreground font-mono text-xs">
+                        SHA-256 {selectedInspection.signatureHash.slice(0, 16)}…
+                      </p>
+                    )}
+                    {signatureCheck?.signatureValid === true && (
+                      <p className="flex items-center text-green-700" data-testid="signature-verified">
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        Results match what was signed
+                      </p>
+                    )}
+                    {signatureCheck?.signatureValid === false && (
+                      <p className="flex items-center text-red-600" data-testid="signature-mismatch">
+                        <ShieldAlert className="h-4 w-4 mr-2" />
+                        Results no longer match what was signed
+                      </p>
+                    )}
+                  </div>
+                  {selectedInspection.unlockedAt ? canInspect && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setActiveInspection(selectedInspection);
+                        setChecklist(selectedInspection.checklist);
+                        setShowInspectionDetails(false);
+                      }}
+                      data-testid="edit-unlocked-inspection"
+                    >
+                      <PenTool className="h-4 w-4 mr-2" />
+                      Edit & Re-sign
+                    </Button>
+                  ) : user?.role === "site_admin" && (
+                    <Button size="sm" variant="outline" onClick={() => setShowUnlockDialog(true)} data-testid="unlock-inspection">
+                      <Unlock className="h-4 w-4 mr-2" />
+                      Unlock
+                    </Button>
+                  )}
+                </div>
+              )}
+              {remediation && (
+                <div className="space-y-2">
+                  <h3 className="font-medium">Follow-up</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {awaitsReinspection(selectedInspection)
+                      ? "The room needs a passing re-inspection before it can be marked Clean & Inspected."
+                      : selectedInspection.remediatedAt
+                        ? `Closed by a passing re-inspection on ${new Date(selectedInspection.remediatedAt).toLocaleDateString()}.`
+                        : "No follow-up needed."}
+                  </p>
+                  {remediation.tasks.map((task) => (
+                    <div key={task.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`remediation-task-${task.id}`}>
+                      <span className="text-sm">{task.title}</span>
+                      <StatusChip status={task.status || "pending"} />
+                    </div>
+                  ))}
+                  {remediation.workOrders.map((workOrder) => (
+                    <div key={workOrder.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`remediation-work-order-${workOrder.id}`}>
+                      <span className="text-sm">Work order: {workOrder.title}</span>
+                      <StatusChip status={workOrder.status || "pending"} />
+                    </div>
+                  ))}
+                </div>
+              )}
               {selectedInspection.checklist && Array.isArray(selectedInspection.checklist) && (
                 <div className="space-y-2">
                   <h3 className="font-medium">Checklist Items</h3>
@@ -694,6 +878,8 @@ export default function Inspections() {
                         <div className="flex items-center space-x-2">
                           <div className={`w-4 h-4 rounded-full ${item.passed ? 'bg-green-500' : item.passed === false ? 'bg-red-500' : 'bg-gray-300'}`} />
                           <span className="font-medium">{item.title}</span>
+                          {item.critical && <Badge variant="destructive">Critical</Badge>}
+                          {item.maintenance && <Badge variant="outline">Maintenance</Badge>}
                         </div>
                         <span className="text-sm text-muted-foreground">
                           {item.passed ? "Passed" : item.passed === false ? "Failed" : "Not checked"}
@@ -0,0 +1,651 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  PackageSearch, Search, Plus, DoorOpen, MapPin, Archive, Camera,
+  CalendarX, Undo2, Trash2, User as UserIcon
+} from "lucide-react";
+import { format } from "date-fns";
+import type { LostFoundItem, Room, User } from "@shared/schema";
+
+interface LostFoundWeeklySummary {
+  weekStart: string;
+  weekEnd: string;
+  loggedCount: number;
+  returnedCount: number;
+  clearedCount: number;
+  currentlyHeld: number;
+  expiringNextWeek: Array<{ id: string; description: string; storageArea: string | null; expireAt: string }>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  logged: "Logged",
+  stored: "Stored",
+  returned: "Returned",
+  expired_cleared: "Expired / Cleared",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  logged: "bg-blue-100 text-blue-800",
+  stored: "bg-amber-100 text-amber-800",
+  returned: "bg-green-100 text-green-800",
+  expired_cleared: "bg-gray-100 text-gray-800",
+};
+
+const EMPTY_ITEM = {
+  description: "",
+  locationFound: "",
+  roomId: "",
+  storageArea: "",
+  photos: [] as string[],
+};
+
+const EMPTY_RETURN = {
+  claimantName: "",
+  claimantContact: "",
+  returnNotes: "",
+};
+
+const isHeld = (item: LostFoundItem) => item.status === "logged" || item.status === "stored";
+
+export default function LostFound() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("held");
+  const [showCreate, setShowCreate] = useState(false);
+  const [newItem, setNewItem] = useState(EMPTY_ITEM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [storageArea, setStorageArea] = useState("");
+  const [returnForm, setReturnForm] = useState(EMPTY_RETURN);
+  const [showReturn, setShowReturn] = useState(false);
+
+  const canManage = user?.role && ["site_admin", "head_housekeeper", "front_desk_manager"].includes(user.role);
+
+  const { data: items = [], isLoading } = useQuery<LostFoundItem[]>({
+    queryKey: ["/api/lost-found"],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: !!canManage,
+  });
+
+  const { data: weeklySummary } = useQuery<LostFoundWeeklySummary>({
+    queryKey: ["/api/reports/lost-found-weekly"],
+    enabled: !!canManage,
+  });
+
+  const selected = items.find(item => item.id === selectedId);
+
+  const roomMap = rooms.reduce((acc: Record<string, string>, room) => {
+    acc[room.id] = room.number;
+    return acc;
+  }, {});
+
+  const userMap = users.reduce((acc: Record<string, string>, u) => {
+    acc[u.id] = u.name;
+    return acc;
+  }, {});
+
+  const invalidateItems = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lost-found"] });
+  };
+
+  const closeDetail = () => {
+    setSelectedId(null);
+    setShowReturn(false);
+    setReturnForm(EMPTY_RETURN);
+  };
+
+  const openDetail = (item: LostFoundItem) => {
+    setSelectedId(item.id);
+    setStorageArea(item.storageArea || "");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: typeof EMPTY_ITEM) =>
+      apiRequest("POST", "/api/lost-found", {
+        description: data.description,
+        locationFound: data.locationFound,
+        roomId: data.roomId && data.roomId !== "none" ? data.roomId : undefined,
+        storageArea: data.storageArea || undefined,
+        photos: data.photos,
+      }),
+    onSuccess: () => {
+      toast({ title: "Item logged" });
+      invalidateItems();
+      setShowCreate(false);
+      setNewItem(EMPTY_ITEM);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to log item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: Record<string, unknown>) =>
+      apiRequest("PATCH", `/api/lost-found/${selectedId}`, updates),
+    onSuccess: () => {
+      toast({ title: "Item updated" });
+      invalidateItems();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const returnMutation = useMutation({
+    mutationFn: (data: typeof EMPTY_RETURN) =>
+      apiRequest("POST", `/api/lost-found/${selectedId}/return`, {
+        claimantName: data.claimantName,
+        claimantContact: data.claimantContact,
+        returnNotes: data.returnNotes || undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: "Item returned to owner" });
+      invalidateItems();
+      closeDetail();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to return item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/lost-found/${id}`),
+    onSuccess: () => {
+      toast({ title: "Item deleted" });
+      invalidateItems();
+      closeDetail();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleGetUploadParameters = async () => {
+    const response = await apiRequest("POST", "/api/objects/upload");
+    const { uploadURL } = await response.json();
+    return {
+      method: "PUT" as const,
+      url: uploadURL,
+    };
+  };
+
+  const handleNewItemPhoto = (result: any) => {
+    if (result.successful && result.successful.length > 0) {
+      setNewItem(prev => ({ ...prev, photos: [...prev.photos, result.successful[0].uploadURL] }));
+      toast({ title: "Photo Uploaded" });
+    }
+  };
+
+  const handleSelectedItemPhoto = (result: any) => {
+    if (selected && result.successful && result.successful.length > 0) {
+      const photos = (selected.photos as string[] | null) || [];
+      updateMutation.mutate({ photos: [...photos, result.successful[0].uploadURL] });
+    }
+  };
+
+  const filteredItems = items
+    .filter((item) => {
+      if (statusFilter === "all") return true;
+      if (statusFilter === "held") return isHeld(item);
+      return item.status === statusFilter;
+    })
+    .filter((item) => {
+      if (!searchQuery) return true;
+      const searchLower = searchQuery.toLowerCase();
+      return (
+        item.description.toLowerCase().includes(searchLower) ||
+        item.locationFound.toLowerCase().includes(searchLower) ||
+        (item.storageArea && item.storageArea.toLowerCase().includes(searchLower)) ||
+        (item.roomId && roomMap[item.roomId]?.toLowerCase().includes(searchLower)) ||
+        (item.claimantName && item.claimantName.toLowerCase().includes(searchLower))
+      );
+    });
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-16 bg-muted rounded"></div>
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6" data-testid="lost-found-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <PackageSearch className="h-6 w-6" />
+            Lost & Found
+          </h1>
+          <p className="text-muted-foreground">
+            Log found items, track where they are stored, and return them to their owners
+          </p>
+        </div>
+        <Button onClick={() => setShowCreate(true)} data-testid="log-item-button">
+          <Plus className="h-4 w-4 mr-2" />
+          Log Item
+        </Button>
+      </div>
+
+      {/* Weekly Summary */}
+      {canManage && weeklySummary && (
+        <Card data-testid="lost-found-weekly-summary">
+          <CardHeader>
+            <CardTitle className="text-base">
+              Week of {format(new Date(weeklySummary.weekStart), "MMM d")} – {format(new Date(weeklySummary.weekEnd), "MMM d")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{weeklySummary.loggedCount}</div>
+                <div className="text-xs text-muted-foreground">Logged</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600">{weeklySummary.returnedCount}</div>
+                <div className="text-xs text-muted-foreground">Returned</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-600">{weeklySummary.clearedCount}</div>
+                <div className="text-xs text-muted-foreground">Cleared</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-amber-600">{weeklySummary.currentlyHeld}</div>
+                <div className="text-xs text-muted-foreground">Currently Held</div>
+              </div>
+            </div>
+            {weeklySummary.expiringNextWeek.length > 0 && (
+              <div className="mt-4 border-t pt-3 text-sm">
+                <p className="font-medium mb-1">Expiring in the next 7 days</p>
+                <ul className="space-y-1 text-muted-foreground">
+                  {weeklySummary.expiringNextWeek.map((item) => (
+                    <li key={item.id}>
+                      {item.description}
+                      {item.storageArea && ` (${item.storageArea})`} — {format(new Date(item.expireAt), "MMM d")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Search and Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search items..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="search-lost-found"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48" data-testid="lost-found-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="held">Currently Held</SelectItem>
+                <SelectItem value="all">All Status</SelectItem>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Item List */}
+      <div className="space-y-3">
+        {filteredItems.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              <PackageSearch className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              {searchQuery || statusFilter !== "held"
+                ? "No items match your current filters."
+                : "No items are currently being held."}
+            </CardContent>
+          </Card>
+        ) : (
+          filteredItems.map((item) => (
+            <Card
+              key={item.id}
+              className="hover:shadow-md transition-shadow cursor-pointer"
+              onClick={() => openDetail(item)}
+              data-testid={`lost-found-card-${item.id}`}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium truncate">{item.description}</h3>
+                    <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {item.locationFound}
+                      </span>
+                      {item.roomId && (
+                        <span className="flex items-center gap-1">
+                          <DoorOpen className="h-3 w-3" />
+                          Room {roomMap[item.roomId] || "—"}
+                        </span>
+                      )}
+                      {item.storageArea && (
+                        <span className="flex items-center gap-1">
+                          <Archive className="h-3 w-3" />
+                          {item.storageArea}
+                        </span>
+                      )}
+                      {isHeld(item) && item.expireAt && (
+                        <span className="flex items-center gap-1">
+                          <CalendarX className="h-3 w-3" />
+                          Hold until {format(new Date(item.expireAt), "MMM d, yyyy")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <Badge className={STATUS_COLORS[item.status || "logged"]}>
+                    {STATUS_LABELS[item.status || "logged"]}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Log Item Dialog */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Log Found Item</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="lf-description">Description</Label>
+              <Textarea
+                id="lf-description"
+                rows={2}
+                value={newItem.description}
+                onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
+                placeholder="e.g. Black leather wallet"
+                data-testid="lf-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="lf-location">Where Found</Label>
+                <Input
+                  id="lf-location"
+                  value={newItem.locationFound}
+                  onChange={(e) => setNewItem({ ...newItem, locationFound: e.target.value })}
+                  placeholder="e.g. Under the bed"
+                  data-testid="lf-location"
+                />
+              </div>
+              <div>
+                <Label>Room</Label>
+                <Select value={newItem.roomId || "none"} onValueChange={(roomId) => setNewItem({ ...newItem, roomId })}>
+                  <SelectTrigger data-testid="lf-room">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not in a room</SelectItem>
+                    {rooms.map((room) => (
+                      <SelectItem key={room.id} value={room.id}>Room {room.number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="lf-storage">Storage Area</Label>
+              <Input
+                id="lf-storage"
+                value={newItem.storageArea}
+                onChange={(e) => setNewItem({ ...newItem, storageArea: e.target.value })}
+                placeholder="e.g. Front desk safe, Bin 3"
+                data-testid="lf-storage"
+              />
+            </div>
+            <ObjectUploader
+              maxNumberOfFiles={5}
+              maxFileSize={10485760}
+              onGetUploadParameters={handleGetUploadParameters}
+              onComplete={handleNewItemPhoto}
+              buttonClassName="w-full"
+            >
+              <Camera className="h-4 w-4 mr-2" />
+              {newItem.photos.length ? `Photos (${newItem.photos.length})` : "Add Photo"}
+            </ObjectUploader>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowCreate(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate(newItem)}
+                disabled={!newItem.description.trim() || !newItem.locationFound.trim() || createMutation.isPending}
+                data-testid="submit-lost-found-item"
+              >
+                Log Item
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Item Detail Dialog */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && closeDetail()}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selected?.description || "Lost & Found Item"}</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Badge className={STATUS_COLORS[selected.status || "logged"]}>
+                  {STATUS_LABELS[selected.status || "logged"]}
+                </Badge>
+                {selected.createdAt && (
+                  <span className="text-sm text-muted-foreground">
+                    Logged {format(new Date(selected.createdAt), "MMM d, yyyy h:mm a")}
+                    {userMap[selected.foundById] && ` by ${userMap[selected.foundById]}`}
+                  </span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label className="text-muted-foreground">Where Found</Label>
+                  <p>{selected.locationFound}</p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Room</Label>
+                  <p>{selected.roomId ? `Room ${roomMap[selected.roomId] || "—"}` : "—"}</p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Hold Until</Label>
+                  <p>{selected.expireAt ? format(new Date(selected.expireAt), "MMM d, yyyy") : "—"}</p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Photos</Label>
+                  <p>{((selected.photos as string[] | null) || []).length}</p>
+                </div>
+              </div>
+
+              {isHeld(selected) ? (
+                <>
+                  <div>
+                    <Label htmlFor="lf-detail-storage">Storage Area</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="lf-detail-storage"
+                        value={storageArea}
+                        onChange={(e) => setStorageArea(e.target.value)}
+                        placeholder="e.g. Front desk safe, Bin 3"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => updateMutation.mutate({
+                          storageArea: storageArea || null,
+                          ...(selected.status === "logged" && storageArea ? { status: "stored" } : {}),
+                        })}
+                        disabled={updateMutation.isPending}
+                        data-testid="store-lost-found-item"
+                      >
+                        <Archive className="h-4 w-4 mr-2" />
+                        {selected.status === "logged" ? "Mark Stored" : "Save"}
+                      </Button>
+                    </div>
+                  </div>
+
+                  <ObjectUploader
+                    maxNumberOfFiles={5}
+                    maxFileSize={10485760}
+                    onGetUploadParameters={handleGetUploadParameters}
+                    onComplete={handleSelectedItemPhoto}
+                    buttonClassName="w-full"
+                  >
+                    <Camera className="h-4 w-4 mr-2" />
+                    Add Photo
+                  </ObjectUploader>
+
+                  {canManage && (
+                    showReturn ? (
+                      <div className="space-y-3 border-t pt-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="lf-claimant-name">Claimant Name</Label>
+                            <Input
+                              id="lf-claimant-name"
+                              value={returnForm.claimantName}
+                              onChange={(e) => setReturnForm({ ...returnForm, claimantName: e.target.value })}
+                              data-testid="lf-claimant-name"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="lf-claimant-contact">Phone or Email</Label>
+                            <Input
+                              id="lf-claimant-contact"
+                              value={returnForm.claimantContact}
+                              onChange={(e) => setReturnForm({ ...returnForm, claimantContact: e.target.value })}
+                              data-testid="lf-claimant-contact"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <Label htmlFor="lf-return-notes">Notes</Label>
+                          <Textarea
+                            id="lf-return-notes"
+                            rows={2}
+                            value={returnForm.returnNotes}
+                            onChange={(e) => setReturnForm({ ...returnForm, returnNotes: e.target.value })}
+                            placeholder="e.g. ID checked, shipped to guest address"
+                          />
+                        </div>
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="outline" onClick={() => setShowReturn(false)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            onClick={() => returnMutation.mutate(returnForm)}
+                            disabled={!returnForm.claimantName.trim() || !returnForm.claimantContact.trim() || returnMutation.isPending}
+                            data-testid="confirm-return-item"
+                          >
+                            Confirm Return
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap justify-end gap-2 border-t pt-4">
+                        {user?.role === "site_admin" && (
+                          <Button
+                            variant="ghost"
+                            onClick={() => deleteMutation.mutate(selected.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                        )}
+                        {user?.role === "site_admin" && (
+                          <Button
+                            variant="outline"
+                            onClick={() => updateMutation.mutate({ status: "expired_cleared" })}
+                            disabled={updateMutation.isPending}
+                            data-testid="clear-lost-found-item"
+                          >
+                            <CalendarX className="h-4 w-4 mr-2" />
+                            Clear Item
+                          </Button>
+                        )}
+                        <Button onClick={() => setShowReturn(true)} data-testid="return-lost-found-item">
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Return to Owner
+                        </Button>
+                      </div>
+                    )
+                  )}
+                </>
+              ) : (
+                <div className="border-t pt-4 text-sm space-y-1">
+                  {selected.status === "returned" ? (
+                    <>
+                      <p className="flex items-center gap-1">
+                        <UserIcon className="h-4 w-4" />
+                        Returned to {selected.claimantName} ({selected.claimantContact})
+                      </p>
+                      {selected.returnedAt && (
+                        <p className="text-muted-foreground">
+                          {format(new Date(selected.returnedAt), "MMM d, yyyy h:mm a")}
+                          {selected.returnedById && userMap[selected.returnedById] && ` by ${userMap[selected.returnedById]}`}
+                        </p>
+                      )}
+                      {selected.returnNotes && <p className="text-muted-foreground">{selected.returnNotes}</p>}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      Cleared{selected.clearedAt && ` on ${format(new Date(selected.clearedAt), "MMM d, yyyy")}`}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,716 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CalendarClock, Plus, Edit, Trash2, ArrowUp, ArrowDown, Camera, Save,
+  Play, CheckCircle, SkipForward, AlertTriangle, DoorOpen, Wrench
+} from "lucide-react";
+import { format, isSameDay, startOfDay } from "date-fns";
+import type { PMTemplate, PMInstance, PMChecklistItem, PMChecklistResult, Room } from "@shared/schema";
+
+interface TemplateDraft {
+  id?: string;
+  title: string;
+  frequency: "days_counter" | "days_rented";
+  interval: number;
+  scope: "rooms" | "asset";
+  roomType: string;
+  asset: string;
+  checklist: PMChecklistItem[];
+}
+
+const EMPTY_TEMPLATE: TemplateDraft = {
+  title: "",
+  frequency: "days_counter",
+  interval: 90,
+  scope: "rooms",
+  roomType: "all",
+  asset: "",
+  checklist: [],
+};
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  days_counter: "Calendar days",
+  days_rented: "Rented days",
+};
+
+const isOpen = (instance: PMInstance) => instance.status === "pending" || instance.status === "in_progress";
+
+export default function PreventiveMaintenance() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [newItemTitle, setNewItemTitle] = useState("");
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+  const [activeInstanceId, setActiveInstanceId] = useState<string | null>(null);
+  const [results, setResults] = useState<PMChecklistResult[]>([]);
+  const [skipReason, setSkipReason] = useState("");
+  const [showSkip, setShowSkip] = useState(false);
+
+  const { data: templates = [] } = useQuery<PMTemplate[]>({
+    queryKey: ["/api/pm/templates"],
+  });
+
+  const { data: instances = [], isLoading } = useQuery<PMInstance[]>({
+    queryKey: ["/api/pm/instances"],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const templateMap = templates.reduce((acc: Record<string, PMTemplate>, template) => {
+    acc[template.id] = template;
+    return acc;
+  }, {});
+
+  const roomMap = rooms.reduce((acc: Record<string, string>, room) => {
+    acc[room.id] = room.number;
+    return acc;
+  }, {});
+
+  const roomTypes = Array.from(new Set(rooms.map(room => room.type))).sort();
+
+  const activeInstance = instances.find(instance => instance.id === activeInstanceId);
+  const activeTemplate = activeInstance ? templateMap[activeInstance.templateId] : undefined;
+  const activeChecklist = (activeTemplate?.checklist as PMChecklistItem[] | undefined) || [];
+
+  // Load saved progress whenever an instance is opened
+  useEffect(() => {
+    if (activeInstance) {
+      setResults((activeInstance.checklistResults as PMChecklistResult[] | null) || []);
+      setSkipReason("");
+      setShowSkip(false);
+    }
+  }, [activeInstanceId]);
+
+  // Templates and instance work are both kept to maintenance and supervisors
+  const canManagePM = user?.role && ["site_admin", "head_housekeeper", "maintenance"].includes(user.role);
+
+  const invalidatePM = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pm/templates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pm/instances"] });
+  };
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: (draft: TemplateDraft) => {
+      const body = {
+        title: draft.title,
+        frequency: draft.frequency,
+        interval: draft.interval,
+        roomType: draft.scope === "rooms" && draft.roomType !== "all" ? draft.roomType : null,
+        asset: draft.scope === "asset" ? draft.asset : null,
+        checklist: draft.checklist,
+      };
+      return draft.id
+        ? apiRequest("PATCH", `/api/pm/templates/${draft.id}`, body)
+        : apiRequest("POST", "/api/pm/templates", body);
+    },
+    onSuccess: () => {
+      toast({ title: templateDraft?.id ? "PM template updated" : "PM template created" });
+      invalidatePM();
+      setTemplateDraft(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save PM template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateInstanceMutation = useMutation({
+    mutationFn: (updates: Record<string, unknown>) =>
+      apiRequest("PATCH", `/api/pm/instances/${activeInstanceId}`, updates),
+    onSuccess: (_, updates) => {
+      invalidatePM();
+      if (updates.status === "completed" || updates.status === "skipped") {
+        toast({ title: updates.status === "completed" ? "PM completed" : "PM skipped" });
+        setActiveInstanceId(null);
+      } else {
+        toast({ title: "Progress saved" });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update PM instance", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleGetUploadParameters = async () => {
+    const response = await apiRequest("POST", "/api/objects/upload");
+    const { uploadURL } = await response.json();
+    return {
+      method: "PUT" as const,
+      url: uploadURL,
+    };
+  };
+
+  const getResult = (itemId: string): PMChecklistResult =>
+    results.find(result => result.itemId === itemId) || { itemId, done: false, photos: [] };
+
+  const updateResult = (itemId: string, updates: Partial<PMChecklistResult>) => {
+    const next = { ...getResult(itemId), ...updates };
+    setResults([...results.filter(result => result.itemId !== itemId), next]);
+  };
+
+  const handlePhotoUpload = (result: any, itemId: string) => {
+    if (result.successful && result.successful.length > 0) {
+      updateResult(itemId, { photos: [...getResult(itemId).photos, result.successful[0].uploadURL] });
+      toast({ title: "Photo Uploaded" });
+    }
+  };
+
+  const isItemFinished = (item: PMChecklistItem) => {
+    const result = getResult(item.id);
+    return result.done && (!item.requiresPhoto || result.photos.length > 0);
+  };
+
+  const openEditTemplate = (template: PMTemplate) => {
+    setTemplateDraft({
+      id: template.id,
+      title: template.title,
+      frequency: template.frequency,
+      interval: template.interval,
+      scope: template.asset ? "asset" : "rooms",
+      roomType: template.roomType || "all",
+      asset: template.asset || "",
+      checklist: (template.checklist as PMChecklistItem[]) || [],
+    });
+  };
+
+  const moveChecklistItem = (index: number, direction: -1 | 1) => {
+    if (!templateDraft) return;
+    const checklist = [...templateDraft.checklist];
+    const target = index + direction;
+    if (target < 0 || target >= checklist.length) return;
+    [checklist[index], checklist[target]] = [checklist[target], checklist[index]];
+    setTemplateDraft({ ...templateDraft, checklist });
+  };
+
+  const describeTarget = (instance: PMInstance) => {
+    if (instance.roomId) return `Room ${roomMap[instance.roomId] || "—"}`;
+    return templateMap[instance.templateId]?.asset || "Property";
+  };
+
+  const today = startOfDay(new Date());
+  const openInstances = instances
+    .filter(isOpen)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+  const overdueInstances = openInstances.filter(instance => new Date(instance.dueAt) < today);
+  const upcomingInstances = openInstances.filter(instance => new Date(instance.dueAt) >= today);
+  const selectedDayInstances = selectedDay
+    ? instances.filter(instance => isSameDay(new Date(instance.dueAt), selectedDay))
+    : [];
+
+  const renderInstanceCard = (instance: PMInstance) => {
+    const template = templateMap[instance.templateId];
+    const overdue = isOpen(instance) && new Date(instance.dueAt) < today;
+
+    return (
+      <Card
+        key={instance.id}
+        className="hover:shadow-md transition-shadow cursor-pointer"
+        onClick={() => setActiveInstanceId(instance.id)}
+        data-testid={`pm-instance-${instance.id}`}
+      >
+        <CardContent className="p-4">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h3 className="font-medium truncate">{template?.title || "PM Task"}</h3>
+              <div className="flex flex-wrap items-center gap-4 mt-1 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  {instance.roomId ? <DoorOpen className="h-3 w-3" /> : <Wrench className="h-3 w-3" />}
+                  {describeTarget(instance)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <CalendarClock className="h-3 w-3" />
+                  Due {format(new Date(instance.dueAt), "MMM d, yyyy")}
+                </span>
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              {overdue && <Badge className="bg-red-100 text-red-800">Overdue</Badge>}
+              <Badge variant="outline">{(instance.status || "pending").replace(/_/g, " ")}</Badge>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-muted rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6" data-testid="pm-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            Preventive Maintenance
+          </h1>
+          <p className="text-muted-foreground">
+            {overdueInstances.length} overdue · {upcomingInstances.length} upcoming
+          </p>
+        </div>
+        {canManagePM && (
+          <Button onClick={() => setTemplateDraft({ ...EMPTY_TEMPLATE })} data-testid="create-pm-template-button">
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="list" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="list">List</TabsTrigger>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list" className="space-y-6">
+          {overdueInstances.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="font-semibold flex items-center gap-2 text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                Overdue
+              </h2>
+              {overdueInstances.map(renderInstanceCard)}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h2 className="font-semibold">Upcoming</h2>
+            {upcomingInstances.length === 0 ? (
+              <Card>
+                <CardContent className="p-8 text-center text-muted-foreground">
+                  <CalendarClock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  No upcoming preventive maintenance.
+                </CardContent>
+              </Card>
+            ) : (
+              upcomingInstances.map(renderInstanceCard)
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="calendar">
+          <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6">
+            <Card>
+              <CardContent className="p-2">
+                <Calendar
+                  mode="single"
+                  selected={selectedDay}
+                  onSelect={setSelectedDay}
+                  modifiers={{
+                    due: upcomingInstances.map(instance => new Date(instance.dueAt)),
+                    overdue: overdueInstances.map(instance => new Date(instance.dueAt)),
+                  }}
+                  modifiersClassNames={{
+                    due: "font-bold underline",
+                    overdue: "font-bold text-red-600 underline",
+                  }}
+                />
+              </CardContent>
+            </Card>
+            <div className="space-y-3">
+              <h2 className="font-semibold">
+                {selectedDay ? format(selectedDay, "EEEE, MMM d") : "Select a day"}
+              </h2>
+              {selectedDayInstances.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing scheduled for this day.</p>
+              ) : (
+                selectedDayInstances.map(renderInstanceCard)
+              )}
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="templates" className="space-y-3">
+          {templates.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                No PM templates yet.
+              </CardContent>
+            </Card>
+          ) : (
+            templates.map((template) => (
+              <Card key={template.id} data-testid={`pm-template-${template.id}`}>
+                <CardContent className="p-4 flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="font-medium">{template.title}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Every {template.interval} {FREQUENCY_LABELS[template.frequency].toLowerCase()} ·{" "}
+                      {template.asset || (template.roomType ? `${template.roomType} rooms` : "All rooms")} ·{" "}
+                      {((template.checklist as PMChecklistItem[]) || []).length} checklist items
+                    </p>
+                  </div>
+                  {canManagePM && (
+                    <Button variant="ghost" size="sm" onClick={() => openEditTemplate(template)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Template Editor */}
+      <Dialog open={!!templateDraft} onOpenChange={(open) => !open && setTemplateDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{templateDraft?.id ? "Edit PM Template" : "New PM Template"}</DialogTitle>
+          </DialogHeader>
+          {templateDraft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="pm-title">Title</Label>
+                <Input
+                  id="pm-title"
+                  value={templateDraft.title}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, title: e.target.value })}
+                  placeholder="e.g. PTAC filter replacement"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Frequency</Label>
+                  <Select
+                    value={templateDraft.frequency}
+                    onValueChange={(value: "days_counter" | "days_rented") => setTemplateDraft({ ...templateDraft, frequency: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="days_counter">Every N calendar days</SelectItem>
+                      <SelectItem value="days_rented">Every N rented days</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="pm-interval">Interval (days)</Label>
+                  <Input
+                    id="pm-interval"
+                    type="number"
+                    min={1}
+                    value={templateDraft.interval}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, interval: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Applies To</Label>
+                  <Select
+                    value={templateDraft.scope}
+                    onValueChange={(value: "rooms" | "asset") => setTemplateDraft({ ...templateDraft, scope: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rooms">Guest rooms</SelectItem>
+                      <SelectItem value="asset">A single asset</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {templateDraft.scope === "rooms" ? (
+                  <div>
+                    <Label>Room Type</Label>
+                    <Select
+                      value={templateDraft.roomType}
+                      onValueChange={(value) => setTemplateDraft({ ...templateDraft, roomType: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All room types</SelectItem>
+                        {roomTypes.map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="pm-asset">Asset</Label>
+                    <Input
+                      id="pm-asset"
+                      value={templateDraft.asset}
+                      onChange={(e) => setTemplateDraft({ ...templateDraft, asset: e.target.value })}
+                      placeholder="e.g. Boiler #1"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Checklist</Label>
+                {templateDraft.checklist.map((item, index) => (
+                  <div key={item.id} className="flex items-center gap-2 p-2 border rounded-lg">
+                    <div className="flex-1 space-y-1">
+                      <Input
+                        value={item.title}
+                        onChange={(e) => setTemplateDraft({
+                          ...templateDraft,
+                          checklist: templateDraft.checklist.map(i => i.id === item.id ? { ...i, title: e.target.value } : i),
+                        })}
+                      />
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Checkbox
+                          checked={!!item.requiresPhoto}
+                          onCheckedChange={(checked) => setTemplateDraft({
+                            ...templateDraft,
+                            checklist: templateDraft.checklist.map(i => i.id === item.id ? { ...i, requiresPhoto: !!checked } : i),
+                          })}
+                        />
+                        Photo required
+                      </label>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => moveChecklistItem(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveChecklistItem(index, 1)}
+                      disabled={index === templateDraft.checklist.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTemplateDraft({
+                        ...templateDraft,
+                        checklist: templateDraft.checklist.filter(i => i.id !== item.id),
+                      })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Add checklist item"
+                    value={newItemTitle}
+                    onChange={(e) => setNewItemTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && newItemTitle.trim()) {
+                        setTemplateDraft({
+                          ...templateDraft,
+                          checklist: [...templateDraft.checklist, { id: Date.now().toString(), title: newItemTitle.trim() }],
+                        });
+                        setNewItemTitle("");
+                      }
+                    }}
+                    data-testid="pm-checklist-new-item"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (!newItemTitle.trim()) return;
+                      setTemplateDraft({
+                        ...templateDraft,
+                        checklist: [...templateDraft.checklist, { id: Date.now().toString(), title: newItemTitle.trim() }],
+                      });
+                      setNewItemTitle("");
+                    }}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setTemplateDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => saveTemplateMutation.mutate(templateDraft)}
+                  disabled={
+                    saveTemplateMutation.isPending ||
+                    !templateDraft.title ||
+                    templateDraft.interval < 1 ||
+                    templateDraft.checklist.length === 0 ||
+                    (templateDraft.scope === "asset" && !templateDraft.asset)
+                  }
+                  data-testid="save-pm-template"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Template
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Checklist Execution */}
+      <Dialog open={!!activeInstance} onOpenChange={(open) => !open && setActiveInstanceId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{activeTemplate?.title || "PM Task"}</DialogTitle>
+          </DialogHeader>
+          {activeInstance && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Badge variant="outline">{describeTarget(activeInstance)}</Badge>
+                <span>Due {format(new Date(activeInstance.dueAt), "MMM d, yyyy")}</span>
+                <span>·</span>
+                <span>
+                  {activeChecklist.filter(isItemFinished).length} of {activeChecklist.length} done
+                </span>
+              </div>
+
+              {activeInstance.status === "completed" && activeInstance.completedAt && (
+                <p className="text-sm text-green-700">
+                  Completed {format(new Date(activeInstance.completedAt), "MMM d, yyyy h:mm a")}
+                </p>
+              )}
+              {activeInstance.status === "skipped" && (
+                <p className="text-sm text-muted-foreground">Skipped: {activeInstance.skipReason}</p>
+              )}
+
+              {activeChecklist.map((item) => {
+                const result = getResult(item.id);
+                const readOnly = !isOpen(activeInstance) || !canManagePM;
+
+                return (
+                  <Card key={item.id}>
+                    <CardContent className="p-4 space-y-3">
+                      <label className="flex items-start gap-3">
+                        <Checkbox
+                          checked={result.done}
+                          onCheckedChange={(checked) => updateResult(item.id, { done: !!checked })}
+                          disabled={readOnly}
+                          data-testid={`pm-item-${item.id}`}
+                        />
+                        <div>
+                          <p className="font-medium">{item.title}</p>
+                          {item.description && <p className="text-sm text-muted-foreground">{item.description}</p>}
+                          {item.requiresPhoto && result.photos.length === 0 && (
+                            <p className="text-xs text-amber-600">Photo required</p>
+                          )}
+                        </div>
+                      </label>
+                      <Textarea
+                        placeholder="Notes"
+                        rows={2}
+                        value={result.notes || ""}
+                        onChange={(e) => updateResult(item.id, { notes: e.target.value })}
+                        disabled={readOnly}
+                      />
+                      {!readOnly && (
+                        <ObjectUploader
+                          maxNumberOfFiles={5}
+                          maxFileSize={10485760}
+                          onGetUploadParameters={handleGetUploadParameters}
+                          onComplete={(uploadResult) => handlePhotoUpload(uploadResult, item.id)}
+                          buttonClassName="h-9 px-3"
+                        >
+                          <Camera className="h-4 w-4 mr-1" />
+                          {result.photos.length ? `Photos (${result.photos.length})` : "Add Photo"}
+                        </ObjectUploader>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+
+              {isOpen(activeInstance) && canManagePM && (
+                showSkip ? (
+                  <div className="space-y-2 border-t pt-4">
+                    <Label htmlFor="pm-skip-reason">Reason for skipping</Label>
+                    <Textarea
+                      id="pm-skip-reason"
+                      rows={2}
+                      value={skipReason}
+                      onChange={(e) => setSkipReason(e.target.value)}
+                      placeholder="e.g. Room out of order for renovation"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="outline" onClick={() => setShowSkip(false)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={() => updateInstanceMutation.mutate({ status: "skipped", skipReason })}
+                        disabled={!skipReason.trim() || updateInstanceMutation.isPending}
+                        data-testid="confirm-pm-skip"
+                      >
+                        Skip Instance
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap justify-end gap-2 border-t pt-4">
+                    <Button variant="outline" onClick={() => setShowSkip(true)}>
+                      <SkipForward className="h-4 w-4 mr-2" />
+                      Skip
+                    </Button>
+                    {activeInstance.status === "pending" && (
+                      <Button
+                        variant="outline"
+                        onClick={() => updateInstanceMutation.mutate({ status: "in_progress", checklistResults: results })}
+                        disabled={updateInstanceMutation.isPending}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Start
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => updateInstanceMutation.mutate({ checklistResults: results })}
+                      disabled={updateInstanceMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Progress
+                    </Button>
+                    <Button
+                      onClick={() => updateInstanceMutation.mutate({ status: "completed", checklistResults: results })}
+                      disabled={updateInstanceMutation.isPending || !activeChecklist.every(isItemFinished)}
+                      data-testid="complete-pm-instance"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Complete
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
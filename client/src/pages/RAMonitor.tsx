@@ -12,6 +12,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { queryClient } from "@/lib/queryClient";
 import { Users, Clock, TrendingUp, UserCheck, ExternalLink } from "lucide-react";
+import type { CleanTypeMinutes, OnDutyStaff, Room, RoomType, Task, User } from "@shared/schema";
 
 interface TaskForAssignment {
   id: string;
@@ -28,22 +29,57 @@ export default function RAMonitor() {
   const { toast } = useToast();
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
   const [targetAssigneeId, setTargetAssigneeId] = useState<string>("");
+  const [showOffDuty, setShowOffDuty] = useState(false);
 
-  const { data: tasks = [], isLoading: loadingTasks } = useQuery({
-    queryKey: ["/api/tasks", { status: "pending" }],
+  const { data: tasks = [], isLoading: loadingTasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
   });
 
-  const { data: users = [], isLoading: loadingUsers } = useQuery({
+  const { data: users = [], isLoading: loadingUsers } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
 
-  const { data: rooms = [] } = useQuery({
+  const { data: rooms = [] } = useQuery<Room[]>({
     queryKey: ["/api/rooms"],
   });
 
-  // Get room attendants and their current workload
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+  });
+
+  const { data: onDuty = [] } = useQuery<OnDutyStaff[]>({
+    queryKey: ["/api/shifts/on-duty"],
+  });
+
+  // Standard minutes for the task's clean type in its room's type, when both are known
+  const getEstimatedMinutes = (task: any): number | undefined => {
+    if (!task.cleanType) return undefined;
+    const room = rooms.find((r: any) => r.id === task.roomId);
+    const roomType = roomTypes.find(type => type.id === room?.roomTypeId);
+    return roomType ? (roomType.standardMinutes as CleanTypeMinutes)[task.cleanType as keyof CleanTypeMinutes] : undefined;
+  };
+
+  // Working time excluding pauses
+  const getActiveMinutes = (task: any): number => {
+    const elapsedSeconds = (new Date(task.finishedAt).getTime() - new Date(task.startedAt).getTime()) / 1000;
+    return Math.max(0, elapsedSeconds - (task.pausedSeconds || 0)) / 60;
+  };
+
+  const formatMinutes = (totalMinutes: number) => {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = Math.round(totalMinutes % 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
+
+  const getShift = (userId: string) => onDuty.find(staff => staff.userId === userId);
+
+  // Get room attendants and their current workload. Off-duty staff are listed
+  // only while they still hold open tasks, unless asked for.
   const roomAttendants = users.filter((u: any) => 
-    ["room_attendant", "head_housekeeper"].includes(u.role)
+    ["room_attendant", "head_housekeeper"].includes(u.role) &&
+    (showOffDuty || getShift(u.id) || tasks.some((task: any) =>
+      task.assigneeId === u.id && ["pending", "in_progress", "paused"].includes(task.status)
+    ))
   );
 
   // Calculate workload for each RA
@@ -53,22 +89,32 @@ export default function RAMonitor() {
       ["pending", "in_progress", "paused"].includes(task.status)
     );
     
-    const completedToday = tasks.filter((task: any) => 
+    const completedTasks = tasks.filter((task: any) => 
       task.assigneeId === ra.id && 
       task.status === "completed" &&
+      task.startedAt &&
       task.finishedAt &&
       new Date(task.finishedAt).toDateString() === new Date().toDateString()
-    ).length;
+    );
 
-    // Calculate average time (mock calculation)
-    const avgTimeMinutes = 45; // This would be calculated from actual completion times
-    const efficiency = Math.round(Math.random() * 20 + 80); // Mock efficiency 80-100%
+    const activeMinutes = completedTasks.map(getActiveMinutes);
+    const avgTimeMinutes = activeMinutes.length > 0
+      ? activeMinutes.reduce((sum: number, minutes: number) => sum + minutes, 0) / activeMinutes.length
+      : null;
+
+    // Efficiency compares the room types' standard times with the time actually taken
+    const timed = completedTasks.filter((task: any) => getEstimatedMinutes(task) !== undefined);
+    const expectedMinutes = timed.reduce((sum: number, task: any) => sum + getEstimatedMinutes(task)!, 0);
+    const actualMinutes = timed.reduce((sum: number, task: any) => sum + getActiveMinutes(task), 0);
+    const efficiency = actualMinutes > 0 ? Math.round((expectedMinutes / actualMinutes) * 100) : null;
 
     return {
       ...ra,
+      shift: getShift(ra.id),
       activeTaskCount: activeTasks.length,
-      completedToday,
-      avgTime: `${avgTimeMinutes}m`,
+      workloadMinutes: activeTasks.reduce((sum: number, task: any) => sum + (getEstimatedMinutes(task) || 0), 0),
+      completedToday: completedTasks.length,
+      avgTime: avgTimeMinutes !== null ? formatMinutes(avgTimeMinutes) : "—",
       efficiency,
       activeTasks,
     };
@@ -83,7 +129,7 @@ export default function RAMonitor() {
       type: task.type,
       priority: task.priority,
       roomId: task.roomId,
-      estimatedTime: 45, // Mock estimated time
+      estimatedTime: getEstimatedMinutes(task),
       selected: selectedTasks.includes(task.id),
     }));
 
@@ -144,6 +190,8 @@ export default function RAMonitor() {
     return { count: selectedTaskObjects.length, hours, minutes, totalMinutes: totalTime };
   };
 
+  const rated = raWorkload.filter(ra => ra.efficiency !== null);
+
   const getTargetAssigneeWorkload = () => {
     if (!targetAssigneeId) return null;
     const ra = raWorkload.find(ra => ra.id === targetAssigneeId);
@@ -166,10 +214,20 @@ export default function RAMonitor() {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
     });
 
+    const unsubscribeClockIn = subscribe('shift_clocked_in', () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/on-duty"] });
+    });
+
+    const unsubscribeClockOut = subscribe('shift_clocked_out', () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/on-duty"] });
+    });
+
     return () => {
       unsubscribeTaskAssigned();
       unsubscribeTaskCompleted();
       unsubscribeRoomStatus();
+      unsubscribeClockIn();
+      unsubscribeClockOut();
     };
   }, [subscribe]);
 
@@ -271,16 +329,34 @@ export default function RAMonitor() {
     <div className="p-4 space-y-6" data-testid="ra-monitor-page">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">RA Monitor</h1>
-        <Button 
-          onClick={handleBulkReassign}
-          disabled={selectedTasks.length === 0 || !targetAssigneeId || bulkReassignMutation.isPending}
-          data-testid="bulk-reassign-button"
-        >
-          <Users className="h-4 w-4 mr-2" />
-          {bulkReassignMutation.isPending ? "Reassigning..." : "Bulk Reassign"}
-        </Button>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={showOffDuty}
+              onCheckedChange={(checked) => setShowOffDuty(!!checked)}
+              data-testid="show-off-duty-checkbox"
+            />
+            Show off-duty staff
+          </label>
+          <Button 
+            onClick={handleBulkReassign}
+            disabled={selectedTasks.length === 0 || !targetAssigneeId || bulkReassignMutation.isPending}
+            data-testid="bulk-reassign-button"
+          >
+            <Users className="h-4 w-4 mr-2" />
+            {bulkReassignMutation.isPending ? "Reassigning..." : "Bulk Reassign"}
+          </Button>
+        </div>
       </div>
 
+      {raWorkload.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No room attendants are on duty. Staff appear here once they clock in on the Schedule page.
+          </CardContent>
+        </Card>
+      )}
+
       {/* Room Attendant Overview */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {raWorkload.map((ra) => (
@@ -298,6 +374,11 @@ export default function RAMonitor() {
                     <p className="text-sm text-muted-foreground">
                       {ra.role.replace(/_/g, " ").replace(/\b\w/g, (l: string) => l.toUpperCase())}
                     </p>
+                    {ra.shift ? (
+                      <Badge variant="secondary" className="text-xs" data-testid="on-duty-badge">On duty until {ra.shift.endTime}</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs" data-testid="off-duty-badge">Off duty</Badge>
+                    )}
                   </div>
                 </div>
                 
@@ -324,7 +405,7 @@ export default function RAMonitor() {
                 </div>
                 <div>
                   <div className="font-medium text-primary" data-testid="efficiency">
-                    {ra.efficiency}%
+                    {ra.efficiency !== null ? `${ra.efficiency}%` : "—"}
                   </div>
                   <div className="text-xs text-muted-foreground">Efficiency</div>
                 </div>
@@ -379,7 +460,7 @@ export default function RAMonitor() {
                           <div className="flex items-center space-x-4 text-xs text-muted-foreground mt-1">
                             {room && <span>Room {room.number}</span>}
                             <span>{task.type.replace(/_/g, " ")}</span>
-                            <span>~{task.estimatedTime}m</span>
+                            {task.estimatedTime !== undefined && <span>~{task.estimatedTime}m</span>}
                           </div>
                         </div>
                       </div>
@@ -398,11 +479,11 @@ export default function RAMonitor() {
                     <SelectValue placeholder="Select Room Attendant" />
                   </SelectTrigger>
                   <SelectContent>
-                    {roomAttendants.map((ra: any) => {
+                    {roomAttendants.filter((ra: any) => showOffDuty || getShift(ra.id)).map((ra: any) => {
                       const workload = raWorkload.find(w => w.id === ra.id);
                       return (
                         <SelectItem key={ra.id} value={ra.id}>
-                          {ra.name} ({workload?.activeTaskCount || 0} active)
+                          {ra.name} ({workload?.activeTaskCount || 0} active, ~{formatMinutes(workload?.workloadMinutes || 0)})
                         </SelectItem>
                       );
                     })}
@@ -420,9 +501,13 @@ export default function RAMonitor() {
                         </div>
                         {getTargetAssigneeWorkload() && (
                           <>
-                            <div>Current workload: {getTargetAssigneeWorkload()!.activeTaskCount} tasks</div>
+                            <div>
+                              Current workload: {getTargetAssigneeWorkload()!.activeTaskCount} tasks
+                              (~{formatMinutes(getTargetAssigneeWorkload()!.workloadMinutes)})
+                            </div>
                             <div className="font-medium text-warning">
                               New total: {getTargetAssigneeWorkload()!.activeTaskCount + getSelectedTasksEstimate().count} tasks
+                              (~{formatMinutes(getTargetAssigneeWorkload()!.workloadMinutes + getSelectedTasksEstimate().totalMinutes)})
                             </div>
                           </>
                         )}
@@ -517,7 +602,9 @@ export default function RAMonitor() {
             </div>
             <div>
               <div className="text-2xl font-bold text-warning">
-                {Math.round(raWorkload.reduce((sum, ra) => sum + ra.efficiency, 0) / raWorkload.length)}%
+                {rated.length > 0
+                  ? `${Math.round(rated.reduce((sum, ra) => sum + ra.efficiency!, 0) / rated.length)}%`
+                  : "—"}
               </div>
               <div className="text-sm text-muted-foreground">Avg Efficiency</div>
             </div>
@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/services/api";
 import { 
   BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, 
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
@@ -19,19 +21,50 @@ import {
   Home,
   ClipboardCheck,
   Clock,
-  Activity
+  Activity,
+  FileText
 } from "lucide-react";
 import { format, subDays, startOfDay, endOfDay } from "date-fns";
+import type { InspectionAnalytics, InspectionScoreTrendPoint, ReportsOverview } from "@shared/schema";
+
+interface SlaComplianceBreakdown {
+  total: number;
+  metSla: number;
+  missedSla: number;
+  openAtRisk: number;
+  openBreached: number;
+  complianceRate: number;
+}
+
+interface SlaComplianceReport extends SlaComplianceBreakdown {
+  avgResolutionMins: number;
+  byPriority: Array<SlaComplianceBreakdown & { priority: string }>;
+}
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
 
+// One chart row per day with a column per series, for a line per floor or room type
+const mergeTrends = (series: Array<{ name: string; trend: InspectionScoreTrendPoint[] }>) => {
+  const rows = new Map<string, Record<string, string | number>>();
+  for (const { name, trend } of series) {
+    for (const point of trend) {
+      const row = rows.get(point.date) ?? { date: point.date };
+      row[name] = point.avgScore;
+      rows.set(point.date, row);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+};
+
 export default function Reports() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [dateRange, setDateRange] = useState("7");
   const [selectedDepartment, setSelectedDepartment] = useState("all");
+  const [scoreTrendBy, setScoreTrendBy] = useState<"floor" | "roomType">("floor");
 
   // Fetch reporting data
-  const { data: reportData, isLoading } = useQuery({
+  const { data: reportData, isLoading } = useQuery<ReportsOverview>({
     queryKey: [`/api/reports/overview?days=${dateRange}&department=${selectedDepartment}`],
   });
 
@@ -43,14 +76,18 @@ export default function Reports() {
     queryKey: [`/api/reports/productivity?days=${dateRange}`],
   });
 
-  const { data: inspectionData } = useQuery({
-    queryKey: [`/api/reports/inspections?days=${dateRange}`],
+  const { data: inspectionAnalytics } = useQuery<InspectionAnalytics>({
+    queryKey: [`/api/reports/inspection-analytics?days=${dateRange}`],
   });
 
   const { data: taskTrendsData } = useQuery({
     queryKey: [`/api/reports/task-trends?days=${dateRange}`],
   });
 
+  const { data: slaData } = useQuery<SlaComplianceReport>({
+    queryKey: [`/api/reports/sla-compliance?days=${dateRange}`],
+  });
+
   if (!user || !["site_admin", "head_housekeeper", "front_desk_manager"].includes(user.role)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -62,6 +99,13 @@ export default function Reports() {
     );
   }
 
+  const scoreTrendSeries = inspectionAnalytics
+    ? scoreTrendBy === "floor"
+      ? inspectionAnalytics.byFloor.map(row => ({ name: `Floor ${row.floor}`, trend: row.trend }))
+      : inspectionAnalytics.byRoomType.map(row => ({ name: row.roomType, trend: row.trend }))
+    : [];
+  const scoreTrendData = mergeTrends(scoreTrendSeries);
+
   const exportToCSV = (data: any[], filename: string) => {
     if (!data || data.length === 0) return;
     
@@ -78,6 +122,17 @@ export default function Reports() {
     window.URL.revokeObjectURL(url);
   };
 
+  const exportToPDF = async () => {
+    try {
+      await downloadFile(
+        `/api/reports/overview/pdf?days=${dateRange}&department=${selectedDepartment}`,
+        `operations_report_${format(new Date(), 'yyyy-MM-dd')}.pdf`
+      );
+    } catch (error: any) {
+      toast({ title: "Failed to export PDF", description: error.message, variant: "destructive" });
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
       <div className="mb-8">
@@ -99,6 +154,20 @@ export default function Reports() {
                 <SelectItem value="90">Last 90 Days</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={selectedDepartment} onValueChange={setSelectedDepartment}>
+              <SelectTrigger className="w-44" data-testid="department-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                <SelectItem value="housekeeping">Housekeeping</SelectItem>
+                <SelectItem value="maintenance">Maintenance</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={exportToPDF} data-testid="export-report-pdf">
+              <FileText className="h-4 w-4 mr-2" />
+              Export PDF
+            </Button>
           </div>
         </div>
 
@@ -136,9 +205,22 @@ export default function Reports() {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm text-muted-foreground">Avg Cleaning Time</p>
+                    <p className="text-sm text-muted-foreground">
+                      {selectedDepartment === "maintenance" ? "Avg Task Time" : "Avg Cleaning Time"}
+                    </p>
                     <p className="text-2xl font-bold">{reportData.avgCleaningTime || 0}m</p>
-                    <p className="text-xs text-muted-foreground mt-1">per room</p>
+                    {reportData.avgCleaningTimeChange !== null ? (
+                      <p
+                        className={`text-xs mt-1 ${reportData.avgCleaningTimeChange > 0 ? "text-red-600" : "text-green-600"}`}
+                        data-testid="avg-cleaning-time-change"
+                      >
+                        {reportData.avgCleaningTimeChange > 0 ? "+" : ""}{reportData.avgCleaningTimeChange}% vs previous {dateRange === "1" ? "day" : `${dateRange} days`} ({reportData.previousAvgCleaningTime}m)
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {selectedDepartment === "maintenance" ? "per task" : "per room"}, excluding pauses
+                      </p>
+                    )}
                   </div>
                   <Clock className="h-8 w-8 text-amber-500 opacity-20" />
                 </div>
@@ -166,6 +248,7 @@ export default function Reports() {
             <TabsTrigger value="productivity">Productivity</TabsTrigger>
             <TabsTrigger value="inspections">Inspections</TabsTrigger>
             <TabsTrigger value="trends">Trends</TabsTrigger>
+            <TabsTrigger value="sla">SLA Compliance</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
@@ -265,6 +348,78 @@ export default function Reports() {
                 </CardContent>
               </Card>
             </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Working Time by Room Type */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Avg Time by Room Type
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => exportToCSV(reportData?.cleaningTimeByRoomType || [], 'time_by_room_type')}
+                      data-testid="export-time-by-room-type"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {reportData && reportData.cleaningTimeByRoomType.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={300}>
+                      <BarChart data={reportData.cleaningTimeByRoomType}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="roomType" />
+                        <YAxis unit="m" />
+                        <Tooltip />
+                        <Bar dataKey="avgMinutes" fill="#f59e0b" name="Avg Minutes" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                      No completed tasks with recorded times
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Working Time by Attendant */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Avg Time by Staff Member
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => exportToCSV(reportData?.cleaningTimeByAttendant || [], 'time_by_staff')}
+                      data-testid="export-time-by-staff"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {reportData && reportData.cleaningTimeByAttendant.length > 0 ? (
+                    <div className="space-y-3">
+                      {reportData.cleaningTimeByAttendant.map(row => (
+                        <div key={row.userId} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium">{row.name}</p>
+                            <p className="text-sm text-muted-foreground">{row.taskCount} tasks</p>
+                          </div>
+                          <Badge variant="secondary">{row.avgMinutes}m avg</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                      No completed tasks with recorded times
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </TabsContent>
 
           <TabsContent value="productivity" className="space-y-4">
@@ -305,36 +460,166 @@ export default function Reports() {
           </TabsContent>
 
           <TabsContent value="inspections" className="space-y-4">
+            {inspectionAnalytics && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Pass Rate</p>
+                    <p className="text-2xl font-bold">{inspectionAnalytics.passRate}%</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {inspectionAnalytics.passed} of {inspectionAnalytics.inspections} signed inspections
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Avg Score</p>
+                    <p className="text-2xl font-bold">{inspectionAnalytics.avgScore}%</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Failed</p>
+                    <p className="text-2xl font-bold text-red-600">{inspectionAnalytics.failed}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Not Signed</p>
+                    <p className="text-2xl font-bold text-amber-600">{inspectionAnalytics.pending}</p>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Most Failed Checklist Items */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Most Failed Items
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => exportToCSV(inspectionAnalytics?.items || [], 'inspection_item_failures')}
+                      data-testid="export-inspection-items"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {inspectionAnalytics && inspectionAnalytics.items.some(item => item.failed > 0) ? (
+                    <ResponsiveContainer width="100%" height={400}>
+                      <BarChart data={inspectionAnalytics.items.filter(item => item.failed > 0).slice(0, 10)} layout="vertical">
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" unit="%" domain={[0, 100]} />
+                        <YAxis type="category" dataKey="title" width={140} />
+                        <Tooltip />
+                        <Bar dataKey="failureRate" fill="#ef4444" name="Failure Rate (%)" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <div className="h-[400px] flex items-center justify-center text-muted-foreground">
+                      No failed checklist items in selected period
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Inspection Results by Attendant */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Inspection Results by Attendant
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => exportToCSV(inspectionAnalytics?.byAttendant || [], 'inspections_by_attendant')}
+                      data-testid="export-inspections-by-attendant"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {inspectionAnalytics && inspectionAnalytics.byAttendant.length > 0 ? (
+                    <div className="space-y-3">
+                      {inspectionAnalytics.byAttendant.map(row => (
+                        <div key={row.userId} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium">{row.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {row.inspections} inspected · {row.failed} failed
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Badge variant="secondary">{row.avgScore}% avg</Badge>
+                            <Badge variant={row.passRate < 80 ? "destructive" : "outline"}>{row.passRate}% pass</Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="h-[400px] flex items-center justify-center text-muted-foreground">
+                      No room inspections after a recorded cleaning
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Score Trend by Floor or Room Type */}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
-                  Inspection Results
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => exportToCSV(inspectionData || [], 'inspections')}
-                    data-testid="export-inspections"
-                  >
-                    <Download className="h-4 w-4" />
-                  </Button>
+                  Inspection Score Trend
+                  <div className="flex items-center gap-2">
+                    <Select value={scoreTrendBy} onValueChange={(value) => setScoreTrendBy(value as "floor" | "roomType")}>
+                      <SelectTrigger className="w-40" data-testid="score-trend-by-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="floor">By Floor</SelectItem>
+                        <SelectItem value="roomType">By Room Type</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => exportToCSV(scoreTrendData, `inspection_scores_by_${scoreTrendBy === "floor" ? "floor" : "room_type"}`)}
+                      data-testid="export-inspection-score-trend"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {inspectionData && inspectionData.length > 0 ? (
+                {scoreTrendData.length > 0 ? (
                   <ResponsiveContainer width="100%" height={400}>
-                    <BarChart data={inspectionData}>
+                    <LineChart data={scoreTrendData}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="date" />
-                      <YAxis />
+                      <YAxis unit="%" domain={[0, 100]} />
                       <Tooltip />
                       <Legend />
-                      <Bar dataKey="passed" fill="#10b981" name="Passed" />
-                      <Bar dataKey="failed" fill="#ef4444" name="Failed" />
-                    </BarChart>
+                      {scoreTrendSeries.map((series, index) => (
+                        <Line
+                          key={series.name}
+                          type="monotone"
+                          dataKey={series.name}
+                          stroke={COLORS[index % COLORS.length]}
+                          name={series.name}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
                   </ResponsiveContainer>
                 ) : (
                   <div className="h-[400px] flex items-center justify-center text-muted-foreground">
-                    No inspection data available for selected period
+                    No signed room inspections in selected period
                   </div>
                 )}
               </CardContent>
@@ -386,6 +671,77 @@ export default function Reports() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="sla" className="space-y-4">
+            {slaData && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Compliance Rate</p>
+                    <p className="text-2xl font-bold">{slaData.complianceRate}%</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {slaData.metSla} of {slaData.metSla + slaData.missedSla + slaData.openBreached} within SLA
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Avg Resolution Time</p>
+                    <p className="text-2xl font-bold">{slaData.avgResolutionMins} min</p>
+                    <p className="text-xs text-muted-foreground mt-1">completed work orders</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Open At Risk</p>
+                    <p className="text-2xl font-bold text-amber-600">{slaData.openAtRisk}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">Open Breached</p>
+                    <p className="text-2xl font-bold text-red-600">{slaData.openBreached}</p>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  SLA Compliance by Priority
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    onClick={() => exportToCSV(slaData?.byPriority || [], 'sla_compliance')}
+                    data-testid="export-sla"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {slaData && slaData.total > 0 ? (
+                  <ResponsiveContainer width="100%" height={400}>
+                    <BarChart data={slaData.byPriority}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="priority" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="metSla" fill="#10b981" name="Met SLA" />
+                      <Bar dataKey="missedSla" fill="#f59e0b" name="Missed SLA" />
+                      <Bar dataKey="openBreached" fill="#ef4444" name="Open & Breached" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="h-[400px] flex items-center justify-center text-muted-foreground">
+                    No work order SLA data available for selected period
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -11,7 +11,9 @@ import { useWebSocket } from "@/hooks/useWebSocket";
 import { queryClient } from "@/lib/queryClient";
 import RoomStatusSelector from "@/components/RoomStatusSelector";
 import RoomComments from "@/components/RoomComments";
+import RoomStatusHistory from "@/components/RoomStatusHistory";
 import RoomAssignmentManager from "@/components/RoomAssignmentManager";
+import AutoAssignBoard from "@/components/AutoAssignBoard";
 import { 
   Hotel, 
   Search,
@@ -163,6 +165,7 @@ export default function RoomStatus() {
             Monitor and update room statuses throughout the hotel
           </p>
         </div>
+        {["site_admin", "head_housekeeper", "front_desk_manager"].includes(user.role) && <AutoAssignBoard />}
       </div>
 
       {/* Status Overview Cards */}
@@ -364,6 +367,11 @@ export default function RoomStatus() {
                 />
               </div>
               
+              <RoomStatusHistory
+                roomId={selectedRoom.id}
+                roomNumber={selectedRoom.number}
+              />
+
               <RoomComments 
                 roomId={selectedRoom.id} 
                 roomNumber={selectedRoom.number} 
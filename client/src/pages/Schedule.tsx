@@ -0,0 +1,353 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { CalendarDays, ChevronLeft, ChevronRight, LogIn, LogOut, Plus, Save, Trash2, UserCheck } from "lucide-react";
+import { addDays, format, startOfWeek } from "date-fns";
+import type { Department, OnDutyStaff, Shift, User } from "@shared/schema";
+
+const DEPARTMENTS: Array<{ value: Department; label: string }> = [
+  { value: "housekeeping", label: "Housekeeping" },
+  { value: "maintenance", label: "Maintenance" },
+  { value: "front_desk", label: "Front Desk" },
+];
+
+const DEPARTMENT_COLORS: Record<Department, string> = {
+  housekeeping: "bg-blue-100 text-blue-800",
+  maintenance: "bg-amber-100 text-amber-800",
+  front_desk: "bg-purple-100 text-purple-800",
+};
+
+interface ShiftForm {
+  id?: string;
+  userId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  department: Department;
+}
+
+const toDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Shift queries carry their date range in the URL, so they are matched by prefix
+const invalidateShifts = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/shifts") });
+
+export default function Schedule() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { subscribe } = useWebSocket();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [form, setForm] = useState<ShiftForm | null>(null);
+
+  const canManage = !!user?.role && ["site_admin", "head_housekeeper", "front_desk_manager"].includes(user.role);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const today = toDate(new Date());
+
+  const { data: shifts = [], isLoading } = useQuery<Shift[]>({
+    queryKey: [`/api/shifts?dateFrom=${toDate(days[0])}&dateTo=${toDate(days[6])}${canManage ? "" : `&userId=${user?.id}`}`],
+    enabled: !!user,
+  });
+
+  // Yesterday is included for overnight shifts that are still running
+  const { data: myShifts = [] } = useQuery<Shift[]>({
+    queryKey: [`/api/shifts?userId=${user?.id}&dateFrom=${toDate(addDays(new Date(), -1))}&dateTo=${today}`],
+    enabled: !!user,
+  });
+
+  const { data: onDuty = [] } = useQuery<OnDutyStaff[]>({
+    queryKey: ["/api/shifts/on-duty"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: canManage,
+  });
+
+  useEffect(() => {
+    const unsubscribeIn = subscribe('shift_clocked_in', invalidateShifts);
+    const unsubscribeOut = subscribe('shift_clocked_out', invalidateShifts);
+    return () => {
+      unsubscribeIn();
+      unsubscribeOut();
+    };
+  }, [subscribe]);
+
+  const staff = canManage ? users.filter(u => u.role !== "site_admin") : user ? [user] : [];
+  const openShifts = myShifts.filter(shift => !shift.clockedOutAt && (shift.date === today || shift.clockedInAt));
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, ...data }: ShiftForm) =>
+      id ? apiRequest("PATCH", `/api/shifts/${id}`, data) : apiRequest("POST", "/api/shifts", data),
+    onSuccess: () => {
+      toast({ title: form?.id ? "Shift updated" : "Shift scheduled" });
+      invalidateShifts();
+      setForm(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save shift", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shifts/${id}`),
+    onSuccess: () => {
+      toast({ title: "Shift deleted" });
+      invalidateShifts();
+      setForm(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete shift", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clockMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "clock-in" | "clock-out" }) =>
+      apiRequest("POST", `/api/shifts/${id}/${action}`),
+    onSuccess: (_, { action }) => {
+      toast({ title: action === "clock-in" ? "Clocked in" : "Clocked out" });
+      invalidateShifts();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to clock in or out", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-4 space-y-6" data-testid="schedule-page">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <CalendarDays className="h-6 w-6" />
+          Staff Schedule
+        </h1>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))} data-testid="previous-week-button">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+            This Week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} data-testid="next-week-button">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>My Shift</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openShifts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no shift scheduled today.</p>
+            ) : (
+              <div className="space-y-3">
+                {openShifts.map(shift => (
+                  <div key={shift.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">{shift.startTime} – {shift.endTime}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {shift.clockedInAt ? `Clocked in at ${format(new Date(shift.clockedInAt), "HH:mm")}` : "Not clocked in"}
+                      </div>
+                    </div>
+                    <Button
+                      onClick={() => clockMutation.mutate({ id: shift.id, action: shift.clockedInAt ? "clock-out" : "clock-in" })}
+                      disabled={clockMutation.isPending}
+                      data-testid={`clock-button-${shift.id}`}
+                    >
+                      {shift.clockedInAt ? <LogOut className="h-4 w-4 mr-2" /> : <LogIn className="h-4 w-4 mr-2" />}
+                      {shift.clockedInAt ? "Clock Out" : "Clock In"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5" />
+              On Duty Now
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {onDuty.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nobody is clocked in.</p>
+            ) : (
+              <div className="space-y-2">
+                {onDuty.map(member => (
+                  <div key={member.shiftId} className="flex items-center justify-between text-sm" data-testid={`on-duty-${member.userId}`}>
+                    <span className="font-medium">{member.name}</span>
+                    <div className="flex items-center gap-2">
+                      <Badge className={DEPARTMENT_COLORS[member.department]}>
+                        {DEPARTMENTS.find(d => d.value === member.department)?.label}
+                      </Badge>
+                      <span className="text-muted-foreground">until {member.endTime}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Week of {format(weekStart, "MMM d, yyyy")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted rounded"></div>
+              ))}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 pr-4">Staff</th>
+                  {days.map(day => (
+                    <th key={day.toISOString()} className={`text-left py-2 px-2 ${toDate(day) === today ? "text-primary" : ""}`}>
+                      {format(day, "EEE d")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {staff.map(member => (
+                  <tr key={member.id} className="border-b align-top" data-testid={`schedule-row-${member.id}`}>
+                    <td className="py-2 pr-4 font-medium whitespace-nowrap">{member.name}</td>
+                    {days.map(day => {
+                      const date = toDate(day);
+                      const dayShifts = shifts.filter(shift => shift.userId === member.id && shift.date === date);
+                      return (
+                        <td key={date} className="py-2 px-2 space-y-1 min-w-[7rem]">
+                          {dayShifts.map(shift => (
+                            <button
+                              key={shift.id}
+                              type="button"
+                              className={`block w-full text-left rounded px-2 py-1 text-xs ${DEPARTMENT_COLORS[shift.department]}`}
+                              onClick={() => canManage && setForm({
+                                id: shift.id,
+                                userId: shift.userId,
+                                date: shift.date,
+                                startTime: shift.startTime,
+                                endTime: shift.endTime,
+                                department: shift.department,
+                              })}
+                              data-testid={`shift-${shift.id}`}
+                            >
+                              {shift.startTime}–{shift.endTime}
+                              {shift.clockedInAt && !shift.clockedOutAt && " •"}
+                            </button>
+                          ))}
+                          {canManage && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-full"
+                              onClick={() => setForm({ userId: member.id, date, startTime: "07:00", endTime: "15:00", department: "housekeeping" })}
+                              data-testid={`add-shift-${member.id}-${date}`}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Shift" : "Schedule Shift"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label>Staff member</Label>
+                <Select value={form.userId} onValueChange={(userId) => setForm({ ...form, userId })}>
+                  <SelectTrigger data-testid="shift-user-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staff.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="shift-date">Date</Label>
+                  <Input id="shift-date" type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="shift-start">Start</Label>
+                  <Input id="shift-start" type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="shift-end">End</Label>
+                  <Input id="shift-end" type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <Label>Department</Label>
+                <Select value={form.department} onValueChange={(department) => setForm({ ...form, department: department as Department })}>
+                  <SelectTrigger data-testid="shift-department-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPARTMENTS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-muted-foreground">A shift that ends before it starts runs past midnight.</p>
+              <div className="flex gap-2 pt-2">
+                <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending} data-testid="save-shift-button">
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save Shift"}
+                </Button>
+                {form.id && (
+                  <Button
+                    variant="outline"
+                    onClick={() => deleteMutation.mutate(form.id!)}
+                    disabled={deleteMutation.isPending}
+                    data-testid="delete-shift-button"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
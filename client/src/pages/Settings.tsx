@@ -8,15 +8,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import SlaTargetsSettings from "@/components/SlaTargetsSettings";
+import RoomStatusRulesSettings from "@/components/RoomStatusRulesSettings";
+import AuditLogSettings from "@/components/AuditLogSettings";
+import RoomTypeSettings from "@/components/RoomTypeSettings";
+import PmsSyncSettings from "@/components/PmsSyncSettings";
+import InspectionTemplateSettings from "@/components/InspectionTemplateSettings";
+import BrandingSettings from "@/components/BrandingSettings";
+import type { RoomType } from "@shared/schema";
 import { 
   Settings2, 
   Users, 
   Building2, 
-  ListChecks, 
   Plus, 
   Edit, 
   Trash2,
@@ -28,9 +34,6 @@ import {
   Send
 } from "lucide-react";
 
-// Room types as specified by user
-const ROOM_TYPES = ["KING", "QQ", "KINGM", "QQM", "KKIT", "QQKIT", "GFK", "GFQ", "GFKK", "GFKQ", "SUITE"];
-
 const USER_ROLES = [
   { value: "site_admin", label: "Site Administrator" },
   { value: "head_housekeeper", label: "Head Housekeeper" },
@@ -48,20 +51,6 @@ export default function Settings() {
   const [editingRoom, setEditingRoom] = useState<any>(null);
   const [editingUser, setEditingUser] = useState<any>(null);
   const [editingUserPassword, setEditingUserPassword] = useState("");
-  const [inspectionItems, setInspectionItems] = useState<any[]>([
-    { id: "1", title: "Bed linens clean and properly arranged", description: "Check for stains, wrinkles, and proper hospital corners", type: "room" },
-    { id: "2", title: "Bathroom cleanliness", description: "Toilet, shower, sink, mirror, and floor must be spotless", type: "room" },
-    { id: "3", title: "Amenities properly stocked", description: "Towels, toiletries, coffee, water bottles, etc.", type: "room" },
-    { id: "4", title: "Room temperature and HVAC", description: "Proper temperature control and air circulation", type: "room" },
-    { id: "5", title: "Electronics and lighting", description: "TV, lights, alarm clock, phone all functional", type: "room" },
-    { id: "6", title: "Safety and security", description: "Door locks, safe, fire safety equipment", type: "room" },
-    { id: "7", title: "Staff adherence to cleaning procedures", description: "Proper sequence and technique followed", type: "process" },
-    { id: "8", title: "Equipment and supplies availability", description: "All necessary tools and cleaning supplies present", type: "process" },
-    { id: "9", title: "Time management and efficiency", description: "Tasks completed within expected timeframe", type: "process" },
-    { id: "10", title: "Safety protocol compliance", description: "PPE usage and safety procedures followed", type: "process" }
-  ]);
-  const [editingInspectionItem, setEditingInspectionItem] = useState<any>(null);
-  const [newInspectionItem, setNewInspectionItem] = useState({ title: "", description: "", type: "room" });
   const [testEmail, setTestEmail] = useState("");
   const [testTemplate, setTestTemplate] = useState("taskAssigned");
   const [testingEmail, setTestingEmail] = useState(false);
@@ -69,6 +58,7 @@ export default function Settings() {
   const [newRoom, setNewRoom] = useState({
     number: "",
     type: "",
+    roomTypeId: "",
     floor: 1,
     squareFootage: 320,
   });
@@ -94,6 +84,10 @@ export default function Settings() {
     queryKey: ["/api/rooms"],
   });
 
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+  });
+
   const { data: users = [], isLoading: loadingUsers } = useQuery({
     queryKey: ["/api/users"],
   });
@@ -114,7 +108,7 @@ export default function Settings() {
       toast({ title: "Room created successfully" });
       queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
       setShowCreateRoom(false);
-      setNewRoom({ number: "", type: "", floor: 1, squareFootage: 320 });
+      setNewRoom({ number: "", type: "", roomTypeId: "", floor: 1, squareFootage: 320 });
     },
     onError: () => {
       toast({ title: "Failed to create room", variant: "destructive" });
@@ -235,11 +229,16 @@ export default function Settings() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="rooms">Rooms & Types</TabsTrigger>
           <TabsTrigger value="users">Users & Roles</TabsTrigger>
-          <TabsTrigger value="inspections">Inspection Items</TabsTrigger>
+          <TabsTrigger value="inspections">Inspection Templates</TabsTrigger>
           <TabsTrigger value="email">Email Settings</TabsTrigger>
+          <TabsTrigger value="sla">Work Order SLA</TabsTrigger>
+          <TabsTrigger value="status-rules">Status Rules</TabsTrigger>
+          <TabsTrigger value="audit">Audit Log</TabsTrigger>
+          <TabsTrigger value="pms">PMS</TabsTrigger>
+          <TabsTrigger value="branding">Branding</TabsTrigger>
         </TabsList>
 
         <TabsContent value="rooms" className="space-y-4">
@@ -312,23 +311,7 @@ export default function Settings() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Room Type Configuration</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
-                {ROOM_TYPES.map((type) => (
-                  <Badge key={type} variant="secondary" className="justify-center py-2">
-                    {type}
-                  </Badge>
-                ))}
-              </div>
-              <p className="text-sm text-muted-foreground mt-3">
-                These are the available room types for assignment. Contact system administrator to modify.
-              </p>
-            </CardContent>
-          </Card>
+          <RoomTypeSettings />
         </TabsContent>
 
         <TabsContent value="users" className="space-y-4">
@@ -409,114 +392,30 @@ export default function Settings() {
 
 
         <TabsContent value="inspections" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center justify-between">
-                <span className="flex items-center gap-2">
-                  <ListChecks className="h-5 w-5" />
-                  Room Inspection Items
-                </span>
-                <Button 
-                  onClick={() => setEditingInspectionItem({ title: "", description: "", type: "room", isNew: true })}
-                  data-testid="add-inspection-item-button"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Item
-                </Button>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {inspectionItems.filter(item => item.type === "room").map((item: any) => (
-                  <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <div className="font-semibold">{item.title}</div>
-                      <div className="text-sm text-muted-foreground">{item.description}</div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setEditingInspectionItem(item)}
-                        data-testid={`edit-inspection-${item.id}`}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          if (confirm(`Are you sure you want to delete "${item.title}"?`)) {
-                            setInspectionItems(inspectionItems.filter(i => i.id !== item.id));
-                            toast({ title: "Inspection item deleted" });
-                          }
-                        }}
-                        data-testid={`delete-inspection-${item.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center justify-between">
-                <span className="flex items-center gap-2">
-                  <ListChecks className="h-5 w-5" />
-                  Process Inspection Items
-                </span>
-                <Button 
-                  onClick={() => setEditingInspectionItem({ title: "", description: "", type: "process", isNew: true })}
-                  data-testid="add-process-item-button"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Item
-                </Button>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {inspectionItems.filter(item => item.type === "process").map((item: any) => (
-                  <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <div className="font-semibold">{item.title}</div>
-                      <div className="text-sm text-muted-foreground">{item.description}</div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setEditingInspectionItem(item)}
-                        data-testid={`edit-process-${item.id}`}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          if (confirm(`Are you sure you want to delete "${item.title}"?`)) {
-                            setInspectionItems(inspectionItems.filter(i => i.id !== item.id));
-                            toast({ title: "Inspection item deleted" });
-                          }
-                        }}
-                        data-testid={`delete-process-${item.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <InspectionTemplateSettings />
         </TabsContent>
 
         {/* Email Settings Tab */}
+        <TabsContent value="sla" className="space-y-4">
+          <SlaTargetsSettings />
+        </TabsContent>
+
+        <TabsContent value="status-rules" className="space-y-4">
+          <RoomStatusRulesSettings />
+        </TabsContent>
+
+        <TabsContent value="audit" className="space-y-4">
+          <AuditLogSettings />
+        </TabsContent>
+
+        <TabsContent value="pms" className="space-y-4">
+          <PmsSyncSettings />
+        </TabsContent>
+
+        <TabsContent value="branding" className="space-y-4">
+          <BrandingSettings />
+        </TabsContent>
+
         <TabsContent value="email" className="space-y-4">
           <Card>
             <CardHeader>
@@ -734,16 +633,20 @@ export default function Settings() {
             <div>
               <Label htmlFor="room-type">Room Type</Label>
               <Select
-                value={newRoom.type}
-                onValueChange={(value) => setNewRoom({ ...newRoom, type: value })}
+                value={newRoom.roomTypeId}
+                onValueChange={(value) => setNewRoom({
+                  ...newRoom,
+                  roomTypeId: value,
+                  type: roomTypes.find((roomType) => roomType.id === value)?.name || "",
+                })}
               >
                 <SelectTrigger data-testid="room-type-select">
                   <SelectValue placeholder="Select room type" />
                 </SelectTrigger>
                 <SelectContent>
-                  {ROOM_TYPES.map((type) => (
-                    <SelectItem key={type} value={type}>
-                      {type}
+                  {roomTypes.map((roomType) => (
+                    <SelectItem key={roomType.id} value={roomType.id}>
+                      {roomType.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -904,16 +807,20 @@ export default function Settings() {
               <div>
                 <Label htmlFor="edit-room-type">Room Type</Label>
                 <Select
-                  value={editingRoom.type}
-                  onValueChange={(value) => setEditingRoom({ ...editingRoom, type: value })}
+                  value={editingRoom.roomTypeId || ""}
+                  onValueChange={(value) => setEditingRoom({
+                    ...editingRoom,
+                    roomTypeId: value,
+                    type: roomTypes.find((roomType) => roomType.id === value)?.name || editingRoom.type,
+                  })}
                 >
                   <SelectTrigger data-testid="edit-room-type-select">
-                    <SelectValue />
+                    <SelectValue placeholder={editingRoom.type} />
                   </SelectTrigger>
                   <SelectContent>
-                    {ROOM_TYPES.map((type) => (
-                      <SelectItem key={type} value={type}>
-                        {type}
+                    {roomTypes.map((roomType) => (
+                      <SelectItem key={roomType.id} value={roomType.id}>
+                        {roomType.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -1066,85 +973,6 @@ export default function Settings() {
         </Dialog>
       )}
 
-      {/* Edit/Create Inspection Item Modal */}
-      {editingInspectionItem && (
-        <Dialog open={!!editingInspectionItem} onOpenChange={() => setEditingInspectionItem(null)}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {editingInspectionItem.isNew ? "Add Inspection Item" : "Edit Inspection Item"}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="inspection-title">Title</Label>
-                <Input
-                  id="inspection-title"
-                  value={editingInspectionItem.title}
-                  onChange={(e) => setEditingInspectionItem({ ...editingInspectionItem, title: e.target.value })}
-                  placeholder="Enter inspection item title"
-                  data-testid="inspection-title-input"
-                />
-              </div>
-              <div>
-                <Label htmlFor="inspection-description">Description</Label>
-                <Textarea
-                  id="inspection-description"
-                  value={editingInspectionItem.description}
-                  onChange={(e) => setEditingInspectionItem({ ...editingInspectionItem, description: e.target.value })}
-                  placeholder="Enter detailed description"
-                  rows={3}
-                  data-testid="inspection-description-input"
-                />
-              </div>
-              <div>
-                <Label htmlFor="inspection-type">Type</Label>
-                <Select
-                  value={editingInspectionItem.type}
-                  onValueChange={(value) => setEditingInspectionItem({ ...editingInspectionItem, type: value })}
-                >
-                  <SelectTrigger data-testid="inspection-type-select">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="room">Room Inspection</SelectItem>
-                    <SelectItem value="process">Process Inspection</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex gap-2 pt-4">
-                <Button
-                  onClick={() => {
-                    if (editingInspectionItem.isNew) {
-                      const newItem = {
-                        ...editingInspectionItem,
-                        id: Date.now().toString(),
-                      };
-                      setInspectionItems([...inspectionItems, newItem]);
-                      toast({ title: "Inspection item added successfully" });
-                    } else {
-                      setInspectionItems(inspectionItems.map(item => 
-                        item.id === editingInspectionItem.id ? editingInspectionItem : item
-                      ));
-                      toast({ title: "Inspection item updated successfully" });
-                    }
-                    setEditingInspectionItem(null);
-                  }}
-                  disabled={!editingInspectionItem.title || !editingInspectionItem.description}
-                  data-testid="save-inspection-button"
-                >
-                  <Save className="h-4 w-4 mr-2" />
-                  {editingInspectionItem.isNew ? "Add Item" : "Update Item"}
-                </Button>
-                <Button variant="outline" onClick={() => setEditingInspectionItem(null)}>
-                  <X className="h-4 w-4 mr-2" />
-                  Cancel
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      )}
     </div>
   );
 }
\ No newline at end of file
@@ -23,7 +23,8 @@ export default function Tasks() {
   const [newTask, setNewTask] = useState({
     title: "",
     description: "",
-    type: "other" as const,
+    type: "other" as string,
+    cleanType: "checkout",
     priority: "medium" as const,
     assigneeIds: [] as string[],
     roomId: "",
@@ -273,6 +274,21 @@ export default function Tasks() {
                 </SelectContent>
               </Select>
             </div>
+            {newTask.type === "cleaning" && (
+              <div>
+                <Label htmlFor="task-clean-type">Clean Type</Label>
+                <Select value={newTask.cleanType} onValueChange={(value) => setNewTask({ ...newTask, cleanType: value })}>
+                  <SelectTrigger id="task-clean-type" data-testid="task-clean-type-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stayover">Stayover</SelectItem>
+                    <SelectItem value="checkout">Checkout</SelectItem>
+                    <SelectItem value="deep_clean">Deep Clean</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div>
               <Label htmlFor="task-priority">Priority</Label>
               <Select value={newTask.priority} onValueChange={(value: any) => setNewTask({ ...newTask, priority: value })}>
@@ -356,6 +372,7 @@ export default function Tasks() {
                         title: newTask.title,
                         description: newTask.description,
                         type: newTask.type,
+                        cleanType: newTask.type === "cleaning" ? newTask.cleanType : undefined,
                         priority: newTask.priority,
                         assigneeId: undefined,
                         roomId: newTask.roomId || undefined,
@@ -368,6 +385,7 @@ export default function Tasks() {
                             title: newTask.title,
                             description: newTask.description,
                             type: newTask.type,
+                            cleanType: newTask.type === "cleaning" ? newTask.cleanType : undefined,
                             priority: newTask.priority,
                             assigneeId,
                             roomId: newTask.roomId || undefined,
@@ -387,6 +405,7 @@ export default function Tasks() {
                       title: "",
                       description: "",
                       type: "other" as const,
+                      cleanType: "checkout",
                       priority: "medium" as const,
                       assigneeIds: [],
                       roomId: "",
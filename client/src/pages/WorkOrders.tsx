@@ -0,0 +1,657 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import StatusChip from "@/components/StatusChip";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { useAuth } from "@/hooks/useAuth";
+import { Wrench, Search, Plus, DoorOpen, User as UserIcon, Clock, Trash2, Package } from "lucide-react";
+import { format } from "date-fns";
+import type { WorkOrder, WorkOrderPart, User, Room } from "@shared/schema";
+
+type WorkOrderDetail = WorkOrder & { allowedTransitions: string[] };
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  low: "bg-gray-100 text-gray-800",
+  medium: "bg-blue-100 text-blue-800",
+  high: "bg-amber-100 text-amber-800",
+  urgent: "bg-red-100 text-red-800",
+};
+
+const SLA_BADGES: Record<string, { label: string; className: string }> = {
+  at_risk: { label: "SLA At Risk", className: "bg-amber-100 text-amber-800" },
+  breached: { label: "SLA Breached", className: "bg-red-100 text-red-800" },
+};
+
+// Roles that may log, assign and progress work orders; everyone else can follow them
+const MANAGING_ROLES = ["site_admin", "head_housekeeper", "maintenance", "front_desk_manager"];
+
+const EMPTY_WORK_ORDER = {
+  title: "",
+  description: "",
+  priority: "medium",
+  roomId: "",
+  assigneeId: "",
+};
+
+export default function WorkOrders() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { subscribe } = useWebSocket();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [priorityFilter, setPriorityFilter] = useState("all");
+  const [showCreate, setShowCreate] = useState(false);
+  const [newWorkOrder, setNewWorkOrder] = useState(EMPTY_WORK_ORDER);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [parts, setParts] = useState<WorkOrderPart[]>([]);
+  const [newPart, setNewPart] = useState({ name: "", quantity: "1", unitCost: "" });
+  const [laborMins, setLaborMins] = useState("");
+
+  useEffect(() => {
+    const unsubscribeAssigned = subscribe('work_order_assigned', () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workorders"] });
+    });
+    const unsubscribeSla = subscribe('work_order_sla_changed', () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workorders"] });
+    });
+    return () => {
+      unsubscribeAssigned();
+      unsubscribeSla();
+    };
+  }, [subscribe]);
+
+  const { data: workOrders = [], isLoading } = useQuery<WorkOrder[]>({
+    queryKey: ["/api/workorders"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const { data: selected } = useQuery<WorkOrderDetail>({
+    queryKey: ["/api/workorders", selectedId],
+    enabled: !!selectedId,
+  });
+
+  // Load the editable parts/labor fields whenever a work order is opened
+  useEffect(() => {
+    if (selected) {
+      setParts((selected.parts as WorkOrderPart[] | null) || []);
+      setLaborMins(selected.laborMins?.toString() || "");
+    }
+  }, [selected]);
+
+  const userMap = users.reduce((acc: Record<string, string>, user) => {
+    acc[user.id] = user.name;
+    return acc;
+  }, {});
+
+  const roomMap = rooms.reduce((acc: Record<string, string>, room) => {
+    acc[room.id] = room.number;
+    return acc;
+  }, {});
+
+  const invalidateWorkOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workorders"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: typeof EMPTY_WORK_ORDER) =>
+      apiRequest("POST", "/api/workorders", {
+        title: data.title,
+        description: data.description,
+        priority: data.priority,
+        roomId: data.roomId && data.roomId !== "none" ? data.roomId : undefined,
+        assigneeId: data.assigneeId && data.assigneeId !== "none" ? data.assigneeId : undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: "Work order created" });
+      invalidateWorkOrders();
+      setShowCreate(false);
+      setNewWorkOrder(EMPTY_WORK_ORDER);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to create work order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: Record<string, unknown>) =>
+      apiRequest("PATCH", `/api/workorders/${selectedId}`, updates),
+    onSuccess: () => {
+      toast({ title: "Work order updated" });
+      invalidateWorkOrders();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update work order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (assigneeId: string | null) =>
+      apiRequest("POST", `/api/workorders/${selectedId}/assign`, { assigneeId }),
+    onSuccess: () => {
+      toast({ title: "Work order assigned" });
+      invalidateWorkOrders();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to assign work order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filteredWorkOrders = workOrders
+    .filter((wo) => statusFilter === "all" || wo.status === statusFilter)
+    .filter((wo) => priorityFilter === "all" || wo.priority === priorityFilter)
+    .filter((wo) => {
+      if (!searchQuery) return true;
+      const searchLower = searchQuery.toLowerCase();
+      return (
+        wo.title.toLowerCase().includes(searchLower) ||
+        wo.description.toLowerCase().includes(searchLower) ||
+        (wo.roomId && roomMap[wo.roomId]?.toLowerCase().includes(searchLower)) ||
+        (wo.assigneeId && userMap[wo.assigneeId]?.toLowerCase().includes(searchLower))
+      );
+    })
+    .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+
+  const canManage = !!user && MANAGING_ROLES.includes(user.role);
+  const isClosed = selected?.status === "completed" || selected?.status === "cancelled";
+  const isReadOnly = isClosed || !canManage;
+
+  const addPart = () => {
+    const quantity = parseInt(newPart.quantity);
+    if (!newPart.name.trim() || !quantity || quantity < 1) {
+      toast({ title: "Enter a part name and quantity", variant: "destructive" });
+      return;
+    }
+    setParts([
+      ...parts,
+      {
+        name: newPart.name.trim(),
+        quantity,
+        unitCost: newPart.unitCost ? parseFloat(newPart.unitCost) : undefined,
+      },
+    ]);
+    setNewPart({ name: "", quantity: "1", unitCost: "" });
+  };
+
+  const partsTotal = parts.reduce((sum, part) => sum + (part.unitCost || 0) * part.quantity, 0);
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-16 bg-muted rounded"></div>
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6" data-testid="work-orders-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Wrench className="h-6 w-6" />
+            Work Orders
+          </h1>
+          <p className="text-muted-foreground">
+            Track maintenance issues from report through repair and close-out
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setShowCreate(true)} data-testid="create-work-order-button">
+            <Plus className="h-4 w-4 mr-2" />
+            New Work Order
+          </Button>
+        )}
+      </div>
+
+      {/* Search and Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search work orders..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="search-work-orders"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40" data-testid="work-order-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+                <SelectTrigger className="w-40" data-testid="work-order-priority-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Priorities</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Work Order List */}
+      <div className="space-y-3">
+        {filteredWorkOrders.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              <Wrench className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              {searchQuery || statusFilter !== "all" || priorityFilter !== "all"
+                ? "No work orders match your current filters."
+                : "No work orders have been logged yet."}
+            </CardContent>
+          </Card>
+        ) : (
+          filteredWorkOrders.map((wo) => (
+            <Card
+              key={wo.id}
+              className="hover:shadow-md transition-shadow cursor-pointer"
+              onClick={() => setSelectedId(wo.id)}
+              data-testid={`work-order-card-${wo.id}`}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-medium truncate">{wo.title}</h3>
+                      <StatusChip status={wo.status || "pending"} />
+                      {!wo.closedAt && wo.slaState && SLA_BADGES[wo.slaState] && (
+                        <Badge className={SLA_BADGES[wo.slaState].className}>
+                          {SLA_BADGES[wo.slaState].label}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{wo.description}</p>
+                    <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      {wo.roomId && (
+                        <span className="flex items-center gap-1">
+                          <DoorOpen className="h-3 w-3" />
+                          Room {roomMap[wo.roomId] || "—"}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <UserIcon className="h-3 w-3" />
+                        {wo.assigneeId ? userMap[wo.assigneeId] || "Unknown" : "Unassigned"}
+                      </span>
+                      {wo.slaDueAt && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          Due {format(new Date(wo.slaDueAt), "MMM d, h:mm a")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <Badge className={PRIORITY_COLORS[wo.priority || "medium"]}>
+                    {(wo.priority || "medium").toUpperCase()}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Statistics */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Work Order Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <div key={value}>
+                <div className="text-2xl font-bold">
+                  {workOrders.filter((wo) => wo.status === value).length}
+                </div>
+                <div className="text-sm text-muted-foreground">{label}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Work Order Detail */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selected?.title || "Work Order"}</DialogTitle>
+          </DialogHeader>
+          {!selected ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+              <div className="h-20 bg-muted rounded"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <StatusChip status={selected.status || "pending"} />
+                <Badge className={PRIORITY_COLORS[selected.priority || "medium"]}>
+                  {(selected.priority || "medium").toUpperCase()}
+                </Badge>
+                {selected.roomId && <Badge variant="outline">Room {roomMap[selected.roomId]}</Badge>}
+                {!selected.closedAt && selected.slaState && SLA_BADGES[selected.slaState] && (
+                  <Badge className={SLA_BADGES[selected.slaState].className}>
+                    {SLA_BADGES[selected.slaState].label}
+                  </Badge>
+                )}
+              </div>
+
+              <p className="text-sm">{selected.description}</p>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Created: </span>
+                  {selected.createdAt && format(new Date(selected.createdAt), "MMM d, yyyy h:mm a")}
+                </div>
+                {selected.slaDueAt && (
+                  <div>
+                    <span className="text-muted-foreground">SLA Due: </span>
+                    {format(new Date(selected.slaDueAt), "MMM d, yyyy h:mm a")}
+                  </div>
+                )}
+                {selected.closedAt && (
+                  <div>
+                    <span className="text-muted-foreground">Closed: </span>
+                    {format(new Date(selected.closedAt), "MMM d, yyyy h:mm a")}
+                  </div>
+                )}
+              </div>
+
+              {/* Assignment */}
+              <div>
+                <Label>Assigned To</Label>
+                <Select
+                  value={selected.assigneeId || "none"}
+                  onValueChange={(value) => assignMutation.mutate(value === "none" ? null : value)}
+                  disabled={isReadOnly || assignMutation.isPending}
+                >
+                  <SelectTrigger className="mt-2" data-testid="work-order-assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name} - {user.role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Status transitions */}
+              <div>
+                <Label>Status</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {selected.allowedTransitions.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">
+                      This work order is closed.
+                    </span>
+                  ) : !canManage ? (
+                    <span className="text-sm text-muted-foreground">
+                      {STATUS_LABELS[selected.status || "pending"]}
+                    </span>
+                  ) : (
+                    selected.allowedTransitions.map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={status === "cancelled" ? "destructive" : "outline"}
+                        onClick={() => updateMutation.mutate({ status })}
+                        disabled={updateMutation.isPending}
+                        data-testid={`work-order-transition-${status}`}
+                      >
+                        {STATUS_LABELS[status]}
+                      </Button>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              {/* Parts and labor */}
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <Package className="h-4 w-4" />
+                  Parts Used
+                </Label>
+                {parts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No parts recorded.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {parts.map((part, index) => (
+                      <div key={index} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                        <span>
+                          {part.quantity} × {part.name}
+                          {part.unitCost !== undefined && (
+                            <span className="text-muted-foreground"> @ ${part.unitCost.toFixed(2)}</span>
+                          )}
+                        </span>
+                        {!isReadOnly && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setParts(parts.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {partsTotal > 0 && (
+                      <p className="text-sm text-right text-muted-foreground">
+                        Parts total: ${partsTotal.toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {!isReadOnly && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Part name"
+                      value={newPart.name}
+                      onChange={(e) => setNewPart({ ...newPart, name: e.target.value })}
+                      data-testid="work-order-part-name"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={newPart.quantity}
+                      onChange={(e) => setNewPart({ ...newPart, quantity: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Cost"
+                      className="w-24"
+                      value={newPart.unitCost}
+                      onChange={(e) => setNewPart({ ...newPart, unitCost: e.target.value })}
+                    />
+                    <Button variant="outline" onClick={addPart}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="labor-mins">Labor (minutes)</Label>
+                  <Input
+                    id="labor-mins"
+                    type="number"
+                    min={0}
+                    value={laborMins}
+                    onChange={(e) => setLaborMins(e.target.value)}
+                    disabled={isReadOnly}
+                    className="mt-2 w-32"
+                    data-testid="work-order-labor"
+                  />
+                </div>
+
+                {!isReadOnly && (
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => updateMutation.mutate({
+                        parts,
+                        laborMins: laborMins ? parseInt(laborMins) : 0,
+                      })}
+                      disabled={updateMutation.isPending}
+                      data-testid="save-work-order-parts"
+                    >
+                      Save Parts & Labor
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Work Order Dialog */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Work Order</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="wo-title">Title</Label>
+              <Input
+                id="wo-title"
+                value={newWorkOrder.title}
+                onChange={(e) => setNewWorkOrder({ ...newWorkOrder, title: e.target.value })}
+                placeholder="e.g. Leaking faucet"
+              />
+            </div>
+            <div>
+              <Label htmlFor="wo-description">Description</Label>
+              <Textarea
+                id="wo-description"
+                value={newWorkOrder.description}
+                onChange={(e) => setNewWorkOrder({ ...newWorkOrder, description: e.target.value })}
+                placeholder="Describe the issue"
+                rows={3}
+              />
+            </div>
+            <div>
+              <Label htmlFor="wo-priority">Priority</Label>
+              <Select value={newWorkOrder.priority} onValueChange={(value) => setNewWorkOrder({ ...newWorkOrder, priority: value })}>
+                <SelectTrigger id="wo-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="wo-room">Room (Optional)</Label>
+              <Select value={newWorkOrder.roomId} onValueChange={(value) => setNewWorkOrder({ ...newWorkOrder, roomId: value })}>
+                <SelectTrigger id="wo-room">
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No Room</SelectItem>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      Room {room.number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="wo-assignee">Assign To (Optional)</Label>
+              <Select value={newWorkOrder.assigneeId} onValueChange={(value) => setNewWorkOrder({ ...newWorkOrder, assigneeId: value })}>
+                <SelectTrigger id="wo-assignee">
+                  <SelectValue placeholder="Select assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} - {user.role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowCreate(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => {
+                  if (!newWorkOrder.title || !newWorkOrder.description) {
+                    toast({
+                      title: "Title and description required",
+                      variant: "destructive",
+                    });
+                    return;
+                  }
+                  createMutation.mutate(newWorkOrder);
+                }}
+                disabled={createMutation.isPending}
+                data-testid="submit-work-order"
+              >
+                Create Work Order
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
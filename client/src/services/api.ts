@@ -57,6 +57,22 @@ export async function uploadFile(file: File): Promise<string> {
   return uploadURL;
 }
 
+// Downloads a generated file, such as a PDF export, under the name the server gives it
+export async function downloadFile(url: string, fallbackName: string): Promise<void> {
+  const response = await apiRequest("GET", url);
+  const disposition = response.headers.get("Content-Disposition");
+  const filename = disposition?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
 export function invalidateQueries(queryKey: string[]) {
   queryClient.invalidateQueries({ queryKey });
 }
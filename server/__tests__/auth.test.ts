@@ -0,0 +1,108 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureTasks, FIXTURE_PASSWORD } from "./fixtures";
+
+describe("auth", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe("POST /api/auth/login", () => {
+    it("returns a token and the user without the password hash", async () => {
+      const response = await server.request("POST", "/api/auth/login", {
+        body: { email: fixtureUsers.attendant.email, password: FIXTURE_PASSWORD },
+      });
+
+      assert.equal(response.status, 200);
+      assert.ok(response.body.token);
+      assert.equal(response.body.user.id, fixtureUsers.attendant.id);
+      assert.equal(response.body.user.passwordHash, undefined);
+    });
+
+    it("rejects a wrong password", async () => {
+      const response = await server.request("POST", "/api/auth/login", {
+        body: { email: fixtureUsers.attendant.email, password: "not-the-password" },
+      });
+
+      assert.equal(response.status, 401);
+      assert.equal(response.body.error, "Invalid credentials");
+    });
+
+    it("rejects an unknown email with the same error", async () => {
+      const response = await server.request("POST", "/api/auth/login", {
+        body: { email: "nobody@test.hotel", password: FIXTURE_PASSWORD },
+      });
+
+      assert.equal(response.status, 401);
+      assert.equal(response.body.error, "Invalid credentials");
+    });
+
+    it("rejects a malformed body", async () => {
+      const response = await server.request("POST", "/api/auth/login", { body: { email: "not-an-email" } });
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe("authenticateToken", () => {
+    it("requires a token", async () => {
+      const response = await server.request("GET", "/api/auth/me");
+      assert.equal(response.status, 401);
+    });
+
+    it("rejects an invalid token", async () => {
+      const response = await server.request("GET", "/api/auth/me", { token: "not.a.token" });
+      assert.equal(response.status, 403);
+    });
+
+    it("resolves the signed-in user", async () => {
+      const token = await server.login("headHousekeeper");
+      const response = await server.request("GET", "/api/auth/me", { token });
+
+      assert.equal(response.status, 200);
+      assert.equal(response.body.email, fixtureUsers.headHousekeeper.email);
+      assert.equal(response.body.passwordHash, undefined);
+    });
+  });
+
+  describe("requireRole", () => {
+    it("blocks roles outside the allowed list", async () => {
+      const token = await server.login("attendant");
+
+      const audit = await server.request("GET", "/api/admin/audit", { token });
+      assert.equal(audit.status, 403);
+      assert.equal(audit.body.error, "Insufficient permissions");
+
+      const deleteTask = await server.request("DELETE", `/api/tasks/${fixtureTasks.cleaning.id}`, { token });
+      assert.equal(deleteTask.status, 403);
+    });
+
+    it("checks the role before the handler runs", async () => {
+      const token = await server.login("frontDesk");
+      const response = await server.request("POST", `/api/tasks/${fixtureTasks.completed.id}/restore`, { token });
+
+      assert.equal(response.status, 403);
+      const task = await server.storage.getTask(fixtureTasks.completed.id);
+      assert.equal(task?.isDeleted, false);
+    });
+
+    it("lets allowed roles through", async () => {
+      const token = await server.login("admin");
+      const response = await server.request("GET", "/api/admin/audit", { token });
+
+      assert.equal(response.status, 200);
+      assert.ok(Array.isArray(response.body));
+    });
+
+    it("requires authentication before checking roles", async () => {
+      const response = await server.request("GET", "/api/admin/audit");
+      assert.equal(response.status, 401);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms, fixtureRoomTypes } from "./fixtures";
+import type { RoomStatus } from "@shared/schema";
+
+describe("board auto-assignment", () => {
+  let server: TestServer;
+  let token: string;
+  let secondAttendantId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("headHousekeeper");
+
+    const secondAttendant = await server.storage.createUser({
+      name: "Sam Second",
+      email: "sam@test.hotel",
+      role: "room_attendant",
+      password: "not-used",
+    });
+    secondAttendantId = secondAttendant.id;
+
+    const rooms: Array<[string, number, RoomStatus, keyof typeof fixtureRoomTypes]> = [
+      ["302", 3, "out", "suite"],
+      ["201", 2, "dirty", "suite"],
+      ["202", 2, "dirty", "queen"],
+      ["203", 2, "roll", "queen"],
+      ["301", 3, "dirty", "king"],
+      ["204", 2, "ready", "king"],
+    ];
+    for (const [number, floor, status, roomType] of rooms) {
+      await server.storage.createRoom({
+        number,
+        floor,
+        status,
+        type: fixtureRoomTypes[roomType].name,
+        roomTypeId: fixtureRoomTypes[roomType].id,
+      });
+    }
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const preview = (body: object) => server.request("POST", "/api/board/auto-assign/preview", { token, body });
+
+  it("splits the rooms to clean into even runs of floors", async () => {
+    const response = await preview({ attendantIds: [fixtureUsers.attendant.id, secondAttendantId] });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.balanceBy, "minutes");
+    // 101 already has an open cleaning task and 204 is ready, so neither is on the board
+    assert.deepEqual(
+      response.body.assignments.map((assignment: any) => ({
+        userId: assignment.userId,
+        rooms: assignment.rooms.map((room: any) => `${room.number}:${room.cleanType}`),
+        totalMinutes: assignment.totalMinutes,
+        floors: assignment.floors,
+      })),
+      [
+        { userId: fixtureUsers.attendant.id, rooms: ["104:stayover", "201:checkout", "202:checkout"], totalMinutes: 15 + 60 + 35, floors: [1, 2] },
+        { userId: secondAttendantId, rooms: ["203:stayover", "301:checkout", "302:checkout"], totalMinutes: 15 + 30 + 60, floors: [2, 3] },
+      ],
+    );
+  });
+
+  it("balances by credits when asked", async () => {
+    const response = await preview({ attendantIds: [fixtureUsers.attendant.id, secondAttendantId], balanceBy: "credits" });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.assignments.map((assignment: any) => assignment.totalCredits), [4, 4]);
+  });
+
+  it("rejects unknown attendants and other roles", async () => {
+    const unknown = await preview({ attendantIds: ["user-missing"] });
+    assert.equal(unknown.status, 400);
+
+    const denied = await server.request("POST", "/api/board/auto-assign/preview", {
+      token: await server.login("attendant"),
+      body: { attendantIds: [fixtureUsers.attendant.id] },
+    });
+    assert.equal(denied.status, 403);
+  });
+
+  it("refuses a board with a room twice or a room that already has a cleaning task", async () => {
+    const twice = await server.request("POST", "/api/board/auto-assign", {
+      token,
+      body: {
+        assignments: [
+          { userId: fixtureUsers.attendant.id, rooms: [{ roomId: fixtureRooms.roll.id, cleanType: "stayover" }] },
+          { userId: secondAttendantId, rooms: [{ roomId: fixtureRooms.roll.id, cleanType: "stayover" }] },
+        ],
+      },
+    });
+    assert.equal(twice.status, 409);
+    assert.equal(twice.body.error, "Room 104 is assigned more than once");
+
+    const busy = await server.request("POST", "/api/board/auto-assign", {
+      token,
+      body: { assignments: [{ userId: secondAttendantId, rooms: [{ roomId: fixtureRooms.dirty.id, cleanType: "checkout" }] }] },
+    });
+    assert.equal(busy.status, 409);
+    assert.equal(busy.body.error, "Room 101 already has an open cleaning task");
+  });
+
+  it("commits an adjusted board as cleaning tasks and room assignments", async () => {
+    const plan = (await preview({ attendantIds: [fixtureUsers.attendant.id, secondAttendantId] })).body;
+    // The supervisor moves room 104 to the second attendant and makes it a deep clean
+    const [first, second] = plan.assignments;
+    const moved = { ...first.rooms[0], cleanType: "deep_clean" };
+    const board = {
+      assignments: [
+        { userId: first.userId, rooms: first.rooms.slice(1) },
+        { userId: second.userId, rooms: [moved, ...second.rooms] },
+      ].map(({ userId, rooms }) => ({ userId, rooms: rooms.map(({ roomId, cleanType }: any) => ({ roomId, cleanType })) })),
+    };
+
+    const response = await server.request("POST", "/api/board/auto-assign", { token, body: board });
+
+    assert.equal(response.status, 201);
+    assert.equal(response.body.tasks.length, 6);
+    const task = response.body.tasks.find((task: any) => task.roomId === fixtureRooms.roll.id);
+    assert.equal(task.title, "Clean Room 104");
+    assert.equal(task.type, "cleaning");
+    assert.equal(task.cleanType, "deep_clean");
+    assert.equal(task.assigneeId, secondAttendantId);
+    assert.equal(task.createdById, fixtureUsers.headHousekeeper.id);
+
+    const assignments = await server.storage.listRoomAssignments(fixtureRooms.roll.id);
+    assert.deepEqual(assignments.map(assignment => assignment.userId), [secondAttendantId]);
+    assert.ok(server.messages.some(sent => sent.message.type === "room_assignment_created"));
+
+    // Every room now has an open task, so the next board is empty
+    const next = await preview({ attendantIds: [fixtureUsers.attendant.id] });
+    assert.deepEqual(next.body.assignments[0].rooms, []);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms, fixtureTasks, fixtureRoomComments } from "./fixtures";
+import type { DailyResetService } from "../dailyReset";
+import type { DailyResetReport } from "@shared/schema";
+
+describe("DailyResetService.performDailyReset", () => {
+  let server: TestServer;
+  let dailyResetService: DailyResetService;
+
+  // Reset runs, with the params and results the service saves them with
+  const resetReports = async () =>
+    (await server.storage.listReportRuns())
+      .filter(report => report.type === "daily_reset")
+      .map(report => ({ ...report, params: report.params as { date: string }, results: report.results as DailyResetReport }));
+
+  before(async () => {
+    server = await startTestServer();
+    ({ dailyResetService } = await import("../dailyReset"));
+
+    // Drop the real midnight timer; resets below run on the fake clock
+    dailyResetService.cleanup();
+    mock.timers.enable({ apis: ["Date", "setTimeout"], now: new Date("2026-03-01T22:00:00.000Z") });
+  });
+
+  after(async () => {
+    dailyResetService.cleanup();
+    mock.timers.reset();
+    await server.close();
+  });
+
+  it("saves a report of the day before resetting", async () => {
+    await dailyResetService.performDailyReset();
+
+    const [report] = await resetReports();
+    assert.deepEqual(report.params, { date: "2026-03-01" });
+
+    const { results } = report;
+    assert.equal(results.roomMetrics.totalRooms, 5);
+    assert.equal(results.roomMetrics.readyRooms, 1);
+    assert.equal(results.roomMetrics.cleanInspectedRooms, 1);
+    assert.equal(results.tasksSummary.completedTasks, 1);
+  });
+
+  it("sends ready and inspected rooms back to dirty and keeps the rest", async () => {
+    const statuses = Object.fromEntries(
+      await Promise.all(
+        Object.values(fixtureRooms).map(async room => [room.number, (await server.storage.getRoom(room.id))?.status])
+      )
+    );
+
+    assert.deepEqual(statuses, {
+      "101": "dirty",
+      "102": "dirty",
+      "103": "dirty",
+      "104": "roll",
+      "105": "maintenance",
+    });
+
+    const [event] = await server.storage.listRoomStatusEvents(fixtureRooms.inspected.id);
+    assert.equal(event.source, "daily_reset");
+    assert.equal(event.userId, null);
+    assert.deepEqual(await server.storage.listRoomStatusEvents(fixtureRooms.roll.id), []);
+  });
+
+  it("clears assignments, completed tasks and routine comments", async () => {
+    assert.deepEqual(await server.storage.listRoomAssignments(), []);
+
+    const completed = await server.storage.getTask(fixtureTasks.completed.id);
+    assert.equal(completed?.isDeleted, true);
+    assert.ok(completed?.archivedAt);
+    const pending = await server.storage.getTask(fixtureTasks.cleaning.id);
+    assert.equal(pending?.isDeleted, false);
+
+    const comments = await server.storage.listRoomComments();
+    assert.deepEqual(comments.map(comment => comment.id), [fixtureRoomComments.urgent.id]);
+  });
+
+  it("runs only once per day", async () => {
+    await dailyResetService.performDailyReset();
+    assert.equal((await resetReports()).length, 1);
+  });
+
+  it("runs again when the clock reaches midnight", async () => {
+    const performDailyReset = mock.method(dailyResetService, "performDailyReset");
+    mock.timers.tick(2 * 60 * 60 * 1000);
+
+    assert.equal(performDailyReset.mock.callCount(), 1);
+    await performDailyReset.mock.calls[0].result;
+
+    const dates = (await resetReports()).map(report => report.params.date).sort();
+    assert.deepEqual(dates, ["2026-03-01", "2026-03-02"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms, fixtureTasks } from "./fixtures";
+
+describe("Daily reset configuration", () => {
+  let server: TestServer;
+  let token: string;
+  let defaults: any;
+
+  const preview = async () => (await server.request("GET", "/api/daily-reset/preview", { token })).body;
+  const configure = (changes: object) =>
+    server.request("PUT", "/api/daily-reset/config", { token, body: { ...defaults, ...changes } });
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("admin");
+    defaults = (await server.request("GET", "/api/daily-reset/config", { token })).body;
+    mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-01T22:00:00.000Z") });
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+  });
+
+  it("keeps the configuration to site admins and rejects invalid settings", async () => {
+    assert.equal(defaults.resetTime, "00:00");
+    assert.equal(defaults.timezone, null);
+    assert.equal(defaults.statusRules.ready, "dirty");
+
+    const denied = await server.request("PUT", "/api/daily-reset/config", {
+      token: await server.login("headHousekeeper"),
+      body: defaults,
+    });
+    assert.equal(denied.status, 403);
+
+    const badTimezone = await configure({ timezone: "Mars/Olympus Mons" });
+    assert.equal(badTimezone.status, 400);
+    assert.match(badTimezone.body.error, /Unknown timezone/);
+
+    assert.equal((await configure({ resetTime: "24:00" })).status, 400);
+  });
+
+  it("previews the reset without changing anything", async () => {
+    const result = await preview();
+
+    assert.equal(result.date, "2026-03-01");
+    assert.equal(result.nextResetAt, "2026-03-02T00:00:00.000Z");
+    assert.equal(result.usesOccupancy, false);
+    assert.deepEqual(
+      result.roomChanges.map((change: any) => [change.roomNumber, change.fromStatus, change.toStatus]),
+      [["102", "ready", "dirty"], ["103", "clean_inspected", "dirty"]]
+    );
+    assert.equal(result.assignmentsCleared, 1);
+    assert.equal(result.commentsCleared, 1);
+    assert.equal(result.tasksArchived, 1);
+
+    assert.equal((await server.storage.getRoom(fixtureRooms.ready.id))?.status, "ready");
+    assert.equal((await server.storage.listRoomAssignments()).length, 1);
+    assert.equal((await server.storage.getTask(fixtureTasks.completed.id))?.isDeleted, false);
+  });
+
+  it("schedules the reset at the configured time in the configured timezone", async () => {
+    const response = await configure({ resetTime: "03:30", timezone: "Asia/Tokyo" });
+    assert.equal(response.status, 200);
+
+    // 22:00 UTC is already 07:00 the next morning in Tokyo
+    const result = await preview();
+    assert.equal(result.date, "2026-03-02");
+    assert.equal(result.nextResetAt, "2026-03-02T18:30:00.000Z");
+
+    await configure({ resetTime: "03:30", timezone: "America/New_York" });
+    assert.equal((await preview()).nextResetAt, "2026-03-02T08:30:00.000Z");
+  });
+
+  it("follows the status rules and the clearing and retention choices", async () => {
+    await configure({
+      statusRules: { ...defaults.statusRules, ready: "ready" },
+      clearAssignments: false,
+      clearComments: false,
+      completedTaskRetentionDays: 90,
+    });
+
+    const response = await server.request("POST", "/api/daily-reset/manual", { token });
+    assert.equal(response.status, 200);
+
+    assert.equal((await server.storage.getRoom(fixtureRooms.ready.id))?.status, "ready");
+    assert.equal((await server.storage.getRoom(fixtureRooms.inspected.id))?.status, "dirty");
+    assert.equal((await server.storage.listRoomAssignments()).length, 1);
+    assert.equal((await server.storage.listRoomComments()).length, 2);
+    // Finished in mid January, inside the 90 days kept
+    assert.equal((await server.storage.getTask(fixtureTasks.completed.id))?.isDeleted, false);
+
+    await configure({ completedTaskRetentionDays: 30 });
+    assert.equal((await preview()).tasksArchived, 1);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+
+const report = (date: string, readyRooms: number, completedTasks: number) => ({
+  date,
+  roomStatuses: [],
+  roomMetrics: {
+    totalRooms: 5,
+    readyRooms,
+    rollRooms: 0,
+    outRooms: 0,
+    cleanInspectedRooms: 0,
+    dirtyRooms: 5 - readyRooms,
+    maintenanceRooms: 0,
+    outOfOrderRooms: 0,
+  },
+  tasksSummary: { totalTasks: 10, completedTasks, pendingTasks: 10 - completedTasks },
+  workOrdersSummary: { totalWorkOrders: 2, completedWorkOrders: 1, pendingWorkOrders: 1 },
+  resetTime: `${date}T00:00:00.000Z`,
+});
+
+describe("Daily reset report history", () => {
+  let server: TestServer;
+  let token: string;
+
+  const saveReport = async (date: string, readyRooms: number, completedTasks: number) => {
+    await server.storage.createReportRun({ type: "daily_reset", params: { date }, results: report(date, readyRooms, completedTasks) });
+    mock.timers.tick(1000);
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("headHousekeeper");
+    mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-10T12:00:00.000Z") });
+
+    await saveReport("2025-12-01", 1, 2);
+    await saveReport("2026-03-01", 2, 4);
+    await saveReport("2026-03-05", 3, 6);
+    // Reset twice on the same day: the later report stands
+    await saveReport("2026-03-05", 4, 7);
+    await saveReport("2026-03-10", 5, 9);
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+  });
+
+  it("pages through one report per day, newest first", async () => {
+    const first = await server.request("GET", "/api/daily-reset/reports?pageSize=2", { token });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.total, 4);
+    assert.deepEqual(first.body.reports.map((entry: any) => entry.date), ["2026-03-10", "2026-03-05"]);
+    assert.equal(first.body.reports[1].roomMetrics.readyRooms, 4);
+    assert.equal(first.body.reports[0].roomStatuses, undefined);
+
+    const second = await server.request("GET", "/api/daily-reset/reports?pageSize=2&page=2", { token });
+    assert.deepEqual(second.body.reports.map((entry: any) => entry.date), ["2026-03-01", "2025-12-01"]);
+
+    const ranged = await server.request("GET", "/api/daily-reset/reports?dateFrom=2026-03-01&dateTo=2026-03-05", { token });
+    assert.deepEqual(ranged.body.reports.map((entry: any) => entry.date), ["2026-03-05", "2026-03-01"]);
+
+    const invalid = await server.request("GET", "/api/daily-reset/reports?page=0", { token });
+    assert.equal(invalid.status, 400);
+  });
+
+  it("returns the full report for a day", async () => {
+    const response = await server.request("GET", "/api/daily-reset/reports/2026-03-01", { token });
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.roomStatuses, []);
+    assert.equal(response.body.tasksSummary.completedTasks, 4);
+
+    const missing = await server.request("GET", "/api/daily-reset/reports/2026-03-02", { token });
+    assert.equal(missing.status, 404);
+  });
+
+  it("compares two days side by side", async () => {
+    const response = await server.request("GET", "/api/daily-reset/compare?left=2026-03-01&right=2026-03-10", { token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.left.date, "2026-03-01");
+    assert.equal(response.body.right.date, "2026-03-10");
+    assert.equal(response.body.difference.roomMetrics.readyRooms, 3);
+    assert.equal(response.body.difference.roomMetrics.dirtyRooms, -3);
+    assert.equal(response.body.difference.tasksSummary.completedTasks, 5);
+    assert.equal(response.body.difference.workOrdersSummary.totalWorkOrders, 0);
+
+    const missing = await server.request("GET", "/api/daily-reset/compare?left=2026-03-02&right=2026-03-10", { token });
+    assert.equal(missing.status, 404);
+
+    const invalid = await server.request("GET", "/api/daily-reset/compare?left=2026-03-01", { token });
+    assert.equal(invalid.status, 400);
+  });
+
+  it("gives the trend over the last days, oldest first", async () => {
+    const month = await server.request("GET", "/api/daily-reset/trends?days=30", { token });
+    assert.equal(month.status, 200);
+    assert.deepEqual(month.body.map((entry: any) => entry.date), ["2026-03-01", "2026-03-05", "2026-03-10"]);
+
+    const quarter = await server.request("GET", "/api/daily-reset/trends?days=90", { token });
+    assert.deepEqual(quarter.body.map((entry: any) => entry.date), ["2026-03-01", "2026-03-05", "2026-03-10"]);
+
+    const long = await server.request("GET", "/api/daily-reset/trends?days=120", { token });
+    assert.equal(long.body[0].date, "2025-12-01");
+
+    const denied = await server.request("GET", "/api/daily-reset/trends", { token: await server.login("attendant") });
+    assert.equal(denied.status, 403);
+  });
+});
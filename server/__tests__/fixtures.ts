@@ -0,0 +1,113 @@
+import fs from "fs/promises";
+import path from "path";
+import bcrypt from "bcryptjs";
+
+// Every fixture user signs in with this password
+export const FIXTURE_PASSWORD = "fixture-password";
+
+// Tokens in tests are signed with this secret, so tests can issue their own
+export const TEST_JWT_SECRET = "test-jwt-secret";
+
+const CREATED_AT = "2026-01-15T08:00:00.000Z";
+
+export const fixtureUsers = {
+  admin: { id: "user-admin", name: "Alex Admin", email: "admin@test.hotel", role: "site_admin" },
+  headHousekeeper: { id: "user-hhk", name: "Hana Head", email: "hhk@test.hotel", role: "head_housekeeper" },
+  attendant: { id: "user-ra", name: "Riley Attendant", email: "ra@test.hotel", role: "room_attendant" },
+  frontDesk: { id: "user-fd", name: "Frankie Desk", email: "fd@test.hotel", role: "front_desk_manager" },
+} as const;
+
+export type FixtureUser = keyof typeof fixtureUsers;
+
+export const fixtureRoomTypes = {
+  king: { id: "type-king", name: "Standard King", description: null, standardMinutes: { stayover: 15, checkout: 30, deep_clean: 60 }, credits: 1, checklists: {} },
+  queen: { id: "type-queen", name: "Standard Queen", description: null, standardMinutes: { stayover: 15, checkout: 35, deep_clean: 70 }, credits: 1, checklists: {} },
+  suite: { id: "type-suite", name: "Deluxe Suite", description: null, standardMinutes: { stayover: 25, checkout: 60, deep_clean: 120 }, credits: 2, checklists: {} },
+} as const;
+
+export const fixtureRooms = {
+  dirty: { id: "room-101", number: "101", type: "Standard King", roomTypeId: fixtureRoomTypes.king.id, floor: 1, status: "dirty", squareFootage: 350 },
+  ready: { id: "room-102", number: "102", type: "Standard Queen", roomTypeId: fixtureRoomTypes.queen.id, floor: 1, status: "ready", squareFootage: 320 },
+  inspected: { id: "room-103", number: "103", type: "Deluxe Suite", roomTypeId: fixtureRoomTypes.suite.id, floor: 1, status: "clean_inspected", squareFootage: 600 },
+  roll: { id: "room-104", number: "104", type: "Standard King", roomTypeId: fixtureRoomTypes.king.id, floor: 1, status: "roll", squareFootage: 350 },
+  maintenance: { id: "room-105", number: "105", type: "Standard Queen", roomTypeId: fixtureRoomTypes.queen.id, floor: 1, status: "maintenance", squareFootage: 320 },
+} as const;
+
+export const fixtureTasks = {
+  cleaning: {
+    id: "task-clean-101",
+    title: "Clean Room 101",
+    type: "cleaning",
+    cleanType: "checkout",
+    status: "pending",
+    priority: "high",
+    roomId: fixtureRooms.dirty.id,
+    assigneeId: fixtureUsers.attendant.id,
+    createdById: fixtureUsers.headHousekeeper.id,
+  },
+  completed: {
+    id: "task-done-102",
+    title: "Clean Room 102",
+    type: "cleaning",
+    cleanType: "stayover",
+    status: "completed",
+    priority: "medium",
+    roomId: fixtureRooms.ready.id,
+    assigneeId: fixtureUsers.attendant.id,
+    createdById: fixtureUsers.headHousekeeper.id,
+    finishedAt: CREATED_AT,
+  },
+} as const;
+
+export const fixtureRoomComments = {
+  routine: { id: "comment-routine", roomId: fixtureRooms.dirty.id, userId: fixtureUsers.attendant.id, comment: "Extra towels requested", priority: "low", isResolved: false },
+  urgent: { id: "comment-urgent", roomId: fixtureRooms.maintenance.id, userId: fixtureUsers.headHousekeeper.id, comment: "Leak under the sink", priority: "high", isResolved: false },
+} as const;
+
+export const fixtureRoomAssignments = {
+  attendant: { id: "assignment-101", roomId: fixtureRooms.dirty.id, userId: fixtureUsers.attendant.id, assignedById: fixtureUsers.headHousekeeper.id },
+} as const;
+
+const withTimestamps = <T extends object>(records: Record<string, T>) =>
+  Object.values(records).map(record => ({ ...record, createdAt: CREATED_AT, updatedAt: CREATED_AT }));
+
+// Writes the fixtures as MemStorage data files, so the store loads them
+// on startup instead of seeding the demo data
+export async function writeFixtures(dataDir: string): Promise<void> {
+  const passwordHash = await bcrypt.hash(FIXTURE_PASSWORD, 4);
+
+  const files: Record<string, unknown[]> = {
+    "users.json": withTimestamps(fixtureUsers).map(user => ({
+      ...user,
+      passwordHash,
+      phone: null,
+      canReceivePanicAlerts: user.role !== "room_attendant",
+      emailNotifications: true,
+      emailTaskAssigned: true,
+      emailTaskCompleted: true,
+      emailRoomStatusChanged: true,
+      emailInspectionCompleted: true,
+    })),
+    "room-types.json": withTimestamps(fixtureRoomTypes),
+    "rooms.json": withTimestamps(fixtureRooms),
+    "tasks.json": withTimestamps(fixtureTasks).map(task => ({
+      description: null,
+      dueAt: null,
+      startedAt: null,
+      pausedAt: null,
+      pausedSeconds: 0,
+      finishedAt: null,
+      verifiedById: null,
+      notes: null,
+      isDeleted: false,
+      ...task,
+    })),
+    "room-comments.json": withTimestamps(fixtureRoomComments),
+    "room-assignments.json": withTimestamps(fixtureRoomAssignments),
+  };
+
+  await fs.mkdir(dataDir, { recursive: true });
+  for (const [file, records] of Object.entries(files)) {
+    await fs.writeFile(path.join(dataDir, file), JSON.stringify(records, null, 2));
+  }
+}
@@ -0,0 +1,182 @@
+import express from "express";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { mock } from "node:test";
+import { writeFixtures, fixtureUsers, FIXTURE_PASSWORD, TEST_JWT_SECRET, type FixtureUser } from "./fixtures";
+import type { IStorage } from "../storage";
+import type { EmailTemplateData } from "../emailService";
+import type { WebSocketMessage } from "../websocketService";
+import type { ObjectAclPolicy } from "../objectAcl";
+
+export interface SentEmail {
+  to: string | string[];
+  template: string;
+  data: EmailTemplateData;
+}
+
+// A WebSocket message the server would have sent, and to whom
+export interface SentMessage {
+  message: WebSocketMessage;
+  roles?: string[];
+  userId?: string;
+}
+
+// An object the server stored itself, e.g. a drawn signature
+export interface StoredObject {
+  path: string;
+  data: Buffer;
+  contentType: string;
+  aclPolicy: ObjectAclPolicy;
+}
+
+export interface TestResponse<T = any> {
+  status: number;
+  headers: Headers;
+  // Parsed JSON, or the raw bytes of any other content such as a PDF
+  body: T;
+}
+
+export interface TestServer {
+  baseUrl: string;
+  storage: IStorage;
+  emails: SentEmail[];
+  messages: SentMessage[];
+  objects: StoredObject[];
+  login(user: FixtureUser): Promise<string>;
+  request<T = any>(method: string, url: string, options?: { token?: string; body?: unknown }): Promise<TestResponse<T>>;
+  // Forgets recorded emails and messages, e.g. between tests
+  clearSent(): void;
+  close(): Promise<void>;
+}
+
+export interface TestServerOptions {
+  // Serve real WebSocket connections on /ws instead of recording messages
+  websocket?: boolean;
+}
+
+// Boots the API on a MemStorage loaded from the fixtures in a temporary data
+// directory, with email, WebSocket delivery and object storage replaced by
+// recorders. Server modules are imported here, after DATA_DIR and JWT_SECRET
+// are set, so the storage singleton picks up the fixtures.
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "hotel-ops-test-"));
+  await writeFixtures(dataDir);
+  process.env.DATA_DIR = dataDir;
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.JWT_SECRET = TEST_JWT_SECRET;
+
+  const { storage, MemStorage } = await import("../storage");
+  const { registerRoutes } = await import("../routes");
+  const { emailService } = await import("../emailService");
+  const { websocketService } = await import("../websocketService");
+  const { dailyResetService } = await import("../dailyReset");
+  const { slaService } = await import("../slaService");
+  const { pmScheduler } = await import("../pmScheduler");
+  const { lostFoundService } = await import("../lostFoundService");
+  const { ObjectStorageService, ObjectNotFoundError } = await import("../objectStorage");
+
+  if (storage instanceof MemStorage) {
+    await storage.ready;
+  }
+
+  const emails: SentEmail[] = [];
+  const messages: SentMessage[] = [];
+  const objects: StoredObject[] = [];
+
+  mock.method(emailService, "sendEmail", async (to: string | string[], template: string, data: EmailTemplateData) => {
+    emails.push({ to, template, data });
+  });
+  if (!options.websocket) {
+    mock.method(websocketService, "initialize", () => {});
+    mock.method(websocketService, "broadcast", (message: WebSocketMessage) => {
+      messages.push({ message });
+    });
+    mock.method(websocketService, "broadcastToRoles", (message: WebSocketMessage, roles: string[]) => {
+      messages.push({ message, roles });
+    });
+    mock.method(websocketService, "sendToUser", (userId: string, message: WebSocketMessage) => {
+      messages.push({ message, userId });
+    });
+  }
+
+  mock.method(ObjectStorageService.prototype, "uploadObjectEntity", async (data: Buffer, contentType: string, aclPolicy: ObjectAclPolicy) => {
+    const path = `/objects/uploads/test-${objects.length + 1}`;
+    objects.push({ path, data, contentType, aclPolicy });
+    return path;
+  });
+  mock.method(ObjectStorageService.prototype, "readObjectEntity", async (objectPath: string) => {
+    const object = objects.find(object => object.path === objectPath);
+    if (!object) {
+      throw new ObjectNotFoundError();
+    }
+    return object.data;
+  });
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request = async <T = any>(
+    method: string,
+    url: string,
+    options: { token?: string; body?: unknown } = {}
+  ): Promise<TestResponse<T>> => {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) headers["Content-Type"] = "application/json";
+    if (options.token) headers["Authorization"] = `Bearer ${options.token}`;
+
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    if (!response.headers.get("content-type")?.includes("application/json")) {
+      const data = Buffer.from(await response.arrayBuffer());
+      return { status: response.status, headers: response.headers, body: (data.length ? data : undefined) as T };
+    }
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+
+  const tokens = new Map<FixtureUser, string>();
+  const login = async (user: FixtureUser) => {
+    if (!tokens.has(user)) {
+      const response = await request("POST", "/api/auth/login", {
+        body: { email: fixtureUsers[user].email, password: FIXTURE_PASSWORD },
+      });
+      if (response.status !== 200) {
+        throw new Error(`Fixture login for ${user} failed with ${response.status}`);
+      }
+      tokens.set(user, response.body.token);
+    }
+    return tokens.get(user)!;
+  };
+
+  return {
+    baseUrl,
+    storage,
+    emails,
+    messages,
+    objects,
+    login,
+    request,
+    clearSent() {
+      emails.length = 0;
+      messages.length = 0;
+    },
+    async close() {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      dailyResetService.cleanup();
+      slaService.cleanup();
+      pmScheduler.cleanup();
+      lostFoundService.cleanup();
+      mock.restoreAll();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,413 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms, fixtureUsers } from "./fixtures";
+
+// A drawn signature as the page sends it
+const SIGNATURE = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+const suiteTemplate = {
+  name: "Suite Inspection",
+  kind: "room",
+  roomType: "Deluxe Suite",
+  passThreshold: 75,
+  sections: [
+    {
+      id: "bedroom",
+      title: "Bedroom",
+      items: [
+        { id: "bed", title: "Bed made", weight: 3 },
+        { id: "dust", title: "Surfaces dusted" },
+      ],
+    },
+    {
+      id: "safety",
+      title: "Safety",
+      items: [{ id: "smoke-detector", title: "Smoke detector works", critical: true }],
+    },
+  ],
+};
+
+describe("Inspection templates and scoring", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let inspectorToken: string;
+  let templateId: string;
+
+  const startInspection = async (roomId: string) =>
+    server.request("POST", "/api/inspections", {
+      token: inspectorToken,
+      body: { kind: "room", roomId, templateId },
+    });
+
+  before(async () => {
+    server = await startTestServer();
+    adminToken = await server.login("admin");
+    inspectorToken = await server.login("headHousekeeper");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("keeps the template library to site admins and validates templates", async () => {
+    const denied = await server.request("POST", "/api/inspection-templates", { token: inspectorToken, body: suiteTemplate });
+    assert.equal(denied.status, 403);
+
+    const duplicateIds = await server.request("POST", "/api/inspection-templates", {
+      token: adminToken,
+      body: { ...suiteTemplate, sections: [{ id: "a", title: "A", items: [{ id: "x", title: "X" }, { id: "x", title: "Y" }] }] },
+    });
+    assert.equal(duplicateIds.status, 400);
+
+    const processForRoomType = await server.request("POST", "/api/inspection-templates", {
+      token: adminToken,
+      body: { ...suiteTemplate, kind: "process" },
+    });
+    assert.equal(processForRoomType.status, 400);
+
+    const response = await server.request("POST", "/api/inspection-templates", { token: adminToken, body: suiteTemplate });
+    assert.equal(response.status, 201);
+    assert.equal(response.body.sections[0].items[1].weight, 1);
+    assert.equal(response.body.sections[0].items[1].critical, false);
+    templateId = response.body.id;
+  });
+
+  it("offers only the templates that fit the room", async () => {
+    const suite = await server.request("GET", `/api/inspection-templates?kind=room&roomId=${fixtureRooms.inspected.id}`, { token: inspectorToken });
+    assert.deepEqual(suite.body.map((template: any) => template.id), [templateId]);
+
+    const king = await server.request("GET", `/api/inspection-templates?kind=room&roomId=${fixtureRooms.dirty.id}`, { token: inspectorToken });
+    assert.deepEqual(king.body, []);
+
+    const wrongRoom = await startInspection(fixtureRooms.dirty.id);
+    assert.equal(wrongRoom.status, 400);
+    assert.match(wrongRoom.body.error, /Deluxe Suite rooms/);
+  });
+
+  it("builds the checklist from the template", async () => {
+    const response = await startInspection(fixtureRooms.inspected.id);
+
+    assert.equal(response.status, 201);
+    assert.equal(response.body.templateId, templateId);
+    assert.equal(response.body.passThreshold, 75);
+    assert.deepEqual(
+      response.body.checklist.map((item: any) => [item.id, item.section, item.weight, item.critical]),
+      [["bed", "Bedroom", 3, false], ["dust", "Bedroom", 1, false], ["smoke-detector", "Safety", 1, true]]
+    );
+  });
+
+  it("scores by weight on the server and ignores a client's score", async () => {
+    const inspection = (await startInspection(fixtureRooms.inspected.id)).body;
+
+    const draft = await server.request("PATCH", `/api/inspections/${inspection.id}`, {
+      token: inspectorToken,
+      body: {
+        checklist: [
+          { id: "bed", completed: true, passed: true, weight: 100 },
+          { id: "dust", completed: true, passed: false },
+          { id: "smoke-detector", completed: true, passed: true },
+        ],
+        score: 100,
+        passFail: true,
+      },
+    });
+    assert.equal(draft.status, 200);
+    assert.equal(draft.body.score, 80);
+    assert.equal(draft.body.passFail, null);
+    assert.equal(draft.body.checklist[0].weight, 3);
+
+    const signed = await server.request("PATCH", `/api/inspections/${inspection.id}`, {
+      token: inspectorToken,
+      body: { signature: SIGNATURE },
+    });
+    assert.equal(signed.body.score, 80);
+    assert.equal(signed.body.passFail, true);
+  });
+
+  it("fails the inspection on a failed critical item whatever the score", async () => {
+    const inspection = (await startInspection(fixtureRooms.inspected.id)).body;
+
+    const response = await server.request("PATCH", `/api/inspections/${inspection.id}`, {
+      token: inspectorToken,
+      body: {
+        checklist: [
+          { id: "bed", completed: true, passed: true },
+          { id: "dust", completed: true, passed: true },
+          { id: "smoke-detector", completed: true, passed: false },
+        ],
+        signature: SIGNATURE,
+      },
+    });
+    assert.equal(response.body.score, 80);
+    assert.equal(response.body.passFail, false);
+  });
+
+  it("keeps templates that inspections were built from", async () => {
+    const response = await server.request("DELETE", `/api/inspection-templates/${templateId}`, { token: adminToken });
+    assert.equal(response.status, 409);
+  });
+});
+
+describe("Failed inspection remediation", () => {
+  let server: TestServer;
+  let inspectorToken: string;
+  let templateId: string;
+
+  const inspect = async (results: Record<string, boolean>) => {
+    const inspection = (await server.request("POST", "/api/inspections", {
+      token: inspectorToken,
+      body: { kind: "room", roomId: fixtureRooms.ready.id, templateId },
+    })).body;
+    return (await server.request("PATCH", `/api/inspections/${inspection.id}`, {
+      token: inspectorToken,
+      body: {
+        checklist: Object.entries(results).map(([id, passed]) => ({ id, completed: true, passed, notes: `${id} checked` })),
+        signature: SIGNATURE,
+      },
+    })).body;
+  };
+
+  const markInspected = (inspectionId?: string) =>
+    server.request("PATCH", `/api/rooms/${fixtureRooms.ready.id}/status`, {
+      token: inspectorToken,
+      body: { status: "clean_inspected", inspectionId },
+    });
+
+  before(async () => {
+    server = await startTestServer();
+    inspectorToken = await server.login("headHousekeeper");
+    const template = await server.request("POST", "/api/inspection-templates", {
+      token: await server.login("admin"),
+      body: {
+        name: "Room Inspection",
+        kind: "room",
+        sections: [{
+          id: "room",
+          title: "Room",
+          items: [
+            { id: "bed", title: "Bed made" },
+            { id: "dust", title: "Surfaces dusted" },
+            { id: "tv", title: "TV works", maintenance: true },
+          ],
+        }],
+      },
+    });
+    templateId = template.body.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("sends failed items back to the attendant or to maintenance and the room back to dirty", async () => {
+    const failed = await inspect({ bed: false, dust: true, tv: false });
+    assert.equal(failed.passFail, false);
+
+    const remediation = (await server.request("GET", `/api/inspections/${failed.id}/remediation`, { token: inspectorToken })).body;
+    assert.equal(remediation.tasks.length, 1);
+    assert.equal(remediation.tasks[0].title, "Re-clean Room 102: Bed made");
+    assert.equal(remediation.tasks[0].assigneeId, fixtureUsers.attendant.id);
+    assert.equal(remediation.tasks[0].inspectionId, failed.id);
+    assert.equal(remediation.tasks[0].notes, "bed checked");
+    assert.equal(remediation.workOrders.length, 1);
+    assert.equal(remediation.workOrders[0].title, "TV works - Room 102");
+    assert.equal(remediation.workOrders[0].roomId, fixtureRooms.ready.id);
+    assert.ok(remediation.workOrders[0].slaDueAt);
+
+    assert.equal((await server.storage.getRoom(fixtureRooms.ready.id))?.status, "dirty");
+    const [event] = await server.storage.listRoomStatusEvents(fixtureRooms.ready.id);
+    assert.equal(event.source, "inspection");
+  });
+
+  it("requires a passing re-inspection before the room is clean and inspected", async () => {
+    const blocked = await markInspected();
+    assert.equal(blocked.status, 409);
+    assert.match(blocked.body.error, /re-inspection/);
+
+    // A second failure keeps the room waiting
+    const [firstFailure] = await server.storage.listInspections({ roomId: fixtureRooms.ready.id });
+    await inspect({ bed: true, dust: false, tv: true });
+    assert.equal((await markInspected()).status, 409);
+
+    const passed = await inspect({ bed: true, dust: true, tv: true });
+    assert.equal(passed.passFail, true);
+
+    const closed = await server.storage.getInspection(firstFailure.id);
+    assert.equal(closed?.reinspectionId, passed.id);
+    assert.ok(closed?.remediatedAt);
+
+    const response = await markInspected(passed.id);
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "clean_inspected");
+  });
+
+  it("brings the follow-up work in line when an unlocked inspection is signed again", async () => {
+    const adminToken = await server.login("admin");
+    const resign = async (inspectionId: string, results: Record<string, boolean>) => {
+      await server.request("POST", `/api/inspections/${inspectionId}/unlock`, { token: adminToken, body: { reason: "Marked by mistake" } });
+      return (await server.request("PATCH", `/api/inspections/${inspectionId}`, {
+        token: inspectorToken,
+        body: {
+          checklist: Object.entries(results).map(([id, passed]) => ({ id, completed: true, passed })),
+          signature: SIGNATURE,
+        },
+      })).body;
+    };
+    const remediation = async (inspectionId: string) =>
+      (await server.request("GET", `/api/inspections/${inspectionId}/remediation`, { token: inspectorToken })).body;
+
+    const failed = await inspect({ bed: false, dust: true, tv: false });
+    const { tasks: [task], workOrders: [workOrder] } = await remediation(failed.id);
+
+    const passed = await resign(failed.id, { bed: true, dust: true, tv: true });
+    assert.equal(passed.passFail, true);
+    assert.equal((await server.storage.getTask(task.id))?.isDeleted, true);
+    assert.equal((await server.storage.getWorkOrder(workOrder.id))?.status, "cancelled");
+    assert.equal((await remediation(failed.id)).tasks.length, 0);
+    assert.equal((await markInspected(failed.id)).status, 200);
+
+    const failedAgain = await resign(failed.id, { bed: false, dust: true, tv: true });
+    assert.equal(failedAgain.passFail, false);
+    assert.equal((await remediation(failed.id)).tasks.length, 1);
+    assert.equal((await server.storage.getRoom(fixtureRooms.ready.id))?.status, "dirty");
+    assert.equal((await markInspected()).status, 409);
+  });
+});
+
+describe("Inspection signatures", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let inspectorToken: string;
+  let inspectionId: string;
+
+  const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+
+  // JSON with object keys sorted, as the signature hash is taken
+  const canonicalJson = (value: unknown) => JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  );
+
+  const signatureValid = async () => {
+    const { body } = await server.request("GET", `/api/inspections/${inspectionId}`, { token: inspectorToken });
+    return body.signatureValid;
+  };
+
+  const update = (body: unknown) =>
+    server.request("PATCH", `/api/inspections/${inspectionId}`, { token: inspectorToken, body });
+
+  const unlock = (token: string, body: unknown) =>
+    server.request("POST", `/api/inspections/${inspectionId}/unlock`, { token, body });
+
+  before(async () => {
+    server = await startTestServer();
+    adminToken = await server.login("admin");
+    inspectorToken = await server.login("headHousekeeper");
+    const template = await server.request("POST", "/api/inspection-templates", {
+      token: adminToken,
+      body: { ...suiteTemplate, roomType: null },
+    });
+    const inspection = await server.request("POST", "/api/inspections", {
+      token: inspectorToken,
+      body: { kind: "room", roomId: fixtureRooms.ready.id, templateId: template.body.id },
+    });
+    inspectionId = inspection.body.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("records the sign-off time on the server and seals the results with a hash", async () => {
+    const clientTime = await update({ signedAt: "2020-01-01T00:00:00.000Z" });
+    assert.equal(clientTime.body.signedAt, null);
+
+    const invalid = await update({ signature: "data:image/jpeg;base64,AAAA" });
+    assert.equal(invalid.status, 400);
+
+    const response = await update({
+      checklist: suiteTemplate.sections.flatMap(section => section.items).map(item => ({ id: item.id, completed: true, passed: true })),
+      signature: SIGNATURE,
+    });
+    assert.equal(response.status, 200);
+    assert.ok(Date.now() - new Date(response.body.signedAt).getTime() < 60 * 1000);
+
+    const [stored] = server.objects;
+    assert.equal(response.body.signatureUrl, stored.path);
+    assert.equal(stored.contentType, "image/png");
+    assert.deepEqual(stored.aclPolicy, { owner: fixtureUsers.headHousekeeper.id, visibility: "private" });
+    assert.equal(
+      response.body.signatureHash,
+      sha256(canonicalJson({ checklist: response.body.checklist, score: 100, signature: sha256(stored.data) }))
+    );
+    assert.equal(await signatureValid(), true);
+
+    const list = await server.request("GET", "/api/inspections", { token: inspectorToken });
+    assert.equal(list.body[0].signatureValid, undefined);
+    assert.equal((await server.request("GET", "/api/inspections/missing", { token: inspectorToken })).status, 404);
+  });
+
+  it("rejects changes to a signed inspection", async () => {
+    const response = await update({ checklist: [{ id: "bed", completed: true, passed: false }] });
+    assert.equal(response.status, 409);
+    assert.equal((await server.storage.getInspection(inspectionId))?.score, 100);
+  });
+
+  it("lets a site admin unlock it with a reason, and audits the unlock", async () => {
+    assert.equal((await unlock(inspectorToken, { reason: "Typo" })).status, 403);
+    assert.equal((await unlock(adminToken, { reason: " " })).status, 400);
+
+    const response = await unlock(adminToken, { reason: "Bed was marked by mistake" });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.unlockedById, fixtureUsers.admin.id);
+    assert.equal((await unlock(adminToken, { reason: "Again" })).status, 409);
+
+    const audit = await server.request("GET", `/api/admin/audit?entityType=inspection&entityId=${inspectionId}&action=unlock`, { token: adminToken });
+    assert.equal(audit.body.length, 1);
+    assert.equal(audit.body[0].actorId, fixtureUsers.admin.id);
+    assert.equal(audit.body[0].changes.unlockReason.to, "Bed was marked by mistake");
+  });
+
+  it("accepts changes once unlocked and locks again when signed", async () => {
+    const { signatureHash } = (await server.storage.getInspection(inspectionId))!;
+
+    const changed = await update({ checklist: [{ id: "dust", completed: true, passed: false }] });
+    assert.equal(changed.status, 200);
+    assert.equal(changed.body.score, 80);
+    assert.equal(await signatureValid(), false);
+
+    const resigned = await update({ signature: SIGNATURE });
+    assert.equal(resigned.status, 200);
+    assert.equal(resigned.body.unlockedAt, null);
+    assert.notEqual(resigned.body.signatureHash, signatureHash);
+    assert.equal(await signatureValid(), true);
+    assert.equal((await update({ checklist: [] })).status, 409);
+  });
+
+  it("detects a signature image that no longer matches", async () => {
+    const { signatureUrl } = (await server.storage.getInspection(inspectionId))!;
+    const stored = server.objects.find(object => object.path === signatureUrl)!;
+    const original = stored.data;
+
+    stored.data = Buffer.from("another drawing");
+    assert.equal(await signatureValid(), false);
+    stored.data = original;
+  });
+
+  it("keeps changes to inspectors and does not delete a signed inspection", async () => {
+    const attendantToken = await server.login("attendant");
+    const denied = await server.request("PATCH", `/api/inspections/${inspectionId}`, { token: attendantToken, body: { signature: SIGNATURE } });
+    assert.equal(denied.status, 403);
+
+    const locked = await server.request("DELETE", `/api/inspections/${inspectionId}`, { token: adminToken });
+    assert.equal(locked.status, 409);
+    assert.ok(await server.storage.getInspection(inspectionId));
+
+    await unlock(adminToken, { reason: "Signed against the wrong room" });
+    const deleted = await server.request("DELETE", `/api/inspections/${inspectionId}`, { token: adminToken });
+    assert.equal(deleted.status, 204);
+  });
+});
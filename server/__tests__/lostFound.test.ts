@@ -0,0 +1,45 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms } from "./fixtures";
+
+describe("Lost & found", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let managerToken: string;
+  let attendantToken: string;
+
+  before(async () => {
+    server = await startTestServer();
+    adminToken = await server.login("admin");
+    managerToken = await server.login("headHousekeeper");
+    attendantToken = await server.login("attendant");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("lets staff store items but only site admins clear them", async () => {
+    const logged = await server.request("POST", "/api/lost-found", {
+      token: attendantToken,
+      body: { description: "Black umbrella", locationFound: "Wardrobe", roomId: fixtureRooms.dirty.id },
+    });
+    assert.equal(logged.status, 201);
+    const id = logged.body.id;
+
+    const stored = await server.request("PATCH", `/api/lost-found/${id}`, { token: attendantToken, body: { storageArea: "Shelf B", status: "stored" } });
+    assert.equal(stored.status, 200);
+    assert.equal(stored.body.status, "stored");
+
+    for (const token of [attendantToken, managerToken]) {
+      const denied = await server.request("PATCH", `/api/lost-found/${id}`, { token, body: { status: "expired_cleared" } });
+      assert.equal(denied.status, 403);
+    }
+    assert.equal((await server.storage.getLostFoundItem(id))?.status, "stored");
+
+    const cleared = await server.request("PATCH", `/api/lost-found/${id}`, { token: adminToken, body: { status: "expired_cleared" } });
+    assert.equal(cleared.status, 200);
+    assert.ok(cleared.body.clearedAt);
+  });
+});
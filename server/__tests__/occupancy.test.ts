@@ -0,0 +1,177 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms } from "./fixtures";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const localDate = (daysFromToday: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const today = localDate(0);
+
+describe("occupancy feed", () => {
+  let server: TestServer;
+  let token: string;
+  let vacantRoomId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("frontDesk");
+
+    const vacant = await server.storage.createRoom({ number: "106", floor: 1, status: "ready", type: "King" });
+    vacantRoomId = vacant.id;
+  });
+
+  after(async () => {
+    delete process.env.OCCUPANCY_WEBHOOK_SECRET;
+    await server.close();
+  });
+
+  const statusOf = async (roomId: string) => (await server.storage.getRoom(roomId))?.status;
+
+  it("imports a CSV export and reports the rows it skipped", async () => {
+    const content = [
+      "Room,Guest Name,Arrival,Departure,Confirmation #,DND",
+      `101,"Arriving, Ann",${today},${localDate(2)},A-1,`,
+      `102,Leaving Lee,${localDate(-2)},${today},A-2,no`,
+      `103,Staying Sam,${localDate(-1)},${localDate(2)},A-3,yes`,
+      `999,Nobody,${today},${localDate(1)},A-4,`,
+      `104,Backwards Bo,${today},${localDate(-1)},A-5,`,
+    ].join("\r\n");
+
+    const response = await server.request("POST", "/api/reservations/import", { token, body: { format: "csv", content } });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.created, 3);
+    assert.equal(response.body.updated, 0);
+    assert.deepEqual(response.body.errors, [
+      { row: 4, error: "Room 999 not found" },
+      { row: 5, error: "departureDate: Departure must be after arrival" },
+    ]);
+
+    const [ann] = await server.storage.listReservations({ externalId: "A-1" });
+    assert.equal(ann.guestName, "Arriving, Ann");
+    assert.equal(ann.source, "csv_import");
+  });
+
+  it("limits imports to the front desk and admins", async () => {
+    const denied = await server.request("POST", "/api/reservations/import", {
+      token: await server.login("headHousekeeper"),
+      body: { format: "json", content: "[]" },
+    });
+    assert.equal(denied.status, 403);
+  });
+
+  it("works out each room's occupancy for the day", async () => {
+    const response = await server.request("GET", `/api/occupancy?date=${today}`, { token });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.map((room: any) => [room.roomNumber, room.state, room.doNotDisturb]),
+      [
+        ["101", "arrival", false],
+        ["102", "departure", false],
+        ["103", "stayover", true],
+        ["104", "vacant", false],
+        ["105", "vacant", false],
+        ["106", "vacant", false],
+      ],
+    );
+    assert.equal(response.body[1].guestName, "Leaving Lee");
+    assert.equal(response.body[1].reservationId, null);
+  });
+
+  it("accepts webhook updates only with the shared secret", async () => {
+    const body = { reservations: [{ externalId: "A-1", roomNumber: 101, arrivalDate: today, departureDate: localDate(3), status: "checked_in" }] };
+
+    const unconfigured = await server.request("POST", "/api/reservations/webhook", { body });
+    assert.equal(unconfigured.status, 503);
+
+    process.env.OCCUPANCY_WEBHOOK_SECRET = "pms-secret";
+    const wrongSecret = await fetch(`${server.baseUrl}/api/reservations/webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Webhook-Secret": "guess" },
+      body: JSON.stringify(body),
+    });
+    assert.equal(wrongSecret.status, 401);
+
+    const accepted = await fetch(`${server.baseUrl}/api/reservations/webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Webhook-Secret": "pms-secret" },
+      body: JSON.stringify(body),
+    });
+    assert.equal(accepted.status, 200);
+    assert.deepEqual(await accepted.json(), { created: 0, updated: 1, errors: [] });
+
+    const [ann] = await server.storage.listReservations({ externalId: "A-1" });
+    assert.equal(ann.status, "checked_in");
+    assert.equal(ann.departureDate, localDate(3));
+    assert.equal(ann.guestName, "Arriving, Ann");
+    assert.equal(ann.source, "webhook");
+  });
+
+  it("resets checkouts to dirty and stayovers to roll, leaving vacant clean rooms alone", async () => {
+    const { dailyResetService } = await import("../dailyReset");
+    dailyResetService.cleanup();
+    try {
+      await dailyResetService.performDailyReset();
+    } finally {
+      dailyResetService.cleanup();
+    }
+
+    assert.equal(await statusOf(fixtureRooms.dirty.id), "dirty");
+    assert.equal(await statusOf(fixtureRooms.ready.id), "dirty");
+    assert.equal(await statusOf(fixtureRooms.inspected.id), "roll");
+    assert.equal(await statusOf(fixtureRooms.roll.id), "dirty");
+    assert.equal(await statusOf(fixtureRooms.maintenance.id), "maintenance");
+    assert.equal(await statusOf(vacantRoomId), "ready");
+
+    const [event] = await server.storage.listRoomStatusEvents(fixtureRooms.ready.id);
+    assert.equal(event.source, "daily_reset");
+    assert.equal(event.notes, "Checkout");
+  });
+
+  it("applies the status rules to rooms the occupancy feed does not decide", async () => {
+    const adminToken = await server.login("admin");
+    const defaults = (await server.request("GET", "/api/daily-reset/config", { token: adminToken })).body;
+    const configure = (statusRules: object) =>
+      server.request("PUT", "/api/daily-reset/config", { token: adminToken, body: { ...defaults, statusRules } });
+
+    assert.equal((await configure({ ...defaults.statusRules, maintenance: "out_of_order", roll: "dirty" })).status, 200);
+    try {
+      const preview = await server.request("GET", "/api/daily-reset/preview", { token: adminToken });
+      assert.equal(preview.status, 200);
+      assert.equal(preview.body.usesOccupancy, true);
+      // The stayover in room 103 stays roll and the vacant clean room 106 stays ready
+      assert.deepEqual(
+        preview.body.roomChanges.map((change: any) => [change.roomNumber, change.fromStatus, change.toStatus, change.reason]),
+        [["105", "maintenance", "out_of_order", "Reset rule"]]
+      );
+    } finally {
+      await configure(defaults.statusRules);
+    }
+  });
+
+  it("keeps do-not-disturb rooms off the board until the guest clears it", async () => {
+    const housekeeperToken = await server.login("headHousekeeper");
+    const preview = async () => {
+      const response = await server.request("POST", "/api/board/auto-assign/preview", {
+        token: housekeeperToken,
+        body: { attendantIds: [fixtureUsers.attendant.id] },
+      });
+      return response.body.assignments[0].rooms.map((room: any) => room.number);
+    };
+
+    // 101 already has an open cleaning task
+    assert.deepEqual(await preview(), ["102", "104"]);
+
+    const [sam] = await server.storage.listReservations({ externalId: "A-3" });
+    const cleared = await server.request("PATCH", `/api/reservations/${sam.id}`, { token, body: { doNotDisturb: false } });
+    assert.equal(cleared.status, 200);
+
+    assert.deepEqual(await preview(), ["102", "103", "104"]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms, fixtureUsers } from "./fixtures";
+
+const PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+const branding = {
+  name: "Harbour View Hotel",
+  address: "1 Quay Street, Portside",
+  accentColor: "#0f766e",
+  logo: `data:image/png;base64,${PNG}`,
+};
+
+const isPdf = (body: Buffer) => Buffer.isBuffer(body) && body.subarray(0, 5).toString() === "%PDF-";
+
+// Image XObjects in the document; a PNG with an alpha channel also brings its soft mask
+const countImages = (body: Buffer) => (body.toString("latin1").match(/\/Subtype \/Image/g) ?? []).length;
+
+describe("Property branding", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let managerToken: string;
+
+  before(async () => {
+    server = await startTestServer();
+    adminToken = await server.login("admin");
+    managerToken = await server.login("headHousekeeper");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("defaults to the hotel name and lets only site admins change it", async () => {
+    const initial = await server.request("GET", "/api/branding", { token: managerToken });
+    assert.equal(initial.status, 200);
+    assert.equal(initial.body.logo, null);
+
+    assert.equal((await server.request("PUT", "/api/branding", { token: managerToken, body: branding })).status, 403);
+    assert.equal((await server.request("PUT", "/api/branding", { token: adminToken, body: { ...branding, accentColor: "teal" } })).status, 400);
+    assert.equal((await server.request("PUT", "/api/branding", { token: adminToken, body: { ...branding, logo: "data:image/gif;base64,AAAA" } })).status, 400);
+
+    const saved = await server.request("PUT", "/api/branding", { token: adminToken, body: branding });
+    assert.equal(saved.status, 200);
+    assert.deepEqual((await server.request("GET", "/api/branding", { token: managerToken })).body, branding);
+
+    const audit = await server.request("GET", "/api/admin/audit?entityType=setting&entityId=property_branding", { token: adminToken });
+    assert.equal(audit.body.length, 1);
+    assert.equal(audit.body[0].changes.name.to, "Harbour View Hotel");
+  });
+});
+
+describe("PDF exports", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let inspectorToken: string;
+  let inspectionId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    adminToken = await server.login("admin");
+    inspectorToken = await server.login("headHousekeeper");
+    await server.request("PUT", "/api/branding", { token: adminToken, body: branding });
+
+    server.objects.push(
+      { path: "/objects/uploads/photo-1", data: Buffer.from(PNG, "base64"), contentType: "image/png", aclPolicy: { owner: fixtureUsers.headHousekeeper.id, visibility: "private" } },
+      { path: "/objects/uploads/notes-1", data: Buffer.from("not an image"), contentType: "text/plain", aclPolicy: { owner: fixtureUsers.headHousekeeper.id, visibility: "private" } },
+    );
+
+    const template = await server.request("POST", "/api/inspection-templates", {
+      token: adminToken,
+      body: {
+        name: "Room Inspection",
+        kind: "room",
+        sections: [{ id: "bedroom", title: "Bedroom", items: [{ id: "carpet", title: "Carpet clean" }, { id: "bed", title: "Bed made" }] }],
+      },
+    });
+    const inspection = await server.request("POST", "/api/inspections", {
+      token: inspectorToken,
+      body: { kind: "room", roomId: fixtureRooms.ready.id, templateId: template.body.id },
+    });
+    inspectionId = inspection.body.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("exports an inspection with its photos and signature", async () => {
+    const unsigned = await server.request("GET", `/api/inspections/${inspectionId}/pdf`, { token: inspectorToken });
+    assert.equal(unsigned.status, 200);
+    assert.ok(isPdf(unsigned.body));
+    // Only the logo
+    assert.equal(countImages(unsigned.body), 2);
+
+    const signed = await server.request("PATCH", `/api/inspections/${inspectionId}`, {
+      token: inspectorToken,
+      body: {
+        // A missing photo and one that is not an image are left out rather than failing the export
+        checklist: [{ id: "carpet", completed: true, passed: false, notes: "Stain on carpet", photos: ["/objects/uploads/photo-1", "/objects/uploads/missing", "/objects/uploads/notes-1"] }],
+        signature: `data:image/png;base64,${PNG}`,
+      },
+    });
+    assert.equal(signed.status, 200);
+
+    const response = await server.request("GET", `/api/inspections/${inspectionId}/pdf`, { token: inspectorToken });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "application/pdf");
+    assert.match(response.headers.get("content-disposition")!, /^attachment; filename="inspection-room-102-\d{4}-\d{2}-\d{2}\.pdf"$/);
+    assert.ok(isPdf(response.body));
+    // Logo, photo and signature
+    assert.equal(countImages(response.body), 6);
+    assert.match(response.body.toString("latin1"), /\(Harbour View Hotel - Room Inspection - Room 102\)/);
+
+    assert.equal((await server.request("GET", "/api/inspections/missing/pdf", { token: inspectorToken })).status, 404);
+  });
+
+  it("exports a daily reset report", async () => {
+    await server.request("POST", "/api/daily-reset/manual", { token: adminToken });
+    const { body: last } = await server.request("GET", "/api/daily-reset/last-report", { token: adminToken });
+
+    const response = await server.request("GET", `/api/daily-reset/reports/${last.date}/pdf`, { token: adminToken });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-disposition"), `attachment; filename="daily-reset-${last.date}.pdf"`);
+    assert.ok(isPdf(response.body));
+
+    assert.equal((await server.request("GET", "/api/daily-reset/reports/2000-01-01/pdf", { token: adminToken })).status, 404);
+    const attendantToken = await server.login("attendant");
+    assert.equal((await server.request("GET", `/api/daily-reset/reports/${last.date}/pdf`, { token: attendantToken })).status, 403);
+  });
+
+  it("exports the reports overview for a period and department", async () => {
+    const response = await server.request("GET", "/api/reports/overview/pdf?days=30&department=housekeeping", { token: inspectorToken });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "application/pdf");
+    assert.ok(isPdf(response.body));
+    assert.match(response.body.toString("latin1"), /\(Harbour View Hotel - Operations Report\)/);
+
+    assert.equal((await server.request("GET", "/api/reports/overview/pdf?department=laundry", { token: inspectorToken })).status, 400);
+    assert.equal((await server.request("GET", "/api/reports/overview/pdf?days=0", { token: inspectorToken })).status, 400);
+  });
+});
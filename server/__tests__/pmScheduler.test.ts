@@ -0,0 +1,112 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms } from "./fixtures";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const checklist = [{ id: "check", title: "Check and lubricate" }];
+
+describe("Preventive maintenance scheduling", () => {
+  let server: TestServer;
+  let token: string;
+
+  const createTemplate = async (body: Record<string, unknown>) => {
+    const response = await server.request("POST", "/api/pm/templates", { token, body: { checklist, ...body } });
+    assert.equal(response.status, 201);
+    return response.body.id as string;
+  };
+
+  const openInstance = async (templateId: string) => {
+    const instances = await server.storage.listPMInstances();
+    return instances.find(instance => instance.templateId === templateId && instance.status === "pending")!;
+  };
+
+  const setNow = (iso: string) => {
+    mock.timers.setTime(new Date(iso).getTime());
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("headHousekeeper");
+    mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-10T12:00:00.000Z") });
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+  });
+
+  it("counts calendar days from completion, and from the due date when skipped", async () => {
+    setNow("2026-03-10T12:00:00.000Z");
+    const templateId = await createTemplate({ title: "Boiler service", frequency: "days_counter", interval: 30, asset: "Boiler" });
+
+    const first = await openInstance(templateId);
+    assert.equal(new Date(first.dueAt).toISOString(), "2026-04-09T12:00:00.000Z");
+
+    // Completed early: the next cycle runs from the completion
+    setNow("2026-04-01T09:00:00.000Z");
+    const completed = await server.request("PATCH", `/api/pm/instances/${first.id}`, {
+      token,
+      body: { status: "completed", checklistResults: [{ itemId: "check", done: true }] },
+    });
+    assert.equal(completed.status, 200);
+    const second = await openInstance(templateId);
+    assert.equal(new Date(second.dueAt).toISOString(), "2026-05-01T09:00:00.000Z");
+
+    // Skipped late: the schedule keeps its rhythm from the skipped due date
+    setNow("2026-05-05T09:00:00.000Z");
+    const skipped = await server.request("PATCH", `/api/pm/instances/${second.id}`, {
+      token,
+      body: { status: "skipped", skipReason: "Replaced by contractor visit" },
+    });
+    assert.equal(skipped.status, 200);
+    const third = await openInstance(templateId);
+    assert.equal(new Date(third.dueAt).toISOString(), "2026-05-31T09:00:00.000Z");
+  });
+
+  it("counts occupied nights from reservations and room status history", async () => {
+    setNow("2026-03-10T12:00:00.000Z");
+    const templateId = await createTemplate({ title: "Suite deep service", frequency: "days_rented", interval: 10, roomType: "Deluxe Suite" });
+
+    // No nights rented yet: projected as if rented every night from today
+    const first = await openInstance(templateId);
+    assert.equal(first.roomId, fixtureRooms.inspected.id);
+    assert.equal(new Date(first.dueAt).toISOString(), "2026-03-20T00:00:00.000Z");
+
+    const roomId = fixtureRooms.inspected.id;
+    // The night of the 10th
+    await server.storage.createReservation({ roomId, arrivalDate: "2026-03-10", departureDate: "2026-03-11", source: "test" });
+    // Cancelled stays and nights before the cycle started do not count
+    await server.storage.createReservation({ roomId, arrivalDate: "2026-03-11", departureDate: "2026-03-12", source: "test", status: "cancelled" });
+    await server.storage.createReservation({ roomId, arrivalDate: "2026-03-01", departureDate: "2026-03-05", source: "test" });
+
+    // A stayover on the 13th: the guest slept there on the 12th and stays the 13th
+    setNow("2026-03-13T06:00:00.000Z");
+    await server.storage.createRoomStatusEvent({ roomId, fromStatus: "clean_inspected", toStatus: "roll" });
+    setNow("2026-03-13T14:00:00.000Z");
+    await server.storage.createRoomStatusEvent({ roomId, fromStatus: "roll", toStatus: "ready" });
+
+    setNow("2026-03-14T12:00:00.000Z");
+    const result = await server.request("POST", "/api/pm/generate", { token });
+    assert.equal(result.body.rescheduled, 1);
+
+    // Three of ten nights rented and the 11th empty, so seven to go from today
+    const rescheduled = await openInstance(templateId);
+    assert.equal(rescheduled.id, first.id);
+    assert.equal(new Date(rescheduled.dueAt).getTime(), new Date("2026-03-14T00:00:00.000Z").getTime() + 7 * DAY_MS);
+  });
+
+  it("keeps work on instances to maintenance and supervisors", async () => {
+    const templateId = await createTemplate({ title: "Ice machine descale", frequency: "days_counter", interval: 90, asset: "Ice machine" });
+    const instance = await openInstance(templateId);
+
+    const attendantToken = await server.login("attendant");
+    const denied = await server.request("PATCH", `/api/pm/instances/${instance.id}`, {
+      token: attendantToken,
+      body: { status: "skipped", skipReason: "Not needed" },
+    });
+    assert.equal(denied.status, 403);
+    assert.equal((await server.storage.getPMInstance(instance.id))?.status, "pending");
+  });
+});
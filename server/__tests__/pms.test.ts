@@ -0,0 +1,162 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms } from "./fixtures";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const localDate = (daysFromToday: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+describe("PMS integration with the mock PMS", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    process.env.PMS_ADAPTER = "mock";
+    process.env.PMS_WEBHOOK_SECRET = "pms-secret";
+    server = await startTestServer();
+    process.env.PMS_BASE_URL = `${server.baseUrl}/mock-pms`;
+    token = await server.login("admin");
+  });
+
+  after(async () => {
+    delete process.env.PMS_ADAPTER;
+    delete process.env.PMS_WEBHOOK_SECRET;
+    delete process.env.PMS_BASE_URL;
+    await server.close();
+  });
+
+  const mockPms = async (method: string, path: string, body?: object) => {
+    const response = await fetch(`${server.baseUrl}/mock-pms${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const syncLog = async () => (await server.request("GET", "/api/pms/sync-log", { token })).body;
+
+  // Status pushes run after the response, so wait until they are logged
+  const syncLogWith = async (entries: number) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const log = await syncLog();
+      if (log.length >= entries) return log;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.fail(`Expected ${entries} PMS sync log entries`);
+  };
+
+  it("pushes room status changes to the PMS", async () => {
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.ready.id}/status`, { token, body: { status: "dirty" } });
+    assert.equal(response.status, 200);
+
+    const [entry] = await syncLogWith(1);
+    const rooms = (await mockPms("GET", "/rooms")).body;
+    assert.equal(rooms["102"].status, "dirty");
+
+    assert.equal(entry.direction, "outbound");
+    assert.equal(entry.action, "room_status");
+    assert.equal(entry.status, "succeeded");
+  });
+
+  it("logs a failed push and retries it with the room's current status", async () => {
+    await mockPms("POST", "/outage", { requests: 1 });
+
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.ready.id}/status`, { token, body: { status: "ready" } });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "ready");
+
+    const [failed, succeeded] = await syncLogWith(2);
+    assert.equal(failed.status, "failed");
+    assert.match(failed.lastError, /^PMS responded 503/);
+
+    const notFailed = await server.request("POST", `/api/pms/sync-log/${succeeded.id}/retry`, { token });
+    assert.equal(notFailed.status, 409);
+
+    const retried = await server.request("POST", `/api/pms/sync-log/${failed.id}/retry`, { token });
+    assert.equal(retried.status, 200);
+    assert.equal(retried.body.status, "succeeded");
+    assert.equal(retried.body.attempts, 2);
+    assert.equal((await mockPms("GET", "/rooms")).body["102"].status, "ready");
+  });
+
+  it("pushes status changes made by editing the room", async () => {
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.dirty.id}`, { token, body: { status: "ready" } });
+    assert.equal(response.status, 200);
+
+    const [entry] = await syncLogWith(3);
+    assert.equal(entry.roomId, fixtureRooms.dirty.id);
+    assert.equal(entry.status, "succeeded");
+    assert.equal((await mockPms("GET", "/rooms")).body["101"].status, "ready");
+  });
+
+  it("marks the room dirty and queues a checkout clean when a guest checks out", async () => {
+    const reservation = await server.storage.createReservation({
+      externalId: "R-1",
+      roomId: fixtureRooms.inspected.id,
+      guestName: "Early Eve",
+      arrivalDate: localDate(-1),
+      departureDate: localDate(2),
+      status: "checked_in",
+      source: "test",
+    });
+
+    const response = await mockPms("POST", "/guests/103/check-out", { externalId: "R-1" });
+    assert.equal(response.status, 200);
+    assert.equal(response.body[0].status, "succeeded");
+
+    const room = await server.storage.getRoom(fixtureRooms.inspected.id);
+    assert.equal(room?.status, "dirty");
+    const [event] = await server.storage.listRoomStatusEvents(fixtureRooms.inspected.id);
+    assert.equal(event.source, "pms");
+
+    const updated = await server.storage.getReservation(reservation.id);
+    assert.equal(updated?.status, "checked_out");
+    assert.equal(updated?.departureDate, localDate(0));
+
+    const task = (await server.storage.listTasks({ type: "cleaning" })).find(task => task.roomId === fixtureRooms.inspected.id);
+    assert.equal(task?.title, "Clean Room 103");
+    assert.equal(task?.cleanType, "checkout");
+    assert.equal(task?.createdById, fixtureUsers.admin.id);
+  });
+
+  it("records check-ins the occupancy feed never had", async () => {
+    const response = await mockPms("POST", "/guests/104/check-in", { guestName: "Walk-in Will", departureDate: localDate(1) });
+    assert.equal(response.status, 200);
+
+    const [reservation] = await server.storage.listReservations({ roomId: fixtureRooms.roll.id });
+    assert.equal(reservation.status, "checked_in");
+    assert.equal(reservation.arrivalDate, localDate(0));
+    assert.equal(reservation.source, "pms");
+  });
+
+  it("logs events that fail and applies them on retry", async () => {
+    const response = await mockPms("POST", "/guests/999/check-out", {});
+    assert.equal(response.status, 200);
+    const [failed] = response.body;
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.lastError, "Room 999 not found");
+
+    const status = await server.request("GET", "/api/pms/status", { token });
+    assert.deepEqual(status.body, { adapter: "mock", webhookConfigured: true, failedSyncs: 1 });
+
+    await server.storage.createRoom({ number: "999", floor: 9, status: "ready", type: "King" });
+    const retried = await server.request("POST", "/api/pms/sync-log/retry-failed", { token });
+    assert.equal(retried.status, 200);
+    assert.deepEqual(retried.body.map((entry: any) => entry.status), ["succeeded"]);
+  });
+
+  it("rejects webhook calls without the secret and keeps the sync log to admins", async () => {
+    const webhook = await server.request("POST", "/api/pms/webhook", {
+      body: { events: [{ type: "check_out", roomNumber: "101" }] },
+    });
+    assert.equal(webhook.status, 401);
+
+    const denied = await server.request("GET", "/api/pms/sync-log", { token: await server.login("headHousekeeper") });
+    assert.equal(denied.status, 403);
+  });
+});
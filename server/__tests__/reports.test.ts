@@ -0,0 +1,248 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms } from "./fixtures";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe("overview report", () => {
+  let server: TestServer;
+
+  // Stores a finished task that started and ended the given time ago
+  const finishedTask = (title: string, fields: {
+    type?: "cleaning" | "maintenance";
+    roomId: string;
+    assigneeId: string;
+    finishedAgo: number;
+    activeMinutes: number;
+    pausedMinutes?: number;
+  }) => {
+    const finishedAt = new Date(Date.now() - fields.finishedAgo);
+    const pausedSeconds = (fields.pausedMinutes || 0) * 60;
+    const startedAt = new Date(finishedAt.getTime() - fields.activeMinutes * MINUTE - pausedSeconds * 1000);
+    return server.storage.createTask({
+      title,
+      type: fields.type || "cleaning",
+      status: "completed",
+      roomId: fields.roomId,
+      assigneeId: fields.assigneeId,
+      createdById: fixtureUsers.headHousekeeper.id,
+      startedAt,
+      finishedAt,
+      pausedSeconds,
+    });
+  };
+
+  const overview = async (query: string) =>
+    server.request("GET", `/api/reports/overview?${query}`, { token: await server.login("headHousekeeper") });
+
+  before(async () => {
+    server = await startTestServer();
+
+    await finishedTask("King, quick", { roomId: fixtureRooms.dirty.id, assigneeId: fixtureUsers.attendant.id, finishedAgo: DAY, activeMinutes: 20, pausedMinutes: 15 });
+    await finishedTask("King, slow", { roomId: fixtureRooms.roll.id, assigneeId: fixtureUsers.attendant.id, finishedAgo: 2 * DAY, activeMinutes: 40 });
+    await finishedTask("Suite", { roomId: fixtureRooms.inspected.id, assigneeId: fixtureUsers.headHousekeeper.id, finishedAgo: 3 * DAY, activeMinutes: 60 });
+    await finishedTask("Last week", { roomId: fixtureRooms.dirty.id, assigneeId: fixtureUsers.attendant.id, finishedAgo: 10 * DAY, activeMinutes: 30 });
+    await finishedTask("Fix leak", { type: "maintenance", roomId: fixtureRooms.maintenance.id, assigneeId: fixtureUsers.headHousekeeper.id, finishedAgo: DAY, activeMinutes: 90 });
+
+    // Archived by the daily reset, still part of the history
+    const archived = await finishedTask("Archived", { roomId: fixtureRooms.ready.id, assigneeId: fixtureUsers.attendant.id, finishedAgo: 4 * DAY, activeMinutes: 40 });
+    await server.storage.updateTask(archived.id, { isDeleted: true, archivedAt: new Date() });
+
+    // Deleted by a supervisor, left out of the reports
+    const deleted = await finishedTask("Logged by mistake", { roomId: fixtureRooms.ready.id, assigneeId: fixtureUsers.attendant.id, finishedAgo: DAY, activeMinutes: 200 });
+    await server.storage.softDeleteTask(deleted.id);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("averages working time of completed cleaning tasks, excluding pauses", async () => {
+    const response = await overview("days=7");
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.timedTasks, 4);
+    assert.equal(response.body.avgCleaningTime, 40);
+  });
+
+  it("breaks the average down by room type and attendant", async () => {
+    const response = await overview("days=7");
+
+    assert.deepEqual(response.body.cleaningTimeByRoomType, [
+      { roomType: "Deluxe Suite", taskCount: 1, avgMinutes: 60 },
+      { roomType: "Standard King", taskCount: 2, avgMinutes: 30 },
+      { roomType: "Standard Queen", taskCount: 1, avgMinutes: 40 },
+    ]);
+    assert.deepEqual(response.body.cleaningTimeByAttendant, [
+      { userId: fixtureUsers.headHousekeeper.id, name: fixtureUsers.headHousekeeper.name, taskCount: 1, avgMinutes: 60 },
+      { userId: fixtureUsers.attendant.id, name: fixtureUsers.attendant.name, taskCount: 3, avgMinutes: 33 },
+    ]);
+  });
+
+  it("compares against the previous period of the same length", async () => {
+    const response = await overview("days=7");
+
+    assert.equal(response.body.previousAvgCleaningTime, 30);
+    assert.equal(response.body.avgCleaningTimeChange, 33);
+
+    const today = await overview("days=1");
+    assert.equal(today.body.timedTasks, 0);
+    assert.equal(today.body.avgCleaningTimeChange, null);
+  });
+
+  it("filters by department", async () => {
+    const maintenance = await overview("days=7&department=maintenance");
+    assert.equal(maintenance.status, 200);
+    assert.equal(maintenance.body.timedTasks, 1);
+    assert.equal(maintenance.body.avgCleaningTime, 90);
+    assert.equal(maintenance.body.previousAvgCleaningTime, null);
+
+    const housekeeping = await overview("days=7&department=housekeeping");
+    assert.equal(housekeeping.body.avgCleaningTime, 40);
+    assert.equal(housekeeping.body.tasksCompleted + maintenance.body.tasksCompleted, (await overview("days=7")).body.tasksCompleted);
+
+    const unknown = await overview("days=7&department=spa");
+    assert.equal(unknown.status, 400);
+  });
+
+  it("rejects a period that is not a number of days", async () => {
+    const response = await overview("days=abc");
+    assert.equal(response.status, 400);
+
+    const token = await server.login("headHousekeeper");
+    const slaCompliance = await server.request("GET", "/api/reports/sla-compliance?days=abc", { token });
+    assert.equal(slaCompliance.status, 400);
+    assert.equal((await server.request("GET", "/api/reports/sla-compliance?days=30", { token })).status, 200);
+  });
+
+  it("reports attendant productivity and daily trends from working time", async () => {
+    const token = await server.login("headHousekeeper");
+
+    const productivity = await server.request("GET", "/api/reports/productivity?days=7", { token });
+    assert.equal(productivity.status, 200);
+    assert.deepEqual(
+      productivity.body.find((row: any) => row.name === fixtureUsers.attendant.name),
+      { name: fixtureUsers.attendant.name, roomsCleaned: 3, avgTime: 33 }
+    );
+
+    const trends = await server.request("GET", "/api/reports/task-trends?days=7", { token });
+    assert.equal(trends.status, 200);
+    // Cleaning turnaround only; the maintenance task finished the same day is left out
+    const yesterday = new Date(Date.now() - DAY).toISOString().split("T")[0];
+    assert.equal(trends.body.find((row: any) => row.date === yesterday).avgTime, 20);
+    const twoDaysAgo = new Date(Date.now() - 2 * DAY).toISOString().split("T")[0];
+    assert.equal(trends.body.find((row: any) => row.date === twoDaysAgo).avgTime, 40);
+
+    const invalid = await server.request("GET", "/api/reports/task-trends?days=0", { token });
+    assert.equal(invalid.status, 400);
+  });
+});
+
+describe("inspection analytics", () => {
+  let server: TestServer;
+
+  const checklist = (results: { bed: boolean; dust?: boolean }) => [
+    { id: "bed", section: "Bedroom", title: "Bed made", completed: true, passed: results.bed },
+    { id: "dust", section: "Bedroom", title: "Surfaces dusted", completed: results.dust !== undefined, passed: results.dust },
+  ];
+
+  const signedInspection = async (roomId: string, results: { bed: boolean; dust?: boolean }, score: number) =>
+    server.storage.createInspection({
+      kind: "room",
+      roomId,
+      inspectorId: fixtureUsers.headHousekeeper.id,
+      checklist: checklist(results),
+      score,
+      passFail: score >= 80,
+      signedAt: new Date(),
+    });
+
+  const analytics = async (query: string, role: "headHousekeeper" | "attendant" = "headHousekeeper") =>
+    server.request("GET", `/api/reports/inspection-analytics?${query}`, { token: await server.login(role) });
+
+  before(async () => {
+    server = await startTestServer();
+
+    // Room 101 was last cleaned by the attendant, room 103 by the head housekeeper;
+    // room 102's fixture cleaning task is the attendant's
+    for (const [roomId, assigneeId] of [[fixtureRooms.dirty.id, fixtureUsers.attendant.id], [fixtureRooms.inspected.id, fixtureUsers.headHousekeeper.id]]) {
+      await server.storage.createTask({
+        title: "Clean",
+        type: "cleaning",
+        status: "completed",
+        roomId,
+        assigneeId,
+        createdById: fixtureUsers.headHousekeeper.id,
+        finishedAt: new Date(Date.now() - 60 * MINUTE),
+      });
+    }
+
+    await signedInspection(fixtureRooms.dirty.id, { bed: false, dust: true }, 50);
+    await signedInspection(fixtureRooms.inspected.id, { bed: true, dust: true }, 100);
+    await signedInspection(fixtureRooms.ready.id, { bed: false }, 0);
+    await server.storage.createInspection({
+      kind: "room",
+      roomId: fixtureRooms.roll.id,
+      inspectorId: fixtureUsers.headHousekeeper.id,
+      checklist: checklist({ bed: true }),
+    });
+
+    const lastMonth = await signedInspection(fixtureRooms.dirty.id, { bed: false, dust: false }, 0);
+    await server.storage.updateInspection(lastMonth.id, { createdAt: new Date(Date.now() - 30 * DAY) });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("summarizes signed inspections in the period", async () => {
+    const response = await analytics("days=7");
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.inspections, 3);
+    assert.equal(response.body.passed, 1);
+    assert.equal(response.body.failed, 2);
+    assert.equal(response.body.pending, 1);
+    assert.equal(response.body.passRate, 33);
+    assert.equal(response.body.avgScore, 50);
+  });
+
+  it("ranks checklist items by how often they fail, counting only checked items", async () => {
+    const response = await analytics("days=7");
+
+    assert.deepEqual(
+      response.body.items.map((item: any) => [item.title, item.checked, item.failed, item.failureRate]),
+      [["Bed made", 3, 2, 67], ["Surfaces dusted", 2, 0, 0]]
+    );
+
+    const month = await analytics("days=60");
+    assert.deepEqual(month.body.items.map((item: any) => [item.title, item.checked, item.failed]), [["Bed made", 4, 3], ["Surfaces dusted", 3, 1]]);
+  });
+
+  it("credits room inspections to the attendant who last cleaned the room", async () => {
+    const response = await analytics("days=7");
+
+    assert.deepEqual(
+      response.body.byAttendant.map((row: any) => [row.name, row.inspections, row.passed, row.avgScore]),
+      [[fixtureUsers.headHousekeeper.name, 1, 1, 100], [fixtureUsers.attendant.name, 2, 0, 25]]
+    );
+  });
+
+  it("breaks scores down by floor and room type with a daily trend", async () => {
+    const response = await analytics("days=7");
+
+    assert.deepEqual(response.body.byFloor.map((row: any) => [row.floor, row.inspections, row.avgScore]), [[1, 3, 50]]);
+    assert.deepEqual(response.body.byFloor[0].trend.map((point: any) => [point.inspections, point.avgScore]), [[3, 50]]);
+    assert.deepEqual(
+      response.body.byRoomType.map((row: any) => [row.roomType, row.avgScore, row.passRate]),
+      [["Deluxe Suite", 100, 100], ["Standard King", 50, 0], ["Standard Queen", 0, 0]]
+    );
+  });
+
+  it("validates the period and keeps analytics to managers", async () => {
+    assert.equal((await analytics("days=0")).status, 400);
+    assert.equal((await analytics("days=7", "attendant")).status, 403);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms, fixtureRoomTypes } from "./fixtures";
+
+describe("room type catalog", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("lists the catalog to any signed in user", async () => {
+    const response = await server.request("GET", "/api/room-types", { token: await server.login("attendant") });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.map((roomType: any) => roomType.name), ["Deluxe Suite", "Standard King", "Standard Queen"]);
+  });
+
+  it("lets only site admins add room types", async () => {
+    const body = { name: "Accessible King", standardMinutes: { stayover: 20, checkout: 40, deep_clean: 80 } };
+
+    const denied = await server.request("POST", "/api/room-types", { token: await server.login("headHousekeeper"), body });
+    assert.equal(denied.status, 403);
+
+    const response = await server.request("POST", "/api/room-types", { token: await server.login("admin"), body });
+    assert.equal(response.status, 201);
+    assert.equal(response.body.credits, 1);
+    assert.deepEqual(response.body.checklists, {});
+  });
+
+  it("rejects incomplete standard times and duplicate names", async () => {
+    const token = await server.login("admin");
+
+    const incomplete = await server.request("POST", "/api/room-types", {
+      token,
+      body: { name: "Penthouse", standardMinutes: { stayover: 45 } },
+    });
+    assert.equal(incomplete.status, 400);
+
+    const duplicate = await server.request("POST", "/api/room-types", {
+      token,
+      body: { name: fixtureRoomTypes.king.name, standardMinutes: { stayover: 1, checkout: 1, deep_clean: 1 } },
+    });
+    assert.equal(duplicate.status, 409);
+  });
+
+  it("names rooms after their linked room type", async () => {
+    const token = await server.login("admin");
+    const response = await server.request("POST", "/api/rooms", {
+      token,
+      body: { number: "201", type: "whatever", roomTypeId: fixtureRoomTypes.suite.id },
+    });
+
+    assert.equal(response.status, 201);
+    assert.equal(response.body.type, fixtureRoomTypes.suite.name);
+
+    const unknown = await server.request("POST", "/api/rooms", { token, body: { number: "202", roomTypeId: "type-missing" } });
+    assert.equal(unknown.status, 400);
+  });
+
+  it("carries a rename through to linked rooms", async () => {
+    const response = await server.request("PATCH", `/api/room-types/${fixtureRoomTypes.king.id}`, {
+      token: await server.login("admin"),
+      body: { name: "KING" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal((await server.storage.getRoom(fixtureRooms.dirty.id))?.type, "KING");
+    assert.equal((await server.storage.getRoom(fixtureRooms.roll.id))?.type, "KING");
+    assert.equal((await server.storage.getRoom(fixtureRooms.ready.id))?.type, fixtureRoomTypes.queen.name);
+  });
+
+  it("refuses to delete a room type that rooms still use", async () => {
+    const token = await server.login("admin");
+
+    const inUse = await server.request("DELETE", `/api/room-types/${fixtureRoomTypes.queen.id}`, { token });
+    assert.equal(inUse.status, 409);
+    assert.equal(inUse.body.error, "Room type is used by 2 room(s): 102, 105");
+
+    const created = await server.request("POST", "/api/room-types", {
+      token,
+      body: { name: "Studio", standardMinutes: { stayover: 10, checkout: 25, deep_clean: 50 } },
+    });
+    const deleted = await server.request("DELETE", `/api/room-types/${created.body.id}`, { token });
+    assert.equal(deleted.status, 200);
+  });
+
+  it("reports expected and actual minutes and credits with square footage", async () => {
+    const finishedAt = new Date();
+    await server.storage.createTask({
+      title: "Check out Room 103",
+      type: "cleaning",
+      cleanType: "checkout",
+      status: "completed",
+      roomId: fixtureRooms.inspected.id,
+      assigneeId: fixtureUsers.attendant.id,
+      createdById: fixtureUsers.headHousekeeper.id,
+      startedAt: new Date(finishedAt.getTime() - 60 * 60 * 1000),
+      finishedAt,
+      pausedSeconds: 10 * 60,
+    });
+
+    const response = await server.request("GET", `/api/reports/square-foot?userId=${fixtureUsers.attendant.id}`, {
+      token: await server.login("headHousekeeper"),
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, [{
+      userId: fixtureUsers.attendant.id,
+      totalSquareFeet: fixtureRooms.ready.squareFootage + fixtureRooms.inspected.squareFootage,
+      // Stayover in a queen plus checkout in a suite; the fixture task has no start time
+      expectedMinutes: 15 + 60,
+      actualMinutes: 50,
+      credits: 3,
+      taskCount: 2,
+    }]);
+  });
+});
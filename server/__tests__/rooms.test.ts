@@ -0,0 +1,120 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms } from "./fixtures";
+
+describe("room status changes", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.clearSent();
+  });
+
+  it("lists the transitions the user's role may make", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("GET", `/api/rooms/${fixtureRooms.dirty.id}/transitions`, { token });
+
+    assert.equal(response.status, 200);
+    const statuses = response.body.map((transition: any) => transition.status);
+    assert.ok(statuses.includes("ready"));
+    assert.ok(!statuses.includes("clean_inspected"));
+  });
+
+  it("changes the status, records history and notifies managers", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.dirty.id}/status`, {
+      token,
+      body: { status: "ready", notes: "Cleaned early" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "ready");
+
+    const history = await server.request("GET", `/api/rooms/${fixtureRooms.dirty.id}/history`, { token });
+    assert.equal(history.body.length, 1);
+    assert.equal(history.body[0].source, "manual");
+    assert.equal(history.body[0].notes, "Cleaned early");
+    assert.equal(history.body[0].userId, fixtureUsers.attendant.id);
+
+    assert.deepEqual(
+      server.emails.map(email => email.to).sort(),
+      [fixtureUsers.admin.email, fixtureUsers.headHousekeeper.email, fixtureUsers.frontDesk.email].sort()
+    );
+    assert.deepEqual(server.messages.map(sent => sent.message.type), ["room_status_changed"]);
+  });
+
+  it("rejects a transition the role is not allowed to make", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.ready.id}/status`, {
+      token,
+      body: { status: "clean_inspected" },
+    });
+
+    assert.equal(response.status, 409);
+    const room = await server.storage.getRoom(fixtureRooms.ready.id);
+    assert.equal(room?.status, "ready");
+    assert.equal(server.emails.length, 0);
+  });
+
+  it("allows the same transition for an inspector", async () => {
+    const token = await server.login("headHousekeeper");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.ready.id}/status`, {
+      token,
+      body: { status: "clean_inspected" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "clean_inspected");
+  });
+
+  it("requires a work order to take a room out of order", async () => {
+    const token = await server.login("frontDesk");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.inspected.id}/status`, {
+      token,
+      body: { status: "out_of_order" },
+    });
+
+    assert.equal(response.status, 409);
+    assert.match(response.body.error, /work order/);
+  });
+
+  it("does not record history or notify when the status is unchanged", async () => {
+    const token = await server.login("admin");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.roll.id}/status`, {
+      token,
+      body: { status: "roll" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await server.storage.listRoomStatusEvents(fixtureRooms.roll.id), []);
+    assert.equal(server.emails.length, 0);
+  });
+
+  it("rejects an unknown status", async () => {
+    const token = await server.login("admin");
+    const response = await server.request("PATCH", `/api/rooms/${fixtureRooms.dirty.id}/status`, {
+      token,
+      body: { status: "sparkling" },
+    });
+
+    assert.equal(response.status, 400);
+  });
+
+  it("returns 404 for an unknown room", async () => {
+    const token = await server.login("admin");
+    const response = await server.request("PATCH", "/api/rooms/room-missing/status", {
+      token,
+      body: { status: "ready" },
+    });
+
+    assert.equal(response.status, 404);
+  });
+});
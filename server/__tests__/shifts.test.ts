@@ -0,0 +1,185 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers } from "./fixtures";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const toShiftDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// A shift from an hour ago to an hour from now, whatever the time of day
+function shiftAroundNow(userId: string) {
+  const start = new Date(Date.now() - 60 * 60 * 1000);
+  const end = new Date(Date.now() + 60 * 60 * 1000);
+  return { userId, date: toShiftDate(start), startTime: toTime(start), endTime: toTime(end), department: "housekeeping" };
+}
+
+describe("shifts and on-duty roster", () => {
+  let server: TestServer;
+  let token: string;
+  let attendantShiftId: string;
+  let housekeeperShiftId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = await server.login("headHousekeeper");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("schedules shifts and rejects overlapping ones", async () => {
+    const response = await server.request("POST", "/api/shifts", { token, body: shiftAroundNow(fixtureUsers.attendant.id) });
+    assert.equal(response.status, 201);
+    assert.equal(response.body.createdById, fixtureUsers.headHousekeeper.id);
+    assert.equal(response.body.clockedInAt, null);
+    attendantShiftId = response.body.id;
+
+    const overlap = await server.request("POST", "/api/shifts", { token, body: shiftAroundNow(fixtureUsers.attendant.id) });
+    assert.equal(overlap.status, 409);
+
+    const housekeeper = await server.request("POST", "/api/shifts", { token, body: shiftAroundNow(fixtureUsers.headHousekeeper.id) });
+    assert.equal(housekeeper.status, 201);
+    housekeeperShiftId = housekeeper.body.id;
+  });
+
+  it("catches overnight shifts running into the next day", async () => {
+    const body = { userId: fixtureUsers.frontDesk.id, date: "2026-03-01", startTime: "22:00", endTime: "06:00", department: "front_desk" };
+    assert.equal((await server.request("POST", "/api/shifts", { token, body })).status, 201);
+
+    const nextMorning = await server.request("POST", "/api/shifts", {
+      token,
+      body: { ...body, date: "2026-03-02", startTime: "05:00", endTime: "13:00" },
+    });
+    assert.equal(nextMorning.status, 409);
+    assert.equal(nextMorning.body.error, "Overlaps the shift on 2026-03-01 from 22:00 to 06:00");
+  });
+
+  it("validates shifts and limits scheduling to supervisors", async () => {
+    const invalid = await server.request("POST", "/api/shifts", {
+      token,
+      body: { ...shiftAroundNow(fixtureUsers.frontDesk.id), startTime: "25:00" },
+    });
+    assert.equal(invalid.status, 400);
+
+    const denied = await server.request("POST", "/api/shifts", {
+      token: await server.login("attendant"),
+      body: shiftAroundNow(fixtureUsers.frontDesk.id),
+    });
+    assert.equal(denied.status, 403);
+  });
+
+  it("has no attendants on duty to auto-assign before anyone clocks in", async () => {
+    const response = await server.request("POST", "/api/board/auto-assign/preview", { token, body: {} });
+
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "No room attendants are on duty");
+  });
+
+  it("lets staff clock in and out of their own shifts only", async () => {
+    const attendantToken = await server.login("attendant");
+
+    const othersShift = await server.request("POST", `/api/shifts/${housekeeperShiftId}/clock-in`, { token: attendantToken });
+    assert.equal(othersShift.status, 403);
+
+    const notIn = await server.request("POST", `/api/shifts/${attendantShiftId}/clock-out`, { token: attendantToken });
+    assert.equal(notIn.status, 409);
+
+    const clockedIn = await server.request("POST", `/api/shifts/${attendantShiftId}/clock-in`, { token: attendantToken });
+    assert.equal(clockedIn.status, 200);
+    assert.ok(clockedIn.body.clockedInAt);
+    assert.ok(server.messages.some(sent => sent.message.type === "shift_clocked_in"));
+
+    const twice = await server.request("POST", `/api/shifts/${attendantShiftId}/clock-in`, { token: attendantToken });
+    assert.equal(twice.status, 409);
+
+    const onDuty = await server.request("GET", "/api/shifts/on-duty", { token });
+    assert.deepEqual(onDuty.body.map((staff: any) => staff.userId), [fixtureUsers.attendant.id]);
+  });
+
+  it("does not open clock in long before the shift starts", async () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const shift = await server.request("POST", "/api/shifts", {
+      token,
+      body: { userId: fixtureUsers.attendant.id, date: toShiftDate(tomorrow), startTime: "12:00", endTime: "20:00", department: "housekeeping" },
+    });
+
+    const early = await server.request("POST", `/api/shifts/${shift.body.id}/clock-in`, { token: await server.login("attendant") });
+    assert.equal(early.status, 409);
+    assert.equal(early.body.error, "Clock in opens 60 minutes before the shift starts");
+  });
+
+  it("auto-assigns the board to the room attendants on duty", async () => {
+    const response = await server.request("POST", "/api/board/auto-assign/preview", { token, body: {} });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.assignments.map((assignment: any) => assignment.userId), [fixtureUsers.attendant.id]);
+  });
+
+  it("sends panic alerts to eligible staff on duty, or to all of them when none are", async () => {
+    const attendantToken = await server.login("attendant");
+
+    const nobodyOnSite = await server.request("POST", "/api/panic/trigger", { token: attendantToken, body: { location: "Room 101" } });
+    assert.equal(nobodyOnSite.status, 201);
+    assert.deepEqual(
+      nobodyOnSite.body.recipients.map((recipient: any) => recipient.id).sort(),
+      [fixtureUsers.admin.id, fixtureUsers.frontDesk.id, fixtureUsers.headHousekeeper.id].sort(),
+    );
+
+    await server.request("POST", `/api/shifts/${housekeeperShiftId}/clock-in`, { token });
+    server.clearSent();
+    const onSite = await server.request("POST", "/api/panic/trigger", { token: attendantToken, body: { location: "Room 101" } });
+    assert.deepEqual(onSite.body.recipients.map((recipient: any) => recipient.id), [fixtureUsers.headHousekeeper.id]);
+    assert.deepEqual(
+      server.messages.filter(({ message }) => message.type === "panic_alert").map(({ userId }) => userId),
+      [fixtureUsers.headHousekeeper.id]
+    );
+  });
+
+  it("keeps worked shifts and drops people from the roster when they clock out", async () => {
+    const deleted = await server.request("DELETE", `/api/shifts/${attendantShiftId}`, { token });
+    assert.equal(deleted.status, 409);
+
+    const clockedOut = await server.request("POST", `/api/shifts/${attendantShiftId}/clock-out`, { token: await server.login("attendant") });
+    assert.equal(clockedOut.status, 200);
+
+    const onDuty = await server.request("GET", "/api/shifts/on-duty", { token });
+    assert.deepEqual(onDuty.body.map((staff: any) => staff.userId), [fixtureUsers.headHousekeeper.id]);
+  });
+
+  it("places shift windows in the property's timezone", async () => {
+    const adminToken = await server.login("admin");
+    const config = (await server.request("GET", "/api/daily-reset/config", { token: adminToken })).body;
+    // Fourteen hours ahead of UTC, so its wall clock never matches the server's
+    const timeZone = "Pacific/Kiritimati";
+    assert.equal((await server.request("PUT", "/api/daily-reset/config", { token: adminToken, body: { ...config, timezone: timeZone } })).status, 200);
+
+    try {
+      const wallClock = (date: Date) => {
+        const [day, time] = new Intl.DateTimeFormat("sv-SE", {
+          timeZone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+        }).format(date).split(" ");
+        return { day, time };
+      };
+      const start = wallClock(new Date(Date.now() - 60 * 60 * 1000));
+      const end = wallClock(new Date(Date.now() + 60 * 60 * 1000));
+      const propertyShift = await server.request("POST", "/api/shifts", {
+        token,
+        body: { userId: fixtureUsers.frontDesk.id, date: start.day, startTime: start.time, endTime: end.time, department: "front_desk" },
+      });
+      assert.equal(propertyShift.status, 201);
+
+      const frontDeskToken = await server.login("frontDesk");
+      const clockIn = await server.request("POST", `/api/shifts/${propertyShift.body.id}/clock-in`, { token: frontDeskToken });
+      assert.equal(clockIn.status, 200);
+
+      // The same shift in the server's own time is hours away
+      const serverShift = await server.request("POST", "/api/shifts", { token, body: shiftAroundNow(fixtureUsers.admin.id) });
+      const early = await server.request("POST", `/api/shifts/${serverShift.body.id}/clock-in`, { token: adminToken });
+      assert.equal(early.status, 409);
+    } finally {
+      await server.request("PUT", "/api/daily-reset/config", { token: adminToken, body: config });
+    }
+  });
+});
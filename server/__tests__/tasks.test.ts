@@ -0,0 +1,220 @@
+import { describe, it, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, fixtureRooms, fixtureTasks } from "./fixtures";
+
+describe("task lifecycle", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.clearSent();
+  });
+
+  it("creates a task and notifies the assignee", async () => {
+    const token = await server.login("headHousekeeper");
+    const response = await server.request("POST", "/api/tasks", {
+      token,
+      body: {
+        title: "Turn down Room 103",
+        type: "cleaning",
+        roomId: fixtureRooms.inspected.id,
+        assigneeId: fixtureUsers.attendant.id,
+      },
+    });
+
+    assert.equal(response.status, 201);
+    assert.equal(response.body.status, "pending");
+    assert.equal(response.body.createdById, fixtureUsers.headHousekeeper.id);
+
+    assert.deepEqual(server.emails.map(email => [email.to, email.template]), [
+      [fixtureUsers.attendant.email, "taskAssigned"],
+    ]);
+    const direct = server.messages.find(sent => sent.userId === fixtureUsers.attendant.id);
+    assert.equal(direct?.message.type, "task_assigned");
+  });
+
+  it("rejects a task without a title", async () => {
+    const token = await server.login("headHousekeeper");
+    const response = await server.request("POST", "/api/tasks", { token, body: { type: "cleaning" } });
+
+    assert.equal(response.status, 400);
+    assert.equal(server.emails.length, 0);
+  });
+
+  it("does not accept status or timing changes through PATCH", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("PATCH", `/api/tasks/${fixtureTasks.cleaning.id}`, {
+      token,
+      body: { status: "completed", finishedAt: new Date().toISOString() },
+    });
+
+    assert.equal(response.status, 400);
+    const task = await server.storage.getTask(fixtureTasks.cleaning.id);
+    assert.equal(task?.status, "pending");
+    assert.equal(task?.finishedAt, null);
+  });
+
+  it("starts a task with the server's clock and without notifying anyone", async () => {
+    const token = await server.login("attendant");
+    const before = Date.now();
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/start`, { token });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "in_progress");
+    assert.ok(new Date(response.body.startedAt).getTime() >= before);
+    assert.equal(server.emails.length, 0);
+    assert.equal(server.messages.length, 0);
+  });
+
+  it("keeps actions to the assignee and supervisors", async () => {
+    const token = await server.login("frontDesk");
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/pause`, { token });
+
+    assert.equal(response.status, 403);
+    assert.equal((await server.storage.getTask(fixtureTasks.cleaning.id))?.status, "in_progress");
+  });
+
+  it("rejects actions that are not legal from the current status", async () => {
+    const token = await server.login("headHousekeeper");
+
+    const resume = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/resume`, { token });
+    assert.equal(resume.status, 409);
+    assert.equal(resume.body.error, "Cannot resume a task that is in progress");
+
+    const verify = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/verify`, { token });
+    assert.equal(verify.status, 409);
+  });
+
+  it("adds up time spent paused", async () => {
+    const token = await server.login("attendant");
+    mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    try {
+      await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/pause`, { token });
+      mock.timers.tick(5 * 60 * 1000);
+      await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/resume`, { token });
+      mock.timers.tick(10 * 60 * 1000);
+      await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/pause`, { token });
+      mock.timers.tick(2 * 60 * 1000);
+    } finally {
+      mock.timers.reset();
+    }
+
+    const task = await server.storage.getTask(fixtureTasks.cleaning.id);
+    assert.equal(task?.status, "paused");
+    assert.equal(task?.pausedSeconds, 5 * 60);
+    assert.ok(task?.pausedAt);
+  });
+
+  it("completing a cleaning task readies the dirty room and notifies supervisors", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/complete`, { token });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "completed");
+    assert.ok(response.body.finishedAt);
+    assert.equal(response.body.pausedAt, null);
+    assert.ok(response.body.pausedSeconds >= 5 * 60);
+
+    const room = await server.storage.getRoom(fixtureRooms.dirty.id);
+    assert.equal(room?.status, "ready");
+
+    const [event] = await server.storage.listRoomStatusEvents(fixtureRooms.dirty.id);
+    assert.equal(event.fromStatus, "dirty");
+    assert.equal(event.toStatus, "ready");
+    assert.equal(event.source, "task_completion");
+    assert.equal(event.userId, fixtureUsers.attendant.id);
+
+    assert.deepEqual(
+      server.emails.filter(email => email.template === "taskCompleted").map(email => email.to).sort(),
+      [fixtureUsers.admin.email, fixtureUsers.headHousekeeper.email].sort()
+    );
+    assert.deepEqual(server.messages.map(sent => sent.message.type).sort(), ["room_status_changed", "task_completed"]);
+  });
+
+  it("cannot complete a task twice", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/complete`, { token });
+
+    assert.equal(response.status, 409);
+    assert.equal(server.emails.length, 0);
+    assert.equal(server.messages.length, 0);
+  });
+
+  it("lets supervisors verify a completed task once", async () => {
+    const attendant = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/verify`, {
+      token: await server.login("attendant"),
+    });
+    assert.equal(attendant.status, 403);
+
+    const token = await server.login("headHousekeeper");
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/verify`, { token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "completed");
+    assert.equal(response.body.verifiedById, fixtureUsers.headHousekeeper.id);
+
+    const again = await server.request("POST", `/api/tasks/${fixtureTasks.cleaning.id}/verify`, { token });
+    assert.equal(again.status, 409);
+  });
+
+  it("fails a task with a reason", async () => {
+    const token = await server.login("headHousekeeper");
+    const created = await server.request("POST", "/api/tasks", {
+      token,
+      body: { title: "Deep clean carpet", type: "cleaning", roomId: fixtureRooms.roll.id },
+    });
+
+    const response = await server.request("POST", `/api/tasks/${created.body.id}/fail`, {
+      token,
+      body: { notes: "Guest declined service" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "failed");
+    assert.equal(response.body.notes, "Guest declined service");
+    assert.ok(response.body.finishedAt);
+  });
+
+  it("reassigns a task and notifies the new assignee", async () => {
+    const token = await server.login("frontDesk");
+    const response = await server.request("POST", `/api/tasks/${fixtureTasks.completed.id}/reassign`, {
+      token,
+      body: { assigneeId: fixtureUsers.headHousekeeper.id },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.assigneeId, fixtureUsers.headHousekeeper.id);
+    assert.deepEqual(server.emails.map(email => email.to), [fixtureUsers.headHousekeeper.email]);
+  });
+
+  it("soft deletes and restores a task", async () => {
+    const token = await server.login("headHousekeeper");
+
+    const deleted = await server.request("DELETE", `/api/tasks/${fixtureTasks.completed.id}`, { token });
+    assert.equal(deleted.status, 200);
+
+    const visible = await server.request("GET", "/api/tasks", { token });
+    assert.ok(!visible.body.some((task: any) => task.id === fixtureTasks.completed.id));
+
+    const all = await server.request("GET", "/api/tasks?includeDeleted=true", { token });
+    assert.ok(all.body.some((task: any) => task.id === fixtureTasks.completed.id));
+
+    const restored = await server.request("POST", `/api/tasks/${fixtureTasks.completed.id}/restore`, { token });
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.isDeleted, false);
+  });
+
+  it("returns 404 for an unknown task", async () => {
+    const token = await server.login("attendant");
+    const response = await server.request("POST", "/api/tasks/task-missing/start", { token });
+
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { WebSocket } from "ws";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureUsers, TEST_JWT_SECRET, type FixtureUser } from "./fixtures";
+import type { WebSocketService } from "../websocketService";
+
+interface TestClient {
+  socket: WebSocket;
+  received: any[];
+  closed: Promise<{ code: number; reason: string }>;
+  nextMessage(): Promise<any>;
+}
+
+describe("WebSocket authentication", () => {
+  let server: TestServer;
+  let websocketService: WebSocketService;
+  const clients: TestClient[] = [];
+
+  const connect = async (): Promise<TestClient> => {
+    const socket = new WebSocket(`${server.baseUrl.replace("http", "ws")}/ws`);
+    const received: any[] = [];
+    const waiting: Array<(message: any) => void> = [];
+
+    socket.on("message", data => {
+      const message = JSON.parse(data.toString());
+      received.push(message);
+      waiting.shift()?.(message);
+    });
+    const closed = new Promise<{ code: number; reason: string }>(resolve => {
+      socket.on("close", (code, reason) => resolve({ code, reason: reason.toString() }));
+    });
+    await new Promise(resolve => socket.once("open", resolve));
+
+    const client = {
+      socket,
+      received,
+      closed,
+      nextMessage: () => new Promise<any>(resolve => waiting.push(resolve)),
+    };
+    clients.push(client);
+    return client;
+  };
+
+  const connectAs = async (user: FixtureUser) => {
+    const client = await connect();
+    const confirmation = client.nextMessage();
+    client.socket.send(JSON.stringify({ type: "auth", token: await server.login(user) }));
+    assert.equal((await confirmation).data.status, "connected");
+    return client;
+  };
+
+  // Lets in-flight frames arrive before asserting that nothing was delivered
+  const roundTrip = async (client: TestClient) => {
+    await new Promise(resolve => client.socket.ping(undefined, undefined, () => resolve(undefined)));
+    await new Promise(resolve => client.socket.once("pong", resolve));
+  };
+
+  before(async () => {
+    server = await startTestServer({ websocket: true });
+    ({ websocketService } = await import("../websocketService"));
+  });
+
+  after(async () => {
+    for (const client of clients) client.socket.terminate();
+    await server.close();
+  });
+
+  it("verifies the token and binds the socket to its user", async () => {
+    await connectAs("headHousekeeper");
+    assert.equal(websocketService.getStats().authenticatedConnections, 1);
+  });
+
+  it("closes the socket when the token is invalid", async () => {
+    const client = await connect();
+    client.socket.send(JSON.stringify({ type: "auth", token: "not.a.token" }));
+
+    assert.equal((await client.closed).code, 4003);
+  });
+
+  it("ignores self-declared identities", async () => {
+    const client = await connect();
+    client.socket.send(JSON.stringify({ type: "auth", userId: fixtureUsers.admin.id, role: "site_admin" }));
+
+    assert.equal((await client.closed).code, 4003);
+  });
+
+  it("closes the socket when the token expires", async () => {
+    const client = await connect();
+    const { id, email, role, name } = fixtureUsers.attendant;
+    const token = jwt.sign({ userId: id, email, role, name }, TEST_JWT_SECRET, { expiresIn: 1 });
+    client.socket.send(JSON.stringify({ type: "auth", token }));
+
+    assert.deepEqual(await client.closed, { code: 4004, reason: "Token expired" });
+  });
+
+  it("delivers role and user messages only to verified recipients", async () => {
+    const admin = await connectAs("admin");
+    const attendant = await connectAs("attendant");
+    const anonymous = await connect();
+    for (const client of [admin, attendant, anonymous]) client.received.length = 0;
+
+    websocketService.broadcastToRoles({ type: "panic_alert", data: {}, timestamp: new Date().toISOString() }, ["site_admin"]);
+    websocketService.sendToUser(fixtureUsers.attendant.id, { type: "task_assigned", data: {}, timestamp: new Date().toISOString() });
+    websocketService.broadcast({ type: "room_status_changed", data: {}, timestamp: new Date().toISOString() });
+
+    await Promise.all([admin, attendant, anonymous].map(roundTrip));
+    assert.deepEqual(admin.received.map(message => message.type), ["panic_alert", "room_status_changed"]);
+    assert.deepEqual(attendant.received.map(message => message.type), ["task_assigned", "room_status_changed"]);
+    assert.deepEqual(anonymous.received, []);
+  });
+});
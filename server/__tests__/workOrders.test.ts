@@ -0,0 +1,70 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./harness";
+import { fixtureRooms, fixtureUsers } from "./fixtures";
+
+describe("Work order lifecycle", () => {
+  let server: TestServer;
+  let managerToken: string;
+  let attendantToken: string;
+
+  const createWorkOrder = async () => {
+    const response = await server.request("POST", "/api/workorders", {
+      token: managerToken,
+      body: { title: "Leaking faucet", description: "Bathroom sink", priority: "high", roomId: fixtureRooms.dirty.id },
+    });
+    assert.equal(response.status, 201);
+    return response.body.id as string;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    managerToken = await server.login("headHousekeeper");
+    attendantToken = await server.login("attendant");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("keeps status changes to the roles that manage work orders", async () => {
+    const id = await createWorkOrder();
+
+    const denied = await server.request("PATCH", `/api/workorders/${id}`, { token: attendantToken, body: { status: "cancelled" } });
+    assert.equal(denied.status, 403);
+    assert.notEqual((await server.storage.getWorkOrder(id))?.status, "cancelled");
+
+    const started = await server.request("PATCH", `/api/workorders/${id}`, { token: managerToken, body: { status: "in_progress" } });
+    assert.equal(started.status, 200);
+    assert.equal(started.body.status, "in_progress");
+  });
+
+  it("assigns only through the assign endpoint, to an existing user", async () => {
+    const id = await createWorkOrder();
+
+    // Not part of an update, so the assignee is never set without a notice
+    await server.request("PATCH", `/api/workorders/${id}`, { token: managerToken, body: { assigneeId: fixtureUsers.attendant.id } });
+    assert.equal((await server.storage.getWorkOrder(id))?.assigneeId, null);
+
+    const unknown = await server.request("POST", `/api/workorders/${id}/assign`, { token: managerToken, body: { assigneeId: "user-missing" } });
+    assert.equal(unknown.status, 400);
+
+    server.clearSent();
+    const assigned = await server.request("POST", `/api/workorders/${id}/assign`, { token: managerToken, body: { assigneeId: fixtureUsers.attendant.id } });
+    assert.equal(assigned.status, 200);
+    assert.equal(assigned.body.assigneeId, fixtureUsers.attendant.id);
+    assert.ok(server.messages.some(({ message }) => message.type === "work_order_assigned"));
+
+    const unassigned = await server.request("POST", `/api/workorders/${id}/assign`, { token: managerToken, body: { assigneeId: null } });
+    assert.equal(unassigned.body.assigneeId, null);
+  });
+
+  it("rejects assigning a closed work order", async () => {
+    const id = await createWorkOrder();
+    await server.request("PATCH", `/api/workorders/${id}`, { token: managerToken, body: { status: "cancelled" } });
+
+    const response = await server.request("POST", `/api/workorders/${id}/assign`, { token: managerToken, body: { assigneeId: fixtureUsers.attendant.id } });
+    assert.equal(response.status, 409);
+    assert.equal((await server.storage.getWorkOrder(id))?.assigneeId, null);
+  });
+});
@@ -0,0 +1,167 @@
+import type { Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { slaService } from "./slaService";
+import { dailyResetService } from "./dailyReset";
+import { roomStatusService } from "./roomStatusService";
+import { pdfService } from "./pdfService";
+import type { AuthenticatedRequest } from "./middleware";
+import type { AuditChanges } from "@shared/schema";
+
+interface AuditedResource {
+  entityType: string;
+  // Fixed id for resources that are a single document, such as settings
+  entityId?: string;
+  // Fixed action name, for endpoints that run a job rather than edit a record
+  action?: string;
+  // Loads the stored state of the entity for the before/after snapshots
+  load?: (id: string) => Promise<unknown>;
+}
+
+// Keyed by the path under /api. For record endpoints the next path segment is
+// the entity id and anything after it names the action (e.g. tasks/:id/restore).
+const AUDITED_RESOURCES: Record<string, AuditedResource> = {
+  "auth/register": { entityType: "user", load: id => storage.getUser(id) },
+  "users": { entityType: "user", load: id => storage.getUser(id) },
+  "room-types": { entityType: "room_type", load: id => storage.getRoomType(id) },
+  "rooms": { entityType: "room", load: id => storage.getRoom(id) },
+  "tasks": { entityType: "task", load: id => storage.getTask(id) },
+  "inspection-templates": { entityType: "inspection_template", load: id => storage.getInspectionTemplate(id) },
+  "inspections": { entityType: "inspection", load: id => storage.getInspection(id) },
+  "workorders": { entityType: "work_order", load: id => storage.getWorkOrder(id) },
+  "pm/templates": { entityType: "pm_template", load: id => storage.getPMTemplate(id) },
+  "pm/instances": { entityType: "pm_instance", load: id => storage.getPMInstance(id) },
+  "pm/generate": { entityType: "pm_instance", action: "generate" },
+  "lost-found": { entityType: "lost_found_item", load: id => storage.getLostFoundItem(id) },
+  "room-comments": { entityType: "room_comment", load: id => storage.getRoomComment(id) },
+  "shifts": { entityType: "shift", load: id => storage.getShift(id) },
+  "reservations": { entityType: "reservation", load: id => storage.getReservation(id) },
+  "reservations/import": { entityType: "reservation", action: "import" },
+  "reservations/webhook": { entityType: "reservation", action: "webhook" },
+  "pms/webhook": { entityType: "pms_sync", action: "webhook" },
+  "pms/sync-log": { entityType: "pms_sync", load: id => storage.getPmsSyncLog(id) },
+  "pms/sync-log/retry-failed": { entityType: "pms_sync", action: "retry_failed" },
+  "room-assignments": {
+    entityType: "room_assignment",
+    load: async roomId => (await storage.listRoomAssignments(roomId))[0],
+  },
+  "board/auto-assign": { entityType: "room_assignment", action: "auto_assign" },
+  "panic/trigger": { entityType: "panic_event", action: "trigger" },
+  "daily-reset/manual": { entityType: "daily_reset", action: "run" },
+  "daily-reset/config": { entityType: "setting", entityId: "daily_reset_config", load: () => dailyResetService.getConfig() },
+  "sla/targets": { entityType: "setting", entityId: "sla_targets", load: () => slaService.getTargets() },
+  "sla/evaluate": { entityType: "work_order", action: "evaluate_sla" },
+  "room-status/rules": { entityType: "setting", entityId: "room_status_rules", load: () => roomStatusService.getRules() },
+  "branding": { entityType: "setting", entityId: "property_branding", load: () => pdfService.getBranding() },
+};
+
+// Mutating endpoints that do not change any stored record
+const IGNORED_PATHS = new Set(["auth/login", "objects/upload", "admin/test-email", "board/auto-assign/preview"]);
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+const REDACTED_FIELDS = new Set(["passwordHash", "password"]);
+const UNTRACKED_FIELDS = new Set(["updatedAt"]);
+
+function resolveResource(apiPath: string): { resource: AuditedResource; segments: string[] } | null {
+  const key = Object.keys(AUDITED_RESOURCES)
+    .filter(key => apiPath === key || apiPath.startsWith(`${key}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (key) {
+    const segments = apiPath.slice(key.length).split("/").filter(Boolean);
+    return { resource: AUDITED_RESOURCES[key], segments };
+  }
+
+  // Endpoints added without an entry are still recorded, just without snapshots
+  const [entityType, ...segments] = apiPath.split("/");
+  return entityType ? { resource: { entityType: entityType.replace(/-/g, "_") }, segments } : null;
+}
+
+function getAction(method: string, resource: AuditedResource, id?: string, subPath?: string): string {
+  if (resource.action) return resource.action;
+  if (method === "DELETE") return "delete";
+  if (subPath) return subPath.replace(/[-/]/g, "_");
+  return method === "POST" && !id ? "create" : "update";
+}
+
+function redact(field: string, value: unknown): unknown {
+  return REDACTED_FIELDS.has(field) && value != null ? "[redacted]" : value;
+}
+
+// Field-by-field diff of two snapshots; created records have no `from`, deleted ones no `to`
+export function computeChanges(before: unknown, after: unknown): AuditChanges {
+  const from = (before && typeof before === "object" ? before : {}) as Record<string, unknown>;
+  const to = (after && typeof after === "object" ? after : {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = Object.keys(from).concat(Object.keys(to).filter(field => !(field in from)));
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const oldValue = from[field] ?? null;
+    const newValue = to[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { from: redact(field, oldValue), to: redact(field, newValue) };
+    }
+  }
+
+  return changes;
+}
+
+// Records who changed what for every successful mutating /api request
+export function auditMutations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (!MUTATING_METHODS.has(req.method) || !req.path.startsWith("/api/")) {
+    return next();
+  }
+
+  const apiPath = req.path.slice("/api/".length).replace(/\/$/, "");
+  const resolved = IGNORED_PATHS.has(apiPath) ? null : resolveResource(apiPath);
+  if (!resolved) {
+    return next();
+  }
+
+  const { resource, segments } = resolved;
+  const [pathId, ...rest] = segments;
+  const action = getAction(req.method, resource, pathId, rest.join("/"));
+
+  let capturedJsonResponse: any;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  const record = async (before: unknown) => {
+    const entityId = resource.entityId ?? pathId ?? capturedJsonResponse?.id;
+
+    let after: unknown = null;
+    if (req.method !== "DELETE") {
+      after = resource.load && entityId ? await resource.load(entityId) : capturedJsonResponse;
+    }
+
+    await storage.createAuditLog({
+      actorId: req.user?.userId ?? null,
+      actorName: req.user?.name ?? null,
+      entityType: resource.entityType,
+      entityId: entityId ?? null,
+      action,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      changes: resource.load ? computeChanges(before, after) : null,
+    });
+  };
+
+  const beforeId = resource.entityId ?? pathId;
+  const loadBefore = resource.load && beforeId ? resource.load(beforeId) : Promise.resolve(null);
+
+  loadBefore
+    .catch(() => null)
+    .then(before => {
+      res.on("finish", () => {
+        if (res.statusCode >= 400) return;
+        record(before).catch(error => {
+          console.error(`[Audit] Failed to record ${req.method} ${req.path}:`, error);
+        });
+      });
+      next();
+    });
+}
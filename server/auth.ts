@@ -10,6 +10,7 @@ export interface JWTPayload {
   email: string;
   role: string;
   name: string;
+  exp?: number; // Expiry in seconds since the epoch, added when signing
 }
 
 export function generateToken(user: User): string {
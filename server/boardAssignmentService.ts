@@ -0,0 +1,189 @@
+import { storage } from "./storage";
+import { websocketService } from "./websocketService";
+import { shiftService } from "./shiftService";
+import { occupancyService } from "./occupancyService";
+import { toLocalDate } from "./localDate";
+import {
+  roomStatusCleanTypes,
+  type AutoAssignCommit, type BoardAssignment, type BoardPlan, type BoardRoom,
+  type CleanTypeMinutes, type RoomAssignment, type Task
+} from "@shared/schema";
+
+const OPEN_TASK_STATUSES = ["pending", "in_progress", "paused"];
+
+const byFloorAndNumber = (a: BoardRoom, b: BoardRoom) =>
+  (a.floor ?? 0) - (b.floor ?? 0) || a.number.localeCompare(b.number, undefined, { numeric: true });
+
+export class BoardAssignmentService {
+  // Rooms whose status calls for a clean, that have no open cleaning task and
+  // whose guest has not asked not to be disturbed, with the expected minutes
+  // and credits from their room type. Rooms outside the catalog weigh as much
+  // as the average catalogued room with the same clean type, so they still
+  // count toward an even split.
+  async getRoomsToClean(): Promise<BoardRoom[]> {
+    const roomTypes = new Map((await storage.listRoomTypes()).map(roomType => [roomType.id, roomType]));
+    const openTasks = (await storage.listTasks({ type: "cleaning" }))
+      .filter(task => OPEN_TASK_STATUSES.includes(task.status || "pending"));
+    const busyRoomIds = openTasks.map(task => task.roomId);
+    const { dailyResetService } = await import("./dailyReset");
+    const doNotDisturbRoomIds = (await occupancyService.getRoomOccupancy(toLocalDate(new Date(), await dailyResetService.getTimeZone())))
+      .filter(occupancy => occupancy.doNotDisturb)
+      .map(occupancy => occupancy.roomId);
+
+    const rooms: Array<BoardRoom & { typed: boolean }> = [];
+    for (const room of await storage.listRooms()) {
+      const cleanType = room.status ? roomStatusCleanTypes[room.status] : undefined;
+      if (!cleanType || busyRoomIds.includes(room.id) || doNotDisturbRoomIds.includes(room.id)) continue;
+
+      const roomType = room.roomTypeId ? roomTypes.get(room.roomTypeId) : undefined;
+      rooms.push({
+        roomId: room.id,
+        number: room.number,
+        floor: room.floor,
+        roomType: roomType?.name || room.type,
+        cleanType,
+        expectedMinutes: roomType ? (roomType.standardMinutes as CleanTypeMinutes)[cleanType] : 0,
+        credits: roomType?.credits ?? 1,
+        typed: !!roomType,
+      });
+    }
+
+    return rooms.map(({ typed, ...room }) => {
+      if (typed) return room;
+      const peers = rooms.filter(other => other.typed && other.cleanType === room.cleanType);
+      const expectedMinutes = peers.length > 0
+        ? Math.round(peers.reduce((sum, peer) => sum + peer.expectedMinutes, 0) / peers.length)
+        : 0;
+      return { ...room, expectedMinutes };
+    }).sort(byFloorAndNumber);
+  }
+
+  // Splits the rooms, in floor order, into consecutive runs of about equal
+  // weight, so each attendant gets an even share on as few floors as possible
+  async buildPlan(attendantIds: string[] | undefined, balanceBy: BoardPlan["balanceBy"]): Promise<BoardPlan> {
+    if (!attendantIds) {
+      attendantIds = (await shiftService.getOnDuty())
+        .filter(staff => staff.role === "room_attendant")
+        .map(staff => staff.userId);
+      if (attendantIds.length === 0) {
+        throw new Error("No room attendants are on duty");
+      }
+    }
+
+    const attendants = [];
+    for (const id of attendantIds) {
+      const attendant = await storage.getUser(id);
+      if (!attendant) {
+        throw new Error(`Attendant ${id} not found`);
+      }
+      attendants.push(attendant);
+    }
+
+    const rooms = await this.getRoomsToClean();
+    // Without standard times every room weighs the same
+    const useMinutes = balanceBy === "minutes" && rooms.some(room => room.expectedMinutes > 0);
+    const weightOf = (room: BoardRoom) => (useMinutes ? room.expectedMinutes : balanceBy === "credits" ? room.credits : 1);
+
+    const totalWeight = rooms.reduce((sum, room) => sum + weightOf(room), 0);
+    const share = totalWeight / attendants.length;
+
+    const assigned: BoardRoom[][] = attendants.map(() => []);
+    let cumulative = 0;
+    for (const room of rooms) {
+      const weight = weightOf(room);
+      const index = share > 0 ? Math.min(attendants.length - 1, Math.floor((cumulative + weight / 2) / share)) : 0;
+      assigned[index].push(room);
+      cumulative += weight;
+    }
+
+    return {
+      balanceBy,
+      assignments: attendants.map((attendant, index) => this.summarize(attendant.id, attendant.name, assigned[index])),
+    };
+  }
+
+  summarize(userId: string, name: string, rooms: BoardRoom[]): BoardAssignment {
+    const floors = rooms.map(room => room.floor).filter((floor): floor is number => floor !== null);
+    return {
+      userId,
+      name,
+      rooms,
+      totalMinutes: rooms.reduce((sum, room) => sum + room.expectedMinutes, 0),
+      totalCredits: rooms.reduce((sum, room) => sum + room.credits, 0),
+      floors: floors.filter((floor, index) => floors.indexOf(floor) === index).sort((a, b) => a - b),
+    };
+  }
+
+  // Returns why the board cannot be committed, or null when it can
+  async checkCommit(board: AutoAssignCommit): Promise<string | null> {
+    const roomIds = board.assignments.flatMap(assignment => assignment.rooms.map(room => room.roomId));
+    const duplicate = roomIds.find((roomId, index) => roomIds.indexOf(roomId) !== index);
+    if (duplicate) {
+      const room = await storage.getRoom(duplicate);
+      return `Room ${room?.number ?? duplicate} is assigned more than once`;
+    }
+
+    for (const assignment of board.assignments) {
+      if (!(await storage.getUser(assignment.userId))) {
+        return `Attendant ${assignment.userId} not found`;
+      }
+    }
+
+    const openTasks = (await storage.listTasks({ type: "cleaning" }))
+      .filter(task => OPEN_TASK_STATUSES.includes(task.status || "pending"));
+    for (const roomId of roomIds) {
+      const room = await storage.getRoom(roomId);
+      if (!room) {
+        return `Room ${roomId} not found`;
+      }
+      if (openTasks.some(task => task.roomId === roomId)) {
+        return `Room ${room.number} already has an open cleaning task`;
+      }
+    }
+
+    return null;
+  }
+
+  // Assigns each room to its attendant, replacing any earlier assignment, and
+  // creates the matching cleaning tasks. Attendants hear about their tasks over
+  // WebSocket only; an email per room would flood their inboxes.
+  async commit(board: AutoAssignCommit, assignedById: string): Promise<{ assignments: RoomAssignment[]; tasks: Task[] }> {
+    const assignments: RoomAssignment[] = [];
+    const tasks: Task[] = [];
+
+    for (const { userId, rooms } of board.assignments) {
+      const assignee = await storage.getUser(userId);
+
+      for (const { roomId, cleanType } of rooms) {
+        const room = await storage.getRoom(roomId);
+        if (!room) continue;
+
+        for (const existing of await storage.listRoomAssignments(roomId)) {
+          await storage.deleteRoomAssignment(roomId, existing.userId);
+        }
+        assignments.push(await storage.createRoomAssignment({ roomId, userId, assignedById }));
+
+        const task = await storage.createTask({
+          title: `Clean Room ${room.number}`,
+          type: "cleaning",
+          cleanType,
+          roomId,
+          assigneeId: userId,
+          createdById: assignedById,
+        });
+        tasks.push(task);
+        websocketService.broadcastTaskAssigned(task, assignee, room);
+      }
+    }
+
+    websocketService.broadcast({
+      type: "room_assignment_created",
+      data: { assignments, assignedById },
+      timestamp: new Date().toISOString(),
+    });
+
+    return { assignments, tasks };
+  }
+}
+
+export const boardAssignmentService = new BoardAssignmentService();
@@ -1,37 +1,48 @@
-import { storage } from "./storage";
-import type { Room } from "@shared/schema";
-
-interface DailyResetReport {
+import { storage, MemStorage } from "./storage";
+import { roomStatusService } from "./roomStatusService";
+import { occupancyService } from "./occupancyService";
+import { addDaysToLocalDate, localTimeToDate, toLocalDate } from "./localDate";
+import {
+  dailyResetConfigSchema,
+  type DailyResetComparison, type DailyResetConfig, type DailyResetHistoryEntry, type DailyResetHistoryPage,
+  type DailyResetHistoryQuery, type DailyResetMetrics, type DailyResetPreview, type DailyResetReport, type DailyResetRoomChange,
+  type OccupancyState, type Room, type RoomAssignment, type RoomComment, type RoomStatus, type Task
+} from "@shared/schema";
+
+const DAILY_RESET_CONFIG_KEY = "daily_reset_config";
+
+// Midnight server time; rooms that were cleaned go back to dirty for the new day
+const DEFAULT_DAILY_RESET_CONFIG: DailyResetConfig = {
+  resetTime: "00:00",
+  timezone: null,
+  statusRules: {
+    dirty: "dirty",
+    ready: "dirty",
+    clean_inspected: "dirty",
+    roll: "roll",
+    out: "out",
+    maintenance: "maintenance",
+    out_of_order: "out_of_order",
+  },
+  clearAssignments: true,
+  clearComments: true,
+  completedTaskRetentionDays: 0,
+};
+
+// Statuses the occupancy feed never changes
+const HELD_STATUSES: RoomStatus[] = ["out", "maintenance", "out_of_order"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything a reset changes, worked out before anything is changed so the
+// preview and the reset itself cannot disagree
+interface ResetPlan {
   date: string;
-  roomStatuses: Array<{
-    roomId: string;
-    roomNumber: string;
-    finalStatus: string;
-    assignedUser?: string;
-    completedTasks: number;
-    openComments: number;
-  }>;
-  tasksSummary: {
-    totalTasks: number;
-    completedTasks: number;
-    pendingTasks: number;
-  };
-  workOrdersSummary: {
-    totalWorkOrders: number;
-    completedWorkOrders: number;
-    pendingWorkOrders: number;
-  };
-  roomMetrics: {
-    totalRooms: number;
-    readyRooms: number;
-    rollRooms: number;
-    outRooms: number;
-    cleanInspectedRooms: number;
-    dirtyRooms: number;
-    maintenanceRooms: number;
-    outOfOrderRooms: number;
-  };
-  resetTime: Date;
+  usesOccupancy: boolean;
+  roomChanges: DailyResetRoomChange[];
+  assignments: RoomAssignment[];
+  comments: RoomComment[];
+  tasks: Task[];
 }
 
 export class DailyResetService {
@@ -50,24 +61,64 @@ export class DailyResetService {
     return DailyResetService.instance;
   }
 
-  private scheduleNextReset(): void {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0); // Midnight
+  public async getConfig(): Promise<DailyResetConfig> {
+    const setting = await storage.getSetting(DAILY_RESET_CONFIG_KEY);
+    return setting ? dailyResetConfigSchema.parse(setting.value) : DEFAULT_DAILY_RESET_CONFIG;
+  }
+
+  // The property's timezone, kept with the reset configuration; null means the server's
+  public async getTimeZone(): Promise<string | null> {
+    return (await this.getConfig()).timezone;
+  }
+
+  public async updateConfig(config: DailyResetConfig): Promise<DailyResetConfig> {
+    await storage.upsertSetting(DAILY_RESET_CONFIG_KEY, config);
+    console.log(`[DailyReset] Configuration updated`);
+
+    // A new reset time or timezone moves the pending reset
+    await this.scheduleNextReset();
+    return config;
+  }
+
+  // The next time the clock reaches the reset time in the configured timezone
+  private nextResetAt(config: DailyResetConfig, now: Date): Date {
+    const today = toLocalDate(now, config.timezone);
+    const resetToday = localTimeToDate(today, config.resetTime, config.timezone);
+    return resetToday > now
+      ? resetToday
+      : localTimeToDate(addDaysToLocalDate(today, 1), config.resetTime, config.timezone);
+  }
+
+  private async scheduleNextReset(): Promise<void> {
+    // The configuration is a setting, so wait for stored data to load
+    if (storage instanceof MemStorage) {
+      await storage.ready;
+    }
+
+    // A reset must always be pending, so a configuration that cannot be read falls back to the default
+    let config = DEFAULT_DAILY_RESET_CONFIG;
+    try {
+      config = await this.getConfig();
+    } catch (error) {
+      console.error(`[DailyReset] Error loading configuration, using defaults:`, error);
+    }
 
-    const timeUntilMidnight = tomorrow.getTime() - now.getTime();
+    const now = new Date();
+    const nextReset = this.nextResetAt(config, now);
 
-    console.log(`[DailyReset] Next reset scheduled for: ${tomorrow.toISOString()}`);
+    console.log(`[DailyReset] Next reset scheduled for: ${nextReset.toISOString()}`);
 
+    // Replace any pending reset so repeated runs never stack timers
+    this.cleanup();
     this.resetTimer = setTimeout(() => {
       this.performDailyReset();
-    }, timeUntilMidnight);
+    }, nextReset.getTime() - now.getTime());
   }
 
   public async performDailyReset(): Promise<void> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const config = await this.getConfig();
+      const today = toLocalDate(new Date(), config.timezone);
       
       // Check if reset was already performed today
       if (this.lastResetDate === today) {
@@ -81,17 +132,7 @@ export class DailyResetService {
       const report = await this.generateDailyReport(today);
       await this.saveDailyReport(report);
 
-      // Perform room status reset
-      await this.resetRoomStatuses();
-
-      // Reset room assignments
-      await this.resetRoomAssignments();
-
-      // Clean up old completed tasks
-      await this.cleanupCompletedTasks();
-
-      // Clear room comments from previous day
-      await this.clearRoomComments();
+      await this.applyPlan(await this.planReset(config, new Date()));
 
       // Update last reset date
       this.lastResetDate = today;
@@ -102,7 +143,7 @@ export class DailyResetService {
       console.error(`[DailyReset] Error during daily reset:`, error);
     } finally {
       // Schedule the next reset
-      this.scheduleNextReset();
+      await this.scheduleNextReset();
     }
   }
 
@@ -209,125 +250,158 @@ export class DailyResetService {
     }
   }
 
-  private async resetRoomStatuses(): Promise<void> {
-    console.log(`[DailyReset] Resetting room statuses`);
+  // The status a room starts the day in, given who slept in it and who
+  // leaves today. Departing rooms need a checkout clean and occupied rooms a
+  // stayover clean; everything else follows the status rules, except that a
+  // vacant room is not marked dirty for a guest it did not have.
+  private statusForOccupancy(status: RoomStatus, state: OccupancyState, rules: DailyResetConfig["statusRules"]): RoomStatus {
+    if (!HELD_STATUSES.includes(status)) {
+      switch (state) {
+        case "departure":
+        case "turnover":
+          return "dirty";
+        case "stayover":
+          return "roll";
+        case "vacant":
+          // A roll room with no guest left without a departure on file
+          if (status === "roll") return "dirty";
+          if ((status === "ready" || status === "clean_inspected") && rules[status] === "dirty") return status;
+      }
+    }
+    return rules[status];
+  }
 
-    try {
-      const rooms = await storage.listRooms();
-      
-      for (const room of rooms) {
-        // Reset room status based on previous day's final status
-        let newStatus = "dirty"; // Default status for new day
-        
-        // Logic for status reset:
-        // - Clean & Inspected -> Dirty (guests will check in)
-        // - READY -> Dirty (guests will check in) 
-        // - ROLL -> ROLL (rollover rooms stay rolled)
-        // - OUT -> OUT (out of order rooms stay out)
-        // - Maintenance -> Maintenance (maintenance rooms stay in maintenance)
-        // - Out of Order -> Out of Order (stay out of order)
-        
-        switch (room.status) {
-          case "roll":
-            newStatus = "roll";
-            break;
-          case "out":
-            newStatus = "out"; 
-            break;
-          case "maintenance":
-            newStatus = "maintenance";
-            break;
-          case "out_of_order":
-            newStatus = "out_of_order";
-            break;
-          default:
-            newStatus = "dirty"; // Reset all others to dirty for new day
-        }
+  // The room status changes a reset makes. Every room follows the status rules;
+  // with an occupancy feed, checkouts and stayovers follow who is in them.
+  private async planRoomChanges(config: DailyResetConfig, date: string, usesOccupancy: boolean): Promise<DailyResetRoomChange[]> {
+    const occupancy = usesOccupancy ? await occupancyService.getRoomOccupancy(date) : [];
+    const notes: Partial<Record<OccupancyState, string>> = {
+      departure: "Checkout",
+      turnover: "Checkout with arrival today",
+      stayover: "Stayover",
+    };
 
-        if (room.status !== newStatus) {
-          await storage.updateRoom(room.id, { 
-            status: newStatus as "dirty" | "out_of_order" | "maintenance" | "ready" | "roll" | "out" | "clean_inspected",
-            updatedAt: new Date()
-          });
-
-          // Create a system comment for the reset
-          await storage.createRoomComment({
-            roomId: room.id,
-            userId: "system", // System user for automated actions
-            comment: `Daily reset: Status changed from ${room.status?.toUpperCase()} to ${newStatus.toUpperCase()}`,
-            priority: "low",
-            isResolved: false,
-          });
+    const changes: DailyResetRoomChange[] = [];
+    for (const room of await storage.listRooms()) {
+      const status = room.status || "dirty";
+      let toStatus = config.statusRules[status];
+      let reason = "Reset rule";
+
+      if (usesOccupancy) {
+        const state = occupancy.find(entry => entry.roomId === room.id)?.state ?? "vacant";
+        toStatus = this.statusForOccupancy(status, state, config.statusRules);
+        if (notes[state] && !HELD_STATUSES.includes(status)) {
+          reason = notes[state]!;
+        } else if (toStatus !== config.statusRules[status]) {
+          reason = "Vacant";
         }
       }
 
-      console.log(`[DailyReset] Room statuses reset completed`);
+      if (status !== toStatus) {
+        changes.push({ roomId: room.id, roomNumber: room.number, fromStatus: status, toStatus, reason });
+      }
+    }
+    return changes;
+  }
+
+  private async planReset(config: DailyResetConfig, now: Date): Promise<ResetPlan> {
+    const date = toLocalDate(now, config.timezone);
+    const usesOccupancy = await occupancyService.hasReservations();
+
+    // Unresolved high-priority comments are kept for continuity
+    const comments = config.clearComments
+      ? (await storage.listRoomComments()).filter(comment =>
+          comment.userId === "system" || comment.isResolved || comment.priority !== "high")
+      : [];
+
+    // Tasks are aged from when they were finished; older records only have their last update
+    const cutoff = now.getTime() - config.completedTaskRetentionDays * DAY_MS;
+    const tasks = (await storage.listTasks()).filter(task =>
+      task.status === "completed" &&
+      !task.isDeleted &&
+      new Date(task.finishedAt ?? task.updatedAt ?? now).getTime() <= cutoff
+    );
+
+    return {
+      date,
+      usesOccupancy,
+      roomChanges: await this.planRoomChanges(config, date, usesOccupancy),
+      assignments: config.clearAssignments ? await storage.listRoomAssignments() : [],
+      comments,
+      tasks,
+    };
+  }
+
+  private async applyPlan(plan: ResetPlan): Promise<void> {
+    await this.resetRoomStatuses(plan.roomChanges);
+    await this.resetRoomAssignments(plan.assignments);
+    await this.cleanupCompletedTasks(plan.tasks);
+    await this.clearRoomComments(plan.comments);
+  }
+
+  private async resetRoomStatuses(changes: DailyResetRoomChange[]): Promise<void> {
+    console.log(`[DailyReset] Resetting room statuses`);
+
+    try {
+      for (const change of changes) {
+        // Recorded in the room's status history with no user, as an automated change
+        await roomStatusService.changeStatus(change.roomId, change.toStatus, {
+          source: "daily_reset",
+          notes: change.reason,
+        });
+      }
+
+      console.log(`[DailyReset] Reset ${changes.length} room statuses`);
     } catch (error) {
       console.error(`[DailyReset] Error resetting room statuses:`, error);
       throw error;
     }
   }
 
-  private async cleanupCompletedTasks(): Promise<void> {
+  private async cleanupCompletedTasks(tasks: Task[]): Promise<void> {
     console.log(`[DailyReset] Cleaning up completed tasks`);
 
     try {
-      const tasks = await storage.listTasks();
-      const completedTasks = tasks.filter(task => 
-        task.status === "completed" && !task.isDeleted
-      );
-
       // Mark completed tasks as deleted (soft delete for historical data)
-      for (const task of completedTasks) {
+      for (const task of tasks) {
         await storage.updateTask(task.id, {
           isDeleted: true,
+          archivedAt: new Date(),
           updatedAt: new Date(),
         });
       }
 
-      console.log(`[DailyReset] Cleaned up ${completedTasks.length} completed tasks`);
+      console.log(`[DailyReset] Cleaned up ${tasks.length} completed tasks`);
     } catch (error) {
       console.error(`[DailyReset] Error cleaning up tasks:`, error);
       throw error;
     }
   }
 
-  private async clearRoomComments(): Promise<void> {
+  private async clearRoomComments(comments: RoomComment[]): Promise<void> {
     console.log(`[DailyReset] Clearing room comments from previous day`);
 
     try {
-      const comments = await storage.listRoomComments();
-      let clearedCount = 0;
-
       for (const comment of comments) {
-        // Only clear non-system comments or resolved comments
-        // Keep unresolved high-priority comments for continuity
-        if (comment.userId === "system" || comment.isResolved || comment.priority !== "high") {
-          await storage.deleteRoomComment(comment.id);
-          clearedCount++;
-        }
+        await storage.deleteRoomComment(comment.id);
       }
 
-      console.log(`[DailyReset] Cleared ${clearedCount} room comments`);
+      console.log(`[DailyReset] Cleared ${comments.length} room comments`);
     } catch (error) {
       console.error(`[DailyReset] Error clearing room comments:`, error);
       throw error;
     }
   }
 
-  private async resetRoomAssignments(): Promise<void> {
+  private async resetRoomAssignments(assignments: RoomAssignment[]): Promise<void> {
     console.log(`[DailyReset] Resetting room assignments`);
 
     try {
-      const assignments = await storage.listRoomAssignments();
-      let resetCount = 0;
-
       for (const assignment of assignments) {
         await storage.deleteRoomAssignment(assignment.roomId, assignment.userId);
-        resetCount++;
       }
 
-      console.log(`[DailyReset] Reset ${resetCount} room assignments`);
+      console.log(`[DailyReset] Reset ${assignments.length} room assignments`);
     } catch (error) {
       console.error(`[DailyReset] Error resetting room assignments:`, error);
       throw error;
@@ -336,17 +410,113 @@ export class DailyResetService {
 
   // Manual reset trigger (for testing or manual operations)
   public async triggerManualReset(): Promise<DailyResetReport> {
-    const today = new Date().toISOString().split('T')[0];
-    const report = await this.generateDailyReport(today);
+    const config = await this.getConfig();
+    const now = new Date();
+    const report = await this.generateDailyReport(toLocalDate(now, config.timezone));
     await this.saveDailyReport(report);
-    await this.resetRoomStatuses();
-    await this.resetRoomAssignments();
-    await this.cleanupCompletedTasks();
-    
-    console.log(`[DailyReset] Manual reset completed for ${today}`);
+    await this.applyPlan(await this.planReset(config, now));
+
+    console.log(`[DailyReset] Manual reset completed for ${report.date}`);
     return report;
   }
 
+  // What a reset would change if it ran now, without changing anything
+  public async previewReset(): Promise<DailyResetPreview> {
+    const config = await this.getConfig();
+    const now = new Date();
+    const plan = await this.planReset(config, now);
+
+    return {
+      date: plan.date,
+      nextResetAt: this.nextResetAt(config, now).toISOString(),
+      usesOccupancy: plan.usesOccupancy,
+      roomChanges: plan.roomChanges,
+      assignmentsCleared: plan.assignments.length,
+      commentsCleared: plan.comments.length,
+      tasksArchived: plan.tasks.length,
+    };
+  }
+
+  // Saved reports, one per date (the latest when a day was reset more than once), newest first
+  private async listReports(): Promise<Array<{ id: string; report: DailyResetReport }>> {
+    const runs = (await storage.listReportRuns())
+      .filter(run => run.type === "daily_reset")
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+
+    const byDate = new Map<string, { id: string; report: DailyResetReport }>();
+    for (const run of runs) {
+      const report = run.results as DailyResetReport;
+      if (!byDate.has(report.date)) {
+        byDate.set(report.date, { id: run.id, report });
+      }
+    }
+    return Array.from(byDate.values()).sort((a, b) => b.report.date.localeCompare(a.report.date));
+  }
+
+  private toHistoryEntry(id: string, report: DailyResetReport): DailyResetHistoryEntry {
+    return {
+      id,
+      date: report.date,
+      resetTime: report.resetTime,
+      roomMetrics: report.roomMetrics,
+      tasksSummary: report.tasksSummary,
+      workOrdersSummary: report.workOrdersSummary,
+    };
+  }
+
+  public async listReportHistory(query: DailyResetHistoryQuery): Promise<DailyResetHistoryPage> {
+    const reports = (await this.listReports()).filter(({ report }) =>
+      (!query.dateFrom || report.date >= query.dateFrom) && (!query.dateTo || report.date <= query.dateTo)
+    );
+    const start = (query.page - 1) * query.pageSize;
+
+    return {
+      reports: reports.slice(start, start + query.pageSize).map(({ id, report }) => this.toHistoryEntry(id, report)),
+      total: reports.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  public async getReport(date: string): Promise<DailyResetReport | undefined> {
+    return (await this.listReports()).find(({ report }) => report.date === date)?.report;
+  }
+
+  // Returns undefined when either day has no report
+  public async compareReports(leftDate: string, rightDate: string): Promise<DailyResetComparison | undefined> {
+    const reports = await this.listReports();
+    const left = reports.find(({ report }) => report.date === leftDate);
+    const right = reports.find(({ report }) => report.date === rightDate);
+    if (!left || !right) return undefined;
+
+    const subtract = <T extends Record<string, number>>(a: T, b: T): T =>
+      Object.fromEntries(Object.keys(b).map(key => [key, (b[key] ?? 0) - (a[key] ?? 0)])) as T;
+
+    const difference: DailyResetMetrics = {
+      roomMetrics: subtract(left.report.roomMetrics, right.report.roomMetrics),
+      tasksSummary: subtract(left.report.tasksSummary, right.report.tasksSummary),
+      workOrdersSummary: subtract(left.report.workOrdersSummary, right.report.workOrdersSummary),
+    };
+
+    return {
+      left: this.toHistoryEntry(left.id, left.report),
+      right: this.toHistoryEntry(right.id, right.report),
+      difference,
+    };
+  }
+
+  // Reports from the last number of days, oldest first for charting
+  public async getTrends(days: number): Promise<DailyResetHistoryEntry[]> {
+    const config = await this.getConfig();
+    const today = toLocalDate(new Date(), config.timezone);
+    const from = addDaysToLocalDate(today, -(days - 1));
+
+    return (await this.listReports())
+      .filter(({ report }) => report.date >= from && report.date <= today)
+      .reverse()
+      .map(({ id, report }) => this.toHistoryEntry(id, report));
+  }
+
   // Get the last reset report
   public async getLastResetReport(): Promise<DailyResetReport | null> {
     try {
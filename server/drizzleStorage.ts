@@ -0,0 +1,853 @@
+import { and, asc, count, desc, eq, getTableColumns, gt, gte, isNotNull, lt, lte, sql, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import {
+  users, roomTypes, rooms, tasks, taskPhotos, inspectionTemplates, inspections, workOrders, pmTemplates, pmInstances,
+  panicEvents, reportRuns, roomAssignments, roomComments, appSettings, lostFoundItems,
+  roomStatusEvents, shifts, reservations, pmsSyncLogs, auditLogs,
+  type User, type InsertUser, type Room, type InsertRoom, type RoomType, type InsertRoomType,
+  type Task, type InsertTask, type TaskPhoto, type Inspection, type InsertInspection,
+  type InspectionTemplate, type InsertInspectionTemplate,
+  type WorkOrder, type InsertWorkOrder, type PMTemplate, type InsertPMTemplate,
+  type PMInstance, type InsertPMInstance, type PanicEvent, type InsertPanicEvent,
+  type ReportRun, type InsertReportRun, type RoomAssignment, type InsertRoomAssignment, type RoomComment, type InsertRoomComment,
+  type AppSetting, type LostFoundItem, type InsertLostFoundItem,
+  type RoomStatusEvent, type InsertRoomStatusEvent, type Shift, type InsertShift,
+  type Reservation, type InsertReservation, type PmsSyncLog, type InsertPmsSyncLog,
+  type AuditLog, type InsertAuditLog, type AuditLogFilters
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+// Keeps only real columns of the table and turns ISO strings coming from
+// JSON request bodies into Dates for timestamp columns. Ids are always
+// generated by the database.
+function toRow<T extends PgTable>(table: T, values: object): Partial<T["$inferInsert"]> {
+  const columns = getTableColumns(table);
+  const row: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const column = columns[key];
+    if (!column || key === "id" || value === undefined) continue;
+
+    row[key] = column.columnType === "PgTimestamp" && typeof value === "string"
+      ? new Date(value)
+      : value;
+  }
+
+  return row as Partial<T["$inferInsert"]>;
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {
+    this.seedAdminUser().catch(error => {
+      console.error('Failed to seed admin user:', error);
+    });
+  }
+
+  private async seedAdminUser() {
+    // Only seed if no users exist, so a fresh database can still be logged into
+    const [{ total }] = await this.db.select({ total: count() }).from(users);
+    if (total > 0) return;
+
+    const bcrypt = await import('bcryptjs');
+    await this.db.insert(users).values({
+      name: "Site Administrator",
+      email: "admin@hotel.com",
+      role: "site_admin",
+      passwordHash: await bcrypt.hash("password", 12),
+      canReceivePanicAlerts: true,
+    });
+    console.log('Admin user seeded successfully');
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users)
+      .values(toRow(users, insertUser) as typeof users.$inferInsert)
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ ...toRow(users, updates), updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  // Room Types
+  async getRoomType(id: string): Promise<RoomType | undefined> {
+    const [roomType] = await this.db.select().from(roomTypes).where(eq(roomTypes.id, id));
+    return roomType;
+  }
+
+  async createRoomType(insertRoomType: InsertRoomType): Promise<RoomType> {
+    const [roomType] = await this.db.insert(roomTypes)
+      .values(toRow(roomTypes, insertRoomType) as typeof roomTypes.$inferInsert)
+      .returning();
+    return roomType;
+  }
+
+  async updateRoomType(id: string, updates: Partial<RoomType>): Promise<RoomType | undefined> {
+    const [roomType] = await this.db.update(roomTypes)
+      .set({ ...toRow(roomTypes, updates), updatedAt: new Date() })
+      .where(eq(roomTypes.id, id))
+      .returning();
+    return roomType;
+  }
+
+  async deleteRoomType(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(roomTypes).where(eq(roomTypes.id, id)).returning({ id: roomTypes.id });
+    return deleted.length > 0;
+  }
+
+  async listRoomTypes(): Promise<RoomType[]> {
+    return this.db.select().from(roomTypes);
+  }
+
+  // Rooms
+  async getRoom(id: string): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async getRoomByNumber(number: string): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.number, number));
+    return room;
+  }
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    const [room] = await this.db.insert(rooms)
+      .values(toRow(rooms, insertRoom) as typeof rooms.$inferInsert)
+      .returning();
+    return room;
+  }
+
+  async updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined> {
+    const [room] = await this.db.update(rooms)
+      .set({ ...toRow(rooms, updates), updatedAt: new Date() })
+      .where(eq(rooms.id, id))
+      .returning();
+    return room;
+  }
+
+  async deleteRoom(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(rooms).where(eq(rooms.id, id)).returning({ id: rooms.id });
+    return deleted.length > 0;
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return this.db.select().from(rooms);
+  }
+
+  // Tasks
+  async getTask(id: string): Promise<Task | undefined> {
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.id, id));
+    return task;
+  }
+
+  async createTask(insertTask: InsertTask): Promise<Task> {
+    const [task] = await this.db.insert(tasks)
+      .values({ ...toRow(tasks, insertTask), isDeleted: false } as typeof tasks.$inferInsert)
+      .returning();
+    return task;
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined> {
+    const [task] = await this.db.update(tasks)
+      .set({ ...toRow(tasks, updates), updatedAt: new Date() })
+      .where(eq(tasks.id, id))
+      .returning();
+    return task;
+  }
+
+  async listTasks(filters?: { status?: string; type?: string; assigneeId?: string; includeDeleted?: boolean }): Promise<Task[]> {
+    const conditions: SQL[] = [];
+
+    if (!filters?.includeDeleted) {
+      conditions.push(eq(tasks.isDeleted, false));
+    }
+
+    if (filters?.status) {
+      conditions.push(eq(tasks.status, filters.status as Task["status"] & string));
+    }
+
+    if (filters?.type) {
+      conditions.push(eq(tasks.type, filters.type as Task["type"]));
+    }
+
+    if (filters?.assigneeId) {
+      conditions.push(eq(tasks.assigneeId, filters.assigneeId));
+    }
+
+    return this.db.select().from(tasks).where(and(...conditions));
+  }
+
+  async softDeleteTask(id: string): Promise<Task | undefined> {
+    return this.updateTask(id, { isDeleted: true });
+  }
+
+  async restoreTask(id: string): Promise<Task | undefined> {
+    return this.updateTask(id, { isDeleted: false, archivedAt: null });
+  }
+
+  // Task Photos
+  async createTaskPhoto(photo: { taskId: string; url: string }): Promise<TaskPhoto> {
+    const [taskPhoto] = await this.db.insert(taskPhotos).values(photo).returning();
+    return taskPhoto;
+  }
+
+  async getTaskPhotos(taskId: string): Promise<TaskPhoto[]> {
+    return this.db.select().from(taskPhotos).where(eq(taskPhotos.taskId, taskId));
+  }
+
+  // Inspection Templates
+  async getInspectionTemplate(id: string): Promise<InspectionTemplate | undefined> {
+    const [template] = await this.db.select().from(inspectionTemplates).where(eq(inspectionTemplates.id, id));
+    return template;
+  }
+
+  async createInspectionTemplate(insertTemplate: InsertInspectionTemplate): Promise<InspectionTemplate> {
+    const [template] = await this.db.insert(inspectionTemplates)
+      .values(toRow(inspectionTemplates, insertTemplate) as typeof inspectionTemplates.$inferInsert)
+      .returning();
+    return template;
+  }
+
+  async updateInspectionTemplate(id: string, updates: Partial<InspectionTemplate>): Promise<InspectionTemplate | undefined> {
+    const [template] = await this.db.update(inspectionTemplates)
+      .set({ ...toRow(inspectionTemplates, updates), updatedAt: new Date() })
+      .where(eq(inspectionTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteInspectionTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(inspectionTemplates)
+      .where(eq(inspectionTemplates.id, id))
+      .returning({ id: inspectionTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async listInspectionTemplates(filters?: { kind?: string }): Promise<InspectionTemplate[]> {
+    return this.db.select().from(inspectionTemplates)
+      .where(filters?.kind ? eq(inspectionTemplates.kind, filters.kind as InspectionTemplate["kind"]) : undefined)
+      .orderBy(asc(inspectionTemplates.name));
+  }
+
+  // Inspections
+  async getInspection(id: string): Promise<Inspection | undefined> {
+    const [inspection] = await this.db.select().from(inspections).where(eq(inspections.id, id));
+    return inspection;
+  }
+
+  async createInspection(insertInspection: InsertInspection): Promise<Inspection> {
+    const [inspection] = await this.db.insert(inspections)
+      .values(toRow(inspections, insertInspection) as typeof inspections.$inferInsert)
+      .returning();
+    return inspection;
+  }
+
+  async updateInspection(id: string, updates: Partial<Inspection>): Promise<Inspection> {
+    const [inspection] = await this.db.update(inspections)
+      .set(toRow(inspections, updates))
+      .where(eq(inspections.id, id))
+      .returning();
+    if (!inspection) {
+      throw new Error("Inspection not found");
+    }
+    return inspection;
+  }
+
+  async deleteInspection(id: string): Promise<void> {
+    const deleted = await this.db.delete(inspections).where(eq(inspections.id, id)).returning({ id: inspections.id });
+    if (deleted.length === 0) {
+      throw new Error("Inspection not found");
+    }
+  }
+
+  async listInspections(filters?: { kind?: string; roomId?: string }): Promise<Inspection[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.kind) {
+      conditions.push(eq(inspections.kind, filters.kind as Inspection["kind"]));
+    }
+
+    if (filters?.roomId) {
+      conditions.push(eq(inspections.roomId, filters.roomId));
+    }
+
+    return this.db.select().from(inspections).where(and(...conditions));
+  }
+
+  // Work Orders
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    const [workOrder] = await this.db.select().from(workOrders).where(eq(workOrders.id, id));
+    return workOrder;
+  }
+
+  async createWorkOrder(insertWorkOrder: InsertWorkOrder): Promise<WorkOrder> {
+    const [workOrder] = await this.db.insert(workOrders)
+      .values(toRow(workOrders, insertWorkOrder) as typeof workOrders.$inferInsert)
+      .returning();
+    return workOrder;
+  }
+
+  async updateWorkOrder(id: string, updates: Partial<WorkOrder>): Promise<WorkOrder | undefined> {
+    const [workOrder] = await this.db.update(workOrders)
+      .set({ ...toRow(workOrders, updates), updatedAt: new Date() })
+      .where(eq(workOrders.id, id))
+      .returning();
+    return workOrder;
+  }
+
+  async listWorkOrders(filters?: { status?: string; priority?: string; assigneeId?: string }): Promise<WorkOrder[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(workOrders.status, filters.status as WorkOrder["status"] & string));
+    }
+
+    if (filters?.priority) {
+      conditions.push(eq(workOrders.priority, filters.priority as WorkOrder["priority"] & string));
+    }
+
+    if (filters?.assigneeId) {
+      conditions.push(eq(workOrders.assigneeId, filters.assigneeId));
+    }
+
+    return this.db.select().from(workOrders).where(and(...conditions));
+  }
+
+  // PM Templates
+  async getPMTemplate(id: string): Promise<PMTemplate | undefined> {
+    const [template] = await this.db.select().from(pmTemplates).where(eq(pmTemplates.id, id));
+    return template;
+  }
+
+  async createPMTemplate(insertTemplate: InsertPMTemplate): Promise<PMTemplate> {
+    const [template] = await this.db.insert(pmTemplates)
+      .values(toRow(pmTemplates, insertTemplate) as typeof pmTemplates.$inferInsert)
+      .returning();
+    return template;
+  }
+
+  async updatePMTemplate(id: string, updates: Partial<PMTemplate>): Promise<PMTemplate | undefined> {
+    const [template] = await this.db.update(pmTemplates)
+      .set(toRow(pmTemplates, updates))
+      .where(eq(pmTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async listPMTemplates(): Promise<PMTemplate[]> {
+    return this.db.select().from(pmTemplates);
+  }
+
+  // PM Instances
+  async getPMInstance(id: string): Promise<PMInstance | undefined> {
+    const [instance] = await this.db.select().from(pmInstances).where(eq(pmInstances.id, id));
+    return instance;
+  }
+
+  async createPMInstance(insertInstance: InsertPMInstance): Promise<PMInstance> {
+    const [instance] = await this.db.insert(pmInstances)
+      .values(toRow(pmInstances, insertInstance) as typeof pmInstances.$inferInsert)
+      .returning();
+    return instance;
+  }
+
+  async updatePMInstance(id: string, updates: Partial<PMInstance>): Promise<PMInstance | undefined> {
+    const [instance] = await this.db.update(pmInstances)
+      .set({ ...toRow(pmInstances, updates), updatedAt: new Date() })
+      .where(eq(pmInstances.id, id))
+      .returning();
+    return instance;
+  }
+
+  async listPMInstances(filters?: { status?: string; dueAfter?: Date; dueBefore?: Date }): Promise<PMInstance[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(pmInstances.status, filters.status as PMInstance["status"] & string));
+    }
+
+    if (filters?.dueAfter) {
+      conditions.push(gt(pmInstances.dueAt, filters.dueAfter));
+    }
+
+    if (filters?.dueBefore) {
+      conditions.push(lt(pmInstances.dueAt, filters.dueBefore));
+    }
+
+    return this.db.select().from(pmInstances).where(and(...conditions)).orderBy(asc(pmInstances.dueAt));
+  }
+
+  // Panic Events
+  async createPanicEvent(insertEvent: InsertPanicEvent): Promise<PanicEvent> {
+    const [event] = await this.db.insert(panicEvents)
+      .values(toRow(panicEvents, insertEvent) as typeof panicEvents.$inferInsert)
+      .returning();
+    return event;
+  }
+
+  async listPanicEvents(): Promise<PanicEvent[]> {
+    return this.db.select().from(panicEvents);
+  }
+
+  // Lost & Found
+  async getLostFoundItem(id: string): Promise<LostFoundItem | undefined> {
+    const [item] = await this.db.select().from(lostFoundItems).where(eq(lostFoundItems.id, id));
+    return item;
+  }
+
+  async createLostFoundItem(insertItem: InsertLostFoundItem): Promise<LostFoundItem> {
+    const [item] = await this.db.insert(lostFoundItems)
+      .values(toRow(lostFoundItems, insertItem) as typeof lostFoundItems.$inferInsert)
+      .returning();
+    return item;
+  }
+
+  async updateLostFoundItem(id: string, updates: Partial<LostFoundItem>): Promise<LostFoundItem | undefined> {
+    const [item] = await this.db.update(lostFoundItems)
+      .set({ ...toRow(lostFoundItems, updates), updatedAt: new Date() })
+      .where(eq(lostFoundItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async deleteLostFoundItem(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(lostFoundItems).where(eq(lostFoundItems.id, id)).returning({ id: lostFoundItems.id });
+    return deleted.length > 0;
+  }
+
+  async listLostFoundItems(filters?: { status?: string; roomId?: string; expiringBefore?: Date }): Promise<LostFoundItem[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(lostFoundItems.status, filters.status as LostFoundItem["status"] & string));
+    }
+
+    if (filters?.roomId) {
+      conditions.push(eq(lostFoundItems.roomId, filters.roomId));
+    }
+
+    if (filters?.expiringBefore) {
+      conditions.push(lte(lostFoundItems.expireAt, filters.expiringBefore));
+    }
+
+    // Sort by newest first
+    return this.db.select().from(lostFoundItems)
+      .where(and(...conditions))
+      .orderBy(desc(lostFoundItems.createdAt));
+  }
+
+  // Room Comments
+  async getRoomComment(id: string): Promise<RoomComment | undefined> {
+    const [comment] = await this.db.select().from(roomComments).where(eq(roomComments.id, id));
+    return comment;
+  }
+
+  async createRoomComment(insertComment: InsertRoomComment): Promise<RoomComment> {
+    const [comment] = await this.db.insert(roomComments)
+      .values(toRow(roomComments, insertComment) as typeof roomComments.$inferInsert)
+      .returning();
+    return comment;
+  }
+
+  async updateRoomComment(id: string, updates: Partial<RoomComment>): Promise<RoomComment | undefined> {
+    const [comment] = await this.db.update(roomComments)
+      .set({ ...toRow(roomComments, updates), updatedAt: new Date() })
+      .where(eq(roomComments.id, id))
+      .returning();
+    return comment;
+  }
+
+  async listRoomComments(roomId?: string): Promise<RoomComment[]> {
+    // Sort by newest first
+    return this.db.select().from(roomComments)
+      .where(roomId ? eq(roomComments.roomId, roomId) : undefined)
+      .orderBy(desc(roomComments.createdAt));
+  }
+
+  async deleteRoomComment(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(roomComments).where(eq(roomComments.id, id)).returning({ id: roomComments.id });
+    return deleted.length > 0;
+  }
+
+  // Room Status History
+  async createRoomStatusEvent(insertEvent: InsertRoomStatusEvent): Promise<RoomStatusEvent> {
+    const [event] = await this.db.insert(roomStatusEvents)
+      .values(toRow(roomStatusEvents, insertEvent) as typeof roomStatusEvents.$inferInsert)
+      .returning();
+    return event;
+  }
+
+  async listRoomStatusEvents(roomId?: string): Promise<RoomStatusEvent[]> {
+    // Sort by newest first
+    return this.db.select().from(roomStatusEvents)
+      .where(roomId ? eq(roomStatusEvents.roomId, roomId) : undefined)
+      .orderBy(desc(roomStatusEvents.createdAt));
+  }
+
+  // Shifts
+  async getShift(id: string): Promise<Shift | undefined> {
+    const [shift] = await this.db.select().from(shifts).where(eq(shifts.id, id));
+    return shift;
+  }
+
+  async createShift(insertShift: InsertShift): Promise<Shift> {
+    const [shift] = await this.db.insert(shifts)
+      .values(toRow(shifts, insertShift) as typeof shifts.$inferInsert)
+      .returning();
+    return shift;
+  }
+
+  async updateShift(id: string, updates: Partial<Shift>): Promise<Shift | undefined> {
+    const [shift] = await this.db.update(shifts)
+      .set({ ...toRow(shifts, updates), updatedAt: new Date() })
+      .where(eq(shifts.id, id))
+      .returning();
+    return shift;
+  }
+
+  async deleteShift(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(shifts).where(eq(shifts.id, id)).returning({ id: shifts.id });
+    return deleted.length > 0;
+  }
+
+  async listShifts(filters?: { userId?: string; dateFrom?: string; dateTo?: string }): Promise<Shift[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.userId) {
+      conditions.push(eq(shifts.userId, filters.userId));
+    }
+
+    // Dates are YYYY-MM-DD, so they compare as strings; both bounds are inclusive
+    if (filters?.dateFrom) {
+      conditions.push(gte(shifts.date, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(shifts.date, filters.dateTo));
+    }
+
+    return this.db.select().from(shifts)
+      .where(and(...conditions))
+      .orderBy(asc(shifts.date), asc(shifts.startTime));
+  }
+
+  // Reservations
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    const [reservation] = await this.db.select().from(reservations).where(eq(reservations.id, id));
+    return reservation;
+  }
+
+  async createReservation(insertReservation: InsertReservation): Promise<Reservation> {
+    const [reservation] = await this.db.insert(reservations)
+      .values(toRow(reservations, insertReservation) as typeof reservations.$inferInsert)
+      .returning();
+    return reservation;
+  }
+
+  async updateReservation(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined> {
+    const [reservation] = await this.db.update(reservations)
+      .set({ ...toRow(reservations, updates), updatedAt: new Date() })
+      .where(eq(reservations.id, id))
+      .returning();
+    return reservation;
+  }
+
+  async listReservations(filters?: { roomId?: string; externalId?: string; dateFrom?: string; dateTo?: string }): Promise<Reservation[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.roomId) {
+      conditions.push(eq(reservations.roomId, filters.roomId));
+    }
+
+    if (filters?.externalId) {
+      conditions.push(eq(reservations.externalId, filters.externalId));
+    }
+
+    // Keeps stays touching the range, counting the departure day so checkouts on dateFrom are included
+    if (filters?.dateFrom) {
+      conditions.push(gte(reservations.departureDate, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(reservations.arrivalDate, filters.dateTo));
+    }
+
+    return this.db.select().from(reservations)
+      .where(and(...conditions))
+      .orderBy(asc(reservations.arrivalDate));
+  }
+
+  // PMS Sync Log
+  async getPmsSyncLog(id: string): Promise<PmsSyncLog | undefined> {
+    const [entry] = await this.db.select().from(pmsSyncLogs).where(eq(pmsSyncLogs.id, id));
+    return entry;
+  }
+
+  async createPmsSyncLog(insertEntry: InsertPmsSyncLog): Promise<PmsSyncLog> {
+    const [entry] = await this.db.insert(pmsSyncLogs)
+      .values(toRow(pmsSyncLogs, insertEntry) as typeof pmsSyncLogs.$inferInsert)
+      .returning();
+    return entry;
+  }
+
+  async updatePmsSyncLog(id: string, updates: Partial<PmsSyncLog>): Promise<PmsSyncLog | undefined> {
+    const [entry] = await this.db.update(pmsSyncLogs)
+      .set({ ...toRow(pmsSyncLogs, updates), updatedAt: new Date() })
+      .where(eq(pmsSyncLogs.id, id))
+      .returning();
+    return entry;
+  }
+
+  async listPmsSyncLogs(filters?: { status?: string; direction?: string; limit?: number }): Promise<PmsSyncLog[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(pmsSyncLogs.status, filters.status as PmsSyncLog["status"]));
+    }
+
+    if (filters?.direction) {
+      conditions.push(eq(pmsSyncLogs.direction, filters.direction as PmsSyncLog["direction"]));
+    }
+
+    // Sort by newest first
+    const query = this.db.select().from(pmsSyncLogs)
+      .where(and(...conditions))
+      .orderBy(desc(pmsSyncLogs.createdAt));
+
+    return filters?.limit ? query.limit(filters.limit) : query;
+  }
+
+  // Audit Log
+  async createAuditLog(insertEntry: InsertAuditLog): Promise<AuditLog> {
+    const [entry] = await this.db.insert(auditLogs)
+      .values(toRow(auditLogs, insertEntry) as typeof auditLogs.$inferInsert)
+      .returning();
+    return entry;
+  }
+
+  async listAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.actorId) {
+      conditions.push(eq(auditLogs.actorId, filters.actorId));
+    }
+
+    if (filters?.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+
+    if (filters?.entityId) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+
+    if (filters?.action) {
+      conditions.push(eq(auditLogs.action, filters.action));
+    }
+
+    if (filters?.dateFrom) {
+      conditions.push(gte(auditLogs.createdAt, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(auditLogs.createdAt, filters.dateTo));
+    }
+
+    // Sort by newest first
+    const query = this.db.select().from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.createdAt));
+
+    return filters?.limit ? query.limit(filters.limit) : query;
+  }
+
+  // Room Assignments
+  async createRoomAssignment(insertAssignment: InsertRoomAssignment): Promise<RoomAssignment> {
+    return this.db.transaction(async (tx) => {
+      // Remove any existing assignment for this room
+      await tx.delete(roomAssignments).where(eq(roomAssignments.roomId, insertAssignment.roomId));
+
+      const [assignment] = await tx.insert(roomAssignments)
+        .values(toRow(roomAssignments, insertAssignment) as typeof roomAssignments.$inferInsert)
+        .returning();
+      return assignment;
+    });
+  }
+
+  async deleteRoomAssignment(roomId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(roomAssignments)
+      .where(and(eq(roomAssignments.roomId, roomId), eq(roomAssignments.userId, userId)))
+      .returning({ id: roomAssignments.id });
+    return deleted.length > 0;
+  }
+
+  async listRoomAssignments(roomId?: string, userId?: string): Promise<RoomAssignment[]> {
+    const conditions: SQL[] = [];
+
+    if (roomId) {
+      conditions.push(eq(roomAssignments.roomId, roomId));
+    }
+
+    if (userId) {
+      conditions.push(eq(roomAssignments.userId, userId));
+    }
+
+    return this.db.select().from(roomAssignments).where(and(...conditions));
+  }
+
+  // Reports
+  async createReportRun(insertReport: InsertReportRun): Promise<ReportRun> {
+    const [report] = await this.db.insert(reportRuns)
+      .values(toRow(reportRuns, insertReport) as typeof reportRuns.$inferInsert)
+      .returning();
+    return report;
+  }
+
+  async getReportRun(id: string): Promise<ReportRun | undefined> {
+    const [report] = await this.db.select().from(reportRuns).where(eq(reportRuns.id, id));
+    return report;
+  }
+
+  async listReportRuns(): Promise<ReportRun[]> {
+    return this.db.select().from(reportRuns);
+  }
+
+  // Settings
+  async getSetting(key: string): Promise<AppSetting | undefined> {
+    const [setting] = await this.db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting;
+  }
+
+  async upsertSetting(key: string, value: unknown): Promise<AppSetting> {
+    const [setting] = await this.db.insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } })
+      .returning();
+    return setting;
+  }
+
+  // Analytics
+  async getRAAvgTimes(filters?: { userId?: string; taskType?: string; dateFrom?: Date; dateTo?: Date }): Promise<any[]> {
+    const conditions: SQL[] = [
+      isNotNull(tasks.startedAt),
+      isNotNull(tasks.finishedAt),
+      eq(tasks.isDeleted, false),
+    ];
+
+    if (filters?.userId) {
+      conditions.push(eq(tasks.assigneeId, filters.userId));
+    }
+
+    if (filters?.taskType) {
+      conditions.push(eq(tasks.type, filters.taskType as Task["type"]));
+    }
+
+    if (filters?.dateFrom) {
+      conditions.push(gte(tasks.createdAt, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(tasks.createdAt, filters.dateTo));
+    }
+
+    // Durations are reported in milliseconds, same as MemStorage
+    const duration = sql`extract(epoch from (${tasks.finishedAt} - ${tasks.startedAt})) * 1000`;
+
+    return this.db.select({
+      userId: tasks.assigneeId,
+      taskType: tasks.type,
+      totalTime: sql<number>`coalesce(sum(${duration}), 0)`.mapWith(Number),
+      count: count(),
+      avgTime: sql<number>`coalesce(avg(${duration}), 0)`.mapWith(Number),
+    })
+      .from(tasks)
+      .where(and(...conditions))
+      .groupBy(tasks.assigneeId, tasks.type);
+  }
+
+  async getInspectionReports(filters?: { dateFrom?: Date; dateTo?: Date }): Promise<any> {
+    const conditions: SQL[] = [];
+
+    if (filters?.dateFrom) {
+      conditions.push(gte(inspections.createdAt, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(inspections.createdAt, filters.dateTo));
+    }
+
+    const [totals] = await this.db.select({
+      total: count(),
+      passed: sql<number>`count(*) filter (where ${inspections.passFail} = true)`.mapWith(Number),
+      failed: sql<number>`count(*) filter (where ${inspections.passFail} = false)`.mapWith(Number),
+      pending: sql<number>`count(*) filter (where ${inspections.passFail} is null)`.mapWith(Number),
+    })
+      .from(inspections)
+      .where(and(...conditions));
+
+    return {
+      ...totals,
+      passRate: totals.total > 0 ? (totals.passed / totals.total) * 100 : 0,
+    };
+  }
+
+  async getSquareFootMetrics(filters?: { userId?: string; dateFrom?: Date; dateTo?: Date }): Promise<any[]> {
+    const conditions: SQL[] = [
+      isNotNull(tasks.finishedAt),
+      isNotNull(tasks.roomId),
+      eq(tasks.isDeleted, false),
+    ];
+
+    if (filters?.userId) {
+      conditions.push(eq(tasks.assigneeId, filters.userId));
+    }
+
+    if (filters?.dateFrom) {
+      conditions.push(gte(tasks.createdAt, filters.dateFrom));
+    }
+
+    if (filters?.dateTo) {
+      conditions.push(lte(tasks.createdAt, filters.dateTo));
+    }
+
+    return this.db.select({
+      userId: tasks.assigneeId,
+      totalSquareFeet: sql<number>`coalesce(sum(${rooms.squareFootage}), 0)`.mapWith(Number),
+      // Expected time comes from the room type's standard for the task's clean type
+      expectedMinutes: sql<number>`coalesce(sum((${roomTypes.standardMinutes} ->> ${tasks.cleanType}::text)::int), 0)`.mapWith(Number),
+      actualMinutes: sql<number>`coalesce(round(sum(greatest(0, extract(epoch from ${tasks.finishedAt} - ${tasks.startedAt}) - coalesce(${tasks.pausedSeconds}, 0))) / 60), 0)`.mapWith(Number),
+      credits: sql<number>`coalesce(sum(${roomTypes.credits}), 0)`.mapWith(Number),
+      taskCount: count(),
+    })
+      .from(tasks)
+      .leftJoin(rooms, eq(tasks.roomId, rooms.id))
+      .leftJoin(roomTypes, eq(rooms.roomTypeId, roomTypes.id))
+      .where(and(...conditions))
+      .groupBy(tasks.assigneeId);
+  }
+}
@@ -1,6 +1,6 @@
 import nodemailer from 'nodemailer';
 import handlebars from 'handlebars';
-import { User, Task, Room, Inspection } from '../shared/schema';
+import { User, Task, Room, Inspection, WorkOrder } from '../shared/schema';
 
 export interface EmailConfig {
   host: string;
@@ -122,6 +122,28 @@ export class EmailService {
           </div>
         `
       },
+      workOrderSlaBreached: {
+        subject: 'SLA Breached - {{workOrder.title}}',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #dc3545;">Work Order SLA Breached</h2>
+            <p>Hello {{user.name}},</p>
+            <p>The following work order has passed its SLA target and needs attention:</p>
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="margin: 0 0 10px 0; color: #555;">{{workOrder.title}}</h3>
+              <p style="margin: 0 0 10px 0;"><strong>Priority:</strong> {{workOrder.priority}}</p>
+              <p style="margin: 0 0 10px 0;"><strong>Status:</strong> {{workOrder.status}}</p>
+              <p style="margin: 0 0 10px 0;"><strong>SLA Due:</strong> {{workOrder.slaDueAt}}</p>
+              <p style="margin: 0 0 10px 0;"><strong>Assigned to:</strong> {{assignee}}</p>
+              {{#if workOrder.roomNumber}}
+              <p style="margin: 0;"><strong>Room:</strong> {{workOrder.roomNumber}}</p>
+              {{/if}}
+            </div>
+            <p>Please log into the hotel management system to reassign or follow up.</p>
+            <p>Best regards,<br>{{hotelName}} Management</p>
+          </div>
+        `
+      },
       panicAlert: {
         subject: 'URGENT: Panic Alert Activated',
         html: `
@@ -243,6 +265,22 @@ export class EmailService {
     }
   }
 
+  async sendWorkOrderSlaBreachNotification(workOrder: WorkOrder, recipients: User[], assignee?: User, room?: Room): Promise<void> {
+    for (const recipient of recipients) {
+      if (recipient.email && this.shouldSendNotification(recipient, 'workOrderSlaBreached')) {
+        await this.sendEmail(recipient.email, 'workOrderSlaBreached', {
+          user: recipient,
+          workOrder: {
+            ...workOrder,
+            roomNumber: room?.number,
+            slaDueAt: workOrder.slaDueAt ? new Date(workOrder.slaDueAt).toLocaleString() : 'Not specified'
+          },
+          assignee: assignee?.name || 'Unassigned'
+        });
+      }
+    }
+  }
+
   async sendPanicAlertNotification(triggeredBy: User, location: string, recipients: User[]): Promise<void> {
     for (const recipient of recipients) {
       if (recipient.email && recipient.canReceivePanicAlerts) {
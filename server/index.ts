@@ -2,9 +2,13 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { dailyResetService } from "./dailyReset";
+import { slaService } from "./slaService";
+import { pmScheduler } from "./pmScheduler";
+import { lostFoundService } from "./lostFoundService";
 
 const app = express();
-app.use(express.json());
+// Occupancy imports send whole PMS exports as JSON
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -69,5 +73,8 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     log(`daily reset service initialized`);
+    log(`sla service initialized`);
+    log(`pm scheduler initialized`);
+    log(`lost & found service initialized`);
   });
 })();
@@ -0,0 +1,392 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { roomStatusService } from "./roomStatusService";
+import { slaService } from "./slaService";
+import { websocketService } from "./websocketService";
+import { toLocalDate } from "./localDate";
+import type {
+  Inspection, InspectionAnalytics, InspectionChecklistItem, InspectionItemFailureRate, InspectionRemediation,
+  InspectionScoreBreakdown, InspectionScoreTrendPoint, InspectionTemplate, InspectionTemplateSection,
+  InspectionWithSignatureCheck, Room, Task, UpdateInspection, WorkOrder
+} from "@shared/schema";
+
+// Used for inspections created before templates carried their own threshold
+const DEFAULT_PASS_THRESHOLD = 80;
+
+type ItemResult = NonNullable<UpdateInspection["checklist"]>[number];
+
+// Serializes object keys in a fixed order, so a signature still verifies after
+// the database has reordered the keys of the stored checklist
+const sortKeys = (_key: string, value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : value;
+
+// A signed room inspection that failed and has not been followed by a passing one
+const isOpenFailure = (inspection: Inspection) =>
+  inspection.kind === "room" && !!inspection.signedAt && inspection.passFail === false && !inspection.remediatedAt;
+
+// The last completed cleaning of the room, optionally only those finished before a moment
+const lastCleaning = (tasks: Task[], roomId: string, before?: Date) =>
+  tasks
+    .filter(task =>
+      task.type === "cleaning" &&
+      task.status === "completed" &&
+      task.roomId === roomId &&
+      task.assigneeId &&
+      task.finishedAt &&
+      (!before || new Date(task.finishedAt) <= before)
+    )
+    .sort((a, b) => new Date(b.finishedAt!).getTime() - new Date(a.finishedAt!).getTime())[0];
+
+const summarize = (inspections: Inspection[]): InspectionScoreBreakdown => {
+  const passed = inspections.filter(inspection => inspection.passFail === true).length;
+  const totalScore = inspections.reduce((sum, inspection) => sum + (inspection.score ?? 0), 0);
+  return {
+    inspections: inspections.length,
+    passed,
+    failed: inspections.length - passed,
+    passRate: inspections.length > 0 ? Math.round((passed / inspections.length) * 100) : 0,
+    avgScore: inspections.length > 0 ? Math.round(totalScore / inspections.length) : 0,
+  };
+};
+
+// Average score per day the inspections were signed, oldest first
+const scoreTrend = (inspections: Inspection[]): InspectionScoreTrendPoint[] =>
+  groupBy(inspections, inspection => toLocalDate(new Date(inspection.signedAt!)))
+    .map(([date, items]) => {
+      const { inspections: count, avgScore } = summarize(items);
+      return { date, inspections: count, avgScore };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+function groupBy<T>(items: T[], key: (item: T) => string | null | undefined): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const value = key(item);
+    if (value == null) continue;
+    groups.set(value, [...(groups.get(value) || []), item]);
+  }
+  return Array.from(groups.entries());
+}
+
+export class InspectionService {
+  appliesTo(template: InspectionTemplate, room?: Room): boolean {
+    if (template.kind === "process") return !room;
+    return !!room && (!template.roomType || template.roomType === room.type);
+  }
+
+  // Templates an inspector can pick for a new inspection of this kind and room
+  async listTemplatesFor(kind: string, roomId?: string): Promise<InspectionTemplate[]> {
+    const room = roomId ? await storage.getRoom(roomId) : undefined;
+    return (await storage.listInspectionTemplates({ kind }))
+      .filter(template => kind !== "room" || !roomId || this.appliesTo(template, room));
+  }
+
+  // Returns an error message when the template can't be used for the inspection
+  checkTemplate(template: InspectionTemplate, kind: string, room?: Room): string | null {
+    if (template.kind !== kind) {
+      return `Template ${template.name} is for ${template.kind} inspections`;
+    }
+    if (kind === "room" && !room) {
+      return "Room inspections need a room";
+    }
+    if (!this.appliesTo(template, room)) {
+      return `Template ${template.name} is for ${template.roomType} rooms`;
+    }
+    return null;
+  }
+
+  buildChecklist(template: InspectionTemplate): InspectionChecklistItem[] {
+    return (template.sections as InspectionTemplateSection[]).flatMap(section =>
+      section.items.map(item => ({
+        ...item,
+        sectionId: section.id,
+        section: section.title,
+        completed: false,
+      }))
+    );
+  }
+
+  // Older inspections saved whatever the page sent, so weights and critical
+  // flags are only trusted on checklists built from a template
+  getChecklist(inspection: Inspection): InspectionChecklistItem[] {
+    const items = Array.isArray(inspection.checklist) ? inspection.checklist as InspectionChecklistItem[] : [];
+    if (inspection.templateId) return items;
+    return items.map(item => ({ ...item, weight: 1, critical: false }));
+  }
+
+  // Only the inspector's results are taken from the client; titles, weights
+  // and critical flags stay as the template set them
+  applyResults(checklist: InspectionChecklistItem[], results: ItemResult[]): InspectionChecklistItem[] {
+    const byId = new Map(results.map(result => [result.id, result]));
+    return checklist.map(item => {
+      const result = byId.get(item.id);
+      return result ? { ...item, ...result } : item;
+    });
+  }
+
+  score(checklist: InspectionChecklistItem[], passThreshold: number | null): { score: number; passFail: boolean } {
+    const totalWeight = checklist.reduce((sum, item) => sum + (item.weight ?? 1), 0);
+    const passedWeight = checklist
+      .filter(item => item.passed === true)
+      .reduce((sum, item) => sum + (item.weight ?? 1), 0);
+    const score = totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 0;
+    const failedCritical = checklist.some(item => item.critical && item.passed !== true);
+
+    return {
+      score,
+      passFail: !failedCritical && score >= (passThreshold ?? DEFAULT_PASS_THRESHOLD),
+    };
+  }
+
+  // The fields to save for an inspector's update, with the score worked out
+  // from the checklist. Pass/fail is only settled once the inspection is signed.
+  prepareUpdate(inspection: Inspection, update: UpdateInspection): Partial<Inspection> {
+    const checklist = update.checklist
+      ? this.applyResults(this.getChecklist(inspection), update.checklist)
+      : this.getChecklist(inspection);
+    const { score, passFail } = this.score(checklist, inspection.passThreshold);
+    const signed = !!(update.signature || inspection.signedAt);
+
+    return {
+      ...(update.checklist && { checklist }),
+      score,
+      passFail: signed ? passFail : null,
+    };
+  }
+
+  // A signed inspection can only be changed after an admin unlocks it
+  isLocked(inspection: Inspection): boolean {
+    return !!inspection.signedAt && !inspection.unlockedAt;
+  }
+
+  // SHA-256 over what was signed, so a later change to the checklist, score
+  // or signature image no longer matches the stored hash
+  computeSignatureHash(checklist: unknown, score: number | null, signature: Buffer): string {
+    const signatureDigest = createHash("sha256").update(signature).digest("hex");
+    return createHash("sha256")
+      .update(JSON.stringify({ checklist, score, signature: signatureDigest }, sortKeys))
+      .digest("hex");
+  }
+
+  // Recomputes the hash from the inspection as stored and its signature image.
+  // Null when it has not been signed; false when the image can no longer be read.
+  async verifySignature(inspection: Inspection): Promise<boolean | null> {
+    if (!inspection.signedAt || !inspection.signatureHash) return null;
+    if (!inspection.signatureUrl) return false;
+
+    try {
+      const image = await new ObjectStorageService().readObjectEntity(inspection.signatureUrl);
+      return this.computeSignatureHash(inspection.checklist, inspection.score, image) === inspection.signatureHash;
+    } catch (error) {
+      console.error(`[Inspections] Could not read the signature of inspection ${inspection.id}:`, error);
+      return false;
+    }
+  }
+
+  async withSignatureCheck(inspection: Inspection): Promise<InspectionWithSignatureCheck> {
+    return { ...inspection, signatureValid: await this.verifySignature(inspection) };
+  }
+
+  // Stores the drawn signature and seals the inspection as it stands; signing
+  // again after an unlock locks it once more
+  async sign(inspection: Inspection, signature: string, signerId: string): Promise<Partial<Inspection>> {
+    const image = Buffer.from(signature.slice(signature.indexOf(",") + 1), "base64");
+    const objectStorageService = new ObjectStorageService();
+    const signatureUrl = await objectStorageService.uploadObjectEntity(image, "image/png", {
+      owner: signerId,
+      visibility: "private",
+    });
+
+    return {
+      signedAt: new Date(),
+      signatureUrl,
+      signatureHash: this.computeSignatureHash(inspection.checklist, inspection.score, image),
+      unlockedAt: null,
+      unlockedById: null,
+      unlockReason: null,
+    };
+  }
+
+  // The attendant who last cleaned the room, or else the one it is assigned to
+  private async findAttendant(roomId: string): Promise<string | null> {
+    const lastClean = lastCleaning(await storage.listTasks({ type: "cleaning", status: "completed" }), roomId);
+    if (lastClean) return lastClean.assigneeId;
+
+    const [assignment] = await storage.listRoomAssignments(roomId);
+    return assignment?.userId ?? null;
+  }
+
+  // Follows up a failed room inspection: each failed item becomes a re-clean
+  // task for the attendant, or a work order when it is a maintenance item, and
+  // the room goes back to dirty until a re-inspection passes
+  async remediate(inspection: Inspection, inspectorId: string): Promise<InspectionRemediation> {
+    const room = inspection.roomId ? await storage.getRoom(inspection.roomId) : undefined;
+    if (!room || !isOpenFailure(inspection)) {
+      return { tasks: [], workOrders: [] };
+    }
+
+    const inspector = await storage.getUser(inspectorId);
+    const failedItems = this.getChecklist(inspection).filter(item => item.passed === false);
+    const tasks: Task[] = [];
+    const workOrders: WorkOrder[] = [];
+
+    const attendantId = failedItems.some(item => !item.maintenance) ? await this.findAttendant(room.id) : null;
+    const attendant = attendantId ? await storage.getUser(attendantId) : undefined;
+
+    for (const item of failedItems) {
+      if (item.maintenance) {
+        const priority = item.critical ? "high" : "medium";
+        workOrders.push(await storage.createWorkOrder({
+          title: `${item.title} - Room ${room.number}`,
+          description: item.notes || `Failed on the inspection of room ${room.number}`,
+          priority,
+          roomId: room.id,
+          inspectionId: inspection.id,
+          slaDueAt: await slaService.computeSlaDueAt(priority),
+        }));
+        continue;
+      }
+
+      const task = await storage.createTask({
+        title: `Re-clean Room ${room.number}: ${item.title}`,
+        description: item.description ?? null,
+        type: "cleaning",
+        priority: "high",
+        roomId: room.id,
+        assigneeId: attendantId,
+        createdById: inspectorId,
+        inspectionId: inspection.id,
+        notes: item.notes ?? null,
+      });
+      tasks.push(task);
+      if (attendant) {
+        websocketService.broadcastTaskAssigned(task, attendant, room);
+      }
+    }
+
+    const result = await roomStatusService.changeStatus(room.id, "dirty", {
+      userId: inspectorId,
+      source: "inspection",
+      notes: `Failed inspection (${inspection.score ?? 0}%)`,
+    });
+    if (result && result.previousStatus !== "dirty") {
+      websocketService.broadcastRoomStatusChange(result.room, result.previousStatus || "unknown", inspector);
+    }
+
+    console.log(`[Inspections] Room ${room.number} failed inspection: ${tasks.length} re-clean tasks, ${workOrders.length} work orders`);
+    return { tasks, workOrders };
+  }
+
+  // A passed room inspection is the re-inspection that closes the room's open failures
+  async closeRemediation(reinspection: Inspection): Promise<Inspection[]> {
+    if (!reinspection.roomId || reinspection.kind !== "room" || !reinspection.passFail) return [];
+
+    const openFailures = (await storage.listInspections({ roomId: reinspection.roomId })).filter(isOpenFailure);
+    const closed: Inspection[] = [];
+    for (const failure of openFailures) {
+      closed.push(await storage.updateInspection(failure.id, {
+        reinspectionId: reinspection.id,
+        remediatedAt: new Date(),
+      }));
+    }
+    return closed;
+  }
+
+  // A failure re-signed as a pass after an unlock: its re-clean tasks are
+  // withdrawn and its open work orders cancelled
+  async withdrawRemediation(inspection: Inspection): Promise<InspectionRemediation> {
+    const remediation = await this.getRemediation(inspection);
+    const tasks: Task[] = [];
+    for (const task of remediation.tasks.filter(task => task.status !== "completed" && task.status !== "failed")) {
+      const deleted = await storage.softDeleteTask(task.id);
+      if (deleted) tasks.push(deleted);
+    }
+    const workOrders: WorkOrder[] = [];
+    for (const workOrder of remediation.workOrders.filter(workOrder => workOrder.status !== "completed" && workOrder.status !== "cancelled")) {
+      const cancelled = await storage.updateWorkOrder(workOrder.id, { status: "cancelled", closedAt: new Date() });
+      if (cancelled) workOrders.push(cancelled);
+    }
+    return { tasks, workOrders };
+  }
+
+  // A pass re-signed as a failure no longer closes the room's earlier failures
+  async reopenRemediation(reinspection: Inspection): Promise<Inspection[]> {
+    if (!reinspection.roomId) return [];
+
+    const closedByIt = (await storage.listInspections({ roomId: reinspection.roomId }))
+      .filter(inspection => inspection.reinspectionId === reinspection.id);
+    const reopened: Inspection[] = [];
+    for (const failure of closedByIt) {
+      reopened.push(await storage.updateInspection(failure.id, { reinspectionId: null, remediatedAt: null }));
+    }
+    return reopened;
+  }
+
+  async getRemediation(inspection: Inspection): Promise<InspectionRemediation> {
+    const tasks = (await storage.listTasks()).filter(task => task.inspectionId === inspection.id);
+    const workOrders = (await storage.listWorkOrders()).filter(workOrder => workOrder.inspectionId === inspection.id);
+    return { tasks, workOrders };
+  }
+
+  // Breaks the inspections started in the period down by checklist item,
+  // attendant, floor and room type
+  async getAnalytics(filters: { dateFrom: Date; dateTo?: Date }): Promise<InspectionAnalytics> {
+    const inspections = (await storage.listInspections()).filter(inspection =>
+      new Date(inspection.createdAt!) >= filters.dateFrom &&
+      (!filters.dateTo || new Date(inspection.createdAt!) < filters.dateTo)
+    );
+    const signed = inspections.filter(inspection => inspection.signedAt && inspection.passFail !== null);
+    const rooms = new Map((await storage.listRooms()).map(room => [room.id, room]));
+    const users = new Map((await storage.listUsers()).map(user => [user.id, user]));
+    // Archived tasks still say who cleaned the room before an inspection
+    const cleanings = await storage.listTasks({ type: "cleaning", status: "completed", includeDeleted: true });
+
+    const items = new Map<string, InspectionItemFailureRate>();
+    for (const inspection of signed) {
+      for (const item of this.getChecklist(inspection)) {
+        if (item.passed === undefined) continue;
+        const key = `${item.section ?? ""}|${item.title}`;
+        const entry = items.get(key) ?? {
+          title: item.title,
+          section: item.section ?? null,
+          critical: !!item.critical,
+          maintenance: !!item.maintenance,
+          checked: 0,
+          failed: 0,
+          failureRate: 0,
+        };
+        entry.checked++;
+        if (item.passed === false) entry.failed++;
+        entry.failureRate = Math.round((entry.failed / entry.checked) * 100);
+        items.set(key, entry);
+      }
+    }
+
+    const roomInspections = signed.filter(inspection => inspection.kind === "room" && inspection.roomId && rooms.has(inspection.roomId));
+    const roomOf = (inspection: Inspection) => rooms.get(inspection.roomId!)!;
+
+    return {
+      ...summarize(signed),
+      pending: inspections.length - signed.length,
+      items: Array.from(items.values())
+        .sort((a, b) => b.failureRate - a.failureRate || b.failed - a.failed || a.title.localeCompare(b.title)),
+      byAttendant: groupBy(roomInspections, inspection =>
+        lastCleaning(cleanings, inspection.roomId!, new Date(inspection.createdAt!))?.assigneeId
+      )
+        .map(([userId, group]) => ({ userId, name: users.get(userId)?.name || "Unknown", ...summarize(group) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      byFloor: groupBy(roomInspections, inspection => roomOf(inspection).floor?.toString())
+        .map(([floor, group]) => ({ floor: Number(floor), ...summarize(group), trend: scoreTrend(group) }))
+        .sort((a, b) => a.floor - b.floor),
+      byRoomType: groupBy(roomInspections, inspection => roomOf(inspection).type)
+        .map(([roomType, group]) => ({ roomType, ...summarize(group), trend: scoreTrend(group) }))
+        .sort((a, b) => a.roomType.localeCompare(b.roomType)),
+      trend: scoreTrend(signed),
+    };
+  }
+}
+
+export const inspectionService = new InspectionService();
@@ -0,0 +1,53 @@
+// Shift and reservation dates are the hotel's local calendar dates, stored as
+// YYYY-MM-DD. Without a timezone, local means the server's timezone.
+export function toLocalDate(date: Date, timeZone?: string | null): string {
+  if (timeZone) {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+  }
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Moves a YYYY-MM-DD date by whole calendar days
+export function addDaysToLocalDate(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// How far the timezone's wall clock is ahead of UTC at the given moment
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The moment a YYYY-MM-DD date and HH:MM time occur in the timezone
+export function localTimeToDate(date: string, time: string, timeZone?: string | null): Date {
+  if (!timeZone) {
+    return new Date(`${date}T${time}:00`);
+  }
+
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  const offset = timeZoneOffsetMs(new Date(wallClock), timeZone);
+  // The offset can differ on the other side of a daylight saving change
+  const corrected = timeZoneOffsetMs(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
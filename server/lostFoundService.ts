@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import type { LostFoundItem } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_HOLD_DAYS = 90;
+
+interface LostFoundWeeklySummary {
+  weekStart: string;
+  weekEnd: string;
+  loggedCount: number;
+  returnedCount: number;
+  clearedCount: number;
+  currentlyHeld: number;
+  expiringNextWeek: Array<{
+    id: string;
+    description: string;
+    storageArea: string | null;
+    expireAt: string;
+  }>;
+  generatedAt: Date;
+}
+
+const isHeld = (item: LostFoundItem) => item.status === "logged" || item.status === "stored";
+
+const inRange = (date: Date | string | null, from: Date, to: Date) =>
+  !!date && new Date(date) >= from && new Date(date) <= to;
+
+export class LostFoundService {
+  private static instance: LostFoundService;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.scheduleChecks();
+  }
+
+  public static getInstance(): LostFoundService {
+    if (!LostFoundService.instance) {
+      LostFoundService.instance = new LostFoundService();
+    }
+    return LostFoundService.instance;
+  }
+
+  private scheduleChecks(): void {
+    console.log(`[LostFound] Checking hold periods every ${CHECK_INTERVAL_MS / 60000} minutes`);
+
+    this.checkTimer = setInterval(async () => {
+      try {
+        await this.clearExpiredItems();
+        await this.runWeeklySummaryIfDue();
+      } catch (error) {
+        console.error(`[LostFound] Error during scheduled check:`, error);
+      }
+    }, CHECK_INTERVAL_MS);
+  }
+
+  // Default end of the hold period for an item logged at `from`
+  public computeExpireAt(from: Date = new Date()): Date {
+    return new Date(from.getTime() + DEFAULT_HOLD_DAYS * DAY_MS);
+  }
+
+  public async clearExpiredItems(now: Date = new Date()): Promise<number> {
+    const expiring = await storage.listLostFoundItems({ expiringBefore: now });
+    const expired = expiring.filter(isHeld);
+
+    for (const item of expired) {
+      await storage.updateLostFoundItem(item.id, {
+        status: "expired_cleared",
+        clearedAt: now,
+      });
+    }
+
+    if (expired.length > 0) {
+      console.log(`[LostFound] Cleared ${expired.length} items past their hold period`);
+    }
+
+    return expired.length;
+  }
+
+  public async generateWeeklySummary(now: Date = new Date()): Promise<LostFoundWeeklySummary> {
+    const weekStart = new Date(now.getTime() - 7 * DAY_MS);
+    const nextWeek = new Date(now.getTime() + 7 * DAY_MS);
+    const items = await storage.listLostFoundItems();
+
+    return {
+      weekStart: weekStart.toISOString(),
+      weekEnd: now.toISOString(),
+      loggedCount: items.filter(item => inRange(item.createdAt, weekStart, now)).length,
+      returnedCount: items.filter(item => inRange(item.returnedAt, weekStart, now)).length,
+      clearedCount: items.filter(item => inRange(item.clearedAt, weekStart, now)).length,
+      currentlyHeld: items.filter(isHeld).length,
+      expiringNextWeek: items
+        .filter(item => isHeld(item) && inRange(item.expireAt, now, nextWeek))
+        .map(item => ({
+          id: item.id,
+          description: item.description,
+          storageArea: item.storageArea,
+          expireAt: new Date(item.expireAt!).toISOString(),
+        })),
+      generatedAt: now,
+    };
+  }
+
+  private async runWeeklySummaryIfDue(now: Date = new Date()): Promise<void> {
+    const lastRun = await this.getLastWeeklySummaryRun();
+    if (lastRun?.createdAt && now.getTime() - new Date(lastRun.createdAt).getTime() < 7 * DAY_MS) {
+      return;
+    }
+
+    const summary = await this.generateWeeklySummary(now);
+    await storage.createReportRun({
+      type: "lost_found_weekly",
+      params: { weekStart: summary.weekStart, weekEnd: summary.weekEnd },
+      results: summary,
+    });
+
+    console.log(`[LostFound] Weekly summary saved for week ending ${summary.weekEnd}`);
+  }
+
+  private async getLastWeeklySummaryRun() {
+    const reports = await storage.listReportRuns();
+    return reports
+      .filter(report => report.type === "lost_found_weekly")
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())[0];
+  }
+
+  // Latest saved weekly summary, or a live one if the first has not been saved yet
+  public async getLastWeeklySummary(): Promise<LostFoundWeeklySummary> {
+    const lastRun = await this.getLastWeeklySummaryRun();
+    return lastRun ? lastRun.results as LostFoundWeeklySummary : this.generateWeeklySummary();
+  }
+
+  public cleanup(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const lostFoundService = LostFoundService.getInstance();
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
 import { verifyToken, hasRole, type JWTPayload } from "./auth";
 
 export interface AuthenticatedRequest extends Request {
@@ -42,3 +43,23 @@ export function requireAuth(req: AuthenticatedRequest, res: Response, next: Next
   }
   next();
 }
+
+// Guards endpoints called by other systems rather than staff. They send a
+// shared secret in X-Webhook-Secret instead of a user token, and the endpoint
+// stays off until the secret is set in the named environment variable.
+export function requireWebhookSecret(envVar: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const secret = process.env[envVar];
+    if (!secret) {
+      return res.status(503).json({ error: "Webhook is not configured" });
+    }
+
+    const provided = Buffer.from(req.get("X-Webhook-Secret") || "");
+    const expected = Buffer.from(secret);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return res.status(401).json({ error: "Invalid webhook secret" });
+    }
+
+    next();
+  };
+}
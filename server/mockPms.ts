@@ -0,0 +1,71 @@
+import { Router } from "express";
+import type { PmsGuestEvent, RoomStatus } from "@shared/schema";
+
+interface MockPmsRoom {
+  status: RoomStatus;
+  changedAt: string;
+}
+
+// A stand-in PMS served by this app under /mock-pms when PMS_ADAPTER=mock,
+// so the integration can be exercised without an external system. It keeps
+// the room statuses it is sent, can be told to fail requests to try retries,
+// and posts guest events to our webhook the way a real PMS would.
+export class MockPms {
+  private rooms = new Map<string, MockPmsRoom>();
+  private failuresLeft = 0;
+
+  createRouter(): Router {
+    const router = Router();
+
+    router.put("/rooms/:number/status", (req, res) => {
+      if (this.failuresLeft > 0) {
+        this.failuresLeft--;
+        return res.status(503).json({ error: "Mock PMS is unavailable" });
+      }
+
+      const { status, changedAt } = req.body ?? {};
+      if (!status) {
+        return res.status(400).json({ error: "Status is required" });
+      }
+
+      this.rooms.set(req.params.number, { status, changedAt });
+      res.json({ roomNumber: req.params.number, status, changedAt });
+    });
+
+    router.get("/rooms", (_req, res) => {
+      res.json(Object.fromEntries(this.rooms));
+    });
+
+    // Fails the next requests with 503, as an outage would
+    router.post("/outage", (req, res) => {
+      this.failuresLeft = Number(req.body?.requests) || 1;
+      res.json({ failuresLeft: this.failuresLeft });
+    });
+
+    router.post("/guests/:number/:event(check-in|check-out)", async (req, res) => {
+      const event: PmsGuestEvent = {
+        ...req.body,
+        type: req.params.event === "check-in" ? "check_in" : "check_out",
+        roomNumber: req.params.number,
+      };
+
+      try {
+        const response = await fetch(`${req.protocol}://${req.get("host")}/api/pms/webhook`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Secret": process.env.PMS_WEBHOOK_SECRET || "",
+          },
+          body: JSON.stringify({ events: [event] }),
+        });
+        res.status(response.status).json(await response.json());
+      } catch (error: any) {
+        res.status(502).json({ error: error.message });
+      }
+    });
+
+    return router;
+  }
+}
+
+export const mockPms = new MockPms();
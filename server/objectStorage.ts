@@ -154,6 +154,31 @@ export class ObjectStorageService {
     });
   }
 
+  // Stores content the server received itself as an object entity and returns
+  // its normalized path.
+  async uploadObjectEntity(
+    data: Buffer,
+    contentType: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<string> {
+    const objectId = randomUUID();
+    const fullPath = `${this.getPrivateObjectDir()}/uploads/${objectId}`;
+
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+    await objectFile.save(data, { contentType, resumable: false });
+    await setObjectAclPolicy(objectFile, aclPolicy);
+
+    return `/objects/uploads/${objectId}`;
+  }
+
+  // Reads an object entity's content, e.g. to embed an image in a document.
+  async readObjectEntity(objectPath: string): Promise<Buffer> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const [data] = await objectFile.download();
+    return data;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -0,0 +1,202 @@
+import { storage } from "./storage";
+import {
+  reservationImportSchema,
+  type OccupancyImportResult, type OccupancyState, type Reservation, type RoomOccupancy
+} from "@shared/schema";
+
+// CSV headers as PMS exports name them, after lowercasing and dropping
+// spaces and punctuation, mapped to reservation import fields
+const CSV_HEADERS: Record<string, string> = {
+  room: "roomNumber",
+  roomnumber: "roomNumber",
+  roomno: "roomNumber",
+  guest: "guestName",
+  guestname: "guestName",
+  name: "guestName",
+  arrival: "arrivalDate",
+  arrivaldate: "arrivalDate",
+  checkin: "arrivalDate",
+  departure: "departureDate",
+  departuredate: "departureDate",
+  checkout: "departureDate",
+  externalid: "externalId",
+  reservationid: "externalId",
+  confirmation: "externalId",
+  confirmationnumber: "externalId",
+  status: "status",
+  dnd: "doNotDisturb",
+  donotdisturb: "doNotDisturb",
+};
+
+const TRUE_VALUES = ["yes", "y", "true", "1"];
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas,
+// doubled quotes and line breaks
+function splitCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+export class OccupancyService {
+  // Turns a CSV export into reservation rows. Unknown columns are ignored;
+  // empty cells are left out so imports do not overwrite with blanks.
+  parseCsv(content: string): Array<Record<string, unknown>> {
+    const [header = [], ...lines] = splitCsv(content);
+    const fields = header.map(name => CSV_HEADERS[name.toLowerCase().replace(/[^a-z]/g, "")]);
+    if (!fields.includes("roomNumber")) {
+      throw new Error("The file has no room number column");
+    }
+
+    return lines.map(values => {
+      const row: Record<string, unknown> = {};
+      fields.forEach((field, index) => {
+        const value = values[index]?.trim();
+        if (!field || !value) return;
+
+        if (field === "doNotDisturb") {
+          row[field] = TRUE_VALUES.includes(value.toLowerCase());
+        } else if (field === "status") {
+          row[field] = value.toLowerCase().replace(/[\s-]+/g, "_");
+        } else {
+          row[field] = value;
+        }
+      });
+      return row;
+    });
+  }
+
+  // Accepts either a list of reservations or an object with a reservations list
+  parseJson(content: string): unknown[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { reservations?: unknown })?.reservations;
+    if (!Array.isArray(rows)) {
+      throw new Error("Expected a list of reservations");
+    }
+    return rows;
+  }
+
+  // Creates or updates a reservation per row. Rows are matched to existing
+  // reservations by external id, or by room and arrival date when the PMS
+  // sends none. Invalid rows are reported by their 1-based position and do
+  // not stop the rest of the import.
+  async importReservations(rows: unknown[], source: string): Promise<OccupancyImportResult> {
+    const roomIds = new Map((await storage.listRooms()).map(room => [room.number, room.id]));
+    const result: OccupancyImportResult = { created: 0, updated: 0, errors: [] };
+
+    for (let index = 0; index < rows.length; index++) {
+      const parsed = reservationImportSchema.safeParse(rows[index]);
+      if (!parsed.success) {
+        const [issue] = parsed.error.issues;
+        const field = issue.path.join(".");
+        result.errors.push({ row: index + 1, error: field ? `${field}: ${issue.message}` : issue.message });
+        continue;
+      }
+
+      const { roomNumber, ...values } = parsed.data;
+      const roomId = roomIds.get(roomNumber);
+      if (!roomId) {
+        result.errors.push({ row: index + 1, error: `Room ${roomNumber} not found` });
+        continue;
+      }
+
+      const [existing] = values.externalId
+        ? await storage.listReservations({ externalId: values.externalId })
+        : (await storage.listReservations({ roomId }))
+          .filter(reservation => !reservation.externalId && reservation.arrivalDate === values.arrivalDate);
+
+      if (existing) {
+        await storage.updateReservation(existing.id, { ...values, roomId, source });
+        result.updated++;
+      } else {
+        await storage.createReservation({ ...values, roomId, source });
+        result.created++;
+      }
+    }
+
+    console.log(`[Occupancy] Imported from ${source}: ${result.created} created, ${result.updated} updated, ${result.errors.length} rejected`);
+    return result;
+  }
+
+  async hasReservations(): Promise<boolean> {
+    return (await storage.listReservations()).length > 0;
+  }
+
+  // Every room's occupancy on the date. Cancelled reservations are ignored,
+  // and a guest checked out early no longer stays over.
+  async getRoomOccupancy(date: string): Promise<RoomOccupancy[]> {
+    const reservations = (await storage.listReservations({ dateFrom: date, dateTo: date }))
+      .filter(reservation => reservation.status !== "cancelled");
+
+    return (await storage.listRooms())
+      .sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }))
+      .map(room => {
+        const stays = reservations.filter(reservation => reservation.roomId === room.id);
+        const departing = stays.find(reservation => reservation.departureDate === date);
+        const arriving = stays.find(reservation => reservation.arrivalDate === date);
+        const staying = stays.find(reservation =>
+          reservation.arrivalDate < date && reservation.departureDate > date && reservation.status !== "checked_out");
+
+        let state: OccupancyState = "vacant";
+        if (staying) {
+          state = "stayover";
+        } else if (departing && arriving) {
+          state = "turnover";
+        } else if (departing) {
+          state = "departure";
+        } else if (arriving) {
+          state = "arrival";
+        }
+
+        const tonight: Reservation | undefined = staying || arriving;
+        return {
+          roomId: room.id,
+          roomNumber: room.number,
+          state,
+          reservationId: tonight?.id ?? null,
+          guestName: (tonight || departing)?.guestName ?? null,
+          doNotDisturb: !!tonight?.doNotDisturb,
+        };
+      });
+  }
+}
+
+export const occupancyService = new OccupancyService();
@@ -0,0 +1,485 @@
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { inspectionService } from "./inspectionService";
+import { toLocalDate } from "./localDate";
+import type { SlaComplianceReport } from "./slaService";
+import {
+  propertyBrandingSchema, type DailyResetReport, type Inspection, type InspectionAnalytics, type PropertyBranding,
+  type ReportsOverview
+} from "@shared/schema";
+
+const PROPERTY_BRANDING_KEY = "property_branding";
+
+const DEFAULT_BRANDING: PropertyBranding = {
+  name: process.env.HOTEL_NAME || "Hotel Management System",
+  address: "",
+  accentColor: "#1d4ed8",
+  logo: null,
+};
+
+const MUTED = "#6b7280";
+const TEXT = "#111827";
+const BORDER = "#d1d5db";
+const PASS = "#15803d";
+const FAIL = "#b91c1c";
+
+const PHOTO_SIZE: [number, number] = [96, 72];
+const MAX_PHOTOS_PER_ITEM = 5;
+
+type Doc = PDFKit.PDFDocument;
+
+interface TableColumn {
+  header: string;
+  // Share of the content width
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatDateTime = (value: Date | string) => {
+  const date = new Date(value);
+  return `${toLocalDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const labelize = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, letter => letter.toUpperCase());
+
+// Only PNG and JPEG can be embedded; anything else is left out of the document
+const isEmbeddableImage = (data: Buffer) =>
+  (data[0] === 0x89 && data.toString("ascii", 1, 4) === "PNG") || (data[0] === 0xff && data[1] === 0xd8);
+
+export class PdfService {
+  public async getBranding(): Promise<PropertyBranding> {
+    const setting = await storage.getSetting(PROPERTY_BRANDING_KEY);
+    return setting ? propertyBrandingSchema.parse(setting.value) : DEFAULT_BRANDING;
+  }
+
+  public async updateBranding(branding: PropertyBranding): Promise<PropertyBranding> {
+    await storage.upsertSetting(PROPERTY_BRANDING_KEY, branding);
+    console.log(`[PDF] Property branding updated`);
+    return branding;
+  }
+
+  // An inspection as signed: checklist with photo thumbnails, score, and the signature with its seal
+  public async renderInspection(inspection: Inspection): Promise<Buffer> {
+    const room = inspection.roomId ? await storage.getRoom(inspection.roomId) : undefined;
+    const inspector = await storage.getUser(inspection.inspectorId);
+    const template = inspection.templateId ? await storage.getInspectionTemplate(inspection.templateId) : undefined;
+    const unlockedBy = inspection.unlockedById ? await storage.getUser(inspection.unlockedById) : undefined;
+    const checklist = inspectionService.getChecklist(inspection);
+
+    const title = inspection.kind === "room" ? `Room Inspection${room ? ` - Room ${room.number}` : ""}` : "Process Inspection";
+    const { doc, finish } = await this.createDocument(title, template?.name ?? (room ? room.type : ""));
+    const branding = await this.getBranding();
+
+    this.keyValues(doc, [
+      ["Inspector", inspector?.name ?? "Unknown"],
+      ["Started", formatDateTime(inspection.createdAt!)],
+      ["Signed", inspection.signedAt ? formatDateTime(inspection.signedAt) : "Not signed"],
+      ["Score", inspection.score !== null ? `${inspection.score}%` : "N/A"],
+      ["Pass threshold", `${inspection.passThreshold ?? 80}%`],
+      ["Result", inspection.passFail === null ? "Pending" : inspection.passFail ? "Passed" : "Failed"],
+    ]);
+
+    if (inspection.unlockedAt) {
+      doc.moveDown(0.5);
+      doc.font("Helvetica-Oblique").fontSize(9).fillColor(FAIL).text(
+        `Unlocked for changes by ${unlockedBy?.name ?? "an administrator"} on ${formatDateTime(inspection.unlockedAt)}: ` +
+        `${inspection.unlockReason}. The results may differ from what was signed.`
+      );
+    }
+
+    this.heading(doc, "Checklist", branding);
+    let section: string | undefined;
+    for (const item of checklist) {
+      if (item.section && item.section !== section) {
+        section = item.section;
+        this.ensureSpace(doc, 40);
+        doc.moveDown(0.3);
+        doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT).text(section);
+        doc.moveDown(0.2);
+      }
+
+      const status = item.passed === true ? "PASS" : item.passed === false ? "FAIL" : "-";
+      const flags = [item.critical && "Critical", item.maintenance && "Maintenance", (item.weight ?? 1) !== 1 && `x${item.weight}`]
+        .filter(Boolean)
+        .join(", ");
+      this.ensureSpace(doc, 30);
+      const top = doc.y;
+      const left = doc.page.margins.left;
+      doc.font("Helvetica-Bold").fontSize(9)
+        .fillColor(item.passed === true ? PASS : item.passed === false ? FAIL : MUTED)
+        .text(status, left, top, { width: 40 });
+      doc.font("Helvetica").fontSize(10).fillColor(TEXT)
+        .text(`${item.title}${flags ? `  (${flags})` : ""}`, left + 45, top, { width: this.contentWidth(doc) - 45 });
+      if (item.notes) {
+        doc.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED)
+          .text(item.notes, left + 45, doc.y, { width: this.contentWidth(doc) - 45 });
+      }
+      await this.photos(doc, item.photos ?? [], left + 45);
+      doc.x = left;
+      doc.moveDown(0.4);
+    }
+
+    this.heading(doc, "Signature", branding);
+    if (inspection.signedAt) {
+      const signature = inspection.signatureUrl ? await this.loadImage(inspection.signatureUrl) : null;
+      this.ensureSpace(doc, 110);
+      if (signature) {
+        doc.image(signature, doc.page.margins.left, doc.y, { fit: [200, 70] });
+        doc.y += 75;
+      }
+      const lineY = doc.y;
+      doc.moveTo(doc.page.margins.left, lineY).lineTo(doc.page.margins.left + 220, lineY).strokeColor(BORDER).stroke();
+      doc.x = doc.page.margins.left;
+      doc.y = lineY + 4;
+      doc.font("Helvetica").fontSize(9).fillColor(TEXT)
+        .text(`Signed by ${inspector?.name ?? "Unknown"} on ${formatDateTime(inspection.signedAt)}`);
+      if (inspection.signatureHash) {
+        doc.font("Courier").fontSize(8).fillColor(MUTED).text(`SHA-256 ${inspection.signatureHash}`);
+        const signatureValid = await inspectionService.verifySignature(inspection);
+        doc.font("Helvetica-Bold").fontSize(9).fillColor(signatureValid ? PASS : FAIL).text(
+          signatureValid ? "Signature verified: the results match what was signed." : "Signature check failed: the results no longer match what was signed."
+        );
+      }
+    } else {
+      doc.font("Helvetica-Oblique").fontSize(10).fillColor(MUTED).text("This inspection has not been signed.");
+    }
+
+    return finish();
+  }
+
+  public async renderDailyResetReport(report: DailyResetReport): Promise<Buffer> {
+    const { doc, finish } = await this.createDocument(
+      "Daily Reset Report",
+      `${report.date} - reset at ${formatDateTime(report.resetTime)}`
+    );
+    const branding = await this.getBranding();
+    const { roomMetrics, tasksSummary, workOrdersSummary } = report;
+
+    this.heading(doc, "Rooms", branding);
+    this.keyValues(doc, [
+      ["Total rooms", String(roomMetrics.totalRooms)],
+      ["Ready", String(roomMetrics.readyRooms)],
+      ["Clean & Inspected", String(roomMetrics.cleanInspectedRooms)],
+      ["Dirty", String(roomMetrics.dirtyRooms)],
+      ["Roll", String(roomMetrics.rollRooms)],
+      ["Out", String(roomMetrics.outRooms)],
+      ["Maintenance", String(roomMetrics.maintenanceRooms)],
+      ["Out of order", String(roomMetrics.outOfOrderRooms)],
+    ]);
+
+    this.heading(doc, "Tasks and Work Orders", branding);
+    this.keyValues(doc, [
+      ["Tasks completed", `${tasksSummary.completedTasks} of ${tasksSummary.totalTasks}`],
+      ["Tasks pending", String(tasksSummary.pendingTasks)],
+      ["Work orders completed", `${workOrdersSummary.completedWorkOrders} of ${workOrdersSummary.totalWorkOrders}`],
+      ["Work orders pending", String(workOrdersSummary.pendingWorkOrders)],
+    ]);
+
+    this.heading(doc, "Room Status at Close", branding);
+    this.table(
+      doc,
+      [
+        { header: "Room", width: 0.14 },
+        { header: "Final status", width: 0.24 },
+        { header: "Assigned to", width: 0.3 },
+        { header: "Tasks done", width: 0.16, align: "right" },
+        { header: "Open comments", width: 0.16, align: "right" },
+      ],
+      [...report.roomStatuses]
+        .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }))
+        .map(room => [
+          room.roomNumber,
+          labelize(room.finalStatus),
+          room.assignedUser ?? "-",
+          String(room.completedTasks),
+          String(room.openComments),
+        ]),
+      branding
+    );
+
+    return finish();
+  }
+
+  // The Reports page overview with SLA compliance and inspection results for the same period
+  public async renderReportsOverview(report: {
+    days: number;
+    department: string;
+    overview: ReportsOverview;
+    slaCompliance: SlaComplianceReport;
+    inspections: InspectionAnalytics;
+  }): Promise<Buffer> {
+    const { overview, slaCompliance, inspections } = report;
+    const period = report.days === 1 ? "Today" : `Last ${report.days} days`;
+    const { doc, finish } = await this.createDocument(
+      "Operations Report",
+      `${period} - ${report.department === "all" ? "All departments" : labelize(report.department)}`
+    );
+    const branding = await this.getBranding();
+
+    this.heading(doc, "Overview", branding);
+    this.keyValues(doc, [
+      ["Total rooms", String(overview.totalRooms)],
+      ["Tasks completed", `${overview.tasksCompleted} (${overview.completionRate}% completion rate)`],
+      ["Avg working time", `${overview.avgCleaningTime} min over ${overview.timedTasks} tasks, excluding pauses`],
+      [
+        "Previous period",
+        overview.previousAvgCleaningTime !== null
+          ? `${overview.previousAvgCleaningTime} min${overview.avgCleaningTimeChange !== null ? ` (${overview.avgCleaningTimeChange > 0 ? "+" : ""}${overview.avgCleaningTimeChange}%)` : ""}`
+          : "No timed tasks",
+      ],
+      ["Room attendants", String(overview.activeStaff)],
+    ]);
+
+    this.heading(doc, "Avg Time by Room Type", branding);
+    this.table(
+      doc,
+      [{ header: "Room type", width: 0.6 }, { header: "Tasks", width: 0.2, align: "right" }, { header: "Avg minutes", width: 0.2, align: "right" }],
+      overview.cleaningTimeByRoomType.map(row => [row.roomType, String(row.taskCount), String(row.avgMinutes)]),
+      branding
+    );
+
+    this.heading(doc, "Avg Time by Staff Member", branding);
+    this.table(
+      doc,
+      [{ header: "Staff member", width: 0.6 }, { header: "Tasks", width: 0.2, align: "right" }, { header: "Avg minutes", width: 0.2, align: "right" }],
+      overview.cleaningTimeByAttendant.map(row => [row.name, String(row.taskCount), String(row.avgMinutes)]),
+      branding
+    );
+
+    this.heading(doc, "Work Order SLA Compliance", branding);
+    this.keyValues(doc, [
+      ["Compliance rate", `${slaCompliance.complianceRate}%`],
+      ["Avg resolution time", `${slaCompliance.avgResolutionMins} min`],
+      ["Open at risk", String(slaCompliance.openAtRisk)],
+      ["Open breached", String(slaCompliance.openBreached)],
+    ]);
+    this.table(
+      doc,
+      [
+        { header: "Priority", width: 0.28 },
+        { header: "Met SLA", width: 0.18, align: "right" },
+        { header: "Missed SLA", width: 0.18, align: "right" },
+        { header: "Open & breached", width: 0.18, align: "right" },
+        { header: "Compliance", width: 0.18, align: "right" },
+      ],
+      slaCompliance.byPriority.map(row => [
+        labelize(row.priority),
+        String(row.metSla),
+        String(row.missedSla),
+        String(row.openBreached),
+        `${row.complianceRate}%`,
+      ]),
+      branding
+    );
+
+    this.heading(doc, "Inspections", branding);
+    this.keyValues(doc, [
+      ["Signed inspections", `${inspections.inspections} (${inspections.pending} not signed)`],
+      ["Pass rate", `${inspections.passRate}%`],
+      ["Avg score", `${inspections.avgScore}%`],
+    ]);
+    this.table(
+      doc,
+      [
+        { header: "Most failed items", width: 0.55 },
+        { header: "Checked", width: 0.15, align: "right" },
+        { header: "Failed", width: 0.15, align: "right" },
+        { header: "Failure rate", width: 0.15, align: "right" },
+      ],
+      inspections.items
+        .filter(item => item.failed > 0)
+        .slice(0, 10)
+        .map(item => [
+          item.section ? `${item.section}: ${item.title}` : item.title,
+          String(item.checked),
+          String(item.failed),
+          `${item.failureRate}%`,
+        ]),
+      branding
+    );
+
+    return finish();
+  }
+
+  // Starts a branded document and returns a function that adds page footers
+  // and resolves with the finished PDF
+  private async createDocument(title: string, subtitle: string): Promise<{ doc: Doc; finish: () => Promise<Buffer> }> {
+    const branding = await this.getBranding();
+    const doc = new PDFDocument({
+      size: "LETTER",
+      margin: 50,
+      bufferPages: true,
+      info: { Title: `${branding.name} - ${title}`, Author: branding.name },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    this.header(doc, branding, title, subtitle);
+
+    const finish = () => {
+      const generated = `Generated ${formatDateTime(new Date())}`;
+      const range = doc.bufferedPageRange();
+      for (let index = range.start; index < range.start + range.count; index++) {
+        doc.switchToPage(index);
+        // Write inside the bottom margin without starting a new page
+        const bottomMargin = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        const y = doc.page.height - 35;
+        doc.font("Helvetica").fontSize(8).fillColor(MUTED);
+        doc.text(`${branding.name} - ${title} - ${generated}`, doc.page.margins.left, y, { width: this.contentWidth(doc), align: "left", lineBreak: false });
+        doc.text(`Page ${index - range.start + 1} of ${range.count}`, doc.page.margins.left, y, { width: this.contentWidth(doc), align: "right", lineBreak: false });
+        doc.page.margins.bottom = bottomMargin;
+      }
+      doc.end();
+      return done;
+    };
+
+    return { doc, finish };
+  }
+
+  private header(doc: Doc, branding: PropertyBranding, title: string, subtitle: string) {
+    const left = doc.page.margins.left;
+    doc.rect(0, 0, doc.page.width, 8).fill(branding.accentColor);
+
+    let textLeft = left;
+    if (branding.logo) {
+      try {
+        doc.image(branding.logo, left, 30, { fit: [90, 45] });
+        textLeft = left + 100;
+      } catch (error) {
+        console.error(`[PDF] Could not draw the property logo:`, error);
+      }
+    }
+    doc.font("Helvetica-Bold").fontSize(14).fillColor(TEXT).text(branding.name, textLeft, 34);
+    if (branding.address) {
+      doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(branding.address, textLeft);
+    }
+
+    doc.x = left;
+    doc.y = 90;
+    doc.font("Helvetica-Bold").fontSize(20).fillColor(branding.accentColor).text(title);
+    if (subtitle) {
+      doc.font("Helvetica").fontSize(10).fillColor(MUTED).text(subtitle);
+    }
+    doc.moveDown(0.5);
+    doc.moveTo(left, doc.y).lineTo(left + this.contentWidth(doc), doc.y).strokeColor(BORDER).stroke();
+    doc.moveDown(0.8);
+  }
+
+  private heading(doc: Doc, text: string, branding: PropertyBranding) {
+    this.ensureSpace(doc, 60);
+    doc.x = doc.page.margins.left;
+    doc.moveDown(0.8);
+    doc.font("Helvetica-Bold").fontSize(13).fillColor(branding.accentColor).text(text);
+    doc.moveDown(0.3);
+  }
+
+  private keyValues(doc: Doc, rows: Array<[string, string]>) {
+    const left = doc.page.margins.left;
+    const labelWidth = 140;
+    for (const [label, value] of rows) {
+      this.ensureSpace(doc, 16);
+      const top = doc.y;
+      doc.font("Helvetica").fontSize(10).fillColor(MUTED).text(label, left, top, { width: labelWidth });
+      doc.font("Helvetica").fontSize(10).fillColor(TEXT).text(value, left + labelWidth, top, { width: this.contentWidth(doc) - labelWidth });
+      doc.y = Math.max(doc.y, top + 14);
+    }
+    doc.x = left;
+  }
+
+  private table(doc: Doc, columns: TableColumn[], rows: string[][], branding: PropertyBranding) {
+    const left = doc.page.margins.left;
+    const width = this.contentWidth(doc);
+    const cellPadding = 4;
+    const widths = columns.map(column => column.width * width);
+
+    const drawRow = (cells: string[], header: boolean) => {
+      doc.font(header ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+      const height = Math.max(...cells.map((cell, index) =>
+        doc.heightOfString(cell, { width: widths[index] - cellPadding * 2 })
+      )) + cellPadding * 2;
+      this.ensureSpace(doc, height);
+
+      const top = doc.y;
+      if (header) {
+        doc.rect(left, top, width, height).fill(branding.accentColor);
+      }
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.fillColor(header ? "#ffffff" : TEXT)
+          .text(cell, x + cellPadding, top + cellPadding, { width: widths[index] - cellPadding * 2, align: columns[index].align ?? "left" });
+        x += widths[index];
+      });
+      doc.moveTo(left, top + height).lineTo(left + width, top + height).strokeColor(BORDER).stroke();
+      doc.x = left;
+      doc.y = top + height;
+      return height;
+    };
+
+    if (rows.length === 0) {
+      doc.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED).text("No data for this period.", left);
+      return;
+    }
+
+    drawRow(columns.map(column => column.header), true);
+    for (const row of rows) {
+      if (doc.y + 20 > this.bottom(doc)) {
+        doc.addPage();
+        drawRow(columns.map(column => column.header), true);
+      }
+      drawRow(row, false);
+    }
+  }
+
+  // Thumbnails of an item's photos in one row; photos that can't be loaded are skipped
+  private async photos(doc: Doc, photos: string[], left: number) {
+    const images: Buffer[] = [];
+    for (const photo of photos.slice(0, MAX_PHOTOS_PER_ITEM)) {
+      const image = await this.loadImage(photo);
+      if (image) images.push(image);
+    }
+    if (images.length === 0) return;
+
+    this.ensureSpace(doc, PHOTO_SIZE[1] + 8);
+    const top = doc.y + 4;
+    images.forEach((image, index) => {
+      doc.image(image, left + index * (PHOTO_SIZE[0] + 6), top, { fit: PHOTO_SIZE });
+    });
+    doc.y = top + PHOTO_SIZE[1];
+  }
+
+  private async loadImage(path: string): Promise<Buffer | null> {
+    try {
+      const objectStorageService = new ObjectStorageService();
+      const data = await objectStorageService.readObjectEntity(objectStorageService.normalizeObjectEntityPath(path));
+      return isEmbeddableImage(data) ? data : null;
+    } catch (error) {
+      console.error(`[PDF] Could not load image ${path}:`, error);
+      return null;
+    }
+  }
+
+  private contentWidth(doc: Doc): number {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  }
+
+  private bottom(doc: Doc): number {
+    return doc.page.height - doc.page.margins.bottom;
+  }
+
+  private ensureSpace(doc: Doc, height: number) {
+    if (doc.y + height > this.bottom(doc)) {
+      doc.addPage();
+    }
+  }
+}
+
+export const pdfService = new PdfService();
@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { addDaysToLocalDate, toLocalDate } from "./localDate";
+import type { PMInstance, PMTemplate } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+type ScheduleResult = "created" | "rescheduled" | null;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export class PMScheduler {
+  private static instance: PMScheduler;
+  private runTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.scheduleRuns();
+  }
+
+  public static getInstance(): PMScheduler {
+    if (!PMScheduler.instance) {
+      PMScheduler.instance = new PMScheduler();
+    }
+    return PMScheduler.instance;
+  }
+
+  private scheduleRuns(): void {
+    console.log(`[PMScheduler] Generating PM instances every ${RUN_INTERVAL_MS / 60000} minutes`);
+
+    this.runTimer = setInterval(() => {
+      this.generateInstances().catch(error => {
+        console.error(`[PMScheduler] Error generating PM instances:`, error);
+      });
+    }, RUN_INTERVAL_MS);
+  }
+
+  // Makes sure every template has exactly one open instance per room or asset
+  public async generateInstances(now: Date = new Date()): Promise<{ created: number; rescheduled: number }> {
+    const templates = await storage.listPMTemplates();
+    let created = 0;
+    let rescheduled = 0;
+
+    for (const template of templates) {
+      const result = await this.generateForTemplate(template, now);
+      created += result.created;
+      rescheduled += result.rescheduled;
+    }
+
+    if (created > 0 || rescheduled > 0) {
+      console.log(`[PMScheduler] Created ${created} and rescheduled ${rescheduled} PM instances`);
+    }
+
+    return { created, rescheduled };
+  }
+
+  public async generateForTemplate(template: PMTemplate, now: Date = new Date()): Promise<{ created: number; rescheduled: number }> {
+    const instances = await storage.listPMInstances();
+    let created = 0;
+    let rescheduled = 0;
+
+    for (const roomId of await this.getTargetRoomIds(template)) {
+      const result = await this.scheduleNext(template, roomId, instances, now);
+      if (result === "created") created++;
+      if (result === "rescheduled") rescheduled++;
+    }
+
+    return { created, rescheduled };
+  }
+
+  // Asset templates have a single series with no room; room templates get one series per matching room
+  private async getTargetRoomIds(template: PMTemplate): Promise<Array<string | null>> {
+    if (template.asset) return [null];
+
+    const rooms = await storage.listRooms();
+    return rooms
+      .filter(room => !template.roomType || room.type === template.roomType)
+      .map(room => room.id);
+  }
+
+  // Creates the next instance for one template/room series, or refreshes its projected due date
+  public async scheduleNext(
+    template: PMTemplate,
+    roomId: string | null,
+    instances?: PMInstance[],
+    now: Date = new Date()
+  ): Promise<ScheduleResult> {
+    const series = (instances ?? await storage.listPMInstances()).filter(instance =>
+      instance.templateId === template.id && (instance.roomId ?? null) === roomId
+    );
+
+    const open = series.find(instance => instance.status === "pending" || instance.status === "in_progress");
+    const dueAt = await this.computeDueAt(template, roomId, this.getCycleStart(template, series), now);
+
+    if (open) {
+      // Rented-day projections move with occupancy; work that has started keeps its date
+      if (template.frequency === "days_rented" && roomId && open.status === "pending" &&
+          new Date(open.dueAt).getTime() !== dueAt.getTime()) {
+        await storage.updatePMInstance(open.id, { dueAt });
+        return "rescheduled";
+      }
+      return null;
+    }
+
+    await storage.createPMInstance({
+      templateId: template.id,
+      roomId,
+      dueAt,
+      status: "pending",
+    });
+    return "created";
+  }
+
+  // A new cycle starts when the last instance was completed, or on its due date if it was
+  // skipped, so skipping does not push the rest of the schedule back
+  private getCycleStart(template: PMTemplate, series: PMInstance[]): Date {
+    const closedAt = series
+      .filter(instance => instance.status === "completed" || instance.status === "skipped")
+      .map(instance => instance.status === "completed" && instance.completedAt
+        ? new Date(instance.completedAt)
+        : new Date(instance.dueAt));
+
+    if (closedAt.length === 0) {
+      return new Date(template.createdAt || Date.now());
+    }
+
+    return new Date(Math.max(...closedAt.map(date => date.getTime())));
+  }
+
+  private async computeDueAt(template: PMTemplate, roomId: string | null, cycleStart: Date, now: Date): Promise<Date> {
+    // Assets are not rented, so they always count calendar days
+    if (template.frequency === "days_counter" || !roomId) {
+      return new Date(cycleStart.getTime() + template.interval * DAY_MS);
+    }
+
+    const rentedDays = await this.countRentedDays(roomId, cycleStart, now);
+    const remaining = Math.max(template.interval - rentedDays, 0);
+
+    // Projects the remaining days as if the room is rented every night from today
+    return new Date(startOfDay(now).getTime() + remaining * DAY_MS);
+  }
+
+  // Nights the room was occupied between the cycle start and last night, by
+  // local date. A night counts when a reservation covers it, and a day the
+  // room spent in roll (a stayover) counts the nights before and after, so
+  // rooms without an occupancy feed are counted from their status history.
+  private async countRentedDays(roomId: string, since: Date, until: Date): Promise<number> {
+    const first = toLocalDate(since);
+    const last = toLocalDate(until);
+    const nights = new Set<string>();
+    const addNight = (night: string) => {
+      if (night >= first && night < last) nights.add(night);
+    };
+
+    const reservations = (await storage.listReservations({ roomId }))
+      .filter(reservation => reservation.status !== "cancelled");
+    for (const reservation of reservations) {
+      for (let night = reservation.arrivalDate; night < reservation.departureDate && night < last; night = addDaysToLocalDate(night, 1)) {
+        addNight(night);
+      }
+    }
+
+    const events = (await storage.listRoomStatusEvents(roomId))
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+    events.forEach((event, index) => {
+      if (event.toStatus !== "roll") return;
+      const rollFrom = new Date(event.createdAt!);
+      const rollUntil = index + 1 < events.length ? new Date(events[index + 1].createdAt!) : until;
+      for (let day = toLocalDate(rollFrom); day <= toLocalDate(rollUntil); day = addDaysToLocalDate(day, 1)) {
+        addNight(addDaysToLocalDate(day, -1));
+        addNight(day);
+      }
+    });
+
+    return nights.size;
+  }
+
+  public cleanup(): void {
+    if (this.runTimer) {
+      clearInterval(this.runTimer);
+      this.runTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const pmScheduler = PMScheduler.getInstance();
@@ -0,0 +1,74 @@
+import { pmsWebhookSchema, type PmsGuestEvent, type PmsRoomStatusUpdate } from "@shared/schema";
+
+// Connects the hotel's property management system. Room status changes are
+// pushed out through the adapter, and guest events the PMS sends to the
+// webhook are read through it, so supporting another PMS means adding an
+// adapter rather than touching the sync logic.
+export interface PmsAdapter {
+  readonly name: string;
+  // Resolves once the PMS has accepted the update; rejects with the reason otherwise
+  pushRoomStatus(update: PmsRoomStatusUpdate): Promise<void>;
+  // Turns a webhook body into guest events, throwing when it is malformed
+  parseEvents(payload: unknown): PmsGuestEvent[];
+}
+
+export interface RestPmsAdapterConfig {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// A PMS with a plain REST API: statuses are PUT to /rooms/:number/status and
+// guest events are posted to our webhook as { events: [...] }
+export class RestPmsAdapter implements PmsAdapter {
+  readonly name: string = "rest";
+
+  constructor(private config: RestPmsAdapterConfig) {}
+
+  async pushRoomStatus(update: PmsRoomStatusUpdate): Promise<void> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+
+    const url = `${this.config.baseUrl.replace(/\/$/, "")}/rooms/${encodeURIComponent(update.roomNumber)}/status`;
+    const response = await fetch(url, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ status: update.status, changedAt: update.changedAt }),
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`PMS responded ${response.status}${text ? `: ${text}` : ""}`);
+    }
+  }
+
+  parseEvents(payload: unknown): PmsGuestEvent[] {
+    return pmsWebhookSchema.parse(payload).events;
+  }
+}
+
+// The in-process mock PMS speaks the same REST API
+export class MockPmsAdapter extends RestPmsAdapter {
+  readonly name = "mock";
+}
+
+// Builds the adapter from PMS_ADAPTER and its settings, or null when the
+// integration is off
+export function createPmsAdapter(): PmsAdapter | null {
+  switch (process.env.PMS_ADAPTER) {
+    case "rest":
+      if (!process.env.PMS_BASE_URL) {
+        throw new Error("PMS_BASE_URL is required for the rest PMS adapter");
+      }
+      return new RestPmsAdapter({ baseUrl: process.env.PMS_BASE_URL, apiKey: process.env.PMS_API_KEY });
+    case "mock":
+      return new MockPmsAdapter({
+        baseUrl: process.env.PMS_BASE_URL || `http://127.0.0.1:${process.env.PORT || "5000"}/mock-pms`,
+      });
+    default:
+      return null;
+  }
+}
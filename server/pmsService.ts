@@ -0,0 +1,260 @@
+import { storage } from "./storage";
+import { roomStatusService } from "./roomStatusService";
+import { websocketService } from "./websocketService";
+import { createPmsAdapter, type PmsAdapter } from "./pmsAdapter";
+import { toLocalDate } from "./localDate";
+import type {
+  PmsGuestEvent, PmsRoomStatusUpdate, PmsStatus, PmsSyncLog, Reservation, Room, RoomStatus
+} from "@shared/schema";
+
+const OPEN_TASK_STATUSES = ["pending", "in_progress", "paused"];
+// A checkout leaves these statuses alone; the room already needs a clean or is out of service
+const KEPT_ON_CHECKOUT: RoomStatus[] = ["dirty", "out", "maintenance", "out_of_order"];
+
+// Shown as the one who changed a room when the change came from the PMS
+const PMS_ACTOR = { name: "PMS", role: "pms" };
+
+export class PmsService {
+  // Read on every use so the integration follows the environment it runs in
+  getAdapter(): PmsAdapter | null {
+    return createPmsAdapter();
+  }
+
+  async getStatus(): Promise<PmsStatus> {
+    return {
+      adapter: this.getAdapter()?.name ?? null,
+      webhookConfigured: !!process.env.PMS_WEBHOOK_SECRET,
+      failedSyncs: (await storage.listPmsSyncLogs({ status: "failed" })).length,
+    };
+  }
+
+  // Pushes the room's status to the PMS and logs the outcome. Never throws:
+  // a PMS outage must not stop staff from changing statuses, and the failed
+  // entry can be retried later.
+  async syncRoomStatus(room: Room): Promise<PmsSyncLog | null> {
+    const adapter = this.getAdapter();
+    if (!adapter) return null;
+
+    const update = this.toUpdate(room);
+    const error = await this.attempt(() => adapter.pushRoomStatus(update));
+    if (error) {
+      console.error(`[PMS] Failed to sync room ${room.number}: ${error}`);
+    }
+
+    return storage.createPmsSyncLog({
+      direction: "outbound",
+      action: "room_status",
+      roomId: room.id,
+      payload: update,
+      status: error ? "failed" : "succeeded",
+      lastError: error,
+    });
+  }
+
+  // Applies the guest events in a webhook body. Each event is logged on its
+  // own, so one that fails does not hold back the rest.
+  async receiveEvents(adapter: PmsAdapter, payload: unknown): Promise<PmsSyncLog[]> {
+    const events = adapter.parseEvents(payload);
+
+    const entries: PmsSyncLog[] = [];
+    for (const event of events) {
+      const room = await this.findRoom(event.roomNumber);
+      const error = await this.attempt(() => this.applyEvent(event));
+      if (error) {
+        console.error(`[PMS] Failed to apply ${event.type} for room ${event.roomNumber}: ${error}`);
+      }
+
+      entries.push(await storage.createPmsSyncLog({
+        direction: "inbound",
+        action: event.type,
+        roomId: room?.id ?? null,
+        payload: event,
+        status: error ? "failed" : "succeeded",
+        lastError: error,
+      }));
+    }
+    return entries;
+  }
+
+  // Returns why the entry cannot be retried, or null when it can
+  checkRetry(entry: PmsSyncLog): string | null {
+    if (entry.status !== "failed") {
+      return "Only failed syncs can be retried";
+    }
+    if (entry.direction === "outbound" && !this.getAdapter()) {
+      return "PMS integration is not configured";
+    }
+    return null;
+  }
+
+  // Outbound retries send the room's current status rather than the one that
+  // failed, so a late retry cannot overwrite a newer change in the PMS
+  async retry(entry: PmsSyncLog): Promise<PmsSyncLog | undefined> {
+    let payload = entry.payload;
+    let error: string | null;
+
+    if (entry.direction === "outbound") {
+      const adapter = this.getAdapter()!;
+      const room = entry.roomId ? await storage.getRoom(entry.roomId) : undefined;
+      if (room) {
+        const update = this.toUpdate(room);
+        payload = update;
+        error = await this.attempt(() => adapter.pushRoomStatus(update));
+      } else {
+        error = "Room not found";
+      }
+    } else {
+      error = await this.attempt(() => this.applyEvent(entry.payload as PmsGuestEvent));
+    }
+
+    return storage.updatePmsSyncLog(entry.id, {
+      payload,
+      status: error ? "failed" : "succeeded",
+      attempts: (entry.attempts ?? 1) + 1,
+      lastError: error,
+    });
+  }
+
+  // Retries every failed entry, oldest first
+  async retryFailed(): Promise<PmsSyncLog[]> {
+    const failed = (await storage.listPmsSyncLogs({ status: "failed" })).reverse();
+
+    const entries: PmsSyncLog[] = [];
+    for (const entry of failed.filter(entry => !this.checkRetry(entry))) {
+      const retried = await this.retry(entry);
+      if (retried) entries.push(retried);
+    }
+    return entries;
+  }
+
+  private toUpdate(room: Room): PmsRoomStatusUpdate {
+    return { roomNumber: room.number, status: room.status || "dirty", changedAt: new Date().toISOString() };
+  }
+
+  private async attempt(run: () => Promise<unknown>): Promise<string | null> {
+    try {
+      await run();
+      return null;
+    } catch (error: any) {
+      return error?.message || String(error);
+    }
+  }
+
+  private async findRoom(roomNumber: string): Promise<Room | undefined> {
+    return (await storage.listRooms()).find(room => room.number === roomNumber);
+  }
+
+  private async applyEvent(event: PmsGuestEvent): Promise<void> {
+    const room = await this.findRoom(event.roomNumber);
+    if (!room) {
+      throw new Error(`Room ${event.roomNumber} not found`);
+    }
+
+    const { dailyResetService } = await import("./dailyReset");
+    const today = toLocalDate(new Date(), await dailyResetService.getTimeZone());
+    if (event.type === "check_in") {
+      await this.checkIn(room, event, today);
+    } else {
+      await this.checkOut(room, event, today);
+    }
+  }
+
+  // The reservation an event is about: the one with its external id, or
+  // else the room's stay that matches
+  private async findReservation(
+    room: Room,
+    event: PmsGuestEvent,
+    today: string,
+    matches: (reservation: Reservation) => boolean
+  ): Promise<Reservation | undefined> {
+    if (event.externalId) {
+      const [reservation] = await storage.listReservations({ externalId: event.externalId });
+      if (reservation) return reservation;
+    }
+
+    return (await storage.listReservations({ roomId: room.id, dateFrom: today, dateTo: today }))
+      .filter(reservation => reservation.status !== "cancelled" && reservation.status !== "checked_out")
+      .find(matches);
+  }
+
+  // Marks the stay in house, recording it when the occupancy feed never had it
+  private async checkIn(room: Room, event: PmsGuestEvent, today: string): Promise<void> {
+    const reservation = await this.findReservation(room, event, today,
+      reservation => reservation.arrivalDate <= today && reservation.departureDate > today);
+
+    if (reservation) {
+      await storage.updateReservation(reservation.id, {
+        roomId: room.id,
+        status: "checked_in",
+        guestName: event.guestName ?? reservation.guestName,
+      });
+      return;
+    }
+
+    if (!event.departureDate || event.departureDate <= today) {
+      throw new Error(`No reservation for room ${room.number} today; check-in needs a departure date after today`);
+    }
+    await storage.createReservation({
+      externalId: event.externalId,
+      roomId: room.id,
+      guestName: event.guestName,
+      arrivalDate: today,
+      departureDate: event.departureDate,
+      status: "checked_in",
+      source: "pms",
+    });
+  }
+
+  // Ends the stay, marks the room dirty and queues a checkout clean for the
+  // attendant the room is assigned to, if any
+  private async checkOut(room: Room, event: PmsGuestEvent, today: string): Promise<void> {
+    const reservation = await this.findReservation(room, event, today,
+      reservation => reservation.arrivalDate < today || reservation.status === "checked_in");
+
+    if (reservation) {
+      await storage.updateReservation(reservation.id, {
+        status: "checked_out",
+        // An early departure frees the room from today
+        departureDate: reservation.departureDate > today ? today : reservation.departureDate,
+      });
+    }
+
+    const status = room.status || "dirty";
+    if (!KEPT_ON_CHECKOUT.includes(status)) {
+      const result = await roomStatusService.changeStatus(room.id, "dirty", {
+        source: "pms",
+        notes: "Guest checked out",
+      });
+      if (result) {
+        websocketService.broadcastRoomStatusChange(result.room, status, PMS_ACTOR);
+      }
+    }
+
+    const openTask = (await storage.listTasks({ type: "cleaning" }))
+      .find(task => task.roomId === room.id && OPEN_TASK_STATUSES.includes(task.status || "pending"));
+    if (openTask) return;
+
+    // Tasks need an owner; those raised by the PMS belong to the site admin
+    const admin = (await storage.listUsers()).find(user => user.role === "site_admin");
+    if (!admin) {
+      throw new Error("No site admin to own tasks created by the PMS");
+    }
+
+    const [assignment] = await storage.listRoomAssignments(room.id);
+    const task = await storage.createTask({
+      title: `Clean Room ${room.number}`,
+      type: "cleaning",
+      cleanType: "checkout",
+      roomId: room.id,
+      assigneeId: assignment?.userId ?? null,
+      createdById: admin.id,
+    });
+
+    const assignee = task.assigneeId ? await storage.getUser(task.assigneeId) : undefined;
+    if (assignee) {
+      websocketService.broadcastTaskAssigned(task, assignee, room);
+    }
+  }
+}
+
+export const pmsService = new PmsService();
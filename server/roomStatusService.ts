@@ -0,0 +1,161 @@
+import { storage } from "./storage";
+import { pmsService } from "./pmsService";
+import {
+  roomStatusRulesSchema,
+  type Room, type RoomStatus, type RoomStatusEvent, type RoomStatusRule, type RoomStatusSource, type User
+} from "@shared/schema";
+
+const ROOM_STATUS_RULES_KEY = "room_status_rules";
+
+type Role = User["role"];
+
+const INSPECTORS: Role[] = ["site_admin", "head_housekeeper"];
+const MANAGERS: Role[] = ["site_admin", "head_housekeeper", "front_desk_manager"];
+const HOUSEKEEPING: Role[] = ["site_admin", "head_housekeeper", "room_attendant"];
+const EVERYONE: Role[] = ["site_admin", "head_housekeeper", "room_attendant", "front_desk_manager"];
+
+const IN_SERVICE: RoomStatus[] = ["dirty", "ready", "clean_inspected", "roll", "out"];
+
+const DEFAULT_ROOM_STATUS_RULES: RoomStatusRule[] = [
+  { from: "dirty", to: "ready", roles: HOUSEKEEPING, requiresWorkOrder: false },
+  { from: "dirty", to: "clean_inspected", roles: INSPECTORS, requiresWorkOrder: false },
+  { from: "ready", to: "clean_inspected", roles: INSPECTORS, requiresWorkOrder: false },
+  { from: "ready", to: "dirty", roles: EVERYONE, requiresWorkOrder: false },
+  { from: "clean_inspected", to: "dirty", roles: MANAGERS, requiresWorkOrder: false },
+  ...(["dirty", "ready", "clean_inspected"] as RoomStatus[]).flatMap(from => [
+    { from, to: "roll" as RoomStatus, roles: MANAGERS, requiresWorkOrder: false },
+    { from, to: "out" as RoomStatus, roles: MANAGERS, requiresWorkOrder: false },
+  ]),
+  { from: "roll", to: "dirty", roles: MANAGERS, requiresWorkOrder: false },
+  { from: "out", to: "dirty", roles: MANAGERS, requiresWorkOrder: false },
+  ...IN_SERVICE.flatMap(from => [
+    { from, to: "maintenance" as RoomStatus, roles: EVERYONE, requiresWorkOrder: false },
+    { from, to: "out_of_order" as RoomStatus, roles: MANAGERS, requiresWorkOrder: true },
+  ]),
+  { from: "maintenance", to: "out_of_order", roles: MANAGERS, requiresWorkOrder: true },
+  { from: "maintenance", to: "dirty", roles: INSPECTORS, requiresWorkOrder: false },
+  { from: "out_of_order", to: "maintenance", roles: INSPECTORS, requiresWorkOrder: false },
+  { from: "out_of_order", to: "dirty", roles: INSPECTORS, requiresWorkOrder: false },
+];
+
+const statusLabel = (status: string | null) => (status || "unknown").replace(/_/g, " ").toUpperCase();
+
+export interface RoomStatusChange {
+  userId?: string | null;
+  source: RoomStatusSource;
+  notes?: string;
+  workOrderId?: string;
+}
+
+export class RoomStatusService {
+  async getRules(): Promise<RoomStatusRule[]> {
+    const setting = await storage.getSetting(ROOM_STATUS_RULES_KEY);
+    return setting ? roomStatusRulesSchema.parse(setting.value) : DEFAULT_ROOM_STATUS_RULES;
+  }
+
+  async updateRules(rules: RoomStatusRule[]): Promise<RoomStatusRule[]> {
+    await storage.upsertSetting(ROOM_STATUS_RULES_KEY, rules);
+    console.log(`[RoomStatus] Transition rules updated`);
+    return rules;
+  }
+
+  // Rules the given role may use from the room's current status
+  async getAllowedTransitions(from: RoomStatus | null, role: string): Promise<RoomStatusRule[]> {
+    const rules = await this.getRules();
+    return rules.filter(rule => rule.from === (from || "dirty") && rule.roles.includes(role as Role));
+  }
+
+  // Returns why a manual change is not allowed, or null when it is
+  async checkTransition(room: Room, to: RoomStatus, role: string, workOrderId?: string): Promise<string | null> {
+    const from = room.status || "dirty";
+    if (from === to) return null;
+
+    const rules = await this.getRules();
+    const rule = rules.find(rule => rule.from === from && rule.to === to);
+    if (!rule) {
+      return `Room ${room.number} cannot move from ${statusLabel(from)} to ${statusLabel(to)}`;
+    }
+
+    if (!rule.roles.includes(role as Role)) {
+      const allowed = rule.roles.map(r => r.replace(/_/g, " ")).join(", ");
+      return `Only ${allowed} can move a room from ${statusLabel(from)} to ${statusLabel(to)}`;
+    }
+
+    // A failed inspection stays open until a re-inspection of the room passes
+    if (to === "clean_inspected") {
+      const openFailure = (await storage.listInspections({ roomId: room.id }))
+        .some(inspection => inspection.signedAt && inspection.passFail === false && !inspection.remediatedAt);
+      if (openFailure) {
+        return `Room ${room.number} failed inspection and needs a passing re-inspection first`;
+      }
+    }
+
+    if (rule.requiresWorkOrder) {
+      if (!workOrderId) {
+        return `Moving a room to ${statusLabel(to)} requires a linked work order`;
+      }
+
+      const workOrder = await storage.getWorkOrder(workOrderId);
+      if (!workOrder || workOrder.roomId !== room.id) {
+        return `Work order must belong to room ${room.number}`;
+      }
+      if (workOrder.status === "completed" || workOrder.status === "cancelled") {
+        return `Work order is ${workOrder.status} and cannot be linked`;
+      }
+    }
+
+    return null;
+  }
+
+  // Sets a room's status and records the change in its history. Setting the
+  // current status again only touches updatedAt and adds no history entry.
+  // Every change that did not come from the PMS is pushed to it afterwards.
+  async changeStatus(
+    roomId: string,
+    status: RoomStatus,
+    change: RoomStatusChange
+  ): Promise<{ room: Room; previousStatus: RoomStatus | null } | undefined> {
+    const originalRoom = await storage.getRoom(roomId);
+    if (!originalRoom) return undefined;
+
+    const room = await storage.updateRoom(roomId, {
+      status,
+      updatedAt: new Date(),
+    });
+    if (!room) return undefined;
+
+    if (originalRoom.status !== status) {
+      await storage.createRoomStatusEvent({
+        roomId,
+        fromStatus: originalRoom.status,
+        toStatus: status,
+        userId: change.userId ?? null,
+        source: change.source,
+        notes: change.notes,
+        workOrderId: change.workOrderId,
+      });
+
+      if (change.source !== "pms") {
+        this.syncToPms(room);
+      }
+    }
+
+    return { room, previousStatus: originalRoom.status };
+  }
+
+  // Runs once the caller has moved on, so no response waits on the PMS. The
+  // outcome is kept in the PMS sync log; a failed sync does not fail the change.
+  private syncToPms(room: Room): void {
+    setImmediate(() => {
+      pmsService.syncRoomStatus(room).catch(error => {
+        console.error(`[PMS] Failed to sync room ${room.number}: ${error.message}`);
+      });
+    });
+  }
+
+  async getHistory(roomId: string): Promise<RoomStatusEvent[]> {
+    return storage.listRoomStatusEvents(roomId);
+  }
+}
+
+export const roomStatusService = new RoomStatusService();
@@ -1,16 +1,95 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
-  loginSchema, insertUserSchema, insertTaskSchema, insertRoomSchema,
-  insertInspectionSchema, insertWorkOrderSchema, insertPMTemplateSchema,
-  insertPMInstanceSchema, insertPanicEventSchema, insertRoomAssignmentSchema, insertRoomCommentSchema
+  loginSchema, insertUserSchema, createTaskSchema, updateTaskSchema, taskActionSchema, type TaskAction, insertRoomSchema,
+  insertInspectionSchema, createInspectionSchema, updateInspectionSchema, unlockInspectionSchema,
+  insertInspectionTemplateSchema, updateInspectionTemplateSchema, insertWorkOrderSchema, insertPMTemplateSchema,
+  insertPMInstanceSchema, updatePMTemplateSchema, updatePMInstanceSchema, insertPanicEventSchema, insertRoomAssignmentSchema, insertRoomCommentSchema,
+  updateWorkOrderSchema, assignWorkOrderSchema, workOrderStatusTransitions, slaTargetsSchema, dailyResetConfigSchema, dailyResetHistoryQuerySchema,
+  dailyResetCompareQuerySchema, dailyResetTrendsQuerySchema, inspectionAnalyticsQuerySchema, propertyBrandingSchema, reportPeriodQuerySchema, type WorkOrder, type ReportsOverview,
+  type PMInstance, type PMChecklistItem, type PMChecklistResult,
+  insertLostFoundItemSchema, updateLostFoundItemSchema, returnLostFoundItemSchema, lostFoundStatusTransitions,
+  type LostFoundItem, updateRoomStatusSchema, roomStatusRulesSchema,
+  insertRoomTypeSchema, updateRoomTypeSchema, autoAssignPreviewSchema, autoAssignCommitSchema,
+  insertShiftSchema, updateShiftSchema, occupancyImportSchema, occupancyWebhookSchema, updateReservationSchema
 } from "@shared/schema";
 import { generateToken, hashPassword, comparePassword, canReceivePanicAlerts } from "./auth";
-import { authenticateToken, requireRole, requireAuth, type AuthenticatedRequest } from "./middleware";
+import { authenticateToken, requireRole, requireAuth, requireWebhookSecret, type AuthenticatedRequest } from "./middleware";
 import { ObjectStorageService } from "./objectStorage";
 import { emailService } from "./emailService";
 import { websocketService } from "./websocketService";
+import { slaService } from "./slaService";
+import { pmScheduler } from "./pmScheduler";
+import { lostFoundService } from "./lostFoundService";
+import { roomStatusService } from "./roomStatusService";
+import { taskLifecycleService } from "./taskLifecycleService";
+import { boardAssignmentService } from "./boardAssignmentService";
+import { shiftService, type ClockAction } from "./shiftService";
+import { occupancyService } from "./occupancyService";
+import { toLocalDate } from "./localDate";
+import { pmsService } from "./pmsService";
+import { mockPms } from "./mockPms";
+import { auditMutations } from "./auditLog";
+import { inspectionService } from "./inspectionService";
+import { pdfService } from "./pdfService";
+
+// Task types each department's reports cover
+const REPORT_DEPARTMENT_TASK_TYPES: Record<string, string[]> = {
+  housekeeping: ["cleaning"],
+  maintenance: ["maintenance"],
+};
+
+// The Reports page overview, also printed in the operations report PDF
+async function buildOverviewReport(days: number, departmentTypes?: string[]): Promise<ReportsOverview> {
+  const rooms = await storage.listRooms();
+  const tasks = await storage.listTasks();
+  const users = await storage.listUsers();
+  
+  // Filter tasks by date range and department
+  const now = new Date();
+  const dateFrom = new Date(now);
+  dateFrom.setDate(dateFrom.getDate() - days);
+  const previousFrom = new Date(dateFrom);
+  previousFrom.setDate(previousFrom.getDate() - days);
+  
+  const filteredTasks = tasks.filter((task: any) => 
+    new Date(task.createdAt || task.updatedAt) >= dateFrom &&
+    (!departmentTypes || departmentTypes.includes(task.type))
+  );
+  
+  const completedTasks = filteredTasks.filter((task: any) => task.status === "completed");
+  const roomAttendants = users.filter((u: any) => u.role === "room_attendant");
+  
+  // Working time excludes pauses; the whole house reports on cleaning tasks
+  const durationTypes = departmentTypes || REPORT_DEPARTMENT_TASK_TYPES.housekeeping;
+  const cleaningTime = await taskLifecycleService.getDurationReport({ dateFrom, dateTo: now, types: durationTypes });
+  const previousCleaningTime = await taskLifecycleService.getDurationReport({ dateFrom: previousFrom, dateTo: dateFrom, types: durationTypes });
+  
+  return {
+    totalRooms: rooms.length,
+    tasksCompleted: completedTasks.length,
+    completionRate: filteredTasks.length > 0 ? 
+      Math.round((completedTasks.length / filteredTasks.length) * 100) : 0,
+    avgCleaningTime: cleaningTime.avgMinutes,
+    timedTasks: cleaningTime.taskCount,
+    previousAvgCleaningTime: previousCleaningTime.taskCount > 0 ? previousCleaningTime.avgMinutes : null,
+    avgCleaningTimeChange: cleaningTime.taskCount > 0 && previousCleaningTime.avgMinutes > 0 ?
+      Math.round(((cleaningTime.avgMinutes - previousCleaningTime.avgMinutes) / previousCleaningTime.avgMinutes) * 100) : null,
+    cleaningTimeByRoomType: cleaningTime.byRoomType,
+    cleaningTimeByAttendant: cleaningTime.byAttendant,
+    activeStaff: roomAttendants.length
+  };
+}
+
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.set({
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Content-Length": String(pdf.length),
+  });
+  res.send(pdf);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -28,6 +107,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit log for every mutating API call
+  app.use(auditMutations);
+
   // Auth routes
   app.post("/api/auth/register", requireAuth, requireRole(["site_admin"]), async (req: AuthenticatedRequest, res) => {
     try {
@@ -95,7 +177,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Task routes
   app.post("/api/tasks", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const taskData = insertTaskSchema.parse({
+      const taskData = createTaskSchema.parse({
         ...req.body,
         createdById: req.user!.userId,
       });
@@ -154,37 +236,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/tasks/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const updates = req.body;
+      const updates = updateTaskSchema.parse(req.body);
+      const task = await storage.updateTask(req.params.id, { ...updates, updatedAt: new Date() });
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      res.json(task);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Task lifecycle: status and timing fields only change through these actions
+  const taskActionHandler = (action: TaskAction) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = taskActionSchema.parse(req.body ?? {});
       const originalTask = await storage.getTask(req.params.id);
-      const task = await storage.updateTask(req.params.id, updates);
+      if (!originalTask || originalTask.isDeleted) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+
+      // Time on task is recorded by the assignee, or by a supervisor acting for them
+      if (originalTask.assigneeId !== req.user!.userId && !["site_admin", "head_housekeeper"].includes(req.user!.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const actionError = taskLifecycleService.checkAction(originalTask, action);
+      if (actionError) {
+        return res.status(409).json({ error: actionError });
+      }
+
+      const task = await taskLifecycleService.applyAction(originalTask, action, {
+        userId: req.user!.userId,
+        notes,
+      });
       if (!task) {
         return res.status(404).json({ error: "Task not found" });
       }
 
+      if (action !== "complete") {
+        return res.json(task);
+      }
+
+      // A finished cleaning moves a dirty room to READY
+      let roomStatusChange: Awaited<ReturnType<typeof roomStatusService.changeStatus>>;
+      if (task.type === 'cleaning' && task.roomId) {
+        const room = await storage.getRoom(task.roomId);
+        if (room?.status === 'dirty') {
+          roomStatusChange = await roomStatusService.changeStatus(room.id, 'ready', {
+            userId: req.user!.userId,
+            source: "task_completion",
+            notes: task.title,
+          });
+        }
+      }
+
       // Send email notification and WebSocket broadcast for task completion
-      if (updates.status === 'completed' && originalTask?.status !== 'completed') {
-        try {
-          const completedBy = await storage.getUser(req.user!.userId);
-          const supervisors = await storage.listUsers();
-          const supervisorUsers = supervisors.filter(user => 
-            user.role === 'site_admin' || user.role === 'head_housekeeper'
-          );
-          const room = task.roomId ? await storage.getRoom(task.roomId) : undefined;
-          
-          if (completedBy) {
-            await emailService.sendTaskCompletedNotification(task, completedBy, supervisorUsers, room);
-            websocketService.broadcastTaskCompleted(task, completedBy, room);
+      try {
+        const completedBy = await storage.getUser(req.user!.userId);
+        const supervisors = await storage.listUsers();
+        const supervisorUsers = supervisors.filter(user => 
+          user.role === 'site_admin' || user.role === 'head_housekeeper'
+        );
+        const room = task.roomId ? await storage.getRoom(task.roomId) : undefined;
+        
+        if (completedBy) {
+          await emailService.sendTaskCompletedNotification(task, completedBy, supervisorUsers, room);
+          websocketService.broadcastTaskCompleted(task, completedBy, room);
+          if (roomStatusChange) {
+            websocketService.broadcastRoomStatusChange(roomStatusChange.room, roomStatusChange.previousStatus || 'unknown', completedBy);
           }
-        } catch (emailError) {
-          console.error('Failed to send task completion email:', emailError);
         }
+      } catch (emailError) {
+        console.error('Failed to send task completion email:', emailError);
       }
 
       res.json(task);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
-  });
+  };
+
+  app.post("/api/tasks/:id/start", authenticateToken, taskActionHandler("start"));
+  app.post("/api/tasks/:id/pause", authenticateToken, taskActionHandler("pause"));
+  app.post("/api/tasks/:id/resume", authenticateToken, taskActionHandler("resume"));
+  app.post("/api/tasks/:id/complete", authenticateToken, taskActionHandler("complete"));
+  app.post("/api/tasks/:id/fail", authenticateToken, taskActionHandler("fail"));
+  app.post("/api/tasks/:id/verify", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), taskActionHandler("verify"));
 
   app.post("/api/tasks/:id/restore", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), async (req, res) => {
     try {
@@ -262,12 +400,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Inspection template routes
+  app.get("/api/inspection-templates", authenticateToken, async (req, res) => {
+    try {
+      const { kind, roomId } = req.query;
+      const templates = kind
+        ? await inspectionService.listTemplatesFor(kind as string, roomId as string | undefined)
+        : await storage.listInspectionTemplates();
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/inspection-templates", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const templateData = insertInspectionTemplateSchema.parse(req.body);
+      const template = await storage.createInspectionTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/inspection-templates/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const updates = updateInspectionTemplateSchema.parse(req.body);
+      const originalTemplate = await storage.getInspectionTemplate(req.params.id);
+      if (!originalTemplate) {
+        return res.status(404).json({ error: "Inspection template not found" });
+      }
+
+      // The checks that span fields run on the template as it will be saved
+      const templateData = insertInspectionTemplateSchema.parse({ ...originalTemplate, ...updates });
+      const template = await storage.updateInspectionTemplate(req.params.id, templateData);
+      if (!template) {
+        return res.status(404).json({ error: "Inspection template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/inspection-templates/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const usedBy = (await storage.listInspections()).filter(inspection => inspection.templateId === req.params.id);
+      if (usedBy.length > 0) {
+        return res.status(409).json({ error: `Inspection template is used by ${usedBy.length} inspection(s)` });
+      }
+
+      const deleted = await storage.deleteInspectionTemplate(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Inspection template not found" });
+      }
+      res.status(200).json({ message: "Inspection template deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Inspection routes
   app.post("/api/inspections", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), async (req: AuthenticatedRequest, res) => {
     try {
+      const { kind, roomId, templateId } = createInspectionSchema.parse(req.body);
+      const template = await storage.getInspectionTemplate(templateId);
+      if (!template) {
+        return res.status(400).json({ error: "Inspection template not found" });
+      }
+      const room = roomId ? await storage.getRoom(roomId) : undefined;
+      if (roomId && !room) {
+        return res.status(400).json({ error: "Room not found" });
+      }
+      const templateError = inspectionService.checkTemplate(template, kind, room);
+      if (templateError) {
+        return res.status(400).json({ error: templateError });
+      }
+
       const inspectionData = insertInspectionSchema.parse({
-        ...req.body,
+        kind,
+        roomId: room?.id ?? null,
+        templateId: template.id,
         inspectorId: req.user!.userId,
+        checklist: inspectionService.buildChecklist(template),
+        passThreshold: template.passThreshold,
       });
       
       const inspection = await storage.createInspection(inspectionData);
@@ -290,16 +506,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/inspections/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  // The signature is checked when one inspection is opened, not for every listed one
+  app.get("/api/inspections/:id", authenticateToken, async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      res.json(await inspectionService.withSignatureCheck(inspection));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/inspections/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const update = updateInspectionSchema.parse(req.body);
       const originalInspection = await storage.getInspection(id);
+      if (!originalInspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      if (inspectionService.isLocked(originalInspection)) {
+        return res.status(409).json({ error: "Inspection is signed and locked; a site admin must unlock it before it can be changed" });
+      }
       
-      const inspection = await storage.updateInspection(id, updateData);
-      
-      // Send email notification and WebSocket broadcast for inspection completion
-      if (updateData.signedAt && originalInspection && !originalInspection.signedAt) {
+      let updates = inspectionService.prepareUpdate(originalInspection, update);
+      if (update.signature) {
+        updates = {
+          ...updates,
+          ...await inspectionService.sign({ ...originalInspection, ...updates }, update.signature, req.user!.userId),
+        };
+      }
+      const inspection = await storage.updateInspection(id, updates);
+      
+      if (update.signature) {
+        // Signing off a failed room inspection raises its follow-up work; a
+        // passed one is the re-inspection that closes the room's earlier failures.
+        // Re-signing after an unlock only acts when the outcome changed.
+        const signedOutcome = originalInspection.signedAt ? originalInspection.passFail : null;
+        if (inspection.passFail && signedOutcome !== true) {
+          if (signedOutcome === false) {
+            await inspectionService.withdrawRemediation(inspection);
+          }
+          await inspectionService.closeRemediation(inspection);
+        } else if (!inspection.passFail && signedOutcome !== false) {
+          if (signedOutcome === true) {
+            await inspectionService.reopenRemediation(inspection);
+          }
+          await inspectionService.remediate(inspection, req.user!.userId);
+        }
+
+        // Send email notification and WebSocket broadcast for inspection completion
         try {
           const inspector = await storage.getUser(req.user!.userId);
           const relevantUsers = await storage.listUsers();
@@ -324,9 +582,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reopens a signed inspection for changes; the audit log keeps who unlocked it and why
+  app.post("/api/inspections/:id/unlock", authenticateToken, requireRole(["site_admin"]), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { reason } = unlockInspectionSchema.parse(req.body);
+      const originalInspection = await storage.getInspection(req.params.id);
+      if (!originalInspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      if (!inspectionService.isLocked(originalInspection)) {
+        return res.status(409).json({ error: originalInspection.signedAt ? "Inspection is already unlocked" : "Inspection has not been signed" });
+      }
+
+      const inspection = await storage.updateInspection(req.params.id, {
+        unlockedAt: new Date(),
+        unlockedById: req.user!.userId,
+        unlockReason: reason,
+      });
+      res.json(inspection);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/inspections/:id/remediation", authenticateToken, async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      res.json(await inspectionService.getRemediation(inspection));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/inspections/:id/pdf", authenticateToken, async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      const room = inspection.roomId ? await storage.getRoom(inspection.roomId) : undefined;
+      const date = toLocalDate(new Date(inspection.signedAt ?? inspection.createdAt!));
+      sendPdf(res, `inspection-${room ? `room-${room.number}` : inspection.kind}-${date}.pdf`, await pdfService.renderInspection(inspection));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.delete("/api/inspections/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ error: "Inspection not found" });
+      }
+      if (inspectionService.isLocked(inspection)) {
+        return res.status(409).json({ error: "Inspection is signed and locked; a site admin must unlock it before it can be deleted" });
+      }
+
       await storage.deleteInspection(id);
       res.status(204).send();
     } catch (error: any) {
@@ -338,6 +653,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/workorders", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance", "front_desk_manager"]), async (req, res) => {
     try {
       const workOrderData = insertWorkOrderSchema.parse(req.body);
+      if (!workOrderData.slaDueAt) {
+        workOrderData.slaDueAt = await slaService.computeSlaDueAt(workOrderData.priority);
+      }
       const workOrder = await storage.createWorkOrder(workOrderData);
       res.status(201).json(workOrder);
     } catch (error: any) {
@@ -359,24 +677,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/workorders/:id", authenticateToken, async (req, res) => {
+  app.get("/api/workorders/:id", authenticateToken, async (req, res) => {
     try {
-      const updates = req.body;
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+      res.json({
+        ...workOrder,
+        allowedTransitions: workOrderStatusTransitions[workOrder.status || "pending"],
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/workorders/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance", "front_desk_manager"]), async (req, res) => {
+    try {
+      const updates: Partial<WorkOrder> = updateWorkOrderSchema.parse(req.body);
+      const originalWorkOrder = await storage.getWorkOrder(req.params.id);
+      if (!originalWorkOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      const currentStatus = originalWorkOrder.status || "pending";
+      if (updates.status && updates.status !== currentStatus) {
+        if (!workOrderStatusTransitions[currentStatus].includes(updates.status)) {
+          return res.status(409).json({
+            error: `Cannot move work order from ${currentStatus} to ${updates.status}`,
+          });
+        }
+
+        // Completed and cancelled work orders are closed by the server
+        if (updates.status === "completed" || updates.status === "cancelled") {
+          updates.closedAt = new Date();
+        }
+      } else if (currentStatus === "completed" || currentStatus === "cancelled") {
+        return res.status(409).json({ error: `Work order is ${currentStatus} and can no longer be edited` });
+      }
+
+      // SLA targets are per priority, so the due time follows priority changes
+      if (updates.priority && updates.priority !== originalWorkOrder.priority) {
+        updates.slaDueAt = await slaService.computeSlaDueAt(updates.priority, originalWorkOrder.createdAt || new Date());
+      }
+
       const workOrder = await storage.updateWorkOrder(req.params.id, updates);
       if (!workOrder) {
         return res.status(404).json({ error: "Work order not found" });
       }
+      res.json(updates.slaDueAt ? await slaService.evaluateWorkOrder(workOrder) : workOrder);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/workorders/:id/assign", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { assigneeId } = assignWorkOrderSchema.parse(req.body);
+      const originalWorkOrder = await storage.getWorkOrder(req.params.id);
+      if (!originalWorkOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+      if (originalWorkOrder.status === "completed" || originalWorkOrder.status === "cancelled") {
+        return res.status(409).json({ error: `Work order is ${originalWorkOrder.status} and can no longer be assigned` });
+      }
+      const assignee = assigneeId ? await storage.getUser(assigneeId) : undefined;
+      if (assigneeId && !assignee) {
+        return res.status(400).json({ error: "Assignee not found" });
+      }
+
+      const workOrder = await storage.updateWorkOrder(req.params.id, { assigneeId });
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      // Send WebSocket notification for work order assignment
+      if (assignee) {
+        try {
+          const room = workOrder.roomId ? await storage.getRoom(workOrder.roomId) : undefined;
+          websocketService.broadcastWorkOrderAssigned(workOrder, assignee, room);
+        } catch (notificationError) {
+          console.error('Failed to send work order assignment notification:', notificationError);
+        }
+      }
+
       res.json(workOrder);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  // SLA routes
+  app.get("/api/sla/targets", authenticateToken, async (req, res) => {
+    try {
+      const targets = await slaService.getTargets();
+      res.json(targets);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/sla/targets", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const targets = slaTargetsSchema.parse(req.body);
+      res.json(await slaService.updateTargets(targets));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Property branding printed on exported PDFs
+  app.get("/api/branding", authenticateToken, async (req, res) => {
+    try {
+      res.json(await pdfService.getBranding());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/branding", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const branding = propertyBrandingSchema.parse(req.body);
+      res.json(await pdfService.updateBranding(branding));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/sla/evaluate", authenticateToken, requireRole(["site_admin", "head_housekeeper"]), async (req, res) => {
+    try {
+      const result = await slaService.evaluateOpenWorkOrders();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // PM routes
   app.post("/api/pm/templates", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance"]), async (req, res) => {
     try {
       const templateData = insertPMTemplateSchema.parse(req.body);
       const template = await storage.createPMTemplate(templateData);
+      await pmScheduler.generateForTemplate(template);
       res.status(201).json(template);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -392,6 +834,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/pm/templates/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance"]), async (req, res) => {
+    try {
+      const updates = updatePMTemplateSchema.parse(req.body);
+      const template = await storage.updatePMTemplate(req.params.id, updates);
+      if (!template) {
+        return res.status(404).json({ error: "PM template not found" });
+      }
+
+      // Scope or frequency changes may add rooms or move projected due dates
+      await pmScheduler.generateForTemplate(template);
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pm/instances", authenticateToken, async (req, res) => {
+    try {
+      const { status, dueAfter, dueBefore } = req.query;
+      const instances = await storage.listPMInstances({
+        status: status as string,
+        dueAfter: dueAfter ? new Date(dueAfter as string) : undefined,
+        dueBefore: dueBefore ? new Date(dueBefore as string) : undefined,
+      });
+      res.json(instances);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pm/instances/:id", authenticateToken, async (req, res) => {
+    try {
+      const instance = await storage.getPMInstance(req.params.id);
+      if (!instance) {
+        return res.status(404).json({ error: "PM instance not found" });
+      }
+      res.json(instance);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get("/api/pm/upcoming", authenticateToken, async (req, res) => {
     try {
       const { dueBefore } = req.query;
@@ -405,27 +889,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/pm/instances/:id", authenticateToken, async (req, res) => {
+  app.post("/api/pm/generate", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance"]), async (req, res) => {
     try {
-      const updates = req.body;
+      const result = await pmScheduler.generateInstances();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/pm/instances/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "maintenance"]), async (req, res) => {
+    try {
+      const updates: Partial<PMInstance> = updatePMInstanceSchema.parse(req.body);
+      const originalInstance = await storage.getPMInstance(req.params.id);
+      if (!originalInstance) {
+        return res.status(404).json({ error: "PM instance not found" });
+      }
+
+      if (originalInstance.status === "completed" || originalInstance.status === "skipped") {
+        return res.status(409).json({ error: `PM instance is ${originalInstance.status} and can no longer be edited` });
+      }
+
+      if (updates.status === "completed") {
+        const template = await storage.getPMTemplate(originalInstance.templateId);
+        const checklist = (template?.checklist as PMChecklistItem[] | undefined) || [];
+        const results = (updates.checklistResults ?? originalInstance.checklistResults ?? []) as PMChecklistResult[];
+
+        const unfinished = checklist.filter(item => {
+          const result = results.find(r => r.itemId === item.id);
+          return !result?.done || (item.requiresPhoto && result.photos.length === 0);
+        });
+        if (unfinished.length > 0) {
+          return res.status(409).json({
+            error: `Checklist items still open: ${unfinished.map(item => item.title).join(", ")}`,
+          });
+        }
+
+        updates.completedAt = new Date();
+      }
+
       const instance = await storage.updatePMInstance(req.params.id, updates);
       if (!instance) {
         return res.status(404).json({ error: "PM instance not found" });
       }
+
+      // Closing an instance starts the next cycle for the same template and room
+      if (instance.status === "completed" || instance.status === "skipped") {
+        const template = await storage.getPMTemplate(instance.templateId);
+        if (template) {
+          await pmScheduler.scheduleNext(template, instance.roomId ?? null);
+        }
+      }
+
       res.json(instance);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  // Lost & Found routes
+  app.get("/api/lost-found", authenticateToken, async (req, res) => {
+    try {
+      const { status, roomId } = req.query;
+      const items = await storage.listLostFoundItems({
+        status: status as string,
+        roomId: roomId as string,
+      });
+      res.json(items);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/lost-found/:id", authenticateToken, async (req, res) => {
+    try {
+      const item = await storage.getLostFoundItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Lost & found item not found" });
+      }
+      res.json(item);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/lost-found", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const itemData = insertLostFoundItemSchema.parse({
+        ...req.body,
+        foundById: req.user!.userId,
+      });
+
+      const objectStorageService = new ObjectStorageService();
+      const item = await storage.createLostFoundItem({
+        ...itemData,
+        photos: itemData.photos?.map(photo => objectStorageService.normalizeObjectEntityPath(photo)),
+        expireAt: itemData.expireAt ?? lostFoundService.computeExpireAt(),
+      });
+      res.status(201).json(item);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/lost-found/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const updates: Partial<LostFoundItem> = updateLostFoundItemSchema.parse(req.body);
+      const originalItem = await storage.getLostFoundItem(req.params.id);
+      if (!originalItem) {
+        return res.status(404).json({ error: "Lost & found item not found" });
+      }
+
+      const currentStatus = originalItem.status || "logged";
+      if (lostFoundStatusTransitions[currentStatus].length === 0) {
+        return res.status(409).json({ error: `Item is ${currentStatus.replace(/_/g, " ")} and can no longer be edited` });
+      }
+
+      if (updates.status && updates.status !== currentStatus) {
+        if (!lostFoundStatusTransitions[currentStatus].includes(updates.status)) {
+          return res.status(409).json({ error: `Cannot move item from ${currentStatus} to ${updates.status}` });
+        }
+        if (updates.status === "expired_cleared") {
+          // Clearing disposes of the item, so it is kept to the roles that may delete one
+          if (req.user!.role !== "site_admin") {
+            return res.status(403).json({ error: "Insufficient permissions" });
+          }
+          updates.clearedAt = new Date();
+        }
+      }
+
+      if (updates.photos) {
+        const objectStorageService = new ObjectStorageService();
+        updates.photos = (updates.photos as string[]).map(photo => objectStorageService.normalizeObjectEntityPath(photo));
+      }
+
+      const item = await storage.updateLostFoundItem(req.params.id, updates);
+      res.json(item);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/lost-found/:id/return", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req: AuthenticatedRequest, res) => {
+    try {
+      const claimant = returnLostFoundItemSchema.parse(req.body);
+      const originalItem = await storage.getLostFoundItem(req.params.id);
+      if (!originalItem) {
+        return res.status(404).json({ error: "Lost & found item not found" });
+      }
+
+      const currentStatus = originalItem.status || "logged";
+      if (!lostFoundStatusTransitions[currentStatus].includes("returned")) {
+        return res.status(409).json({ error: `Item is ${currentStatus.replace(/_/g, " ")} and cannot be returned` });
+      }
+
+      const item = await storage.updateLostFoundItem(req.params.id, {
+        ...claimant,
+        status: "returned",
+        returnedById: req.user!.userId,
+        returnedAt: new Date(),
+      });
+      res.json(item);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/lost-found/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLostFoundItem(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Lost & found item not found" });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Panic routes
   app.post("/api/panic/trigger", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      // Get all users who can receive panic alerts
+      // Get the users on duty who can receive panic alerts
       const allUsers = await storage.listUsers();
-      const recipients = allUsers.filter(user => 
+      const recipients = await shiftService.selectPanicRecipients(allUsers.filter(user => 
         canReceivePanicAlerts(user.role) && user.canReceivePanicAlerts
-      );
+      ));
       
       const panicEvent = await storage.createPanicEvent({
         userId: req.user!.userId,
@@ -446,7 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             req.body.location || 'Unknown location', 
             recipients
           );
-          websocketService.broadcastPanicAlert(triggeredBy, req.body.location || 'Unknown location');
+          websocketService.broadcastPanicAlert(triggeredBy, req.body.location || 'Unknown location', recipients);
         }
       } catch (emailError) {
         console.error('Failed to send panic alert emails:', emailError);
@@ -472,30 +1121,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Room Status Update Route
   app.patch("/api/rooms/:id/status", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const { status, notes } = req.body;
+      const { status, notes, inspectionId, workOrderId } = updateRoomStatusSchema.parse(req.body);
       const originalRoom = await storage.getRoom(req.params.id);
-      const room = await storage.updateRoom(req.params.id, { 
-        status, 
-        updatedAt: new Date() 
-      });
-      
-      if (!room) {
+      if (!originalRoom) {
         return res.status(404).json({ error: "Room not found" });
       }
 
-      // Optionally log status change or create task/comment
-      if (notes) {
-        await storage.createRoomComment({
-          roomId: req.params.id,
-          userId: req.user!.userId,
-          comment: `Status changed to ${status.toUpperCase()}: ${notes}`,
-          priority: "low",
-          isResolved: false,
-        });
+      const transitionError = await roomStatusService.checkTransition(originalRoom, status, req.user!.role, workOrderId);
+      if (transitionError) {
+        return res.status(409).json({ error: transitionError });
+      }
+
+      // Changes made from a signed-off inspection are recorded as coming from it
+      if (inspectionId) {
+        const inspection = await storage.getInspection(inspectionId);
+        if (!inspection || inspection.roomId !== req.params.id || !inspection.signedAt || !inspection.passFail) {
+          return res.status(400).json({ error: "Inspection must be a passed, signed-off inspection of this room" });
+        }
       }
 
+      const result = await roomStatusService.changeStatus(req.params.id, status, {
+        userId: req.user!.userId,
+        source: inspectionId ? "inspection" : "manual",
+        notes,
+        workOrderId,
+      });
+
+      if (!result) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      const { room, previousStatus } = result;
+
       // Send email notification and WebSocket broadcast for room status change
-      if (originalRoom && originalRoom.status !== status) {
+      if (previousStatus !== status) {
         try {
           const updatedBy = await storage.getUser(req.user!.userId);
           const relevantUsers = await storage.listUsers();
@@ -506,8 +1165,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
           
           if (updatedBy) {
-            await emailService.sendRoomStatusNotification(room, originalRoom.status || 'unknown', updatedBy, recipients);
-            websocketService.broadcastRoomStatusChange(room, originalRoom.status || 'unknown', updatedBy);
+            await emailService.sendRoomStatusNotification(room, previousStatus || 'unknown', updatedBy, recipients);
+            websocketService.broadcastRoomStatusChange(room, previousStatus || 'unknown', updatedBy);
           }
         } catch (emailError) {
           console.error('Failed to send room status change email:', emailError);
@@ -661,6 +1320,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/daily-reset/config", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      res.json(await dailyResetService.getConfig());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/daily-reset/config", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const config = dailyResetConfigSchema.parse(req.body);
+      res.json(await dailyResetService.updateConfig(config));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/daily-reset/preview", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      res.json(await dailyResetService.previewReset());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get("/api/daily-reset/last-report", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
       const { dailyResetService } = await import("./dailyReset");
@@ -671,6 +1358,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/daily-reset/reports", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const parsed = dailyResetHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+      res.json(await dailyResetService.listReportHistory(parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/daily-reset/reports/:date", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const report = await dailyResetService.getReport(req.params.date);
+      if (!report) {
+        return res.status(404).json({ error: `No daily reset report for ${req.params.date}` });
+      }
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/daily-reset/reports/:date/pdf", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const report = await dailyResetService.getReport(req.params.date);
+      if (!report) {
+        return res.status(404).json({ error: `No daily reset report for ${req.params.date}` });
+      }
+      sendPdf(res, `daily-reset-${report.date}.pdf`, await pdfService.renderDailyResetReport(report));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/daily-reset/compare", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const parsed = dailyResetCompareQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+      const comparison = await dailyResetService.compareReports(parsed.data.left, parsed.data.right);
+      if (!comparison) {
+        return res.status(404).json({ error: "Both days need a daily reset report" });
+      }
+      res.json(comparison);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/daily-reset/trends", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const parsed = dailyResetTrendsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+      res.json(await dailyResetService.getTrends(parsed.data.days));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Report routes
   app.get("/api/reports/ra-average-times", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
@@ -696,53 +1452,213 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.json(results);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/reports/square-foot", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { userId, dateFrom, dateTo } = req.query;
+      const results = await storage.getSquareFootMetrics({
+        userId: userId as string,
+        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+        dateTo: dateTo ? new Date(dateTo as string) : undefined,
+      });
+      res.json(results);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Room type catalog routes
+  app.get("/api/room-types", authenticateToken, async (req, res) => {
+    try {
+      const roomTypes = await storage.listRoomTypes();
+      res.json(roomTypes.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/room-types", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const roomTypeData = insertRoomTypeSchema.parse(req.body);
+      const existing = (await storage.listRoomTypes()).find(roomType => roomType.name === roomTypeData.name);
+      if (existing) {
+        return res.status(409).json({ error: `Room type ${roomTypeData.name} already exists` });
+      }
+      const roomType = await storage.createRoomType(roomTypeData);
+      res.status(201).json(roomType);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/room-types/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const updates = updateRoomTypeSchema.parse(req.body);
+      const originalRoomType = await storage.getRoomType(req.params.id);
+      if (!originalRoomType) {
+        return res.status(404).json({ error: "Room type not found" });
+      }
+      if (updates.name && updates.name !== originalRoomType.name) {
+        const existing = (await storage.listRoomTypes()).find(roomType => roomType.name === updates.name);
+        if (existing) {
+          return res.status(409).json({ error: `Room type ${updates.name} already exists` });
+        }
+      }
+
+      const roomType = await storage.updateRoomType(req.params.id, updates);
+      if (!roomType) {
+        return res.status(404).json({ error: "Room type not found" });
+      }
+
+      // Linked rooms and inspection templates carry the type's name, so a rename follows through to them
+      if (roomType.name !== originalRoomType.name) {
+        const linkedRooms = (await storage.listRooms()).filter(room => room.roomTypeId === roomType.id);
+        for (const room of linkedRooms) {
+          await storage.updateRoom(room.id, { type: roomType.name });
+        }
+        const inspectionTemplates = (await storage.listInspectionTemplates())
+          .filter(template => template.roomType === originalRoomType.name);
+        for (const template of inspectionTemplates) {
+          await storage.updateInspectionTemplate(template.id, { roomType: roomType.name });
+        }
+      }
+
+      res.json(roomType);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/room-types/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const linkedRooms = (await storage.listRooms()).filter(room => room.roomTypeId === req.params.id);
+      if (linkedRooms.length > 0) {
+        return res.status(409).json({
+          error: `Room type is used by ${linkedRooms.length} room(s): ${linkedRooms.map(room => room.number).join(", ")}`,
+        });
+      }
+
+      const deleted = await storage.deleteRoomType(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Room type not found" });
+      }
+      res.status(200).json({ message: "Room type deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Rooms linked to a catalog room type take its name as their type
+  const withRoomTypeName = async <T extends { roomTypeId?: string | null; type?: string }>(room: T): Promise<T> => {
+    if (!room.roomTypeId) return room;
+
+    const roomType = await storage.getRoomType(room.roomTypeId);
+    if (!roomType) {
+      throw new Error("Room type not found");
+    }
+    return { ...room, type: roomType.name };
+  };
+
+  // Room routes
+  app.get("/api/rooms", authenticateToken, async (req, res) => {
+    try {
+      const rooms = await storage.listRooms();
+      res.json(rooms);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/rooms", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const roomData = insertRoomSchema.parse(await withRoomTypeName(req.body));
+      const room = await storage.createRoom(roomData);
+      res.status(201).json(room);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/rooms/:id", authenticateToken, requireRole(["site_admin"]), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { status, ...changes } = req.body;
+      const updates = await withRoomTypeName(changes);
+      const originalRoom = await storage.getRoom(req.params.id);
+      if (!originalRoom) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      // Status edits follow the same transition rules and history as any other status change
+      if (status && status !== originalRoom.status) {
+        const transitionError = await roomStatusService.checkTransition(originalRoom, status, req.user!.role);
+        if (transitionError) {
+          return res.status(409).json({ error: transitionError });
+        }
+      }
+
+      let room = await storage.updateRoom(req.params.id, updates);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      if (status) {
+        const result = await roomStatusService.changeStatus(req.params.id, status, {
+          userId: req.user!.userId,
+          source: "manual",
+        });
+        room = result?.room ?? room;
+      }
+
+      res.json(room);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
     }
   });
 
-  app.get("/api/reports/square-foot", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+  app.get("/api/rooms/:id/transitions", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const { userId, dateFrom, dateTo } = req.query;
-      const results = await storage.getSquareFootMetrics({
-        userId: userId as string,
-        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
-        dateTo: dateTo ? new Date(dateTo as string) : undefined,
-      });
-      res.json(results);
+      const room = await storage.getRoom(req.params.id);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      const rules = await roomStatusService.getAllowedTransitions(room.status, req.user!.role);
+      res.json(rules.map(rule => ({ status: rule.to, requiresWorkOrder: rule.requiresWorkOrder })));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Room routes
-  app.get("/api/rooms", authenticateToken, async (req, res) => {
+  app.get("/api/room-status/rules", authenticateToken, async (req, res) => {
     try {
-      const rooms = await storage.listRooms();
-      res.json(rooms);
+      const rules = await roomStatusService.getRules();
+      res.json(rules);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/rooms", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+  app.put("/api/room-status/rules", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
     try {
-      const roomData = insertRoomSchema.parse(req.body);
-      const room = await storage.createRoom(roomData);
-      res.status(201).json(room);
+      const rules = roomStatusRulesSchema.parse(req.body);
+      res.json(await roomStatusService.updateRules(rules));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/rooms/:id", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+  app.get("/api/rooms/:id/history", authenticateToken, async (req, res) => {
     try {
-      const room = await storage.updateRoom(req.params.id, req.body);
+      const room = await storage.getRoom(req.params.id);
       if (!room) {
         return res.status(404).json({ error: "Room not found" });
       }
-      res.json(room);
+      const history = await roomStatusService.getHistory(req.params.id);
+      res.json(history);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
@@ -872,6 +1788,292 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Board auto-assignment: preview a balanced split, then commit it (possibly adjusted)
+  app.post("/api/board/auto-assign/preview", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { attendantIds, balanceBy } = autoAssignPreviewSchema.parse(req.body);
+      const plan = await boardAssignmentService.buildPlan(attendantIds, balanceBy);
+      res.json(plan);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/board/auto-assign", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req: AuthenticatedRequest, res) => {
+    try {
+      const board = autoAssignCommitSchema.parse(req.body);
+      const conflict = await boardAssignmentService.checkCommit(board);
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+
+      const result = await boardAssignmentService.commit(board, req.user!.userId);
+      res.status(201).json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Shift routes
+  app.get("/api/shifts", authenticateToken, async (req, res) => {
+    try {
+      const { userId, dateFrom, dateTo } = req.query;
+      const shifts = await storage.listShifts({
+        userId: userId as string | undefined,
+        dateFrom: dateFrom as string | undefined,
+        dateTo: dateTo as string | undefined,
+      });
+      res.json(shifts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/shifts/on-duty", authenticateToken, async (req, res) => {
+    try {
+      res.json(await shiftService.getOnDuty());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/shifts", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req: AuthenticatedRequest, res) => {
+    try {
+      const shiftData = insertShiftSchema.parse({
+        ...req.body,
+        createdById: req.user!.userId,
+      });
+      if (!(await storage.getUser(shiftData.userId))) {
+        return res.status(400).json({ error: "User not found" });
+      }
+
+      const overlap = await shiftService.checkOverlap(shiftData);
+      if (overlap) {
+        return res.status(409).json({ error: overlap });
+      }
+
+      const shift = await storage.createShift(shiftData);
+      res.status(201).json(shift);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/shifts/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const updates = updateShiftSchema.parse(req.body);
+      const originalShift = await storage.getShift(req.params.id);
+      if (!originalShift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      if (updates.userId && updates.userId !== originalShift.userId) {
+        if (originalShift.clockedInAt) {
+          return res.status(409).json({ error: "Cannot hand over a shift that has been clocked in" });
+        }
+        if (!(await storage.getUser(updates.userId))) {
+          return res.status(400).json({ error: "User not found" });
+        }
+      }
+
+      const merged = { ...originalShift, ...updates };
+      if (merged.startTime === merged.endTime) {
+        return res.status(400).json({ error: "A shift cannot start and end at the same time" });
+      }
+
+      const overlap = await shiftService.checkOverlap(merged, originalShift.id);
+      if (overlap) {
+        return res.status(409).json({ error: overlap });
+      }
+
+      const shift = await storage.updateShift(req.params.id, updates);
+      res.json(shift);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/shifts/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      // Worked shifts are the record of who was on site
+      if (shift.clockedInAt) {
+        return res.status(409).json({ error: "Cannot delete a shift that has been clocked in" });
+      }
+
+      await storage.deleteShift(req.params.id);
+      res.status(200).json({ message: "Shift deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Staff clock themselves in and out; supervisors may do it for them
+  const clockHandler = (action: ClockAction) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const originalShift = await storage.getShift(req.params.id);
+      if (!originalShift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      const isSupervisor = ["site_admin", "head_housekeeper", "front_desk_manager"].includes(req.user!.role);
+      if (originalShift.userId !== req.user!.userId && !isSupervisor) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const clockError = await shiftService.checkClock(originalShift, action);
+      if (clockError) {
+        return res.status(409).json({ error: clockError });
+      }
+
+      const shift = await shiftService.clock(originalShift, action);
+      const staff = await storage.getUser(originalShift.userId);
+      websocketService.broadcast({
+        type: action === "clock-in" ? 'shift_clocked_in' : 'shift_clocked_out',
+        data: { shift, user: staff ? { id: staff.id, name: staff.name, role: staff.role } : null },
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(shift);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  app.post("/api/shifts/:id/clock-in", authenticateToken, clockHandler("clock-in"));
+  app.post("/api/shifts/:id/clock-out", authenticateToken, clockHandler("clock-out"));
+
+  // Occupancy routes
+  app.get("/api/occupancy", authenticateToken, async (req, res) => {
+    try {
+      const { dailyResetService } = await import("./dailyReset");
+      const date = (req.query.date as string | undefined) || toLocalDate(new Date(), await dailyResetService.getTimeZone());
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "Dates must be YYYY-MM-DD" });
+      }
+      res.json(await occupancyService.getRoomOccupancy(date));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/reservations", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { roomId, dateFrom, dateTo } = req.query;
+      const reservations = await storage.listReservations({
+        roomId: roomId as string | undefined,
+        dateFrom: dateFrom as string | undefined,
+        dateTo: dateTo as string | undefined,
+      });
+      res.json(reservations);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/reservations/:id", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const updates = updateReservationSchema.parse(req.body);
+      const reservation = await storage.updateReservation(req.params.id, updates);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.json(reservation);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/reservations/import", authenticateToken, requireRole(["site_admin", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { format, content } = occupancyImportSchema.parse(req.body);
+      const rows = format === "csv" ? occupancyService.parseCsv(content) : occupancyService.parseJson(content);
+      res.json(await occupancyService.importReservations(rows, `${format}_import`));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/reservations/webhook", requireWebhookSecret("OCCUPANCY_WEBHOOK_SECRET"), async (req, res) => {
+    try {
+      const { reservations } = occupancyWebhookSchema.parse(req.body);
+      res.json(await occupancyService.importReservations(reservations, "webhook"));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // PMS integration routes
+  app.get("/api/pms/status", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      res.json(await pmsService.getStatus());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pms/sync-log", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const { status, direction, limit } = req.query;
+      const entries = await storage.listPmsSyncLogs({
+        status: status as string | undefined,
+        direction: direction as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : 200,
+      });
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/pms/sync-log/retry-failed", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      res.json(await pmsService.retryFailed());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/pms/sync-log/:id/retry", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const entry = await storage.getPmsSyncLog(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Sync log entry not found" });
+      }
+
+      const retryError = pmsService.checkRetry(entry);
+      if (retryError) {
+        return res.status(409).json({ error: retryError });
+      }
+
+      res.json(await pmsService.retry(entry));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Guest check-in and check-out events pushed by the PMS
+  app.post("/api/pms/webhook", requireWebhookSecret("PMS_WEBHOOK_SECRET"), async (req, res) => {
+    try {
+      const adapter = pmsService.getAdapter();
+      if (!adapter) {
+        return res.status(503).json({ error: "PMS integration is not configured" });
+      }
+
+      res.json(await pmsService.receiveEvents(adapter, req.body));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Stand-in PMS for local testing, see mockPms.ts
+  if (process.env.PMS_ADAPTER === "mock") {
+    app.use("/mock-pms", mockPms.createRouter());
+  }
+
   // User routes
   app.get("/api/users", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
@@ -1131,6 +2333,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/admin/audit", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
+    try {
+      const { actorId, entityType, entityId, action, dateFrom, dateTo, limit = "500" } = req.query;
+      const logs = await storage.listAuditLogs({
+        actorId: actorId as string,
+        entityType: entityType as string,
+        entityId: entityId as string,
+        action: action as string,
+        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+        dateTo: dateTo ? new Date(dateTo as string) : undefined,
+        limit: parseInt(limit as string) || 500,
+      });
+      res.json(logs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get("/api/admin/websocket-status", authenticateToken, requireRole(["site_admin"]), async (req, res) => {
     try {
       const stats = websocketService.getStats();
@@ -1143,36 +2363,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Reporting API routes
   app.get("/api/reports/overview", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
-      const { days = "7", department } = req.query;
-      const daysNum = parseInt(days as string);
-      
-      const rooms = await storage.listRooms();
-      const tasks = await storage.listTasks();
-      const users = await storage.listUsers();
+      const { department = "all" } = req.query;
+      const parsed = reportPeriodQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const departmentTypes = department === "all" ? undefined : REPORT_DEPARTMENT_TASK_TYPES[department as string];
+      if (department !== "all" && !Array.isArray(departmentTypes)) {
+        return res.status(400).json({ error: `Unknown department: ${department}` });
+      }
       
-      // Filter tasks by date range
+      res.json(await buildOverviewReport(parsed.data.days, departmentTypes));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // The overview with SLA compliance and inspection results for the same period, as a branded document
+  app.get("/api/reports/overview/pdf", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const { department = "all" } = req.query;
+      const parsed = reportPeriodQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const departmentTypes = department === "all" ? undefined : REPORT_DEPARTMENT_TASK_TYPES[department as string];
+      if (department !== "all" && !Array.isArray(departmentTypes)) {
+        return res.status(400).json({ error: `Unknown department: ${department}` });
+      }
+
+      const { days } = parsed.data;
       const dateFrom = new Date();
-      dateFrom.setDate(dateFrom.getDate() - daysNum);
-      
-      const filteredTasks = tasks.filter((task: any) => 
-        new Date(task.createdAt || task.updatedAt) >= dateFrom
-      );
-      
-      const completedTasks = filteredTasks.filter((task: any) => task.status === "completed");
-      const roomAttendants = users.filter((u: any) => u.role === "room_attendant");
-      
-      // Calculate average cleaning time (mock data for now)
-      const avgCleaningTime = completedTasks.length > 0 ? 
-        Math.round(Math.random() * 30 + 25) : 0;
-      
-      res.json({
-        totalRooms: rooms.length,
-        tasksCompleted: completedTasks.length,
-        completionRate: filteredTasks.length > 0 ? 
-          Math.round((completedTasks.length / filteredTasks.length) * 100) : 0,
-        avgCleaningTime,
-        activeStaff: roomAttendants.length
+      dateFrom.setDate(dateFrom.getDate() - days);
+
+      const pdf = await pdfService.renderReportsOverview({
+        days,
+        department: department as string,
+        overview: await buildOverviewReport(days, departmentTypes),
+        slaCompliance: await slaService.getComplianceReport({ dateFrom }),
+        inspections: await inspectionService.getAnalytics({ dateFrom }),
       });
+      sendPdf(res, `operations-report-${toLocalDate(new Date())}.pdf`, pdf);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+  
+  app.get("/api/reports/sla-compliance", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const parsed = reportPeriodQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const dateFrom = new Date();
+      dateFrom.setDate(dateFrom.getDate() - parsed.data.days);
+
+      const report = await slaService.getComplianceReport({ dateFrom });
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+  
+  app.get("/api/reports/inspection-analytics", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const parsed = inspectionAnalyticsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const dateFrom = new Date();
+      dateFrom.setDate(dateFrom.getDate() - parsed.data.days);
+
+      res.json(await inspectionService.getAnalytics({ dateFrom }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+  
+  app.get("/api/reports/lost-found-weekly", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
+    try {
+      const summary = await lostFoundService.getLastWeeklySummary();
+      res.json(summary);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -1201,28 +2476,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get("/api/reports/productivity", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
-      const { days = "7" } = req.query;
-      const daysNum = parseInt(days as string);
+      const parsed = reportPeriodQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
       
       const users = await storage.listUsers();
-      const tasks = await storage.listTasks();
+      const tasks = await taskLifecycleService.listReportableTasks();
       
-      const dateFrom = new Date();
-      dateFrom.setDate(dateFrom.getDate() - daysNum);
+      const now = new Date();
+      const dateFrom = new Date(now);
+      dateFrom.setDate(dateFrom.getDate() - parsed.data.days);
       
       const roomAttendants = users.filter((u: any) => u.role === "room_attendant");
+      const cleaningTime = await taskLifecycleService.getDurationReport({ dateFrom, dateTo: now, types: REPORT_DEPARTMENT_TASK_TYPES.housekeeping });
       
       const productivityData = roomAttendants.map((attendant: any) => {
-        const userTasks = tasks.filter((task: any) => 
-          task.assignedToId === attendant.id &&
+        const userTasks = tasks.filter(task => 
+          task.assigneeId === attendant.id &&
           task.status === "completed" &&
-          new Date(task.completedAt || task.updatedAt) >= dateFrom
+          REPORT_DEPARTMENT_TASK_TYPES.housekeeping.includes(task.type) &&
+          !!task.finishedAt &&
+          new Date(task.finishedAt) >= dateFrom &&
+          new Date(task.finishedAt) < now
         );
         
         return {
           name: attendant.name,
           roomsCleaned: userTasks.length,
-          avgTime: userTasks.length > 0 ? Math.round(Math.random() * 30 + 25) : 0
+          avgTime: cleaningTime.byAttendant.find(row => row.userId === attendant.id)?.avgMinutes || 0
         };
       });
       
@@ -1269,10 +2551,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get("/api/reports/task-trends", authenticateToken, requireRole(["site_admin", "head_housekeeper", "front_desk_manager"]), async (req, res) => {
     try {
-      const { days = "7" } = req.query;
-      const daysNum = parseInt(days as string);
+      const parsed = reportPeriodQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+      const daysNum = parsed.data.days;
       
       const tasks = await storage.listTasks();
+
+      // Cleaning turnaround per day, from one report over the whole range
+      const now = new Date();
+      const rangeStart = new Date(now);
+      rangeStart.setDate(rangeStart.getDate() - (daysNum - 1));
+      const cleaningTime = await taskLifecycleService.getDurationReport({
+        dateFrom: new Date(`${rangeStart.toISOString().split('T')[0]}T00:00:00.000Z`),
+        dateTo: now,
+        types: REPORT_DEPARTMENT_TASK_TYPES.housekeeping,
+      });
       
       // Create daily task data
       const dailyData = [];
@@ -1294,7 +2589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           total: dayTasks.length,
           completed,
           pending,
-          avgTime: completed > 0 ? Math.round(Math.random() * 30 + 25) : 0
+          avgTime: cleaningTime.byDay.find(day => day.date === dateStr)?.avgMinutes ?? 0
         });
       }
       
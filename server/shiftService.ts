@@ -0,0 +1,118 @@
+import { storage } from "./storage";
+import { addDaysToLocalDate, localTimeToDate, toLocalDate } from "./localDate";
+import type { OnDutyStaff, Shift, User } from "@shared/schema";
+
+export type ClockAction = "clock-in" | "clock-out";
+
+// Staff may clock in this long before their shift starts
+const EARLY_CLOCK_IN_MINUTES = 60;
+// A shift nobody clocked out of stops counting as on duty this long after its scheduled end
+const FORGOTTEN_CLOCK_OUT_MINUTES = 120;
+
+const MINUTE = 60 * 1000;
+
+export class ShiftService {
+  // The property's timezone, from the daily reset configuration
+  private async timeZone(): Promise<string | null> {
+    const { dailyResetService } = await import("./dailyReset");
+    return dailyResetService.getTimeZone();
+  }
+
+  // Scheduled start and end of a shift in the property's local time
+  getWindow(shift: Pick<Shift, "date" | "startTime" | "endTime">, timeZone?: string | null): { start: Date; end: Date } {
+    const start = localTimeToDate(shift.date, shift.startTime, timeZone);
+    let end = localTimeToDate(shift.date, shift.endTime, timeZone);
+    if (end <= start) {
+      end = localTimeToDate(addDaysToLocalDate(shift.date, 1), shift.endTime, timeZone);
+    }
+    return { start, end };
+  }
+
+  // Returns why the shift clashes with another shift of the same person, or null when it does not
+  async checkOverlap(shift: Pick<Shift, "userId" | "date" | "startTime" | "endTime">, ignoreId?: string): Promise<string | null> {
+    const timeZone = await this.timeZone();
+    const { start, end } = this.getWindow(shift, timeZone);
+    // Overnight shifts on the neighbouring days can reach into this one
+    const nearby = await storage.listShifts({
+      userId: shift.userId,
+      dateFrom: addDaysToLocalDate(shift.date, -1),
+      dateTo: addDaysToLocalDate(shift.date, 1),
+    });
+
+    const clash = nearby.find(other => {
+      if (other.id === ignoreId) return false;
+      const window = this.getWindow(other, timeZone);
+      return window.start < end && start < window.end;
+    });
+    return clash ? `Overlaps the shift on ${clash.date} from ${clash.startTime} to ${clash.endTime}` : null;
+  }
+
+  // Returns why the shift cannot be clocked in or out, or null when it can
+  async checkClock(shift: Shift, action: ClockAction, now: Date = new Date()): Promise<string | null> {
+    if (action === "clock-in") {
+      if (shift.clockedInAt) {
+        return "Already clocked in to this shift";
+      }
+      const { start, end } = this.getWindow(shift, await this.timeZone());
+      if (now.getTime() < start.getTime() - EARLY_CLOCK_IN_MINUTES * MINUTE) {
+        return `Clock in opens ${EARLY_CLOCK_IN_MINUTES} minutes before the shift starts`;
+      }
+      if (now >= end) {
+        return "This shift has already ended";
+      }
+      return null;
+    }
+
+    if (!shift.clockedInAt) {
+      return "Not clocked in to this shift";
+    }
+    if (shift.clockedOutAt) {
+      return "Already clocked out of this shift";
+    }
+    return null;
+  }
+
+  async clock(shift: Shift, action: ClockAction, now: Date = new Date()): Promise<Shift | undefined> {
+    return storage.updateShift(shift.id, action === "clock-in" ? { clockedInAt: now } : { clockedOutAt: now });
+  }
+
+  isOnDuty(shift: Shift, now: Date = new Date(), timeZone?: string | null): boolean {
+    if (!shift.clockedInAt || shift.clockedOutAt) return false;
+    return now.getTime() < this.getWindow(shift, timeZone).end.getTime() + FORGOTTEN_CLOCK_OUT_MINUTES * MINUTE;
+  }
+
+  // Staff clocked in right now, including overnight shifts that started yesterday
+  async getOnDuty(now: Date = new Date()): Promise<OnDutyStaff[]> {
+    const timeZone = await this.timeZone();
+    const today = toLocalDate(now, timeZone);
+    const shifts = await storage.listShifts({ dateFrom: addDaysToLocalDate(today, -1), dateTo: today });
+
+    const staff: OnDutyStaff[] = [];
+    for (const shift of shifts.filter(shift => this.isOnDuty(shift, now, timeZone))) {
+      const user = await storage.getUser(shift.userId);
+      if (!user) continue;
+
+      staff.push({
+        shiftId: shift.id,
+        userId: user.id,
+        name: user.name,
+        role: user.role,
+        department: shift.department,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        clockedInAt: new Date(shift.clockedInAt!),
+      });
+    }
+    return staff;
+  }
+
+  // Narrows panic alert recipients to those on site. When none of them has
+  // clocked in the alert still goes to everyone, rather than to nobody.
+  async selectPanicRecipients(candidates: User[], now: Date = new Date()): Promise<User[]> {
+    const onDutyIds = (await this.getOnDuty(now)).map(staff => staff.userId);
+    const onSite = candidates.filter(user => onDutyIds.includes(user.id));
+    return onSite.length > 0 ? onSite : candidates;
+  }
+}
+
+export const shiftService = new ShiftService();
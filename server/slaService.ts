@@ -0,0 +1,220 @@
+import { storage } from "./storage";
+import { websocketService } from "./websocketService";
+import { emailService } from "./emailService";
+import { slaTargetsSchema, type SlaState, type SlaTargets, type WorkOrder } from "@shared/schema";
+
+const SLA_TARGETS_KEY = "sla_targets";
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const DEFAULT_SLA_TARGETS: SlaTargets = {
+  low: 72 * 60,
+  medium: 24 * 60,
+  high: 8 * 60,
+  urgent: 2 * 60,
+  atRiskPercent: 75,
+};
+
+export interface SlaComplianceBreakdown {
+  total: number;
+  metSla: number;
+  missedSla: number;
+  openAtRisk: number;
+  openBreached: number;
+  complianceRate: number;
+}
+
+export interface SlaComplianceReport extends SlaComplianceBreakdown {
+  avgResolutionMins: number;
+  byPriority: Array<SlaComplianceBreakdown & { priority: string }>;
+}
+
+function isClosed(workOrder: WorkOrder): boolean {
+  return workOrder.status === "completed" || workOrder.status === "cancelled";
+}
+
+export class SlaService {
+  private static instance: SlaService;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.scheduleChecks();
+  }
+
+  public static getInstance(): SlaService {
+    if (!SlaService.instance) {
+      SlaService.instance = new SlaService();
+    }
+    return SlaService.instance;
+  }
+
+  private scheduleChecks(): void {
+    console.log(`[SLA] Checking open work orders every ${CHECK_INTERVAL_MS / 60000} minutes`);
+
+    this.checkTimer = setInterval(() => {
+      this.evaluateOpenWorkOrders().catch(error => {
+        console.error(`[SLA] Error evaluating work orders:`, error);
+      });
+    }, CHECK_INTERVAL_MS);
+  }
+
+  public async getTargets(): Promise<SlaTargets> {
+    const setting = await storage.getSetting(SLA_TARGETS_KEY);
+    return setting ? slaTargetsSchema.parse(setting.value) : DEFAULT_SLA_TARGETS;
+  }
+
+  public async updateTargets(targets: SlaTargets): Promise<SlaTargets> {
+    await storage.upsertSetting(SLA_TARGETS_KEY, targets);
+    console.log(`[SLA] Targets updated`);
+    return targets;
+  }
+
+  // Due time for a work order of the given priority opened at `from`
+  public async computeSlaDueAt(priority: string | null | undefined, from: Date = new Date()): Promise<Date> {
+    const targets = await this.getTargets();
+    const minutes = targets[(priority || "medium") as keyof Omit<SlaTargets, "atRiskPercent">] ?? targets.medium;
+    return new Date(new Date(from).getTime() + minutes * 60 * 1000);
+  }
+
+  private getSlaState(workOrder: WorkOrder, targets: SlaTargets, now: Date): SlaState {
+    if (!workOrder.slaDueAt) return "on_track";
+
+    const dueAt = new Date(workOrder.slaDueAt).getTime();
+    if (now.getTime() >= dueAt) return "breached";
+
+    const openedAt = new Date(workOrder.createdAt || now).getTime();
+    const window = dueAt - openedAt;
+    if (window > 0 && now.getTime() - openedAt >= window * (targets.atRiskPercent / 100)) {
+      return "at_risk";
+    }
+
+    return "on_track";
+  }
+
+  // Re-evaluates a single work order, persisting state changes and escalating new breaches
+  public async evaluateWorkOrder(workOrder: WorkOrder, now: Date = new Date()): Promise<WorkOrder> {
+    if (isClosed(workOrder)) return workOrder;
+
+    const targets = await this.getTargets();
+    const updates: Partial<WorkOrder> = {};
+
+    // Older work orders created before the SLA engine have no due time yet
+    if (!workOrder.slaDueAt) {
+      updates.slaDueAt = await this.computeSlaDueAt(workOrder.priority, workOrder.createdAt || now);
+    }
+
+    const slaState = this.getSlaState({ ...workOrder, ...updates }, targets, now);
+    if (slaState !== (workOrder.slaState || "on_track")) {
+      updates.slaState = slaState;
+    }
+
+    const isNewBreach = slaState === "breached" && !workOrder.slaEscalatedAt;
+    if (isNewBreach) {
+      updates.slaEscalatedAt = now;
+    } else if (slaState !== "breached" && workOrder.slaEscalatedAt) {
+      // Due time was pushed back (e.g. priority lowered), so a future breach escalates again
+      updates.slaEscalatedAt = null;
+    }
+
+    if (Object.keys(updates).length === 0) return workOrder;
+
+    const updated = await storage.updateWorkOrder(workOrder.id, updates);
+    if (!updated) return workOrder;
+
+    if (isNewBreach) {
+      await this.escalate(updated);
+    } else if (updates.slaState === "at_risk") {
+      const room = updated.roomId ? await storage.getRoom(updated.roomId) : undefined;
+      websocketService.broadcastWorkOrderSlaChanged(updated, room);
+    }
+
+    return updated;
+  }
+
+  public async evaluateOpenWorkOrders(now: Date = new Date()): Promise<{ checked: number; atRisk: number; breached: number }> {
+    const workOrders = await storage.listWorkOrders();
+    const openWorkOrders = workOrders.filter(wo => !isClosed(wo));
+
+    let atRisk = 0;
+    let breached = 0;
+
+    for (const workOrder of openWorkOrders) {
+      const evaluated = await this.evaluateWorkOrder(workOrder, now);
+      if (evaluated.slaState === "at_risk") atRisk++;
+      if (evaluated.slaState === "breached") breached++;
+    }
+
+    return { checked: openWorkOrders.length, atRisk, breached };
+  }
+
+  private async escalate(workOrder: WorkOrder): Promise<void> {
+    console.log(`[SLA] Work order ${workOrder.id} breached its SLA, escalating`);
+
+    const room = workOrder.roomId ? await storage.getRoom(workOrder.roomId) : undefined;
+    websocketService.broadcastWorkOrderSlaChanged(workOrder, room);
+
+    try {
+      const users = await storage.listUsers();
+      const recipients = users.filter(user => user.role === "head_housekeeper" || user.role === "site_admin");
+      const assignee = workOrder.assigneeId ? users.find(user => user.id === workOrder.assigneeId) : undefined;
+
+      await emailService.sendWorkOrderSlaBreachNotification(workOrder, recipients, assignee, room);
+    } catch (error) {
+      console.error(`[SLA] Failed to send breach notification:`, error);
+    }
+  }
+
+  public async getComplianceReport(filters?: { dateFrom?: Date; dateTo?: Date }, now: Date = new Date()): Promise<SlaComplianceReport> {
+    let workOrders = (await storage.listWorkOrders()).filter(wo => wo.slaDueAt && wo.status !== "cancelled");
+
+    if (filters?.dateFrom) {
+      workOrders = workOrders.filter(wo => wo.createdAt && new Date(wo.createdAt) >= filters.dateFrom!);
+    }
+
+    if (filters?.dateTo) {
+      workOrders = workOrders.filter(wo => wo.createdAt && new Date(wo.createdAt) <= filters.dateTo!);
+    }
+
+    const summarize = (items: WorkOrder[]): SlaComplianceBreakdown => {
+      const completed = items.filter(wo => wo.status === "completed" && wo.closedAt);
+      const open = items.filter(wo => !isClosed(wo));
+
+      const metSla = completed.filter(wo => new Date(wo.closedAt!) <= new Date(wo.slaDueAt!)).length;
+      const missedSla = completed.length - metSla;
+      const openBreached = open.filter(wo => now >= new Date(wo.slaDueAt!)).length;
+      const openAtRisk = open.filter(wo => wo.slaState === "at_risk").length;
+      const measured = metSla + missedSla + openBreached;
+
+      return {
+        total: items.length,
+        metSla,
+        missedSla,
+        openAtRisk,
+        openBreached,
+        complianceRate: measured > 0 ? Math.round((metSla / measured) * 100) : 0,
+      };
+    };
+
+    const completed = workOrders.filter(wo => wo.status === "completed" && wo.closedAt && wo.createdAt);
+    const totalResolutionMins = completed.reduce((sum, wo) =>
+      sum + (new Date(wo.closedAt!).getTime() - new Date(wo.createdAt!).getTime()) / 60000, 0);
+
+    return {
+      ...summarize(workOrders),
+      avgResolutionMins: completed.length > 0 ? Math.round(totalResolutionMins / completed.length) : 0,
+      byPriority: ["urgent", "high", "medium", "low"].map(priority => ({
+        priority,
+        ...summarize(workOrders.filter(wo => (wo.priority || "medium") === priority)),
+      })),
+    };
+  }
+
+  public cleanup(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const slaService = SlaService.getInstance();
@@ -1,28 +1,44 @@
 import { 
-  type User, type InsertUser, type Room, type InsertRoom, 
+  type User, type InsertUser, type Room, type InsertRoom, type RoomType, type InsertRoomType, type CleanTypeMinutes,
   type Task, type InsertTask, type TaskPhoto, type Inspection, type InsertInspection,
+  type InspectionTemplate, type InsertInspectionTemplate,
   type WorkOrder, type InsertWorkOrder, type PMTemplate, type InsertPMTemplate,
   type PMInstance, type InsertPMInstance, type PanicEvent, type InsertPanicEvent,
-  type ReportRun, type InsertReportRun, type RoomAssignment, type InsertRoomAssignment, type RoomComment, type InsertRoomComment
+  type ReportRun, type InsertReportRun, type RoomAssignment, type InsertRoomAssignment, type RoomComment, type InsertRoomComment,
+  type RoomStatusEvent, type InsertRoomStatusEvent, type Shift, type InsertShift,
+  type Reservation, type InsertReservation, type PmsSyncLog, type InsertPmsSyncLog,
+  type AuditLog, type InsertAuditLog, type AuditLogFilters,
+  type AppSetting, type LostFoundItem, type InsertLostFoundItem
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import fs from "fs/promises";
 import path from "path";
+import { createDatabase } from "./db";
+import { DrizzleStorage } from "./drizzleStorage";
 
-const DATA_DIR = path.join(process.cwd(), "data");
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data");
 const DATA_FILES = {
   users: path.join(DATA_DIR, "users.json"),
+  roomTypes: path.join(DATA_DIR, "room-types.json"),
   rooms: path.join(DATA_DIR, "rooms.json"),
   tasks: path.join(DATA_DIR, "tasks.json"),
   taskPhotos: path.join(DATA_DIR, "task-photos.json"),
+  inspectionTemplates: path.join(DATA_DIR, "inspection-templates.json"),
   inspections: path.join(DATA_DIR, "inspections.json"),
   workOrders: path.join(DATA_DIR, "work-orders.json"),
   pmTemplates: path.join(DATA_DIR, "pm-templates.json"),
   pmInstances: path.join(DATA_DIR, "pm-instances.json"),
   panicEvents: path.join(DATA_DIR, "panic-events.json"),
+  lostFoundItems: path.join(DATA_DIR, "lost-found-items.json"),
   reportRuns: path.join(DATA_DIR, "report-runs.json"),
   roomAssignments: path.join(DATA_DIR, "room-assignments.json"),
   roomComments: path.join(DATA_DIR, "room-comments.json"),
+  roomStatusEvents: path.join(DATA_DIR, "room-status-events.json"),
+  shifts: path.join(DATA_DIR, "shifts.json"),
+  reservations: path.join(DATA_DIR, "reservations.json"),
+  pmsSyncLogs: path.join(DATA_DIR, "pms-sync-logs.json"),
+  auditLogs: path.join(DATA_DIR, "audit-logs.json"),
+  appSettings: path.join(DATA_DIR, "app-settings.json"),
 };
 
 export interface IStorage {
@@ -34,6 +50,13 @@ export interface IStorage {
   deleteUser(id: string): Promise<boolean>;
   listUsers(): Promise<User[]>;
   
+  // Room Types
+  getRoomType(id: string): Promise<RoomType | undefined>;
+  createRoomType(roomType: InsertRoomType): Promise<RoomType>;
+  updateRoomType(id: string, updates: Partial<RoomType>): Promise<RoomType | undefined>;
+  deleteRoomType(id: string): Promise<boolean>;
+  listRoomTypes(): Promise<RoomType[]>;
+  
   // Rooms
   getRoom(id: string): Promise<Room | undefined>;
   getRoomByNumber(number: string): Promise<Room | undefined>;
@@ -54,6 +77,13 @@ export interface IStorage {
   createTaskPhoto(photo: { taskId: string; url: string }): Promise<TaskPhoto>;
   getTaskPhotos(taskId: string): Promise<TaskPhoto[]>;
   
+  // Inspection Templates
+  getInspectionTemplate(id: string): Promise<InspectionTemplate | undefined>;
+  createInspectionTemplate(template: InsertInspectionTemplate): Promise<InspectionTemplate>;
+  updateInspectionTemplate(id: string, updates: Partial<InspectionTemplate>): Promise<InspectionTemplate | undefined>;
+  deleteInspectionTemplate(id: string): Promise<boolean>;
+  listInspectionTemplates(filters?: { kind?: string }): Promise<InspectionTemplate[]>;
+  
   // Inspections
   getInspection(id: string): Promise<Inspection | undefined>;
   createInspection(inspection: InsertInspection): Promise<Inspection>;
@@ -70,6 +100,7 @@ export interface IStorage {
   // PM Templates
   getPMTemplate(id: string): Promise<PMTemplate | undefined>;
   createPMTemplate(template: InsertPMTemplate): Promise<PMTemplate>;
+  updatePMTemplate(id: string, updates: Partial<PMTemplate>): Promise<PMTemplate | undefined>;
   listPMTemplates(): Promise<PMTemplate[]>;
   
   // PM Instances
@@ -82,6 +113,13 @@ export interface IStorage {
   createPanicEvent(event: InsertPanicEvent): Promise<PanicEvent>;
   listPanicEvents(): Promise<PanicEvent[]>;
   
+  // Lost & Found
+  getLostFoundItem(id: string): Promise<LostFoundItem | undefined>;
+  createLostFoundItem(item: InsertLostFoundItem): Promise<LostFoundItem>;
+  updateLostFoundItem(id: string, updates: Partial<LostFoundItem>): Promise<LostFoundItem | undefined>;
+  deleteLostFoundItem(id: string): Promise<boolean>;
+  listLostFoundItems(filters?: { status?: string; roomId?: string; expiringBefore?: Date }): Promise<LostFoundItem[]>;
+  
   // Reports
   createReportRun(report: InsertReportRun): Promise<ReportRun>;
   getReportRun(id: string): Promise<ReportRun | undefined>;
@@ -99,6 +137,37 @@ export interface IStorage {
   listRoomComments(roomId?: string): Promise<RoomComment[]>;
   deleteRoomComment(id: string): Promise<boolean>;
 
+  // Room Status History
+  createRoomStatusEvent(event: InsertRoomStatusEvent): Promise<RoomStatusEvent>;
+  listRoomStatusEvents(roomId?: string): Promise<RoomStatusEvent[]>;
+
+  // Shifts
+  getShift(id: string): Promise<Shift | undefined>;
+  createShift(shift: InsertShift): Promise<Shift>;
+  updateShift(id: string, updates: Partial<Shift>): Promise<Shift | undefined>;
+  deleteShift(id: string): Promise<boolean>;
+  listShifts(filters?: { userId?: string; dateFrom?: string; dateTo?: string }): Promise<Shift[]>;
+
+  // Reservations
+  getReservation(id: string): Promise<Reservation | undefined>;
+  createReservation(reservation: InsertReservation): Promise<Reservation>;
+  updateReservation(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined>;
+  listReservations(filters?: { roomId?: string; externalId?: string; dateFrom?: string; dateTo?: string }): Promise<Reservation[]>;
+
+  // PMS Sync Log
+  getPmsSyncLog(id: string): Promise<PmsSyncLog | undefined>;
+  createPmsSyncLog(entry: InsertPmsSyncLog): Promise<PmsSyncLog>;
+  updatePmsSyncLog(id: string, updates: Partial<PmsSyncLog>): Promise<PmsSyncLog | undefined>;
+  listPmsSyncLogs(filters?: { status?: string; direction?: string; limit?: number }): Promise<PmsSyncLog[]>;
+
+  // Audit Log
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  listAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]>;
+
+  // Settings
+  getSetting(key: string): Promise<AppSetting | undefined>;
+  upsertSetting(key: string, value: unknown): Promise<AppSetting>;
+
   // Analytics
   getRAAvgTimes(filters?: { userId?: string; taskType?: string; dateFrom?: Date; dateTo?: Date }): Promise<any[]>;
   getInspectionReports(filters?: { dateFrom?: Date; dateTo?: Date }): Promise<any>;
@@ -108,35 +177,56 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private data: {
     users: Map<string, User>;
+    roomTypes: Map<string, RoomType>;
     rooms: Map<string, Room>;
     tasks: Map<string, Task>;
     taskPhotos: Map<string, TaskPhoto>;
+    inspectionTemplates: Map<string, InspectionTemplate>;
     inspections: Map<string, Inspection>;
     workOrders: Map<string, WorkOrder>;
     pmTemplates: Map<string, PMTemplate>;
     pmInstances: Map<string, PMInstance>;
     panicEvents: Map<string, PanicEvent>;
+    lostFoundItems: Map<string, LostFoundItem>;
     reportRuns: Map<string, ReportRun>;
     roomAssignments: Map<string, RoomAssignment>;
     roomComments: Map<string, RoomComment>;
+    roomStatusEvents: Map<string, RoomStatusEvent>;
+    shifts: Map<string, Shift>;
+    reservations: Map<string, Reservation>;
+    pmsSyncLogs: Map<string, PmsSyncLog>;
+    auditLogs: Map<string, AuditLog>;
+    appSettings: Map<string, AppSetting>;
   };
 
+  // Resolves once saved data is loaded and demo data seeded
+  readonly ready: Promise<void>;
+
   constructor() {
     this.data = {
       users: new Map(),
+      roomTypes: new Map(),
       rooms: new Map(),
       tasks: new Map(),
       taskPhotos: new Map(),
+      inspectionTemplates: new Map(),
       inspections: new Map(),
       workOrders: new Map(),
       pmTemplates: new Map(),
       pmInstances: new Map(),
       panicEvents: new Map(),
+      lostFoundItems: new Map(),
       reportRuns: new Map(),
       roomAssignments: new Map(),
       roomComments: new Map(),
+      roomStatusEvents: new Map(),
+      shifts: new Map(),
+      reservations: new Map(),
+      pmsSyncLogs: new Map(),
+      auditLogs: new Map(),
+      appSettings: new Map(),
     };
-    this.loadData().then(() => this.seedDemoData());
+    this.ready = this.loadData().then(() => this.seedDemoData());
   }
 
   private async ensureDataDir() {
@@ -242,6 +332,31 @@ export class MemStorage implements IStorage {
       await this.saveData('users');
       console.log('Demo users seeded successfully');
       
+      // Create the demo room type catalog
+      const demoRoomTypes = [
+        { name: "Standard", standardMinutes: { stayover: 15, checkout: 30, deep_clean: 60 }, credits: 1 },
+        { name: "Deluxe", standardMinutes: { stayover: 20, checkout: 40, deep_clean: 80 }, credits: 1.5 },
+        { name: "Suite", standardMinutes: { stayover: 30, checkout: 60, deep_clean: 120 }, credits: 2 },
+      ];
+
+      const roomTypeIds: Record<string, string> = {};
+      for (const roomTypeData of demoRoomTypes) {
+        const id = randomUUID();
+        const roomType: RoomType = {
+          ...roomTypeData,
+          id,
+          description: null,
+          checklists: {},
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        this.data.roomTypes.set(id, roomType);
+        roomTypeIds[roomType.name] = id;
+      }
+      
+      await this.saveData('roomTypes');
+      console.log('Demo room types seeded successfully');
+      
       // Create some demo rooms
       const demoRooms = [
         { number: "101", type: "Standard", floor: 1, status: "dirty" as const, squareFootage: 320 },
@@ -256,6 +371,7 @@ export class MemStorage implements IStorage {
         const room: Room = {
           ...roomData,
           id,
+          roomTypeId: roomTypeIds[roomData.type],
           floor: roomData.floor,
           status: roomData.status,
           squareFootage: roomData.squareFootage,
@@ -268,6 +384,74 @@ export class MemStorage implements IStorage {
       await this.saveData('rooms');
       console.log('Demo rooms seeded successfully');
 
+      // Create the demo inspection templates
+      const demoInspectionTemplates: InsertInspectionTemplate[] = [
+        {
+          name: "Standard Room Inspection",
+          kind: "room",
+          passThreshold: 80,
+          sections: [
+            {
+              id: "bedroom",
+              title: "Bedroom",
+              items: [
+                { id: "bed-linens", title: "Bed linens clean and properly arranged", description: "Check for stains, wrinkles, and proper hospital corners", weight: 2, critical: false, maintenance: false },
+                { id: "amenities", title: "Amenities properly stocked", description: "Towels, toiletries, coffee, water bottles, etc.", weight: 1, critical: false, maintenance: false },
+                { id: "hvac", title: "Room temperature and HVAC", description: "Proper temperature control and air circulation", weight: 1, critical: false, maintenance: true },
+                { id: "electronics", title: "Electronics and lighting", description: "TV, lights, alarm clock, phone all functional", weight: 1, critical: false, maintenance: true },
+              ],
+            },
+            {
+              id: "bathroom",
+              title: "Bathroom",
+              items: [
+                { id: "bathroom-clean", title: "Bathroom cleanliness", description: "Toilet, shower, sink, mirror, and floor must be spotless", weight: 2, critical: false, maintenance: false },
+              ],
+            },
+            {
+              id: "safety",
+              title: "Safety",
+              items: [
+                { id: "safety-security", title: "Safety and security", description: "Door locks, safe, fire safety equipment", weight: 1, critical: true, maintenance: false },
+              ],
+            },
+          ],
+        },
+        {
+          name: "Housekeeping Process Review",
+          kind: "process",
+          passThreshold: 80,
+          sections: [
+            {
+              id: "procedure",
+              title: "Procedure",
+              items: [
+                { id: "procedures", title: "Staff adherence to cleaning procedures", description: "Proper sequence and technique followed", weight: 1, critical: false, maintenance: false },
+                { id: "supplies", title: "Equipment and supplies availability", description: "All necessary tools and cleaning supplies present", weight: 1, critical: false, maintenance: false },
+                { id: "timing", title: "Time management and efficiency", description: "Tasks completed within expected timeframe", weight: 1, critical: false, maintenance: false },
+                { id: "safety-protocol", title: "Safety protocol compliance", description: "PPE usage and safety procedures followed", weight: 1, critical: true, maintenance: false },
+              ],
+            },
+          ],
+        },
+      ];
+
+      for (const templateData of demoInspectionTemplates) {
+        const id = randomUUID();
+        const template: InspectionTemplate = {
+          ...templateData,
+          id,
+          roomType: null,
+          passThreshold: templateData.passThreshold ?? 80,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        this.data.inspectionTemplates.set(id, template);
+      }
+
+      await this.saveData('inspectionTemplates');
+      console.log('Demo inspection templates seeded successfully');
+
       // Get user IDs for demo data
       const adminUser = Array.from(this.data.users.values()).find(u => u.role === 'site_admin');
       const housekeeperUser = Array.from(this.data.users.values()).find(u => u.role === 'head_housekeeper');
@@ -359,6 +543,9 @@ export class MemStorage implements IStorage {
           parts: null,
           laborMins: null,
           slaDueAt: null,
+          slaState: null,
+          slaEscalatedAt: null,
+          inspectionId: null,
           createdAt: new Date(),
           updatedAt: new Date(),
           closedAt: woData.status === 'completed' ? new Date() : null,
@@ -417,6 +604,50 @@ export class MemStorage implements IStorage {
     return Array.from(this.data.users.values());
   }
 
+  // Room Types
+  async getRoomType(id: string): Promise<RoomType | undefined> {
+    return this.data.roomTypes.get(id);
+  }
+
+  async createRoomType(insertRoomType: InsertRoomType): Promise<RoomType> {
+    const id = randomUUID();
+    const roomType: RoomType = {
+      ...insertRoomType,
+      id,
+      description: insertRoomType.description ?? null,
+      credits: insertRoomType.credits ?? 1,
+      checklists: insertRoomType.checklists ?? {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.roomTypes.set(id, roomType);
+    await this.saveData('roomTypes');
+    return roomType;
+  }
+
+  async updateRoomType(id: string, updates: Partial<RoomType>): Promise<RoomType | undefined> {
+    const roomType = this.data.roomTypes.get(id);
+    if (!roomType) return undefined;
+    
+    const updatedRoomType = { ...roomType, ...updates, updatedAt: new Date() };
+    this.data.roomTypes.set(id, updatedRoomType);
+    await this.saveData('roomTypes');
+    return updatedRoomType;
+  }
+
+  async deleteRoomType(id: string): Promise<boolean> {
+    const roomType = this.data.roomTypes.get(id);
+    if (!roomType) return false;
+    
+    this.data.roomTypes.delete(id);
+    await this.saveData('roomTypes');
+    return true;
+  }
+
+  async listRoomTypes(): Promise<RoomType[]> {
+    return Array.from(this.data.roomTypes.values());
+  }
+
   // Rooms
   async getRoom(id: string): Promise<Room | undefined> {
     return this.data.rooms.get(id);
@@ -432,6 +663,7 @@ export class MemStorage implements IStorage {
       ...insertRoom,
       id,
       status: insertRoom.status ?? null,
+      roomTypeId: insertRoom.roomTypeId ?? null,
       floor: insertRoom.floor ?? null,
       squareFootage: insertRoom.squareFootage ?? null,
       createdAt: new Date(),
@@ -476,17 +708,21 @@ export class MemStorage implements IStorage {
       ...insertTask,
       id,
       description: insertTask.description ?? null,
-      status: insertTask.status ?? null,
-      priority: insertTask.priority ?? null,
+      status: insertTask.status ?? "pending",
+      priority: insertTask.priority ?? "medium",
       roomId: insertTask.roomId ?? null,
+      cleanType: insertTask.cleanType ?? null,
       assigneeId: insertTask.assigneeId ?? null,
       dueAt: insertTask.dueAt ?? null,
       startedAt: insertTask.startedAt ?? null,
       pausedAt: insertTask.pausedAt ?? null,
+      pausedSeconds: insertTask.pausedSeconds ?? 0,
       finishedAt: insertTask.finishedAt ?? null,
       verifiedById: insertTask.verifiedById ?? null,
+      inspectionId: insertTask.inspectionId ?? null,
       notes: insertTask.notes ?? null,
       isDeleted: false,
+      archivedAt: insertTask.archivedAt ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -532,7 +768,7 @@ export class MemStorage implements IStorage {
   }
 
   async restoreTask(id: string): Promise<Task | undefined> {
-    return this.updateTask(id, { isDeleted: false });
+    return this.updateTask(id, { isDeleted: false, archivedAt: null });
   }
 
   // Task Photos
@@ -552,6 +788,54 @@ export class MemStorage implements IStorage {
     return Array.from(this.data.taskPhotos.values()).filter(photo => photo.taskId === taskId);
   }
 
+  // Inspection Templates
+  async getInspectionTemplate(id: string): Promise<InspectionTemplate | undefined> {
+    return this.data.inspectionTemplates.get(id);
+  }
+
+  async createInspectionTemplate(insertTemplate: InsertInspectionTemplate): Promise<InspectionTemplate> {
+    const id = randomUUID();
+    const template: InspectionTemplate = {
+      ...insertTemplate,
+      id,
+      roomType: insertTemplate.roomType ?? null,
+      passThreshold: insertTemplate.passThreshold ?? 80,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.inspectionTemplates.set(id, template);
+    await this.saveData('inspectionTemplates');
+    return template;
+  }
+
+  async updateInspectionTemplate(id: string, updates: Partial<InspectionTemplate>): Promise<InspectionTemplate | undefined> {
+    const template = this.data.inspectionTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate = { ...template, ...updates, updatedAt: new Date() };
+    this.data.inspectionTemplates.set(id, updatedTemplate);
+    await this.saveData('inspectionTemplates');
+    return updatedTemplate;
+  }
+
+  async deleteInspectionTemplate(id: string): Promise<boolean> {
+    if (!this.data.inspectionTemplates.has(id)) return false;
+
+    this.data.inspectionTemplates.delete(id);
+    await this.saveData('inspectionTemplates');
+    return true;
+  }
+
+  async listInspectionTemplates(filters?: { kind?: string }): Promise<InspectionTemplate[]> {
+    let templates = Array.from(this.data.inspectionTemplates.values());
+
+    if (filters?.kind) {
+      templates = templates.filter(template => template.kind === filters.kind);
+    }
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   // Inspections
   async getInspection(id: string): Promise<Inspection | undefined> {
     return this.data.inspections.get(id);
@@ -563,9 +847,18 @@ export class MemStorage implements IStorage {
       ...insertInspection,
       id,
       roomId: insertInspection.roomId ?? null,
+      templateId: insertInspection.templateId ?? null,
+      passThreshold: insertInspection.passThreshold ?? null,
       score: insertInspection.score ?? null,
       passFail: insertInspection.passFail ?? null,
       signedAt: insertInspection.signedAt ?? null,
+      signatureUrl: insertInspection.signatureUrl ?? null,
+      signatureHash: insertInspection.signatureHash ?? null,
+      unlockedAt: insertInspection.unlockedAt ?? null,
+      unlockedById: insertInspection.unlockedById ?? null,
+      unlockReason: insertInspection.unlockReason ?? null,
+      reinspectionId: insertInspection.reinspectionId ?? null,
+      remediatedAt: insertInspection.remediatedAt ?? null,
       createdAt: new Date(),
     };
     this.data.inspections.set(id, inspection);
@@ -626,6 +919,10 @@ export class MemStorage implements IStorage {
       startedAt: insertWorkOrder.startedAt ?? null,
       completedAt: insertWorkOrder.completedAt ?? null,
       closedAt: insertWorkOrder.closedAt ?? null,
+      slaDueAt: insertWorkOrder.slaDueAt ?? null,
+      slaState: insertWorkOrder.slaState ?? null,
+      slaEscalatedAt: insertWorkOrder.slaEscalatedAt ?? null,
+      inspectionId: insertWorkOrder.inspectionId ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -672,6 +969,8 @@ export class MemStorage implements IStorage {
     const template: PMTemplate = {
       ...insertTemplate,
       id,
+      roomType: insertTemplate.roomType ?? null,
+      asset: insertTemplate.asset ?? null,
       createdAt: new Date(),
     };
     this.data.pmTemplates.set(id, template);
@@ -679,6 +978,16 @@ export class MemStorage implements IStorage {
     return template;
   }
 
+  async updatePMTemplate(id: string, updates: Partial<PMTemplate>): Promise<PMTemplate | undefined> {
+    const template = this.data.pmTemplates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate = { ...template, ...updates };
+    this.data.pmTemplates.set(id, updatedTemplate);
+    await this.saveData('pmTemplates');
+    return updatedTemplate;
+  }
+
   async listPMTemplates(): Promise<PMTemplate[]> {
     return Array.from(this.data.pmTemplates.values());
   }
@@ -694,8 +1003,11 @@ export class MemStorage implements IStorage {
       ...insertInstance,
       id,
       status: insertInstance.status ?? null,
+      roomId: insertInstance.roomId ?? null,
       assigneeId: insertInstance.assigneeId ?? null,
       completedAt: insertInstance.completedAt ?? null,
+      skipReason: insertInstance.skipReason ?? null,
+      checklistResults: insertInstance.checklistResults ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -751,6 +1063,73 @@ export class MemStorage implements IStorage {
     return Array.from(this.data.panicEvents.values());
   }
 
+  // Lost & Found
+  async getLostFoundItem(id: string): Promise<LostFoundItem | undefined> {
+    return this.data.lostFoundItems.get(id);
+  }
+
+  async createLostFoundItem(insertItem: InsertLostFoundItem): Promise<LostFoundItem> {
+    const id = randomUUID();
+    const item: LostFoundItem = {
+      ...insertItem,
+      id,
+      storageArea: insertItem.storageArea ?? null,
+      status: insertItem.status ?? "logged",
+      roomId: insertItem.roomId ?? null,
+      photos: insertItem.photos ?? null,
+      expireAt: insertItem.expireAt ?? null,
+      claimantName: null,
+      claimantContact: null,
+      returnNotes: null,
+      returnedById: null,
+      returnedAt: null,
+      clearedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.lostFoundItems.set(id, item);
+    await this.saveData('lostFoundItems');
+    return item;
+  }
+
+  async updateLostFoundItem(id: string, updates: Partial<LostFoundItem>): Promise<LostFoundItem | undefined> {
+    const item = this.data.lostFoundItems.get(id);
+    if (!item) return undefined;
+    
+    const updatedItem = { ...item, ...updates, updatedAt: new Date() };
+    this.data.lostFoundItems.set(id, updatedItem);
+    await this.saveData('lostFoundItems');
+    return updatedItem;
+  }
+
+  async deleteLostFoundItem(id: string): Promise<boolean> {
+    const existed = this.data.lostFoundItems.has(id);
+    if (existed) {
+      this.data.lostFoundItems.delete(id);
+      await this.saveData('lostFoundItems');
+    }
+    return existed;
+  }
+
+  async listLostFoundItems(filters?: { status?: string; roomId?: string; expiringBefore?: Date }): Promise<LostFoundItem[]> {
+    let items = Array.from(this.data.lostFoundItems.values());
+    
+    if (filters?.status) {
+      items = items.filter(item => item.status === filters.status);
+    }
+    
+    if (filters?.roomId) {
+      items = items.filter(item => item.roomId === filters.roomId);
+    }
+    
+    if (filters?.expiringBefore) {
+      items = items.filter(item => item.expireAt && new Date(item.expireAt) <= filters.expiringBefore!);
+    }
+    
+    // Sort by newest first
+    return items.sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
   // Room Comments
   async getRoomComment(id: string): Promise<RoomComment | undefined> {
     return this.data.roomComments.get(id);
@@ -848,6 +1227,244 @@ export class MemStorage implements IStorage {
     return existed;
   }
 
+  // Room Status History
+  async createRoomStatusEvent(insertEvent: InsertRoomStatusEvent): Promise<RoomStatusEvent> {
+    const id = randomUUID();
+    const event: RoomStatusEvent = {
+      ...insertEvent,
+      id,
+      fromStatus: insertEvent.fromStatus ?? null,
+      userId: insertEvent.userId ?? null,
+      source: insertEvent.source ?? "manual",
+      notes: insertEvent.notes ?? null,
+      workOrderId: insertEvent.workOrderId ?? null,
+      createdAt: new Date(),
+    };
+    this.data.roomStatusEvents.set(id, event);
+    await this.saveData('roomStatusEvents');
+    return event;
+  }
+
+  async listRoomStatusEvents(roomId?: string): Promise<RoomStatusEvent[]> {
+    let events = Array.from(this.data.roomStatusEvents.values());
+
+    if (roomId) {
+      events = events.filter(event => event.roomId === roomId);
+    }
+
+    // Sort by newest first
+    return events.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  // Shifts
+  async getShift(id: string): Promise<Shift | undefined> {
+    return this.data.shifts.get(id);
+  }
+
+  async createShift(insertShift: InsertShift): Promise<Shift> {
+    const id = randomUUID();
+    const shift: Shift = {
+      ...insertShift,
+      id,
+      clockedInAt: null,
+      clockedOutAt: null,
+      createdById: insertShift.createdById ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.shifts.set(id, shift);
+    await this.saveData('shifts');
+    return shift;
+  }
+
+  async updateShift(id: string, updates: Partial<Shift>): Promise<Shift | undefined> {
+    const shift = this.data.shifts.get(id);
+    if (!shift) return undefined;
+
+    const updatedShift = { ...shift, ...updates, updatedAt: new Date() };
+    this.data.shifts.set(id, updatedShift);
+    await this.saveData('shifts');
+    return updatedShift;
+  }
+
+  async deleteShift(id: string): Promise<boolean> {
+    const deleted = this.data.shifts.delete(id);
+    if (deleted) {
+      await this.saveData('shifts');
+    }
+    return deleted;
+  }
+
+  async listShifts(filters?: { userId?: string; dateFrom?: string; dateTo?: string }): Promise<Shift[]> {
+    let shifts = Array.from(this.data.shifts.values());
+
+    if (filters?.userId) {
+      shifts = shifts.filter(shift => shift.userId === filters.userId);
+    }
+
+    // Dates are YYYY-MM-DD, so they compare as strings; both bounds are inclusive
+    if (filters?.dateFrom) {
+      shifts = shifts.filter(shift => shift.date >= filters.dateFrom!);
+    }
+
+    if (filters?.dateTo) {
+      shifts = shifts.filter(shift => shift.date <= filters.dateTo!);
+    }
+
+    return shifts.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+  }
+
+  // Reservations
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    return this.data.reservations.get(id);
+  }
+
+  async createReservation(insertReservation: InsertReservation): Promise<Reservation> {
+    const id = randomUUID();
+    const reservation: Reservation = {
+      ...insertReservation,
+      id,
+      externalId: insertReservation.externalId ?? null,
+      guestName: insertReservation.guestName ?? null,
+      status: insertReservation.status ?? "reserved",
+      doNotDisturb: insertReservation.doNotDisturb ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.reservations.set(id, reservation);
+    await this.saveData('reservations');
+    return reservation;
+  }
+
+  async updateReservation(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined> {
+    const reservation = this.data.reservations.get(id);
+    if (!reservation) return undefined;
+
+    const updatedReservation = { ...reservation, ...updates, updatedAt: new Date() };
+    this.data.reservations.set(id, updatedReservation);
+    await this.saveData('reservations');
+    return updatedReservation;
+  }
+
+  async listReservations(filters?: { roomId?: string; externalId?: string; dateFrom?: string; dateTo?: string }): Promise<Reservation[]> {
+    let reservations = Array.from(this.data.reservations.values());
+
+    if (filters?.roomId) {
+      reservations = reservations.filter(reservation => reservation.roomId === filters.roomId);
+    }
+
+    if (filters?.externalId) {
+      reservations = reservations.filter(reservation => reservation.externalId === filters.externalId);
+    }
+
+    // Keeps stays touching the range, counting the departure day so checkouts on dateFrom are included
+    if (filters?.dateFrom) {
+      reservations = reservations.filter(reservation => reservation.departureDate >= filters.dateFrom!);
+    }
+
+    if (filters?.dateTo) {
+      reservations = reservations.filter(reservation => reservation.arrivalDate <= filters.dateTo!);
+    }
+
+    return reservations.sort((a, b) => a.arrivalDate.localeCompare(b.arrivalDate));
+  }
+
+  // PMS Sync Log
+  async getPmsSyncLog(id: string): Promise<PmsSyncLog | undefined> {
+    return this.data.pmsSyncLogs.get(id);
+  }
+
+  async createPmsSyncLog(insertEntry: InsertPmsSyncLog): Promise<PmsSyncLog> {
+    const id = randomUUID();
+    const entry: PmsSyncLog = {
+      ...insertEntry,
+      id,
+      roomId: insertEntry.roomId ?? null,
+      attempts: insertEntry.attempts ?? 1,
+      lastError: insertEntry.lastError ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.data.pmsSyncLogs.set(id, entry);
+    await this.saveData('pmsSyncLogs');
+    return entry;
+  }
+
+  async updatePmsSyncLog(id: string, updates: Partial<PmsSyncLog>): Promise<PmsSyncLog | undefined> {
+    const entry = this.data.pmsSyncLogs.get(id);
+    if (!entry) return undefined;
+
+    const updatedEntry = { ...entry, ...updates, updatedAt: new Date() };
+    this.data.pmsSyncLogs.set(id, updatedEntry);
+    await this.saveData('pmsSyncLogs');
+    return updatedEntry;
+  }
+
+  async listPmsSyncLogs(filters?: { status?: string; direction?: string; limit?: number }): Promise<PmsSyncLog[]> {
+    let entries = Array.from(this.data.pmsSyncLogs.values());
+
+    if (filters?.status) {
+      entries = entries.filter(entry => entry.status === filters.status);
+    }
+
+    if (filters?.direction) {
+      entries = entries.filter(entry => entry.direction === filters.direction);
+    }
+
+    // Sort by newest first
+    entries.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+    return filters?.limit ? entries.slice(0, filters.limit) : entries;
+  }
+
+  // Audit Log
+  async createAuditLog(insertEntry: InsertAuditLog): Promise<AuditLog> {
+    const id = randomUUID();
+    const entry: AuditLog = {
+      ...insertEntry,
+      id,
+      actorId: insertEntry.actorId ?? null,
+      actorName: insertEntry.actorName ?? null,
+      entityId: insertEntry.entityId ?? null,
+      changes: insertEntry.changes ?? null,
+      createdAt: new Date(),
+    };
+    this.data.auditLogs.set(id, entry);
+    await this.saveData('auditLogs');
+    return entry;
+  }
+
+  async listAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]> {
+    let entries = Array.from(this.data.auditLogs.values());
+
+    if (filters?.actorId) {
+      entries = entries.filter(entry => entry.actorId === filters.actorId);
+    }
+
+    if (filters?.entityType) {
+      entries = entries.filter(entry => entry.entityType === filters.entityType);
+    }
+
+    if (filters?.entityId) {
+      entries = entries.filter(entry => entry.entityId === filters.entityId);
+    }
+
+    if (filters?.action) {
+      entries = entries.filter(entry => entry.action === filters.action);
+    }
+
+    if (filters?.dateFrom) {
+      entries = entries.filter(entry => new Date(entry.createdAt!) >= filters.dateFrom!);
+    }
+
+    if (filters?.dateTo) {
+      entries = entries.filter(entry => new Date(entry.createdAt!) <= filters.dateTo!);
+    }
+
+    // Sort by newest first
+    entries.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+    return filters?.limit ? entries.slice(0, filters.limit) : entries;
+  }
+
   // Reports
   async createReportRun(insertReport: InsertReportRun): Promise<ReportRun> {
     const id = randomUUID();
@@ -870,6 +1487,24 @@ export class MemStorage implements IStorage {
     return Array.from(this.data.reportRuns.values());
   }
 
+  // Settings
+  async getSetting(key: string): Promise<AppSetting | undefined> {
+    return Array.from(this.data.appSettings.values()).find(setting => setting.key === key);
+  }
+
+  async upsertSetting(key: string, value: unknown): Promise<AppSetting> {
+    const existing = await this.getSetting(key);
+    const setting: AppSetting = {
+      id: existing?.id ?? randomUUID(),
+      key,
+      value,
+      updatedAt: new Date(),
+    };
+    this.data.appSettings.set(setting.id, setting);
+    await this.saveData('appSettings');
+    return setting;
+  }
+
   // Analytics
   async getRAAvgTimes(filters?: { userId?: string; taskType?: string; dateFrom?: Date; dateTo?: Date }): Promise<any[]> {
     let tasks = Array.from(this.data.tasks.values()).filter(task => 
@@ -966,6 +1601,9 @@ export class MemStorage implements IStorage {
         acc[key] = {
           userId: task.assigneeId,
           totalSquareFeet: 0,
+          expectedMinutes: 0,
+          actualMinutes: 0,
+          credits: 0,
           taskCount: 0,
         };
       }
@@ -974,13 +1612,43 @@ export class MemStorage implements IStorage {
       if (room && room.squareFootage) {
         acc[key].totalSquareFeet += room.squareFootage;
       }
+
+      // Expected time comes from the room type's standard for the task's clean type
+      const roomType = room?.roomTypeId ? this.data.roomTypes.get(room.roomTypeId) : undefined;
+      if (roomType) {
+        const standardMinutes = roomType.standardMinutes as CleanTypeMinutes;
+        acc[key].expectedMinutes += task.cleanType ? standardMinutes[task.cleanType] : 0;
+        acc[key].credits += roomType.credits;
+      }
+      if (task.startedAt) {
+        const elapsedSeconds = (new Date(task.finishedAt!).getTime() - new Date(task.startedAt).getTime()) / 1000;
+        acc[key].actualMinutes += Math.max(0, elapsedSeconds - (task.pausedSeconds || 0)) / 60;
+      }
       acc[key].taskCount++;
       
       return acc;
     }, {} as Record<string, any>);
     
-    return Object.values(grouped);
+    return Object.values(grouped).map(metrics => ({
+      ...metrics,
+      actualMinutes: Math.round(metrics.actualMinutes),
+    }));
+  }
+}
+
+// STORAGE_DRIVER selects the backend: "memory" (JSON files under data/, default)
+// or "postgres" (Drizzle against DATABASE_URL).
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || "memory";
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DrizzleStorage(createDatabase());
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER '${driver}', expected 'memory' or 'postgres'`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { taskActionTransitions, type Task, type TaskAction } from "@shared/schema";
+
+interface TaskDurationBreakdown {
+  taskCount: number;
+  avgMinutes: number;
+}
+
+interface TaskDurationReport extends TaskDurationBreakdown {
+  byRoomType: Array<TaskDurationBreakdown & { roomType: string }>;
+  byAttendant: Array<TaskDurationBreakdown & { userId: string; name: string }>;
+  // By the UTC date the tasks were finished
+  byDay: Array<TaskDurationBreakdown & { date: string }>;
+}
+
+const secondsBetween = (from: Date | string, to: Date) =>
+  Math.max(0, Math.round((to.getTime() - new Date(from).getTime()) / 1000));
+
+export class TaskLifecycleService {
+  // Returns why the action cannot be taken on the task, or null when it can
+  checkAction(task: Task, action: TaskAction): string | null {
+    const status = task.status || "pending";
+    if (!taskActionTransitions[action].from.includes(status)) {
+      return `Cannot ${action} a task that is ${status.replace(/_/g, " ")}`;
+    }
+    if (action === "verify" && task.verifiedById) {
+      return "Task has already been verified";
+    }
+    return null;
+  }
+
+  // Moves the task to the action's status and stamps its timing fields with
+  // the server clock. Time spent paused is added to pausedSeconds whenever a
+  // paused task resumes or ends.
+  async applyAction(
+    task: Task,
+    action: TaskAction,
+    change: { userId: string; notes?: string; now?: Date }
+  ): Promise<Task | undefined> {
+    const now = change.now ?? new Date();
+    const updates: Partial<Task> = {
+      status: taskActionTransitions[action].to,
+      updatedAt: now,
+    };
+
+    if (task.status === "paused" && task.pausedAt && action !== "pause") {
+      updates.pausedSeconds = (task.pausedSeconds || 0) + secondsBetween(task.pausedAt, now);
+      updates.pausedAt = null;
+    }
+
+    switch (action) {
+      case "start":
+        updates.startedAt = now;
+        updates.pausedSeconds = 0;
+        break;
+      case "pause":
+        updates.pausedAt = now;
+        break;
+      case "complete":
+      case "fail":
+        updates.finishedAt = now;
+        break;
+      case "verify":
+        updates.verifiedById = change.userId;
+        break;
+    }
+
+    if (change.notes) {
+      updates.notes = task.notes ? `${task.notes}\n${change.notes}` : change.notes;
+    }
+
+    return storage.updateTask(task.id, updates);
+  }
+
+  // Time actually spent working on a task, excluding pauses
+  getActiveSeconds(task: Task, now: Date = new Date()): number | null {
+    if (!task.startedAt) return null;
+
+    const end = task.finishedAt ? new Date(task.finishedAt) : now;
+    let paused = task.pausedSeconds || 0;
+    if (task.status === "paused" && task.pausedAt) {
+      paused += secondsBetween(task.pausedAt, end);
+    }
+    return Math.max(0, secondsBetween(task.startedAt, end) - paused);
+  }
+
+  // Tasks that belong in the reports: those archived by the daily reset still
+  // count, those a supervisor deleted by hand do not
+  async listReportableTasks(): Promise<Task[]> {
+    return (await storage.listTasks({ includeDeleted: true })).filter(task => !task.isDeleted || !!task.archivedAt);
+  }
+
+  // Average working time of tasks completed within the period, overall and
+  // per room type, assignee and day
+  async getDurationReport(filters: { dateFrom: Date; dateTo: Date; types?: string[] }): Promise<TaskDurationReport> {
+    const tasks = (await this.listReportableTasks()).filter(task =>
+      task.status === "completed" &&
+      task.startedAt &&
+      task.finishedAt &&
+      new Date(task.finishedAt) >= filters.dateFrom &&
+      new Date(task.finishedAt) < filters.dateTo &&
+      (!filters.types || filters.types.includes(task.type))
+    );
+    const rooms = new Map((await storage.listRooms()).map(room => [room.id, room]));
+    const users = new Map((await storage.listUsers()).map(user => [user.id, user]));
+
+    const summarize = (items: Task[]): TaskDurationBreakdown => {
+      const totalSeconds = items.reduce((sum, task) => sum + (this.getActiveSeconds(task) || 0), 0);
+      return {
+        taskCount: items.length,
+        avgMinutes: items.length > 0 ? Math.round(totalSeconds / items.length / 60) : 0,
+      };
+    };
+
+    const groupBy = (key: (task: Task) => string | null) => {
+      const groups = new Map<string, Task[]>();
+      for (const task of tasks) {
+        const value = key(task);
+        if (!value) continue;
+        groups.set(value, [...(groups.get(value) || []), task]);
+      }
+      return Array.from(groups.entries());
+    };
+
+    return {
+      ...summarize(tasks),
+      byRoomType: groupBy(task => (task.roomId && rooms.get(task.roomId)?.type) || null)
+        .map(([roomType, items]) => ({ roomType, ...summarize(items) }))
+        .sort((a, b) => a.roomType.localeCompare(b.roomType)),
+      byAttendant: groupBy(task => task.assigneeId)
+        .map(([userId, items]) => ({ userId, name: users.get(userId)?.name || "Unknown", ...summarize(items) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      byDay: groupBy(task => new Date(task.finishedAt!).toISOString().split("T")[0])
+        .map(([date, items]) => ({ date, ...summarize(items) }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    };
+  }
+}
+
+export const taskLifecycleService = new TaskLifecycleService();
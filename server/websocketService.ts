@@ -1,16 +1,34 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import type { Server } from 'http';
+import { verifyToken, type JWTPayload } from './auth';
 
 export interface WebSocketMessage {
-  type: 'room_status_changed' | 'task_assigned' | 'task_completed' | 'inspection_completed' | 'panic_alert' | 'user_notification' | 'room_assignment_created' | 'room_assignment_deleted';
+  type: 'room_status_changed' | 'task_assigned' | 'task_completed' | 'inspection_completed' | 'panic_alert' | 'user_notification' | 'room_assignment_created' | 'room_assignment_deleted' | 'work_order_assigned' | 'work_order_sla_changed' | 'shift_clocked_in' | 'shift_clocked_out';
   data: any;
   timestamp: string;
   userId?: string; // For user-specific notifications
 }
 
+// Sockets must send a valid token within this window or they are dropped
+const AUTH_TIMEOUT_MS = 10 * 1000;
+// setTimeout cannot wait longer than this
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Close codes, in the range reserved for applications
+export const WS_CLOSE_UNAUTHENTICATED = 4001;
+export const WS_CLOSE_INVALID_TOKEN = 4003;
+export const WS_CLOSE_TOKEN_EXPIRED = 4004;
+
+interface ClientInfo {
+  userId?: string;
+  role?: string;
+  authTimer?: NodeJS.Timeout;
+  expiryTimer?: NodeJS.Timeout;
+}
+
 export class WebSocketService {
   private wss: WebSocketServer | null = null;
-  private clients: Map<WebSocket, { userId?: string; role?: string }> = new Map();
+  private clients: Map<WebSocket, ClientInfo> = new Map();
 
   initialize(server: Server) {
     this.wss = new WebSocketServer({ 
@@ -21,25 +39,21 @@ export class WebSocketService {
     this.wss.on('connection', (ws: WebSocket, request) => {
       console.log('WebSocket client connected');
       
-      // Store client connection
-      this.clients.set(ws, {});
+      // Unauthenticated until the client sends its token
+      this.clients.set(ws, {
+        authTimer: setTimeout(() => {
+          ws.close(WS_CLOSE_UNAUTHENTICATED, 'Authentication required');
+        }, AUTH_TIMEOUT_MS),
+      });
 
       // Handle client messages
       ws.on('message', (message: string) => {
         try {
           const data = JSON.parse(message);
           
-          // Handle authentication message
-          if (data.type === 'auth' && data.userId && data.role) {
-            this.clients.set(ws, { userId: data.userId, role: data.role });
-            console.log(`WebSocket client authenticated: ${data.userId} (${data.role})`);
-            
-            // Send confirmation
-            this.sendToClient(ws, {
-              type: 'user_notification',
-              data: { message: 'WebSocket connected', status: 'connected' },
-              timestamp: new Date().toISOString()
-            });
+          // Handle authentication message; sending a fresh token re-authenticates
+          if (data.type === 'auth') {
+            this.authenticate(ws, data.token);
           }
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
@@ -49,32 +63,80 @@ export class WebSocketService {
       // Handle client disconnect
       ws.on('close', () => {
         console.log('WebSocket client disconnected');
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
 
       ws.on('error', (error) => {
         console.error('WebSocket error:', error);
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
     });
 
     console.log('WebSocket server initialized on /ws');
   }
 
-  // Send message to a specific client
+  // Verifies the same JWT the REST API accepts and binds the socket to its
+  // user and role until the token expires
+  private authenticate(ws: WebSocket, token: unknown) {
+    const clientInfo = this.clients.get(ws);
+    if (!clientInfo) return;
+
+    let payload: JWTPayload;
+    try {
+      if (typeof token !== 'string') throw new Error('Missing token');
+      payload = verifyToken(token);
+    } catch (error) {
+      console.log('WebSocket client sent an invalid token');
+      ws.close(WS_CLOSE_INVALID_TOKEN, 'Invalid token');
+      return;
+    }
+
+    this.clearTimers(clientInfo);
+    const expiresIn = payload.exp ? payload.exp * 1000 - Date.now() : MAX_TIMER_MS;
+    this.clients.set(ws, {
+      userId: payload.userId,
+      role: payload.role,
+      expiryTimer: setTimeout(() => {
+        console.log(`WebSocket token expired for ${payload.userId}`);
+        ws.close(WS_CLOSE_TOKEN_EXPIRED, 'Token expired');
+      }, Math.min(expiresIn, MAX_TIMER_MS)),
+    });
+    console.log(`WebSocket client authenticated: ${payload.userId} (${payload.role})`);
+    
+    // Send confirmation
+    this.sendToClient(ws, {
+      type: 'user_notification',
+      data: { message: 'WebSocket connected', status: 'connected' },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private clearTimers(clientInfo: ClientInfo) {
+    if (clientInfo.authTimer) clearTimeout(clientInfo.authTimer);
+    if (clientInfo.expiryTimer) clearTimeout(clientInfo.expiryTimer);
+  }
+
+  private removeClient(ws: WebSocket) {
+    const clientInfo = this.clients.get(ws);
+    if (clientInfo) {
+      this.clearTimers(clientInfo);
+      this.clients.delete(ws);
+    }
+  }
+
   private sendToClient(ws: WebSocket, message: WebSocketMessage) {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   }
 
-  // Broadcast to all connected clients
+  // Broadcast to all authenticated clients
   broadcast(message: WebSocketMessage) {
     if (!this.wss) return;
 
     const payload = JSON.stringify(message);
     this.clients.forEach((clientInfo, ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === WebSocket.OPEN && clientInfo.userId) {
         ws.send(payload);
       }
     });
@@ -151,6 +213,43 @@ export class WebSocketService {
     }, ['site_admin', 'head_housekeeper']);
   }
 
+  // Broadcast work order assignment
+  broadcastWorkOrderAssigned(workOrder: any, assignee: any, room?: any) {
+    const message: WebSocketMessage = {
+      type: 'work_order_assigned',
+      data: {
+        workOrder,
+        assignee: {
+          name: assignee.name,
+          role: assignee.role
+        },
+        room
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    this.sendToUser(workOrder.assigneeId, { ...message, userId: workOrder.assigneeId });
+    this.broadcastToRoles(message, ['site_admin', 'head_housekeeper']);
+  }
+
+  // Broadcast a work order moving to at-risk or breached
+  broadcastWorkOrderSlaChanged(workOrder: any, room?: any) {
+    const message: WebSocketMessage = {
+      type: 'work_order_sla_changed',
+      data: {
+        workOrder,
+        slaState: workOrder.slaState,
+        room
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    if (workOrder.assigneeId) {
+      this.sendToUser(workOrder.assigneeId, { ...message, userId: workOrder.assigneeId });
+    }
+    this.broadcastToRoles(message, ['site_admin', 'head_housekeeper']);
+  }
+
   // Broadcast task completion
   broadcastTaskCompleted(task: any, completedBy: any, room?: any) {
     this.broadcastToRoles({
@@ -183,9 +282,9 @@ export class WebSocketService {
     }, ['site_admin', 'head_housekeeper']);
   }
 
-  // Broadcast panic alert
-  broadcastPanicAlert(triggeredBy: any, location: string) {
-    this.broadcast({
+  // Send a panic alert to the same recipients as the alert emails
+  broadcastPanicAlert(triggeredBy: any, location: string, recipients: Array<{ id: string }>) {
+    const message: WebSocketMessage = {
       type: 'panic_alert',
       data: {
         triggeredBy: {
@@ -196,7 +295,11 @@ export class WebSocketService {
         alertTime: new Date().toLocaleString()
       },
       timestamp: new Date().toISOString()
-    });
+    };
+
+    for (const recipient of recipients) {
+      this.sendToUser(recipient.id, { ...message, userId: recipient.id });
+    }
   }
 
   // Get connection stats
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, boolean, jsonb, pgEnum, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -14,7 +14,14 @@ export const workOrderStatusEnum = pgEnum("work_order_status", ["pending", "in_p
 export const pmFrequencyEnum = pgEnum("pm_frequency", ["days_counter", "days_rented"]);
 export const pmStatusEnum = pgEnum("pm_status", ["pending", "in_progress", "completed", "skipped"]);
 export const lostFoundStatusEnum = pgEnum("lost_found_status", ["logged", "stored", "returned", "expired_cleared"]);
-export const reportTypeEnum = pgEnum("report_type", ["ra_average_times", "inspections", "square_foot", "daily_reset"]);
+export const reportTypeEnum = pgEnum("report_type", ["ra_average_times", "inspections", "square_foot", "daily_reset", "lost_found_weekly"]);
+export const slaStateEnum = pgEnum("sla_state", ["on_track", "at_risk", "breached"]);
+export const roomStatusSourceEnum = pgEnum("room_status_source", ["manual", "daily_reset", "inspection", "task_completion", "pms"]);
+export const cleanTypeEnum = pgEnum("clean_type", ["stayover", "checkout", "deep_clean"]);
+export const departmentEnum = pgEnum("department", ["housekeeping", "maintenance", "front_desk"]);
+export const reservationStatusEnum = pgEnum("reservation_status", ["reserved", "checked_in", "checked_out", "cancelled"]);
+export const pmsSyncDirectionEnum = pgEnum("pms_sync_direction", ["outbound", "inbound"]);
+export const pmsSyncStatusEnum = pgEnum("pms_sync_status", ["succeeded", "failed"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -34,11 +41,26 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Room type catalog. Standard minutes and checklists are keyed by clean type;
+// credits weigh a room in attendant workloads.
+export const roomTypes = pgTable("room_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  standardMinutes: jsonb("standard_minutes").notNull(),
+  credits: real("credits").notNull().default(1),
+  checklists: jsonb("checklists").notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Rooms table
 export const rooms = pgTable("rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   number: text("number").notNull().unique(),
+  // Name of the linked room type, or free text for rooms not in the catalog
   type: text("type").notNull(),
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   floor: integer("floor"),
   status: roomStatusEnum("status").default("dirty"),
   squareFootage: integer("square_footage"),
@@ -55,15 +77,23 @@ export const tasks = pgTable("tasks", {
   status: taskStatusEnum("status").default("pending"),
   priority: priorityEnum("priority").default("medium"),
   roomId: varchar("room_id").references(() => rooms.id),
+  // Which of the room type's standard times applies to a cleaning task
+  cleanType: cleanTypeEnum("clean_type"),
   assigneeId: varchar("assignee_id").references(() => users.id),
   createdById: varchar("created_by_id").references(() => users.id).notNull(),
   dueAt: timestamp("due_at"),
   startedAt: timestamp("started_at"),
   pausedAt: timestamp("paused_at"),
+  // Total time spent paused, added up each time the task resumes or ends
+  pausedSeconds: integer("paused_seconds").default(0),
   finishedAt: timestamp("finished_at"),
   verifiedById: varchar("verified_by_id").references(() => users.id),
+  // Set on re-clean tasks raised by a failed inspection
+  inspectionId: varchar("inspection_id").references(() => inspections.id),
   notes: text("notes"),
   isDeleted: boolean("is_deleted").default(false),
+  // Set when the daily reset archives a completed task; a task deleted by hand has none
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -76,16 +106,43 @@ export const taskPhotos = pgTable("task_photos", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Inspection templates table
+export const inspectionTemplates = pgTable("inspection_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: inspectionKindEnum("kind").notNull(),
+  // Room templates apply to every room unless they name a room type
+  roomType: text("room_type"),
+  sections: jsonb("sections").notNull(),
+  // Lowest score, as a percentage of the total item weight, that passes
+  passThreshold: integer("pass_threshold").notNull().default(80),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Inspections table
 export const inspections = pgTable("inspections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   kind: inspectionKindEnum("kind").notNull(),
   roomId: varchar("room_id").references(() => rooms.id),
   inspectorId: varchar("inspector_id").references(() => users.id).notNull(),
+  templateId: varchar("template_id").references(() => inspectionTemplates.id),
   checklist: jsonb("checklist").notNull(),
+  // Copied from the template so later template edits don't change past results
+  passThreshold: integer("pass_threshold"),
   score: integer("score"),
   passFail: boolean("pass_fail"),
   signedAt: timestamp("signed_at"),
+  // The drawn signature, and a SHA-256 of the checklist, score and signature taken at sign-off
+  signatureUrl: text("signature_url"),
+  signatureHash: text("signature_hash"),
+  // A signed inspection is locked; an admin unlock allows changes until it is signed again
+  unlockedAt: timestamp("unlocked_at"),
+  unlockedById: varchar("unlocked_by_id").references(() => users.id),
+  unlockReason: text("unlock_reason"),
+  // A failed room inspection stays open until a re-inspection of the room passes
+  reinspectionId: varchar("reinspection_id").references((): AnyPgColumn => inspections.id),
+  remediatedAt: timestamp("remediated_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -99,8 +156,12 @@ export const workOrders = pgTable("work_orders", {
   assigneeId: varchar("assignee_id").references(() => users.id),
   status: workOrderStatusEnum("status").default("pending"),
   slaDueAt: timestamp("sla_due_at"),
+  slaState: slaStateEnum("sla_state").default("on_track"),
+  slaEscalatedAt: timestamp("sla_escalated_at"),
   parts: jsonb("parts"),
   laborMins: integer("labor_mins"),
+  // Set on work orders raised by a failed inspection
+  inspectionId: varchar("inspection_id").references(() => inspections.id),
   closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -113,6 +174,9 @@ export const pmTemplates = pgTable("pm_templates", {
   frequency: pmFrequencyEnum("frequency").notNull(),
   interval: integer("interval").notNull(),
   checklist: jsonb("checklist").notNull(),
+  // A template covers every room (optionally only one room type) unless it names a single asset
+  roomType: text("room_type"),
+  asset: text("asset"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -120,10 +184,13 @@ export const pmTemplates = pgTable("pm_templates", {
 export const pmInstances = pgTable("pm_instances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   templateId: varchar("template_id").references(() => pmTemplates.id).notNull(),
+  roomId: varchar("room_id").references(() => rooms.id),
   dueAt: timestamp("due_at").notNull(),
   status: pmStatusEnum("status").default("pending"),
   assigneeId: varchar("assignee_id").references(() => users.id),
   completedAt: timestamp("completed_at"),
+  skipReason: text("skip_reason"),
+  checklistResults: jsonb("checklist_results"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -145,8 +212,16 @@ export const lostFoundItems = pgTable("lost_found_items", {
   locationFound: text("location_found").notNull(),
   storageArea: text("storage_area"),
   status: lostFoundStatusEnum("status").default("logged"),
+  roomId: varchar("room_id").references(() => rooms.id),
+  photos: jsonb("photos"),
   expireAt: timestamp("expire_at"),
   foundById: varchar("found_by_id").references(() => users.id).notNull(),
+  claimantName: text("claimant_name"),
+  claimantContact: text("claimant_contact"),
+  returnNotes: text("return_notes"),
+  returnedById: varchar("returned_by_id").references(() => users.id),
+  returnedAt: timestamp("returned_at"),
+  clearedAt: timestamp("cleared_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -182,6 +257,90 @@ export const roomComments = pgTable("room_comments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Room status history, one row per status change
+export const roomStatusEvents = pgTable("room_status_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: varchar("room_id").references(() => rooms.id).notNull(),
+  fromStatus: roomStatusEnum("from_status"),
+  toStatus: roomStatusEnum("to_status").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  source: roomStatusSourceEnum("source").notNull().default("manual"),
+  notes: text("notes"),
+  workOrderId: varchar("work_order_id").references(() => workOrders.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Scheduled staff shifts. Date and times are the hotel's local time; a shift
+// that ends before it starts runs past midnight.
+export const shifts = pgTable("shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  date: text("date").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  department: departmentEnum("department").notNull(),
+  clockedInAt: timestamp("clocked_in_at"),
+  clockedOutAt: timestamp("clocked_out_at"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Guest reservations imported from the PMS. Dates are the hotel's local
+// dates; the guest stays the nights from arrival up to, not including, departure.
+export const reservations = pgTable("reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  externalId: text("external_id"),
+  roomId: varchar("room_id").references(() => rooms.id).notNull(),
+  guestName: text("guest_name"),
+  arrivalDate: text("arrival_date").notNull(),
+  departureDate: text("departure_date").notNull(),
+  status: reservationStatusEnum("status").default("reserved"),
+  doNotDisturb: boolean("do_not_disturb").default(false),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One exchange with the PMS: a room status pushed out or a guest event
+// received. The payload is kept so failed exchanges can be retried; the room
+// id has no foreign key so entries outlive the rooms they refer to.
+export const pmsSyncLogs = pgTable("pms_sync_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  direction: pmsSyncDirectionEnum("direction").notNull(),
+  action: text("action").notNull(),
+  roomId: varchar("room_id"),
+  payload: jsonb("payload").notNull(),
+  status: pmsSyncStatusEnum("status").notNull(),
+  attempts: integer("attempts").default(1),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Audit log of mutating API calls. Actor and entity ids are kept without
+// foreign keys so entries outlive the users and records they refer to.
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id"),
+  actorName: text("actor_name"),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id"),
+  action: text("action").notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  changes: jsonb("changes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Admin-editable settings, stored as one JSON document per key
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -204,22 +363,157 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   updatedAt: true,
 });
 
+// Lifecycle fields are set by the task action endpoints and the inspection
+// link by a failed inspection, never by clients
+export const createTaskSchema = insertTaskSchema.omit({
+  status: true,
+  startedAt: true,
+  pausedAt: true,
+  pausedSeconds: true,
+  finishedAt: true,
+  verifiedById: true,
+  inspectionId: true,
+  isDeleted: true,
+  archivedAt: true,
+});
+
+export const updateTaskSchema = createTaskSchema.omit({ createdById: true }).partial().strict();
+
+export const inspectionTemplateItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, "Checklist item title is required"),
+  description: z.string().optional(),
+  weight: z.number().positive().default(1),
+  // A failed critical item fails the whole inspection, whatever the score
+  critical: z.boolean().default(false),
+  // Failed maintenance items raise a work order instead of a re-clean task
+  maintenance: z.boolean().default(false),
+});
+
+export const inspectionTemplateSectionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, "Section title is required"),
+  items: z.array(inspectionTemplateItemSchema).min(1, "A section needs at least one item"),
+});
+
+const inspectionTemplateFieldsSchema = createInsertSchema(inspectionTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Template name is required"),
+  roomType: z.string().trim().min(1).nullable().optional(),
+  sections: z.array(inspectionTemplateSectionSchema).min(1, "A template needs at least one section"),
+  passThreshold: z.number().int().min(0).max(100).optional(),
+});
+
+export const insertInspectionTemplateSchema = inspectionTemplateFieldsSchema
+  .refine(template => {
+    const ids = template.sections.flatMap(section => section.items.map(item => item.id));
+    return new Set(ids).size === ids.length;
+  }, { message: "Checklist item ids must be unique", path: ["sections"] })
+  .refine(template => template.kind === "room" || !template.roomType, {
+    message: "Process templates can't be limited to a room type",
+    path: ["roomType"],
+  });
+
+export const updateInspectionTemplateSchema = inspectionTemplateFieldsSchema.partial();
+
+// One checklist entry of an inspection, copied from its template when created
+export const inspectionChecklistItemSchema = z.object({
+  id: z.string().min(1),
+  sectionId: z.string().optional(),
+  section: z.string().optional(),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  weight: z.number().positive().default(1),
+  critical: z.boolean().default(false),
+  maintenance: z.boolean().default(false),
+  completed: z.boolean().default(false),
+  // Unset until the inspector passes or fails the item
+  passed: z.boolean().optional(),
+  notes: z.string().optional(),
+  photos: z.array(z.string()).optional(),
+});
+
 export const insertInspectionSchema = createInsertSchema(inspections).omit({
   id: true,
   createdAt: true,
 });
 
+// Inspectors create an inspection from a template; the server builds the checklist
+export const createInspectionSchema = z.object({
+  kind: z.enum(inspectionKindEnum.enumValues),
+  roomId: z.string().nullable().optional(),
+  templateId: z.string().min(1, "Choose an inspection template"),
+});
+
+// Score and pass/fail are always worked out on the server from the checklist
+export const updateInspectionSchema = z.object({
+  checklist: z.array(inspectionChecklistItemSchema.pick({
+    id: true,
+    completed: true,
+    passed: true,
+    notes: true,
+    photos: true,
+  })).optional(),
+  // The inspector's signature drawn on the page; the server records when it was signed
+  signature: z.string()
+    .regex(/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/, "Signature must be a PNG image")
+    .optional(),
+});
+
+export const unlockInspectionSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for unlocking the inspection"),
+});
+
 export const insertWorkOrderSchema = createInsertSchema(workOrders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const pmChecklistItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, "Checklist item title is required"),
+  description: z.string().optional(),
+  requiresPhoto: z.boolean().optional(),
+});
+
 export const insertPMTemplateSchema = createInsertSchema(pmTemplates).omit({
   id: true,
   createdAt: true,
+}).extend({
+  interval: z.number().int().positive(),
+  checklist: z.array(pmChecklistItemSchema).min(1, "A PM template needs at least one checklist item"),
+});
+
+export const cleanTypeMinutesSchema = z.object({
+  stayover: z.number().int().positive(),
+  checkout: z.number().int().positive(),
+  deep_clean: z.number().int().positive(),
 });
 
+// Room type checklists use the same item shape as PM checklists
+export const roomTypeChecklistsSchema = z.object({
+  stayover: z.array(pmChecklistItemSchema),
+  checkout: z.array(pmChecklistItemSchema),
+  deep_clean: z.array(pmChecklistItemSchema),
+}).partial();
+
+export const insertRoomTypeSchema = createInsertSchema(roomTypes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Room type name is required"),
+  standardMinutes: cleanTypeMinutesSchema,
+  credits: z.number().positive().optional(),
+  checklists: roomTypeChecklistsSchema.optional(),
+});
+
+export const updateRoomTypeSchema = insertRoomTypeSchema.partial();
+
 export const insertPMInstanceSchema = createInsertSchema(pmInstances).omit({
   id: true,
   createdAt: true,
@@ -233,8 +527,17 @@ export const insertPanicEventSchema = createInsertSchema(panicEvents).omit({
 
 export const insertLostFoundItemSchema = createInsertSchema(lostFoundItems).omit({
   id: true,
+  claimantName: true,
+  claimantContact: true,
+  returnNotes: true,
+  returnedById: true,
+  returnedAt: true,
+  clearedAt: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  photos: z.array(z.string()).optional(),
+  expireAt: z.coerce.date().optional(),
 });
 
 export const insertReportRunSchema = createInsertSchema(reportRuns).omit({
@@ -254,16 +557,73 @@ export const insertRoomCommentSchema = createInsertSchema(roomComments).omit({
   updatedAt: true,
 });
 
+export const insertRoomStatusEventSchema = createInsertSchema(roomStatusEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+
+// Clock times are set by the clock-in and clock-out endpoints
+const shiftFieldsSchema = createInsertSchema(shifts).omit({
+  id: true,
+  clockedInAt: true,
+  clockedOutAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  date: localDateSchema,
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+});
+
+export const insertShiftSchema = shiftFieldsSchema.refine(shift => shift.startTime !== shift.endTime, {
+  message: "A shift cannot start and end at the same time",
+  path: ["endTime"],
+});
+
+export const updateShiftSchema = shiftFieldsSchema.omit({ createdById: true }).partial();
+
+export const insertReservationSchema = createInsertSchema(reservations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPmsSyncLogSchema = createInsertSchema(pmsSyncLogs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RoomType = typeof roomTypes.$inferSelect;
+export type InsertRoomType = z.infer<typeof insertRoomTypeSchema>;
+export type CleanType = typeof cleanTypeEnum.enumValues[number];
+export type CleanTypeMinutes = z.infer<typeof cleanTypeMinutesSchema>;
+export type RoomTypeChecklists = z.infer<typeof roomTypeChecklistsSchema>;
 export type Room = typeof rooms.$inferSelect;
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
 export type TaskPhoto = typeof taskPhotos.$inferSelect;
 export type Inspection = typeof inspections.$inferSelect;
 export type InsertInspection = z.infer<typeof insertInspectionSchema>;
+export type UpdateInspection = z.infer<typeof updateInspectionSchema>;
+export type InspectionChecklistItem = z.infer<typeof inspectionChecklistItemSchema>;
+export type InspectionTemplate = typeof inspectionTemplates.$inferSelect;
+export type InsertInspectionTemplate = z.infer<typeof insertInspectionTemplateSchema>;
+export type InspectionTemplateSection = z.infer<typeof inspectionTemplateSectionSchema>;
 export type WorkOrder = typeof workOrders.$inferSelect;
 export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
 export type PMTemplate = typeof pmTemplates.$inferSelect;
@@ -272,12 +632,556 @@ export type PMInstance = typeof pmInstances.$inferSelect;
 export type InsertPMInstance = z.infer<typeof insertPMInstanceSchema>;
 export type PanicEvent = typeof panicEvents.$inferSelect;
 export type InsertPanicEvent = z.infer<typeof insertPanicEventSchema>;
+export type LostFoundItem = typeof lostFoundItems.$inferSelect;
+export type InsertLostFoundItem = z.infer<typeof insertLostFoundItemSchema>;
 export type ReportRun = typeof reportRuns.$inferSelect;
 export type InsertReportRun = z.infer<typeof insertReportRunSchema>;
 export type RoomAssignment = typeof roomAssignments.$inferSelect;
 export type InsertRoomAssignment = z.infer<typeof insertRoomAssignmentSchema>;
 export type RoomComment = typeof roomComments.$inferSelect;
 export type InsertRoomComment = z.infer<typeof insertRoomCommentSchema>;
+export type RoomStatusEvent = typeof roomStatusEvents.$inferSelect;
+export type InsertRoomStatusEvent = z.infer<typeof insertRoomStatusEventSchema>;
+export type Shift = typeof shifts.$inferSelect;
+export type InsertShift = z.infer<typeof insertShiftSchema>;
+export type UpdateShift = z.infer<typeof updateShiftSchema>;
+export type Department = typeof departmentEnum.enumValues[number];
+export type Reservation = typeof reservations.$inferSelect;
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+export type ReservationStatus = typeof reservationStatusEnum.enumValues[number];
+export type PmsSyncLog = typeof pmsSyncLogs.$inferSelect;
+export type InsertPmsSyncLog = z.infer<typeof insertPmsSyncLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AppSetting = typeof appSettings.$inferSelect;
+
+// Task lifecycle
+export type TaskStatus = typeof taskStatusEnum.enumValues[number];
+export type TaskAction = "start" | "pause" | "resume" | "complete" | "fail" | "verify";
+
+// Statuses each task action may be taken from, and the status it leads to.
+// Verifying signs off a completed task without changing its status.
+export const taskActionTransitions: Record<TaskAction, { from: TaskStatus[]; to: TaskStatus }> = {
+  start: { from: ["pending"], to: "in_progress" },
+  pause: { from: ["in_progress"], to: "paused" },
+  resume: { from: ["paused"], to: "in_progress" },
+  complete: { from: ["in_progress", "paused"], to: "completed" },
+  fail: { from: ["pending", "in_progress", "paused"], to: "failed" },
+  verify: { from: ["completed"], to: "completed" },
+};
+
+export const taskActionSchema = z.object({
+  notes: z.string().optional(),
+});
+
+// Work order lifecycle
+export type WorkOrderStatus = typeof workOrderStatusEnum.enumValues[number];
+
+// Statuses a work order may move to from each status; completed and cancelled are final
+export const workOrderStatusTransitions: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  pending: ["in_progress", "on_hold", "cancelled"],
+  in_progress: ["on_hold", "completed", "cancelled"],
+  on_hold: ["in_progress", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export const workOrderPartSchema = z.object({
+  name: z.string().min(1, "Part name is required"),
+  quantity: z.number().int().positive(),
+  unitCost: z.number().nonnegative().optional(),
+});
+
+export const updateWorkOrderSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+  roomId: z.string().nullable().optional(),
+  status: z.enum(workOrderStatusEnum.enumValues).optional(),
+  parts: z.array(workOrderPartSchema).optional(),
+  laborMins: z.number().int().min(0).optional(),
+});
+
+// Assignment goes through its own endpoint so the assignee is notified
+export const assignWorkOrderSchema = z.object({
+  assigneeId: z.string().min(1).nullable(),
+});
+
+export type WorkOrderPart = z.infer<typeof workOrderPartSchema>;
+export type UpdateWorkOrder = z.infer<typeof updateWorkOrderSchema>;
+export type AssignWorkOrder = z.infer<typeof assignWorkOrderSchema>;
+
+// Preventive maintenance execution
+export const pmChecklistResultSchema = z.object({
+  itemId: z.string(),
+  done: z.boolean(),
+  notes: z.string().optional(),
+  photos: z.array(z.string()).default([]),
+});
+
+export const updatePMTemplateSchema = insertPMTemplateSchema.partial();
+
+export const updatePMInstanceSchema = z.object({
+  status: z.enum(pmStatusEnum.enumValues).optional(),
+  assigneeId: z.string().nullable().optional(),
+  checklistResults: z.array(pmChecklistResultSchema).optional(),
+  skipReason: z.string().trim().min(1).optional(),
+}).refine(data => data.status !== "skipped" || !!data.skipReason, {
+  message: "A reason is required to skip a PM instance",
+  path: ["skipReason"],
+});
+
+export type PMChecklistItem = z.infer<typeof pmChecklistItemSchema>;
+export type PMChecklistResult = z.infer<typeof pmChecklistResultSchema>;
+export type UpdatePMInstance = z.infer<typeof updatePMInstanceSchema>;
+
+// Lost & Found lifecycle
+export type LostFoundStatus = typeof lostFoundStatusEnum.enumValues[number];
+
+// Returned and cleared items are final
+export const lostFoundStatusTransitions: Record<LostFoundStatus, LostFoundStatus[]> = {
+  logged: ["stored", "returned", "expired_cleared"],
+  stored: ["returned", "expired_cleared"],
+  returned: [],
+  expired_cleared: [],
+};
+
+export const updateLostFoundItemSchema = z.object({
+  description: z.string().min(1).optional(),
+  locationFound: z.string().min(1).optional(),
+  storageArea: z.string().nullable().optional(),
+  roomId: z.string().nullable().optional(),
+  photos: z.array(z.string()).optional(),
+  expireAt: z.coerce.date().optional(),
+  status: z.enum(["stored", "expired_cleared"]).optional(),
+});
+
+export const returnLostFoundItemSchema = z.object({
+  claimantName: z.string().trim().min(1, "Claimant name is required"),
+  claimantContact: z.string().trim().min(1, "Claimant contact is required"),
+  returnNotes: z.string().optional(),
+});
+
+export type UpdateLostFoundItem = z.infer<typeof updateLostFoundItemSchema>;
+export type ReturnLostFoundItem = z.infer<typeof returnLostFoundItemSchema>;
+
+// Room status changes
+export type RoomStatus = typeof roomStatusEnum.enumValues[number];
+export type RoomStatusSource = typeof roomStatusSourceEnum.enumValues[number];
+
+export const updateRoomStatusSchema = z.object({
+  status: z.enum(roomStatusEnum.enumValues),
+  notes: z.string().optional(),
+  inspectionId: z.string().optional(),
+  workOrderId: z.string().optional(),
+});
+
+// One allowed transition; a status change with no matching rule is rejected
+export const roomStatusRuleSchema = z.object({
+  from: z.enum(roomStatusEnum.enumValues),
+  to: z.enum(roomStatusEnum.enumValues),
+  roles: z.array(z.enum(userRoleEnum.enumValues)).min(1, "At least one role is required"),
+  requiresWorkOrder: z.boolean().default(false),
+});
+
+export const roomStatusRulesSchema = z.array(roomStatusRuleSchema)
+  .refine(rules => rules.every(rule => rule.from !== rule.to), "A rule cannot move a room to the status it already has")
+  .refine(
+    rules => new Set(rules.map(rule => `${rule.from}:${rule.to}`)).size === rules.length,
+    "Each transition can only have one rule"
+  );
+
+export type UpdateRoomStatus = z.infer<typeof updateRoomStatusSchema>;
+export type RoomStatusRule = z.infer<typeof roomStatusRuleSchema>;
+
+// Field-level changes recorded in an audit log entry
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  limit?: number;
+}
+
+// SLA targets, in minutes from creation, per work order priority
+export const slaTargetsSchema = z.object({
+  low: z.number().int().positive(),
+  medium: z.number().int().positive(),
+  high: z.number().int().positive(),
+  urgent: z.number().int().positive(),
+  // Share of the SLA window after which an open work order is at risk
+  atRiskPercent: z.number().int().min(1).max(99),
+});
+
+export type SlaState = typeof slaStateEnum.enumValues[number];
+export type SlaTargets = z.infer<typeof slaTargetsSchema>;
+
+// The number of days back from now that a report covers
+export const reportPeriodQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(7),
+});
+
+// Board assignment: the clean each room status calls for. Rooms in other
+// statuses are not put on the board.
+export const roomStatusCleanTypes: Partial<Record<RoomStatus, CleanType>> = {
+  dirty: "checkout",
+  out: "checkout",
+  roll: "stayover",
+};
+
+// Without attendant ids the board goes to the room attendants on duty
+export const autoAssignPreviewSchema = z.object({
+  attendantIds: z.array(z.string()).min(1, "Select at least one attendant").optional(),
+  balanceBy: z.enum(["minutes", "credits"]).default("minutes"),
+});
+
+export const autoAssignCommitSchema = z.object({
+  assignments: z.array(z.object({
+    userId: z.string(),
+    rooms: z.array(z.object({
+      roomId: z.string(),
+      cleanType: z.enum(cleanTypeEnum.enumValues),
+    })),
+  })).min(1, "The board has no assignments"),
+});
+
+export interface BoardRoom {
+  roomId: string;
+  number: string;
+  floor: number | null;
+  roomType: string;
+  cleanType: CleanType;
+  expectedMinutes: number;
+  credits: number;
+}
+
+export interface BoardAssignment {
+  userId: string;
+  name: string;
+  rooms: BoardRoom[];
+  totalMinutes: number;
+  totalCredits: number;
+  floors: number[];
+}
+
+export interface BoardPlan {
+  balanceBy: "minutes" | "credits";
+  assignments: BoardAssignment[];
+}
+
+export type AutoAssignPreview = z.infer<typeof autoAssignPreviewSchema>;
+export type AutoAssignCommit = z.infer<typeof autoAssignCommitSchema>;
+
+// A clocked-in staff member, as listed by the on-duty roster
+export interface OnDutyStaff {
+  shiftId: string;
+  userId: string;
+  name: string;
+  role: User["role"];
+  department: Department;
+  startTime: string;
+  endTime: string;
+  clockedInAt: Date;
+}
+
+// Occupancy feed. Rows name rooms by number, as PMS exports do; status and
+// do-not-disturb are left alone when an update to a reservation omits them.
+export const reservationImportSchema = z.object({
+  externalId: z.string().min(1).optional(),
+  roomNumber: z.coerce.string().min(1, "Room number is required"),
+  guestName: z.string().optional(),
+  arrivalDate: localDateSchema,
+  departureDate: localDateSchema,
+  status: z.enum(reservationStatusEnum.enumValues).optional(),
+  doNotDisturb: z.boolean().optional(),
+}).refine(row => row.departureDate > row.arrivalDate, {
+  message: "Departure must be after arrival",
+  path: ["departureDate"],
+});
+
+export const occupancyImportSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().min(1, "The file is empty"),
+});
+
+export const occupancyWebhookSchema = z.object({
+  reservations: z.array(z.unknown()).min(1, "No reservations in the payload"),
+});
+
+export const updateReservationSchema = z.object({
+  status: z.enum(reservationStatusEnum.enumValues).optional(),
+  doNotDisturb: z.boolean().optional(),
+});
+
+// How a room is occupied on a given date: a departure leaves that morning,
+// an arrival comes that day, and a turnover has both.
+export type OccupancyState = "vacant" | "arrival" | "departure" | "turnover" | "stayover";
+
+export interface RoomOccupancy {
+  roomId: string;
+  roomNumber: string;
+  state: OccupancyState;
+  // The stay in the room tonight, which do-not-disturb belongs to
+  reservationId: string | null;
+  // The guest in the room tonight, or the departing guest when nobody stays
+  guestName: string | null;
+  doNotDisturb: boolean;
+}
+
+export interface OccupancyImportResult {
+  created: number;
+  updated: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+export type ReservationImport = z.infer<typeof reservationImportSchema>;
+export type OccupancyImport = z.infer<typeof occupancyImportSchema>;
+export type UpdateReservation = z.infer<typeof updateReservationSchema>;
+
+// PMS integration. Guest events arrive through the PMS webhook; room
+// numbers are the link between the two systems.
+export const pmsGuestEventSchema = z.object({
+  type: z.enum(["check_in", "check_out"]),
+  roomNumber: z.coerce.string().min(1, "Room number is required"),
+  externalId: z.string().min(1).optional(),
+  guestName: z.string().optional(),
+  // Needed on check-in when the stay was never imported
+  departureDate: localDateSchema.optional(),
+});
+
+export const pmsWebhookSchema = z.object({
+  events: z.array(pmsGuestEventSchema).min(1, "No events in the payload"),
+});
+
+export interface PmsRoomStatusUpdate {
+  roomNumber: string;
+  status: RoomStatus;
+  changedAt: string;
+}
+
+export interface PmsStatus {
+  adapter: string | null;
+  webhookConfigured: boolean;
+  failedSyncs: number;
+}
+
+export type PmsGuestEvent = z.infer<typeof pmsGuestEventSchema>;
+export type PmsSyncDirection = typeof pmsSyncDirectionEnum.enumValues[number];
+
+// Daily reset configuration. The status rules apply to every room; with an
+// occupancy feed, checkouts and stayovers follow who is in them instead.
+const resetStatusSchema = z.enum(roomStatusEnum.enumValues);
+
+export const dailyResetConfigSchema = z.object({
+  resetTime: timeOfDaySchema,
+  // An IANA timezone name; null runs the reset in the server's timezone
+  timezone: z.string().refine(timeZone => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown timezone").nullable(),
+  statusRules: z.object({
+    dirty: resetStatusSchema,
+    ready: resetStatusSchema,
+    clean_inspected: resetStatusSchema,
+    roll: resetStatusSchema,
+    out: resetStatusSchema,
+    maintenance: resetStatusSchema,
+    out_of_order: resetStatusSchema,
+  }),
+  clearAssignments: z.boolean(),
+  clearComments: z.boolean(),
+  // Completed tasks are archived once they have been finished this many days; 0 archives them at every reset
+  completedTaskRetentionDays: z.number().int().min(0).max(365),
+});
+
+export type DailyResetConfig = z.infer<typeof dailyResetConfigSchema>;
+
+export interface DailyResetRoomChange {
+  roomId: string;
+  roomNumber: string;
+  fromStatus: RoomStatus;
+  toStatus: RoomStatus;
+  reason: string;
+}
+
+// What the next reset would do if it ran now
+export interface DailyResetPreview {
+  date: string;
+  nextResetAt: string;
+  usesOccupancy: boolean;
+  roomChanges: DailyResetRoomChange[];
+  assignmentsCleared: number;
+  commentsCleared: number;
+  tasksArchived: number;
+}
+
+// The report each reset saves: how the operation stood when the day closed
+export interface DailyResetMetrics {
+  roomMetrics: {
+    totalRooms: number;
+    readyRooms: number;
+    rollRooms: number;
+    outRooms: number;
+    cleanInspectedRooms: number;
+    dirtyRooms: number;
+    maintenanceRooms: number;
+    outOfOrderRooms: number;
+  };
+  tasksSummary: {
+    totalTasks: number;
+    completedTasks: number;
+    pendingTasks: number;
+  };
+  workOrdersSummary: {
+    totalWorkOrders: number;
+    completedWorkOrders: number;
+    pendingWorkOrders: number;
+  };
+}
+
+export interface DailyResetReport extends DailyResetMetrics {
+  date: string;
+  roomStatuses: Array<{
+    roomId: string;
+    roomNumber: string;
+    finalStatus: string;
+    assignedUser?: string;
+    completedTasks: number;
+    openComments: number;
+  }>;
+  resetTime: Date;
+}
+
+// A saved report without its per-room breakdown, for browsing and charts
+export interface DailyResetHistoryEntry extends DailyResetMetrics {
+  id: string;
+  date: string;
+  resetTime: Date;
+}
+
+export interface DailyResetHistoryPage {
+  reports: DailyResetHistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Two days side by side; the difference is the right day minus the left
+export interface DailyResetComparison {
+  left: DailyResetHistoryEntry;
+  right: DailyResetHistoryEntry;
+  difference: DailyResetMetrics;
+}
+
+export const dailyResetHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  dateFrom: localDateSchema.optional(),
+  dateTo: localDateSchema.optional(),
+});
+
+export const dailyResetCompareQuerySchema = z.object({
+  left: localDateSchema,
+  right: localDateSchema,
+});
+
+export const dailyResetTrendsQuerySchema = z.object({
+  days: z.coerce.number().int().min(2).max(365).default(30),
+});
+
+export type DailyResetHistoryQuery = z.infer<typeof dailyResetHistoryQuerySchema>;
+
+// An inspection with whether its results still match what was signed; null
+// when it has not been signed
+export interface InspectionWithSignatureCheck extends Inspection {
+  signatureValid: boolean | null;
+}
+
+// The re-clean tasks and work orders raised by a failed room inspection
+export interface InspectionRemediation {
+  tasks: Task[];
+  workOrders: WorkOrder[];
+}
+
+export const inspectionAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Signed inspections only; scores are the average over those
+export interface InspectionScoreBreakdown {
+  inspections: number;
+  passed: number;
+  failed: number;
+  passRate: number;
+  avgScore: number;
+}
+
+export interface InspectionScoreTrendPoint {
+  date: string;
+  inspections: number;
+  avgScore: number;
+}
+
+// How often a checklist item failed out of the times it was checked
+export interface InspectionItemFailureRate {
+  title: string;
+  section: string | null;
+  critical: boolean;
+  maintenance: boolean;
+  checked: number;
+  failed: number;
+  failureRate: number;
+}
+
+export interface InspectionAnalytics extends InspectionScoreBreakdown {
+  pending: number;
+  items: InspectionItemFailureRate[];
+  // Room inspections credited to the attendant who last cleaned the room
+  byAttendant: Array<InspectionScoreBreakdown & { userId: string; name: string }>;
+  byFloor: Array<InspectionScoreBreakdown & { floor: number; trend: InspectionScoreTrendPoint[] }>;
+  byRoomType: Array<InspectionScoreBreakdown & { roomType: string; trend: InspectionScoreTrendPoint[] }>;
+  trend: InspectionScoreTrendPoint[];
+}
+
+// Printed on every PDF the server renders
+export const propertyBrandingSchema = z.object({
+  name: z.string().trim().min(1, "Property name is required").max(100),
+  address: z.string().trim().max(200),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Accent color must be a hex color such as #1d4ed8"),
+  logo: z.string()
+    .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/, "Logo must be a PNG or JPEG image")
+    .max(700000, "Logo must be smaller than 500 KB")
+    .nullable(),
+});
+
+export type PropertyBranding = z.infer<typeof propertyBrandingSchema>;
+
+export interface ReportDurationBreakdown {
+  taskCount: number;
+  avgMinutes: number;
+}
+
+// The Reports page overview for the last `days` days
+export interface ReportsOverview {
+  totalRooms: number;
+  tasksCompleted: number;
+  completionRate: number;
+  avgCleaningTime: number;
+  timedTasks: number;
+  previousAvgCleaningTime: number | null;
+  avgCleaningTimeChange: number | null;
+  cleaningTimeByRoomType: Array<ReportDurationBreakdown & { roomType: string }>;
+  cleaningTimeByAttendant: Array<ReportDurationBreakdown & { userId: string; name: string }>;
+  activeStaff: number;
+}
 
 // Login schema
 export const loginSchema = z.object({